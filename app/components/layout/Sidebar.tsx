@@ -2,12 +2,24 @@
 
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
-import { Home, CheckSquare, FileText, Book, Settings, List, CheckCircle2 } from 'lucide-react';
+import {
+  Home,
+  CheckSquare,
+  CalendarDays,
+  Clock,
+  FileText,
+  Book,
+  Settings,
+  List,
+  CheckCircle2,
+} from 'lucide-react';
 import { useState, useEffect, forwardRef } from 'react';
 
 const navItems = [
   { name: 'Home', icon: Home, href: '/protected' },
   { name: 'Tasks', icon: CheckSquare, href: '/protected/tasks' },
+  { name: 'Calendar', icon: CalendarDays, href: '/protected/calendar' },
+  { name: 'Timesheets', icon: Clock, href: '/protected/timesheets' },
   { name: 'Forms', icon: FileText, href: '/protected/forms' },
   { name: 'Entries', icon: List, href: '/protected/entries' },
   { name: 'Site Diaries', icon: Book, href: '/protected/site-diaries' },
@@ -6,7 +6,7 @@ import { Avatar, AvatarFallback, AvatarImage } from '../ui/avatar';
 import { X, Pencil, Check, Send, Plus, Calendar } from 'lucide-react';
 import StatusPill from './StatusPill';
 import PriorityPill from './PriorityPill';
-import { useState, useRef, useEffect, ChangeEvent } from 'react';
+import { useState, useRef, useEffect, useCallback, ChangeEvent } from 'react';
 import { getSupabaseClient } from '@/lib/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
 import { useTaskMetadata } from '../../protected/tasks/hooks';
@@ -15,10 +15,14 @@ import { DatePicker } from '@/components/ui/date-picker';
 import { AssigneeSelector } from '@/components/AssigneeSelector';
 import TaskFileUploader from '@/components/task-file-uploader';
 import { uploadTaskAttachment } from '@/lib/api/task-attachments';
+import { TaskRecurrenceRule } from '@/app/protected/tasks/models';
+import { validateRecurrenceRule } from '@/lib/utils/task-recurrence';
+import { RecurrenceEditor } from './RecurrenceEditor';
 
 type Status = Database['public']['Tables']['statuses']['Row'];
 type Priority = Database['public']['Tables']['priorities']['Row'];
 type Label = Database['public']['Tables']['labels']['Row'];
+type ParentTaskOption = Pick<Database['public']['Tables']['tasks']['Row'], 'id' | 'title'>;
 
 interface AddTaskDrawerProps {
   isOpen: boolean;
@@ -44,7 +48,11 @@ export function AddTaskDrawer({
   const [priorityId, setPriorityId] = useState<number | null>(
     allPriorities.find((p) => p.is_default)?.id || allPriorities[0]?.id || null,
   );
+  const [startDate, setStartDate] = useState<Date | undefined>(undefined);
   const [dueDate, setDueDate] = useState<Date | undefined>(undefined);
+  const [parentTaskId, setParentTaskId] = useState<number | null>(null);
+  const [recurrence, setRecurrence] = useState<TaskRecurrenceRule | null>(null);
+  const [parentTaskOptions, setParentTaskOptions] = useState<ParentTaskOption[]>([]);
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -57,14 +65,7 @@ export function AddTaskDrawer({
   const [labelError, setLabelError] = useState<string | null>(null);
   const [availableLabels, setAvailableLabels] = useState<Label[]>([]);
 
-  // Get all labels for selection
-  useEffect(() => {
-    if (isOpen) {
-      fetchLabels();
-    }
-  }, [isOpen]);
-
-  const fetchLabels = async () => {
+  const fetchLabels = useCallback(async () => {
     try {
       const supabase = getSupabaseClient();
       const { data, error } = await supabase
@@ -81,7 +82,34 @@ export function AddTaskDrawer({
     } catch (err) {
       console.error('Exception fetching labels:', err);
     }
-  };
+  }, [user?.activeProjectId]);
+
+  const fetchParentTaskOptions = useCallback(async () => {
+    try {
+      const supabase = getSupabaseClient();
+      const { data, error } = await supabase
+        .from('tasks')
+        .select('id, title')
+        .eq('project_id', user?.activeProjectId ?? 0)
+        .order('title');
+
+      if (error) {
+        console.error('Error fetching parent tasks:', error);
+      } else {
+        setParentTaskOptions(data || []);
+      }
+    } catch (err) {
+      console.error('Exception fetching parent tasks:', err);
+    }
+  }, [user?.activeProjectId]);
+
+  // Get all labels and possible parent tasks for selection
+  useEffect(() => {
+    if (isOpen) {
+      fetchLabels();
+      fetchParentTaskOptions();
+    }
+  }, [isOpen, fetchLabels, fetchParentTaskOptions]);
 
   // Custom metadata state
   const [customMetadata, setCustomMetadata] = useState<Array<{ title: string; value: string }>>([]);
@@ -113,7 +141,23 @@ export function AddTaskDrawer({
       return;
     }
 
-    if (!statusId || !priorityId || !user?.id) {
+    if (startDate && dueDate && startDate > dueDate) {
+      setError('Start date must be on or before the due date');
+      return;
+    }
+
+    if (recurrence) {
+      // Occurrences are scheduled from the due date, so a series needs one to start from
+      const recurrenceError = dueDate
+        ? validateRecurrenceRule(recurrence)
+        : 'Recurring tasks need a due date';
+      if (recurrenceError) {
+        setError(recurrenceError);
+        return;
+      }
+    }
+
+    if (!statusId || !priorityId || !user?.id || !user.activeProjectId) {
       setError('Status, priority and user ID are required');
       return;
     }
@@ -124,7 +168,30 @@ export function AddTaskDrawer({
     try {
       const supabase = getSupabaseClient();
 
-      // 1. Create the task
+      // 1. Create the recurrence rule the task belongs to, if it repeats
+      let recurrenceId: number | null = null;
+      if (recurrence) {
+        const { data: recurrenceData, error: recurrenceError } = await supabase
+          .from('task_recurrences')
+          .insert({
+            ...recurrence,
+            project_id: user.activeProjectId,
+            timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+          })
+          .select('id')
+          .single();
+
+        if (recurrenceError) {
+          console.error('Error creating task recurrence:', recurrenceError);
+          setError('Failed to save the repeat schedule');
+          setSaving(false);
+          return;
+        }
+
+        recurrenceId = recurrenceData.id;
+      }
+
+      // 2. Create the task
       const now = new Date().toISOString();
       const { data: taskData, error: taskError } = await supabase
         .from('tasks')
@@ -133,7 +200,10 @@ export function AddTaskDrawer({
           description: description.trim() || null,
           status_id: statusId,
           priority_id: priorityId,
+          start_date: startDate ? startDate.toISOString() : null,
           due_date: dueDate ? dueDate.toISOString() : null,
+          parent_task_id: parentTaskId,
+          recurrence_id: recurrenceId,
           created_at: now,
           updated_at: now,
           created_by: user?.id,
@@ -144,6 +214,9 @@ export function AddTaskDrawer({
 
       if (taskError) {
         console.error('Error creating task:', taskError);
+        if (recurrenceId) {
+          await supabase.from('task_recurrences').delete().eq('id', recurrenceId);
+        }
         setError('Failed to create task');
         setSaving(false);
         return;
@@ -151,7 +224,7 @@ export function AddTaskDrawer({
 
       const taskId = taskData.id;
 
-      // 2. Add assignees if any are selected
+      // 3. Add assignees if any are selected
       if (assignees.length > 0) {
         const assigneeRecords = assignees.map((assignee) => ({
           assigned_by: user.id,
@@ -169,7 +242,7 @@ export function AddTaskDrawer({
         }
       }
 
-      // 3. Add labels if any are selected
+      // 4. Add labels if any are selected
       if (selectedLabels.length > 0) {
         const labelLinks = selectedLabels.map((label) => ({
           entity_type: 'task',
@@ -185,7 +258,7 @@ export function AddTaskDrawer({
         }
       }
 
-      // 4. Add metadata including estimated_hours and actual_hours
+      // 5. Add metadata including estimated_hours and actual_hours
       const metadata = [...customMetadata];
 
       if (estimatedHours.trim()) {
@@ -221,7 +294,7 @@ export function AddTaskDrawer({
         }
       }
 
-      // 5. Upload files if any are attached
+      // 6. Upload files if any are attached
       if (taskFiles && taskFiles.length > 0) {
         setUploadingFiles(true);
         try {
@@ -257,7 +330,10 @@ export function AddTaskDrawer({
     setDescription('');
     setStatusId(allStatuses.find((s) => s.is_default)?.id || allStatuses[0]?.id || null);
     setPriorityId(allPriorities.find((p) => p.is_default)?.id || allPriorities[0]?.id || null);
+    setStartDate(undefined);
     setDueDate(undefined);
+    setParentTaskId(null);
+    setRecurrence(null);
     setSelectedLabels([]);
     setCustomMetadata([]);
     setEstimatedHours('');
@@ -552,23 +628,78 @@ export function AddTaskDrawer({
             </div>
           </div>
 
-          {/* Due Date */}
+          {/* Start and Due Dates */}
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+            <div>
+              <label
+                htmlFor="start-date"
+                className="mb-2 block text-sm font-medium text-muted-foreground"
+              >
+                Start Date
+              </label>
+              <div className="rounded-md border border-muted-foreground/20">
+                <DatePicker
+                  date={startDate}
+                  setDate={setStartDate}
+                  disabled={saving}
+                  placeholder="Select start date"
+                  className="text-foreground"
+                />
+              </div>
+            </div>
+
+            <div>
+              <label
+                htmlFor="due-date"
+                className="mb-2 block text-sm font-medium text-muted-foreground"
+              >
+                Due Date
+              </label>
+              <div className="rounded-md border border-muted-foreground/20">
+                <DatePicker
+                  date={dueDate}
+                  setDate={setDueDate}
+                  disabled={saving}
+                  placeholder="Select due date"
+                  className="text-foreground"
+                />
+              </div>
+            </div>
+          </div>
+
+          {/* Recurrence */}
+          <div>
+            <label className="mb-2 block text-sm font-medium text-muted-foreground">Repeat</label>
+            <RecurrenceEditor
+              rule={recurrence}
+              onChange={setRecurrence}
+              anchorDate={dueDate}
+              disabled={saving}
+            />
+          </div>
+
+          {/* Parent Task */}
           <div>
             <label
-              htmlFor="due-date"
+              htmlFor="parent-task"
               className="mb-2 block text-sm font-medium text-muted-foreground"
             >
-              Due Date
+              Parent Task
             </label>
-            <div className="rounded-md border border-muted-foreground/20">
-              <DatePicker
-                date={dueDate}
-                setDate={setDueDate}
-                disabled={saving}
-                placeholder="Select due date"
-                className="text-foreground"
-              />
-            </div>
+            <select
+              id="parent-task"
+              value={parentTaskId ?? ''}
+              onChange={(e) => setParentTaskId(e.target.value ? Number(e.target.value) : null)}
+              className="w-full rounded-md border border-muted-foreground/20 bg-muted px-3 py-2 text-foreground focus:border-transparent focus:outline-none focus:ring-2 focus:ring-blue-500"
+              disabled={saving}
+            >
+              <option value="">None (top-level task)</option>
+              {parentTaskOptions.map((option) => (
+                <option key={option.id} value={option.id}>
+                  {option.title}
+                </option>
+              ))}
+            </select>
           </div>
 
           {/* Assignees */}
@@ -4,29 +4,35 @@ import { useState, useRef, useEffect } from 'react';
 import { Badge } from '../ui/badge';
 import { Check, ChevronDown } from 'lucide-react';
 import { Database } from '@/lib/supabase/types.generated';
-import { getSupabaseClient } from '@/lib/supabase/client';
+import { toast } from 'sonner';
 import { useAuth } from '@/hooks/useAuth';
+import { useTaskUpdate } from '@/app/protected/tasks/hooks';
 
 type Priority = Database['public']['Tables']['priorities']['Row'];
 
 interface PriorityPillProps {
   priority: Priority;
   taskId: number;
+  // The version of the task being shown; the change is rejected if it has been saved since
+  version: number;
   allPriorities: Priority[];
   onPriorityChange?: (newPriority: Priority) => void;
   className?: string;
   disabled?: boolean;
   refreshTasks?: () => void;
+  onVersionChange?: (version: number) => void;
 }
 
 export default function PriorityPill({
   priority,
   taskId,
+  version,
   allPriorities,
   onPriorityChange,
   className = '',
   disabled = false,
   refreshTasks,
+  onVersionChange,
 }: PriorityPillProps) {
   const [isOpen, setIsOpen] = useState(false);
   const [updating, setUpdating] = useState(false);
@@ -35,6 +41,7 @@ export default function PriorityPill({
   const dropdownRef = useRef<HTMLDivElement>(null);
   const badgeRef = useRef<HTMLDivElement>(null);
   const { user } = useAuth();
+  const { updateTask } = useTaskUpdate();
 
   // Close dropdown when clicking outside
   useEffect(() => {
@@ -71,17 +78,22 @@ export default function PriorityPill({
     setError(null);
 
     try {
-      const supabase = getSupabaseClient();
+      const result = await updateTask(taskId, version, { priority_id: newPriority.id });
 
-      const { error } = await supabase
-        .from('tasks')
-        .update({ priority_id: newPriority.id, updated_at: new Date().toISOString() })
-        .eq('id', taskId);
-
-      if (error) {
-        console.error('Error updating priority:', error);
+      if (result.conflict) {
+        // Someone else saved the task first; reload it rather than overwrite their changes
+        toast.error('This task was changed by someone else. Check it and try again.');
+        if (refreshTasks) {
+          refreshTasks();
+        }
+      } else if (!result.success) {
+        console.error('Error updating priority:', result.error);
         setError('Failed to update priority');
       } else {
+        if (result.version !== undefined && onVersionChange) {
+          onVersionChange(result.version);
+        }
+
         // Call the onPriorityChange callback if provided
         if (onPriorityChange) {
           onPriorityChange(newPriority);
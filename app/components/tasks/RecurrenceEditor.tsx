@@ -0,0 +1,123 @@
+'use client';
+import { format } from 'date-fns';
+import { Repeat } from 'lucide-react';
+import { DatePicker } from '@/components/ui/date-picker';
+import { TaskRecurrenceFrequency, TaskRecurrenceRule } from '@/app/protected/tasks/models';
+import {
+  RECURRENCE_FREQUENCY_LABELS,
+  WEEKDAY_SHORT_LABELS,
+  createRecurrenceRule,
+  describeRecurrenceRule,
+} from '@/lib/utils/task-recurrence';
+import { cn } from '@/lib/utils';
+
+interface RecurrenceEditorProps {
+  rule: TaskRecurrenceRule | null;
+  onChange: (rule: TaskRecurrenceRule | null) => void;
+  // Date the first occurrence is due, used to pick sensible defaults
+  anchorDate?: Date;
+  disabled?: boolean;
+}
+
+export function RecurrenceEditor({
+  rule,
+  onChange,
+  anchorDate,
+  disabled = false,
+}: RecurrenceEditorProps) {
+  const handleFrequencyChange = (value: string) => {
+    onChange(value ? createRecurrenceRule(value as TaskRecurrenceFrequency, anchorDate) : null);
+  };
+
+  const toggleDay = (day: number) => {
+    if (!rule) return;
+
+    onChange({
+      ...rule,
+      days_of_week: rule.days_of_week.includes(day)
+        ? rule.days_of_week.filter((d) => d !== day)
+        : [...rule.days_of_week, day].sort(),
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <select
+        value={rule?.frequency ?? ''}
+        onChange={(e) => handleFrequencyChange(e.target.value)}
+        className="w-full rounded-md border border-muted-foreground/20 bg-muted px-3 py-2 text-foreground focus:border-transparent focus:outline-none focus:ring-2 focus:ring-blue-500"
+        disabled={disabled}
+      >
+        <option value="">Does not repeat</option>
+        {(Object.keys(RECURRENCE_FREQUENCY_LABELS) as TaskRecurrenceFrequency[]).map(
+          (frequency) => (
+            <option key={frequency} value={frequency}>
+              {RECURRENCE_FREQUENCY_LABELS[frequency]}
+            </option>
+          ),
+        )}
+      </select>
+
+      {rule?.frequency === 'weekly' && (
+        <div className="flex flex-wrap gap-1">
+          {WEEKDAY_SHORT_LABELS.map((label, day) => (
+            <button
+              key={label}
+              type="button"
+              onClick={() => toggleDay(day)}
+              disabled={disabled}
+              className={cn(
+                'rounded-md px-2.5 py-1 text-sm transition-colors',
+                rule.days_of_week.includes(day)
+                  ? 'bg-primary text-primary-foreground'
+                  : 'bg-muted text-muted-foreground hover:text-foreground',
+              )}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {rule?.frequency === 'monthly' && (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <span>On day</span>
+          <input
+            type="number"
+            min={1}
+            max={31}
+            value={rule.day_of_month ?? ''}
+            onChange={(e) =>
+              onChange({ ...rule, day_of_month: e.target.value ? Number(e.target.value) : null })
+            }
+            className="w-20 rounded-md border border-muted-foreground/20 bg-muted px-3 py-1.5 text-foreground focus:border-transparent focus:outline-none focus:ring-2 focus:ring-blue-500"
+            disabled={disabled}
+          />
+          <span>of each month</span>
+        </div>
+      )}
+
+      {rule && (
+        <>
+          <div>
+            <label className="mb-1 block text-xs text-muted-foreground">Ends on (optional)</label>
+            <DatePicker
+              date={rule.ends_on ? new Date(`${rule.ends_on}T00:00:00`) : undefined}
+              setDate={(date) =>
+                onChange({ ...rule, ends_on: date ? format(date, 'yyyy-MM-dd') : null })
+              }
+              disabled={disabled}
+              placeholder="Repeats forever"
+              className="text-foreground"
+            />
+          </div>
+          <p className="flex items-center gap-1 text-xs text-muted-foreground">
+            <Repeat size={12} />
+            {describeRecurrenceRule(rule)}. The next occurrence is created when this one is done or
+            its due date passes.
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
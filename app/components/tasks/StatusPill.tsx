@@ -4,29 +4,35 @@ import { useState, useRef, useEffect } from 'react';
 import { Badge } from '../ui/badge';
 import { Check, ChevronDown } from 'lucide-react';
 import { Database } from '@/lib/supabase/types.generated';
-import { getSupabaseClient } from '@/lib/supabase/client';
+import { toast } from 'sonner';
 import { useAuth } from '@/hooks/useAuth';
+import { useTaskUpdate } from '@/app/protected/tasks/hooks';
 
 type Status = Database['public']['Tables']['statuses']['Row'];
 
 interface StatusPillProps {
   status: Status;
   taskId: number;
+  // The version of the task being shown; the change is rejected if it has been saved since
+  version: number;
   allStatuses: Status[];
   onStatusChange?: (newStatus: Status) => void;
   className?: string;
   disabled?: boolean;
   refreshTasks?: () => void;
+  onVersionChange?: (version: number) => void;
 }
 
 export default function StatusPill({
   status,
   taskId,
+  version,
   allStatuses,
   onStatusChange,
   className = '',
   disabled = false,
   refreshTasks,
+  onVersionChange,
 }: StatusPillProps) {
   const [isOpen, setIsOpen] = useState(false);
   const [updating, setUpdating] = useState(false);
@@ -35,6 +41,7 @@ export default function StatusPill({
   const dropdownRef = useRef<HTMLDivElement>(null);
   const badgeRef = useRef<HTMLDivElement>(null);
   const { user } = useAuth();
+  const { updateTask } = useTaskUpdate();
 
   // Close dropdown when clicking outside
   useEffect(() => {
@@ -71,17 +78,22 @@ export default function StatusPill({
     setError(null);
 
     try {
-      const supabase = getSupabaseClient();
+      const result = await updateTask(taskId, version, { status_id: newStatus.id });
 
-      const { error } = await supabase
-        .from('tasks')
-        .update({ status_id: newStatus.id, updated_at: new Date().toISOString() })
-        .eq('id', taskId);
-
-      if (error) {
-        console.error('Error updating status:', error);
+      if (result.conflict) {
+        // Someone else saved the task first; reload it rather than overwrite their changes
+        toast.error('This task was changed by someone else. Check it and try again.');
+        if (refreshTasks) {
+          refreshTasks();
+        }
+      } else if (!result.success) {
+        console.error('Error updating status:', result.error);
         setError('Failed to update status');
       } else {
+        if (result.version !== undefined && onVersionChange) {
+          onVersionChange(result.version);
+        }
+
         // Call the onStatusChange callback if provided
         if (onStatusChange) {
           onStatusChange(newStatus);
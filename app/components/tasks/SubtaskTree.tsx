@@ -0,0 +1,179 @@
+'use client';
+import { useState } from 'react';
+import Link from 'next/link';
+import { CheckCircle2, Circle, CornerDownRight, Plus } from 'lucide-react';
+import { Database } from '@/lib/supabase/types.generated';
+import { TaskTreeNode } from '@/app/protected/tasks/models';
+import { getDoneStatusId, getSubtaskProgress } from '@/lib/utils/task-utils';
+import { cn } from '@/lib/utils';
+
+type Status = Database['public']['Tables']['statuses']['Row'];
+
+interface SubtaskTreeProps {
+  subtasks: TaskTreeNode[];
+  allStatuses: Status[];
+  loading?: boolean;
+  adding?: boolean;
+  error?: string | null;
+  onAddSubtask?: (title: string) => Promise<{ success: boolean; error?: string }>;
+}
+
+export function SubtaskTree({
+  subtasks,
+  allStatuses,
+  loading = false,
+  adding = false,
+  error,
+  onAddSubtask,
+}: SubtaskTreeProps) {
+  const [newSubtaskTitle, setNewSubtaskTitle] = useState('');
+  const doneStatusId = getDoneStatusId(allStatuses);
+  const { done, total } = getSubtaskProgress(subtasks, doneStatusId);
+
+  const handleAddSubtask = async () => {
+    if (!onAddSubtask || !newSubtaskTitle.trim()) return;
+
+    const result = await onAddSubtask(newSubtaskTitle);
+    if (result.success) {
+      setNewSubtaskTitle('');
+    }
+  };
+
+  return (
+    <div>
+      <div className="mb-2 flex items-center justify-between">
+        <h3 className="text-sm font-medium text-muted-foreground">Subtasks</h3>
+        {total > 0 && (
+          <span className="text-xs text-muted-foreground">
+            {done}/{total} done
+          </span>
+        )}
+      </div>
+
+      {total > 0 && (
+        <div className="mb-3 h-1.5 w-full overflow-hidden rounded-full bg-muted">
+          <div
+            className="h-full rounded-full bg-green-500 transition-all"
+            style={{ width: `${(done / total) * 100}%` }}
+          />
+        </div>
+      )}
+
+      {loading ? (
+        <div className="animate-pulse space-y-2">
+          <div className="h-8 rounded bg-muted"></div>
+          <div className="h-8 rounded bg-muted"></div>
+        </div>
+      ) : total > 0 ? (
+        <ul className="space-y-1">
+          {subtasks.map((subtask) => (
+            <SubtaskNode
+              key={subtask.id}
+              node={subtask}
+              allStatuses={allStatuses}
+              doneStatusId={doneStatusId}
+              depth={0}
+            />
+          ))}
+        </ul>
+      ) : (
+        <div className="py-2 text-center text-sm text-muted-foreground">No subtasks</div>
+      )}
+
+      {onAddSubtask && (
+        <div className="mt-3 flex items-center gap-2">
+          <input
+            type="text"
+            value={newSubtaskTitle}
+            onChange={(e) => setNewSubtaskTitle(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                handleAddSubtask();
+              }
+            }}
+            className="flex-1 rounded-md border border-muted-foreground/20 bg-muted px-3 py-1.5 text-sm text-foreground focus:border-transparent focus:outline-none focus:ring-2 focus:ring-blue-500"
+            placeholder="Add a subtask..."
+            disabled={adding}
+          />
+          <button
+            onClick={handleAddSubtask}
+            disabled={adding || !newSubtaskTitle.trim()}
+            className={cn(
+              'flex items-center rounded-md px-2 py-1.5 text-sm transition-colors',
+              newSubtaskTitle.trim()
+                ? 'text-blue-500 hover:bg-muted hover:text-blue-400'
+                : 'cursor-not-allowed text-muted-foreground',
+            )}
+            aria-label="Add subtask"
+          >
+            <Plus size={16} />
+          </button>
+        </div>
+      )}
+      {error && <p className="mt-1 text-xs text-red-500">{error}</p>}
+    </div>
+  );
+}
+
+function SubtaskNode({
+  node,
+  allStatuses,
+  doneStatusId,
+  depth,
+}: {
+  node: TaskTreeNode;
+  allStatuses: Status[];
+  doneStatusId: number | null;
+  depth: number;
+}) {
+  const isDone = node.status_id === doneStatusId;
+  const status = allStatuses.find((s) => s.id === node.status_id);
+  const { done, total } = getSubtaskProgress(node.children, doneStatusId);
+
+  return (
+    <li>
+      <Link
+        href={`/protected/tasks/${node.id}`}
+        className="flex items-center gap-2 rounded-md bg-muted/50 p-2 text-sm transition-colors hover:bg-muted"
+        style={{ marginLeft: `${depth * 1.25}rem` }}
+      >
+        {depth > 0 && <CornerDownRight size={14} className="shrink-0 text-muted-foreground" />}
+        {isDone ? (
+          <CheckCircle2 size={16} className="shrink-0 text-green-500" />
+        ) : (
+          <Circle size={16} className="shrink-0 text-muted-foreground" />
+        )}
+        <span className={cn('flex-1 truncate', isDone ? 'text-muted-foreground line-through' : '')}>
+          {node.title}
+        </span>
+        {total > 0 && (
+          <span className="text-xs text-muted-foreground">
+            {done}/{total}
+          </span>
+        )}
+        {status && (
+          <span
+            className="rounded-full px-2 py-0.5 text-xs text-black"
+            style={{ backgroundColor: status.color || '#E2E8F0' }}
+          >
+            {status.name}
+          </span>
+        )}
+      </Link>
+
+      {node.children.length > 0 && (
+        <ul className="mt-1 space-y-1">
+          {node.children.map((child) => (
+            <SubtaskNode
+              key={child.id}
+              node={child}
+              allStatuses={allStatuses}
+              doneStatusId={doneStatusId}
+              depth={depth + 1}
+            />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
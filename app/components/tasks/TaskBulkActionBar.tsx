@@ -0,0 +1,244 @@
+'use client';
+import { useEffect, useState } from 'react';
+import { CalendarX, ChevronDown, Loader2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { DatePicker } from '@/components/ui/date-picker';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Database } from '@/lib/supabase/types.generated';
+import { getSupabaseClient } from '@/lib/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { ProjectMember } from '@/hooks/useProjectMembers';
+import { BulkTaskChanges } from '@/app/protected/tasks/models';
+
+type Label = Database['public']['Tables']['labels']['Row'];
+
+interface TaskBulkActionBarProps {
+  selectedCount: number;
+  statuses: Database['public']['Tables']['statuses']['Row'][];
+  priorities: Database['public']['Tables']['priorities']['Row'][];
+  members: ProjectMember[];
+  saving?: boolean;
+  onApply: (changes: BulkTaskChanges) => void;
+  onClearSelection: () => void;
+}
+
+export function TaskBulkActionBar({
+  selectedCount,
+  statuses,
+  priorities,
+  members,
+  saving = false,
+  onApply,
+  onClearSelection,
+}: TaskBulkActionBarProps) {
+  const { user } = useAuth();
+  const [labels, setLabels] = useState<Label[]>([]);
+
+  useEffect(() => {
+    const fetchLabels = async () => {
+      if (!user?.activeProjectId) return;
+
+      try {
+        const supabase = getSupabaseClient();
+        const { data, error } = await supabase
+          .from('labels')
+          .select('*')
+          .eq('project_id', user.activeProjectId)
+          .order('name');
+
+        if (error) {
+          console.error('Error fetching labels:', error);
+        } else {
+          setLabels(data || []);
+        }
+      } catch (err) {
+        console.error('Exception fetching labels:', err);
+      }
+    };
+
+    fetchLabels();
+  }, [user?.activeProjectId]);
+
+  return (
+    <div className="fixed inset-x-0 bottom-4 z-40 flex justify-center px-4">
+      <div className="flex flex-wrap items-center gap-2 rounded-lg border border-border bg-card px-4 py-2 shadow-lg">
+        <span className="mr-2 text-sm font-medium">
+          {selectedCount} {selectedCount === 1 ? 'task' : 'tasks'} selected
+        </span>
+
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" disabled={saving}>
+              Status
+              <ChevronDown size={14} className="ml-1" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent>
+            {statuses.map((status) => (
+              <DropdownMenuItem key={status.id} onSelect={() => onApply({ status_id: status.id })}>
+                <span
+                  className="mr-2 h-3 w-3 rounded-full"
+                  style={{ backgroundColor: status.color || '#E2E8F0' }}
+                />
+                {status.name}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" disabled={saving}>
+              Priority
+              <ChevronDown size={14} className="ml-1" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent>
+            {priorities.map((priority) => (
+              <DropdownMenuItem
+                key={priority.id}
+                onSelect={() => onApply({ priority_id: priority.id })}
+              >
+                <span
+                  className="mr-2 h-3 w-3 rounded-full"
+                  style={{ backgroundColor: priority.color || '#E2E8F0' }}
+                />
+                {priority.name}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" disabled={saving}>
+              Assignees
+              <ChevronDown size={14} className="ml-1" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent>
+            <DropdownMenuSub>
+              <DropdownMenuSubTrigger>Assign</DropdownMenuSubTrigger>
+              <DropdownMenuSubContent>
+                {members.map((member) => (
+                  <DropdownMenuItem
+                    key={member.id}
+                    onSelect={() => onApply({ add_assignees: [member.id] })}
+                  >
+                    {member.name}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuSubContent>
+            </DropdownMenuSub>
+            <DropdownMenuSub>
+              <DropdownMenuSubTrigger>Unassign</DropdownMenuSubTrigger>
+              <DropdownMenuSubContent>
+                {members.map((member) => (
+                  <DropdownMenuItem
+                    key={member.id}
+                    onSelect={() => onApply({ remove_assignees: [member.id] })}
+                  >
+                    {member.name}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuSubContent>
+            </DropdownMenuSub>
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" disabled={saving || labels.length === 0}>
+              Labels
+              <ChevronDown size={14} className="ml-1" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent>
+            <DropdownMenuSub>
+              <DropdownMenuSubTrigger>Add label</DropdownMenuSubTrigger>
+              <DropdownMenuSubContent>
+                {labels.map((label) => (
+                  <DropdownMenuItem
+                    key={label.id}
+                    onSelect={() => onApply({ add_labels: [label.id] })}
+                  >
+                    <span
+                      className="mr-2 h-3 w-3 rounded-full"
+                      style={{ backgroundColor: label.color || '#E2E8F0' }}
+                    />
+                    {label.name}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuSubContent>
+            </DropdownMenuSub>
+            <DropdownMenuSub>
+              <DropdownMenuSubTrigger>Remove label</DropdownMenuSubTrigger>
+              <DropdownMenuSubContent>
+                {labels.map((label) => (
+                  <DropdownMenuItem
+                    key={label.id}
+                    onSelect={() => onApply({ remove_labels: [label.id] })}
+                  >
+                    <span
+                      className="mr-2 h-3 w-3 rounded-full"
+                      style={{ backgroundColor: label.color || '#E2E8F0' }}
+                    />
+                    {label.name}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuSubContent>
+            </DropdownMenuSub>
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        <div className="w-44">
+          <DatePicker
+            date={undefined}
+            setDate={(date) => date && onApply({ due_date: date.toISOString() })}
+            disabled={saving}
+            placeholder="Set due date"
+            className="h-9 text-sm"
+          />
+        </div>
+
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="ghost" size="sm" disabled={saving} aria-label="More actions">
+              <ChevronDown size={14} />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent>
+            <DropdownMenuLabel>Due date</DropdownMenuLabel>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem onSelect={() => onApply({ due_date: null })}>
+              <CalendarX size={14} className="mr-2" />
+              Clear due date
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        {saving && <Loader2 size={16} className="animate-spin text-muted-foreground" />}
+
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onClearSelection}
+          disabled={saving}
+          aria-label="Clear selection"
+        >
+          <X size={16} />
+        </Button>
+      </div>
+    </div>
+  );
+}
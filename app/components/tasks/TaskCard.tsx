@@ -2,14 +2,23 @@
 import { Database } from '@/lib/supabase/types.generated';
 import { formatDistanceToNow, format } from 'date-fns';
 import { Badge } from '../ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Card, CardContent } from '../ui/card';
 import { Avatar, AvatarFallback, AvatarImage } from '../ui/avatar';
-import { useState } from 'react';
+import { MouseEvent, useState } from 'react';
 import { TaskDrawer } from './TaskDrawer';
 import { TaskWithRelations } from '@/app/protected/tasks/models';
 import StatusPill from './StatusPill';
 import PriorityPill from './PriorityPill';
+import { SignoffPill } from './TaskSignoff';
 import { cn } from '@/lib/utils';
+import { Ban, CornerUpLeft, ListChecks, Repeat } from 'lucide-react';
+import {
+  getDoneStatusId,
+  getSubtaskProgress,
+  getUnfinishedPredecessors,
+} from '@/lib/utils/task-utils';
+import { describeRecurrenceRule } from '@/lib/utils/task-recurrence';
 
 interface TaskCardProps {
   task: TaskWithRelations;
@@ -21,6 +30,10 @@ interface TaskCardProps {
   allPriorities: Database['public']['Tables']['priorities']['Row'][];
   refreshTasks: () => void;
   className?: string;
+  // Multi-select for bulk actions; the checkbox is only shown when onToggleSelect is given
+  selected?: boolean;
+  selectionActive?: boolean;
+  onToggleSelect?: (taskId: number) => void;
 }
 
 export function TaskCard({
@@ -33,8 +46,23 @@ export function TaskCard({
   allPriorities,
   refreshTasks,
   className,
+  selected = false,
+  selectionActive = false,
+  onToggleSelect,
 }: TaskCardProps) {
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const doneStatusId = getDoneStatusId(allStatuses);
+  const subtaskProgress = getSubtaskProgress(task.subtasks, doneStatusId);
+  const unfinishedPredecessors = getUnfinishedPredecessors(task.blocked_by, doneStatusId);
+
+  // Once anything is selected, or with shift/ctrl/cmd held, clicking toggles selection
+  const handleClick = (e: MouseEvent) => {
+    if (onToggleSelect && (selectionActive || e.shiftKey || e.ctrlKey || e.metaKey)) {
+      onToggleSelect(task.id);
+      return;
+    }
+    setIsModalOpen(true);
+  };
 
   return (
     <>
@@ -43,18 +71,34 @@ export function TaskCard({
           'w-full cursor-pointer shadow-sm transition-all hover:shadow-md',
           'border hover:border-blue-500',
           'border-border bg-gray-50 dark:border-gray-700 dark:bg-gray-800',
+          selected && 'border-blue-500 ring-2 ring-blue-500/50',
           className,
         )}
-        onClick={() => setIsModalOpen(true)}
+        onClick={handleClick}
       >
-        <CardContent className="p-4">
+        <CardContent className="group p-4">
           {/* Title and Priority */}
           <div className="mb-2 flex items-start justify-between">
-            <h3 className="line-clamp-2 text-sm font-medium text-foreground">{task.title}</h3>
+            <div className="flex items-start gap-2">
+              {onToggleSelect && (
+                <Checkbox
+                  checked={selected}
+                  onCheckedChange={() => onToggleSelect(task.id)}
+                  onClick={(e) => e.stopPropagation()}
+                  className={cn(
+                    'mt-0.5 transition-opacity',
+                    !selected && !selectionActive && 'opacity-0 group-hover:opacity-100',
+                  )}
+                  aria-label={`Select ${task.title}`}
+                />
+              )}
+              <h3 className="line-clamp-2 text-sm font-medium text-foreground">{task.title}</h3>
+            </div>
             <div onClick={(e) => e.stopPropagation()}>
               <PriorityPill
                 priority={priority}
                 taskId={task.id}
+                version={task.version}
                 allPriorities={allPriorities}
                 refreshTasks={refreshTasks}
                 className="ml-2"
@@ -62,6 +106,14 @@ export function TaskCard({
             </div>
           </div>
 
+          {/* Parent task (if this is a subtask) */}
+          {task.parent_task && (
+            <p className="mb-2 flex items-center gap-1 truncate text-xs text-muted-foreground">
+              <CornerUpLeft size={12} className="shrink-0" />
+              <span className="truncate">{task.parent_task.title}</span>
+            </p>
+          )}
+
           {/* Description (if present) */}
           {task.description && (
             <p className="mb-3 line-clamp-2 text-xs text-muted-foreground">{task.description}</p>
@@ -73,11 +125,48 @@ export function TaskCard({
               <StatusPill
                 status={status}
                 taskId={task.id}
+                version={task.version}
                 allStatuses={allStatuses}
                 refreshTasks={refreshTasks}
               />
             </div>
 
+            {unfinishedPredecessors.length > 0 && (
+              <span
+                className="flex items-center gap-1 rounded-full bg-red-100 px-2 py-0.5 text-xs text-red-700 dark:bg-red-900/30 dark:text-red-300"
+                title={`Blocked by ${unfinishedPredecessors.map((t) => t.title).join(', ')}`}
+              >
+                <Ban size={12} />
+                Blocked
+              </span>
+            )}
+
+            {task.approval && <SignoffPill approval={task.approval} />}
+
+            {subtaskProgress.total > 0 && (
+              <span
+                className={cn(
+                  'flex items-center gap-1 rounded-full bg-muted px-2 py-0.5 text-xs',
+                  subtaskProgress.done === subtaskProgress.total
+                    ? 'text-green-600'
+                    : 'text-muted-foreground',
+                )}
+                title="Subtasks done"
+              >
+                <ListChecks size={12} />
+                {subtaskProgress.done}/{subtaskProgress.total}
+              </span>
+            )}
+
+            {task.task_recurrences && (
+              <span
+                className="flex items-center rounded-full bg-muted px-2 py-0.5 text-xs text-muted-foreground"
+                title={describeRecurrenceRule(task.task_recurrences)}
+              >
+                <Repeat size={12} />
+              </span>
+            )}
+
             {/* Labels are now only shown in the modal */}
           </div>
 
@@ -0,0 +1,385 @@
+'use client';
+import { useMemo, useState } from 'react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { MessageSquare, Pencil, SmilePlus, Trash2 } from 'lucide-react';
+import { Avatar, AvatarFallback, AvatarImage } from '../ui/avatar';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { MentionText } from '@/components/mentions/MentionText';
+import { MentionTextarea } from '@/components/mentions/MentionTextarea';
+import { ProjectMember } from '@/hooks/useProjectMembers';
+import { TaskComment, useTaskCommentRevisions } from '@/app/protected/tasks/hooks';
+import { cn } from '@/lib/utils';
+
+const REACTION_EMOJIS = ['👍', '❤️', '🎉', '😄', '👀', '✅'];
+
+const textareaClassName =
+  'min-h-[60px] w-full resize-y rounded-md border border-muted-foreground/20 bg-muted p-2 text-sm text-foreground focus:border-transparent focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+type CommentActionResult = Promise<{ success: boolean; error?: string }>;
+
+interface TaskCommentThreadProps {
+  comments: TaskComment[];
+  members: ProjectMember[];
+  currentUserId?: string;
+  onReply: (content: string, parentId: number) => CommentActionResult;
+  onEdit: (commentId: number, content: string) => CommentActionResult;
+  onDelete: (commentId: number) => CommentActionResult;
+  onToggleReaction: (commentId: number, emoji: string) => CommentActionResult;
+}
+
+type CommentCardProps = Omit<TaskCommentThreadProps, 'comments'> & {
+  comment: TaskComment;
+  isReply?: boolean;
+};
+
+/**
+ * Top-level task comments with their replies underneath
+ */
+export function TaskCommentThread({ comments, ...props }: TaskCommentThreadProps) {
+  const threads = useMemo(() => {
+    const replies = new Map<number, TaskComment[]>();
+    comments.forEach((comment) => {
+      if (comment.parent_id) {
+        replies.set(comment.parent_id, [...(replies.get(comment.parent_id) ?? []), comment]);
+      }
+    });
+
+    // A deleted comment stays as a placeholder only while it still has replies
+    return comments
+      .filter((comment) => !comment.parent_id)
+      .map((comment) => ({ comment, replies: replies.get(comment.id) ?? [] }))
+      .filter(({ comment, replies }) => !comment.deleted_at || replies.length > 0);
+  }, [comments]);
+
+  return (
+    <div className="space-y-4">
+      {threads.map(({ comment, replies }) => (
+        <div key={comment.id} className="space-y-2">
+          <CommentCard comment={comment} {...props} />
+          {replies.length > 0 && (
+            <div className="ml-6 space-y-2 border-l border-border pl-3">
+              {replies
+                .filter((reply) => !reply.deleted_at)
+                .map((reply) => (
+                  <CommentCard key={reply.id} comment={reply} isReply {...props} />
+                ))}
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function CommentCard({
+  comment,
+  isReply = false,
+  members,
+  currentUserId,
+  onReply,
+  onEdit,
+  onDelete,
+  onToggleReaction,
+}: CommentCardProps) {
+  const [editing, setEditing] = useState(false);
+  const [editValue, setEditValue] = useState(comment.content);
+  const [replying, setReplying] = useState(false);
+  const [replyValue, setReplyValue] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+
+  const isAuthor = !!currentUserId && comment.user_id === currentUserId;
+
+  const reactionGroups = useMemo(() => {
+    const groups = new Map<string, { count: number; mine: boolean }>();
+    comment.reactions.forEach((reaction) => {
+      const group = groups.get(reaction.emoji) ?? { count: 0, mine: false };
+      groups.set(reaction.emoji, {
+        count: group.count + 1,
+        mine: group.mine || reaction.user_id === currentUserId,
+      });
+    });
+    return Array.from(groups.entries());
+  }, [comment.reactions, currentUserId]);
+
+  const runAction = async (action: () => CommentActionResult) => {
+    setSaving(true);
+    setActionError(null);
+    const result = await action();
+    setSaving(false);
+    if (!result.success) {
+      setActionError(result.error || 'Something went wrong');
+    }
+    return result.success;
+  };
+
+  const handleSaveEdit = async () => {
+    if (await runAction(() => onEdit(comment.id, editValue))) {
+      setEditing(false);
+    }
+  };
+
+  const handleReply = async () => {
+    if (!replyValue.trim()) return;
+    if (await runAction(() => onReply(replyValue, comment.id))) {
+      setReplyValue('');
+      setReplying(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!window.confirm('Delete this comment?')) return;
+    await runAction(() => onDelete(comment.id));
+  };
+
+  if (comment.deleted_at) {
+    return (
+      <div
+        id={`comment-${comment.id}`}
+        className="rounded-md bg-muted/30 p-3 text-sm italic text-muted-foreground"
+      >
+        This comment was deleted
+      </div>
+    );
+  }
+
+  return (
+    <div id={`comment-${comment.id}`} className="group rounded-md bg-muted/50 p-3">
+      <div className="mb-2 flex items-center gap-2">
+        <Avatar className={isReply ? 'h-5 w-5' : 'h-6 w-6'}>
+          <AvatarImage src={comment.user_avatar} />
+          <AvatarFallback className="bg-secondary text-xs text-secondary-foreground">
+            {comment.user_name
+              ?.split(' ')
+              .map((n) => n[0])
+              .join('') || '?'}
+          </AvatarFallback>
+        </Avatar>
+        <span className="text-sm font-medium text-foreground">
+          {comment.user_name || 'Unknown User'}
+        </span>
+        <span className="text-xs text-muted-foreground">
+          {formatDistanceToNow(new Date(comment.created_at), { addSuffix: true })}
+        </span>
+        {comment.edited_at && (
+          <button
+            type="button"
+            onClick={() => setShowHistory(true)}
+            className="text-xs text-muted-foreground underline-offset-2 hover:underline"
+            title={`Edited ${format(new Date(comment.edited_at), 'PPp')}`}
+          >
+            (edited)
+          </button>
+        )}
+        {isAuthor && !editing && (
+          <div className="ml-auto flex items-center gap-1 opacity-0 transition-opacity group-hover:opacity-100">
+            <button
+              type="button"
+              onClick={() => {
+                setEditValue(comment.content);
+                setEditing(true);
+              }}
+              className="rounded p-1 text-muted-foreground hover:bg-muted hover:text-foreground"
+              aria-label="Edit comment"
+            >
+              <Pencil className="h-3.5 w-3.5" />
+            </button>
+            <button
+              type="button"
+              onClick={handleDelete}
+              disabled={saving}
+              className="rounded p-1 text-muted-foreground hover:bg-muted hover:text-destructive"
+              aria-label="Delete comment"
+            >
+              <Trash2 className="h-3.5 w-3.5" />
+            </button>
+          </div>
+        )}
+      </div>
+
+      {editing ? (
+        <div className="space-y-2">
+          <MentionTextarea
+            value={editValue}
+            onChange={setEditValue}
+            members={members}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && e.ctrlKey) handleSaveEdit();
+              if (e.key === 'Escape') setEditing(false);
+            }}
+            className={textareaClassName}
+            disabled={saving}
+            autoFocus
+          />
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" size="sm" onClick={() => setEditing(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button size="sm" onClick={handleSaveEdit} disabled={saving || !editValue.trim()}>
+              Save
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <MentionText
+          content={comment.content}
+          members={members}
+          className="text-sm text-foreground"
+        />
+      )}
+
+      <div className="mt-2 flex flex-wrap items-center gap-1">
+        {reactionGroups.map(([emoji, { count, mine }]) => (
+          <button
+            key={emoji}
+            type="button"
+            onClick={() => runAction(() => onToggleReaction(comment.id, emoji))}
+            disabled={!currentUserId || saving}
+            className={cn(
+              'flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs transition-colors',
+              mine
+                ? 'border-blue-500/50 bg-blue-500/10 text-foreground'
+                : 'border-border text-muted-foreground hover:bg-muted',
+            )}
+          >
+            <span>{emoji}</span>
+            <span>{count}</span>
+          </button>
+        ))}
+        {currentUserId && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <button
+                type="button"
+                className="rounded-full p-1 text-muted-foreground hover:bg-muted hover:text-foreground"
+                aria-label="Add reaction"
+              >
+                <SmilePlus className="h-3.5 w-3.5" />
+              </button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="start" className="flex min-w-0 gap-1 p-1">
+              {REACTION_EMOJIS.map((emoji) => (
+                <DropdownMenuItem
+                  key={emoji}
+                  onSelect={() => runAction(() => onToggleReaction(comment.id, emoji))}
+                  className="cursor-pointer px-2 text-base"
+                >
+                  {emoji}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
+        {!isReply && currentUserId && (
+          <button
+            type="button"
+            onClick={() => setReplying((prev) => !prev)}
+            className="flex items-center gap-1 rounded px-1.5 py-0.5 text-xs text-muted-foreground hover:bg-muted hover:text-foreground"
+          >
+            <MessageSquare className="h-3.5 w-3.5" />
+            Reply
+          </button>
+        )}
+      </div>
+
+      {replying && (
+        <div className="mt-2 space-y-2">
+          <MentionTextarea
+            value={replyValue}
+            onChange={setReplyValue}
+            members={members}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && e.ctrlKey) handleReply();
+              if (e.key === 'Escape') setReplying(false);
+            }}
+            className={textareaClassName}
+            placeholder={`Reply to ${comment.user_name || 'comment'}...`}
+            disabled={saving}
+            autoFocus
+          />
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" size="sm" onClick={() => setReplying(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button size="sm" onClick={handleReply} disabled={saving || !replyValue.trim()}>
+              Reply
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {actionError && <p className="mt-1 text-xs text-red-500">{actionError}</p>}
+
+      {showHistory && (
+        <CommentHistoryDialog
+          comment={comment}
+          members={members}
+          onOpenChange={(open) => !open && setShowHistory(false)}
+        />
+      )}
+    </div>
+  );
+}
+
+function CommentHistoryDialog({
+  comment,
+  members,
+  onOpenChange,
+}: {
+  comment: TaskComment;
+  members: ProjectMember[];
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { revisions, loading, error } = useTaskCommentRevisions(comment.id);
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[80vh] max-w-lg overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Edit history</DialogTitle>
+          <DialogDescription>Earlier versions of this comment, newest first</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <div className="rounded-md border border-border p-3">
+            <p className="mb-1 text-xs text-muted-foreground">
+              Current · edited {comment.edited_at && format(new Date(comment.edited_at), 'PPp')}
+            </p>
+            <MentionText content={comment.content} members={members} className="text-sm" />
+          </div>
+
+          {loading ? (
+            <div className="animate-pulse text-sm text-muted-foreground">Loading history...</div>
+          ) : error ? (
+            <p className="text-sm text-red-500">{error}</p>
+          ) : (
+            revisions.map((revision, index) => (
+              <div key={revision.id} className="rounded-md bg-muted/50 p-3">
+                <p className="mb-1 text-xs text-muted-foreground">
+                  {index === revisions.length - 1
+                    ? `Original · ${format(new Date(comment.created_at), 'PPp')}`
+                    : `Replaced ${format(new Date(revision.created_at), 'PPp')}`}
+                </p>
+                <MentionText content={revision.content} members={members} className="text-sm" />
+              </div>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
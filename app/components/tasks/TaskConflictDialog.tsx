@@ -0,0 +1,107 @@
+'use client';
+import { useEffect, useMemo } from 'react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import { ConflictResolutionDialog } from '@/components/conflicts/ConflictResolutionDialog';
+import { useTaskUpdate } from '@/app/protected/tasks/hooks';
+import { TaskFieldChanges } from '@/app/protected/tasks/models';
+import { Database } from '@/lib/supabase/types.generated';
+import {
+  ConflictChoice,
+  formatConflictValue,
+  getConflictFields,
+  getKeptValues,
+} from '@/lib/utils/conflicts';
+
+type TaskRow = Database['public']['Tables']['tasks']['Row'];
+
+export type TaskConflict = {
+  // The task as it was when editing started
+  base: TaskRow;
+  changes: TaskFieldChanges;
+  current: TaskRow;
+};
+
+const formatDate = (value: unknown) =>
+  typeof value === 'string' && value ? format(new Date(value), 'PPP') : formatConflictValue(value);
+
+const FIELD_LABELS: Record<keyof TaskFieldChanges, { label: string; format?: typeof formatDate }> =
+  {
+    title: { label: 'Title' },
+    description: { label: 'Description' },
+    due_date: { label: 'Due date', format: formatDate },
+    start_date: { label: 'Start date', format: formatDate },
+  };
+
+interface TaskConflictDialogProps {
+  conflict: TaskConflict | null;
+  onConflictChange: (conflict: TaskConflict | null) => void;
+  // Called with the task's version once the conflict is settled
+  onResolved: (version: number) => void;
+}
+
+/**
+ * Lets the user merge their task edits with changes someone else saved first
+ */
+export function TaskConflictDialog({
+  conflict,
+  onConflictChange,
+  onResolved,
+}: TaskConflictDialogProps) {
+  const { saving, updateTask } = useTaskUpdate();
+
+  const fields = useMemo(() => {
+    if (!conflict) return [];
+
+    return getConflictFields(
+      (Object.keys(conflict.changes) as (keyof TaskFieldChanges)[]).map((key) => ({
+        key,
+        label: FIELD_LABELS[key].label,
+        format: FIELD_LABELS[key].format,
+        base: conflict.base[key],
+        mine: conflict.changes[key],
+        theirs: conflict.current[key],
+      })),
+    );
+  }, [conflict]);
+
+  // Both sides saved the same values, so there is nothing to choose
+  useEffect(() => {
+    if (conflict && fields.length === 0) {
+      onConflictChange(null);
+      onResolved(conflict.current.version);
+    }
+  }, [conflict, fields, onConflictChange, onResolved]);
+
+  const handleResolve = async (choices: Record<string, ConflictChoice>) => {
+    if (!conflict) return;
+
+    const kept = getKeptValues(fields, choices) as TaskFieldChanges;
+    if (Object.keys(kept).length === 0) {
+      onConflictChange(null);
+      onResolved(conflict.current.version);
+      return;
+    }
+
+    const result = await updateTask(conflict.current.id, conflict.current.version, kept);
+    if (result.conflict) {
+      // Saved again in the meantime: compare against the newest version
+      onConflictChange({ base: conflict.current, changes: kept, current: result.conflict });
+    } else if (result.success) {
+      onConflictChange(null);
+      onResolved(result.version ?? conflict.current.version + 1);
+    } else {
+      toast.error(result.error || 'Failed to save task');
+    }
+  };
+
+  return (
+    <ConflictResolutionDialog
+      open={!!conflict && fields.length > 0}
+      fields={fields}
+      saving={saving}
+      onResolve={handleResolve}
+      onCancel={() => onConflictChange(null)}
+    />
+  );
+}
@@ -0,0 +1,207 @@
+'use client';
+import { useState } from 'react';
+import Link from 'next/link';
+import { Ban, Plus, X } from 'lucide-react';
+import { Database } from '@/lib/supabase/types.generated';
+import { DependencyTask, TaskDependencyWithTask } from '@/app/protected/tasks/models';
+import { getDoneStatusId, getUnfinishedPredecessors } from '@/lib/utils/task-utils';
+import { cn } from '@/lib/utils';
+
+type Status = Database['public']['Tables']['statuses']['Row'];
+
+interface TaskDependenciesProps {
+  taskId: number;
+  blockedBy: TaskDependencyWithTask[];
+  blocking: TaskDependencyWithTask[];
+  projectTasks: DependencyTask[];
+  allStatuses: Status[];
+  loading?: boolean;
+  saving?: boolean;
+  error?: string | null;
+  onAddDependency: (params: {
+    predecessorTaskId: number;
+    successorTaskId: number;
+  }) => Promise<{ success: boolean; error?: string }>;
+  onRemoveDependency: (dependencyId: number) => Promise<{ success: boolean; error?: string }>;
+}
+
+export function TaskDependencies({
+  taskId,
+  blockedBy,
+  blocking,
+  projectTasks,
+  allStatuses,
+  loading = false,
+  saving = false,
+  error,
+  onAddDependency,
+  onRemoveDependency,
+}: TaskDependenciesProps) {
+  const doneStatusId = getDoneStatusId(allStatuses);
+  const unfinished = getUnfinishedPredecessors(
+    blockedBy.map((d) => d.task),
+    doneStatusId,
+  );
+
+  if (loading) {
+    return (
+      <div>
+        <h3 className="mb-2 text-sm font-medium text-muted-foreground">Dependencies</h3>
+        <div className="animate-pulse space-y-2">
+          <div className="h-8 rounded bg-muted"></div>
+          <div className="h-8 rounded bg-muted"></div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="mb-2 flex items-center justify-between">
+        <h3 className="text-sm font-medium text-muted-foreground">Dependencies</h3>
+        {unfinished.length > 0 && (
+          <span className="flex items-center gap-1 rounded-full bg-red-100 px-2 py-0.5 text-xs text-red-700 dark:bg-red-900/30 dark:text-red-300">
+            <Ban size={12} />
+            Blocked
+          </span>
+        )}
+      </div>
+
+      <div className="space-y-4">
+        <DependencyList
+          title="Blocked by"
+          emptyMessage="Not waiting on any tasks"
+          dependencies={blockedBy}
+          options={projectTasks.filter(
+            (t) => t.id !== taskId && !blockedBy.some((d) => d.task.id === t.id),
+          )}
+          allStatuses={allStatuses}
+          saving={saving}
+          onAdd={(otherTaskId) =>
+            onAddDependency({ predecessorTaskId: otherTaskId, successorTaskId: taskId })
+          }
+          onRemove={onRemoveDependency}
+        />
+        <DependencyList
+          title="Blocks"
+          emptyMessage="No tasks are waiting on this one"
+          dependencies={blocking}
+          options={projectTasks.filter(
+            (t) => t.id !== taskId && !blocking.some((d) => d.task.id === t.id),
+          )}
+          allStatuses={allStatuses}
+          saving={saving}
+          onAdd={(otherTaskId) =>
+            onAddDependency({ predecessorTaskId: taskId, successorTaskId: otherTaskId })
+          }
+          onRemove={onRemoveDependency}
+        />
+      </div>
+      {error && <p className="mt-1 text-xs text-red-500">{error}</p>}
+    </div>
+  );
+}
+
+function DependencyList({
+  title,
+  emptyMessage,
+  dependencies,
+  options,
+  allStatuses,
+  saving,
+  onAdd,
+  onRemove,
+}: {
+  title: string;
+  emptyMessage: string;
+  dependencies: TaskDependencyWithTask[];
+  options: DependencyTask[];
+  allStatuses: Status[];
+  saving: boolean;
+  onAdd: (otherTaskId: number) => Promise<{ success: boolean; error?: string }>;
+  onRemove: (dependencyId: number) => Promise<{ success: boolean; error?: string }>;
+}) {
+  const [selectedTaskId, setSelectedTaskId] = useState('');
+
+  const handleAdd = async () => {
+    if (!selectedTaskId) return;
+
+    const result = await onAdd(Number(selectedTaskId));
+    if (result.success) {
+      setSelectedTaskId('');
+    }
+  };
+
+  return (
+    <div>
+      <h4 className="mb-1 text-xs font-medium uppercase text-muted-foreground">{title}</h4>
+      {dependencies.length > 0 ? (
+        <ul className="mb-2 space-y-1">
+          {dependencies.map((dependency) => {
+            const status = allStatuses.find((s) => s.id === dependency.task.status_id);
+            return (
+              <li
+                key={dependency.id}
+                className="flex items-center gap-2 rounded-md bg-muted/50 p-2 text-sm"
+              >
+                <Link
+                  href={`/protected/tasks/${dependency.task.id}`}
+                  className="flex-1 truncate hover:underline"
+                >
+                  {dependency.task.title}
+                </Link>
+                {status && (
+                  <span
+                    className="rounded-full px-2 py-0.5 text-xs text-black"
+                    style={{ backgroundColor: status.color || '#E2E8F0' }}
+                  >
+                    {status.name}
+                  </span>
+                )}
+                <button
+                  onClick={() => onRemove(dependency.id)}
+                  disabled={saving}
+                  className="rounded-full p-1 text-muted-foreground transition-colors hover:bg-muted hover:text-red-500"
+                  aria-label="Remove dependency"
+                >
+                  <X size={14} />
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      ) : (
+        <div className="mb-2 text-sm text-muted-foreground">{emptyMessage}</div>
+      )}
+
+      <div className="flex items-center gap-2">
+        <select
+          value={selectedTaskId}
+          onChange={(e) => setSelectedTaskId(e.target.value)}
+          className="flex-1 rounded-md border border-muted-foreground/20 bg-muted px-3 py-1.5 text-sm text-foreground focus:border-transparent focus:outline-none focus:ring-2 focus:ring-blue-500"
+          disabled={saving || options.length === 0}
+        >
+          <option value="">Select a task...</option>
+          {options.map((option) => (
+            <option key={option.id} value={option.id}>
+              {option.title}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={handleAdd}
+          disabled={saving || !selectedTaskId}
+          className={cn(
+            'flex items-center rounded-md px-2 py-1.5 text-sm transition-colors',
+            selectedTaskId
+              ? 'text-blue-500 hover:bg-muted hover:text-blue-400'
+              : 'cursor-not-allowed text-muted-foreground',
+          )}
+          aria-label={`Add to ${title.toLowerCase()}`}
+        >
+          <Plus size={16} />
+        </button>
+      </div>
+    </div>
+  );
+}
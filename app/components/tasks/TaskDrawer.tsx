@@ -10,24 +10,42 @@ import {
   SheetDescription,
 } from '@/components/ui/sheet';
 import { Button } from '@/components/ui/button';
-import { X, Pencil, Check, Send, Plus, Trash2, ExternalLink } from 'lucide-react';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { X, Pencil, Check, Send, Plus, Trash2, ExternalLink, Repeat } from 'lucide-react';
 import StatusPill from './StatusPill';
 import PriorityPill from './PriorityPill';
-import { useState, useRef, useEffect } from 'react';
+import { useState, useRef, useEffect, useCallback } from 'react';
 import { getSupabaseClient } from '@/lib/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
 import {
   useTaskComments,
-  TaskComment,
   useTaskMetadata,
   TaskMetadata,
+  useTaskHierarchy,
+  useTaskDependencies,
+  useTaskTimeEntries,
+  useTaskApproval,
+  useTaskSignoffRequired,
+  useTaskUpdate,
 } from '../../protected/tasks/hooks';
 import { DatePicker } from '@/components/ui/date-picker';
-import { TaskWithRelations } from '@/app/protected/tasks/models';
+import { TaskFieldChanges, TaskWithRelations } from '@/app/protected/tasks/models';
 import { AssigneeSelector } from '@/components/AssigneeSelector';
-import { ProjectMember } from '@/hooks/useProjectMembers';
+import { ProjectMember, useProjectMembers } from '@/hooks/useProjectMembers';
+import { usePresence } from '@/hooks/usePresence';
+import { PresenceAvatars } from '@/components/presence/PresenceAvatars';
+import { MentionTextarea } from '@/components/mentions/MentionTextarea';
 import Link from 'next/link';
 import { TaskAttachmentsViewer } from '@/components/task-attachments-viewer';
+import { SubtaskTree } from './SubtaskTree';
+import { TaskDependencies } from './TaskDependencies';
+import { TaskTimeEntries } from './TaskTimeEntries';
+import { TaskSignoff } from './TaskSignoff';
+import { TaskCommentThread } from './TaskCommentThread';
+import { TaskConflict, TaskConflictDialog } from './TaskConflictDialog';
+import { describeRecurrenceRule } from '@/lib/utils/task-recurrence';
+import { ActivityTimeline } from '@/components/activity/ActivityTimeline';
+import { ActivityFieldOptions } from '@/lib/utils/activity';
 
 type Task = Database['public']['Tables']['tasks']['Row'];
 type Status = Database['public']['Tables']['statuses']['Row'];
@@ -100,6 +118,50 @@ export function TaskDrawer({
   const [actualHoursValue, setActualHoursValue] = useState<string>('');
   const [savingMetadata, setSavingMetadata] = useState(false);
 
+  // Use the task hierarchy hook for subtasks
+  const {
+    subtasks,
+    loading: loadingSubtasks,
+    error: subtaskError,
+    adding: addingSubtask,
+    addSubtask,
+  } = useTaskHierarchy(task.id);
+
+  // Use the task dependencies hook
+  const {
+    blockedBy,
+    blocking,
+    projectTasks,
+    loading: loadingDependencies,
+    error: dependencyError,
+    saving: savingDependency,
+    addDependency,
+    removeDependency,
+  } = useTaskDependencies(task.id);
+
+  // Use the time entries hook
+  const {
+    entries: timeEntries,
+    loading: loadingTimeEntries,
+    error: timeEntryError,
+    saving: savingTimeEntry,
+    addEntry: addTimeEntry,
+    deleteEntry: deleteTimeEntry,
+  } = useTaskTimeEntries(task.id);
+  const { members: projectMembers } = useProjectMembers();
+
+  // Use the task sign-off hook
+  const {
+    approval: signoff,
+    approverIds: signoffApproverIds,
+    loading: loadingSignoff,
+    error: signoffError,
+    saving: savingSignoff,
+    requestSignoff,
+    resubmit: resubmitSignoff,
+  } = useTaskApproval(task.id);
+  const signoffRequired = useTaskSignoffRequired();
+
   // Use the task comments hook
   const {
     comments,
@@ -107,6 +169,9 @@ export function TaskDrawer({
     error: commentError,
     adding: addingComment,
     addComment,
+    editComment,
+    deleteComment,
+    toggleReaction,
     refresh: refreshComments,
   } = useTaskComments(task.id);
 
@@ -128,8 +193,91 @@ export function TaskDrawer({
   const [savingDueDate, setSavingDueDate] = useState(false);
   const [dueDateError, setDueDateError] = useState<string | null>(null);
 
+  // Start date editing state
+  const [editingStartDate, setEditingStartDate] = useState(false);
+  const [startDateValue, setStartDateValue] = useState<Date | undefined>(
+    task.start_date ? new Date(task.start_date) : undefined,
+  );
+  const [savingStartDate, setSavingStartDate] = useState(false);
+  const [startDateError, setStartDateError] = useState<string | null>(null);
+  const [stoppingRecurrence, setStoppingRecurrence] = useState(false);
+  const [recurrenceError, setRecurrenceError] = useState<string | null>(null);
+
   const [assigneeError, setAssigneeError] = useState<string | null>(null);
 
+  const viewers = usePresence(isOpen ? `presence:task:${task.id}` : null);
+
+  // Field saves are rejected if someone else saved the task first; the dialog merges them
+  const { updateTask } = useTaskUpdate();
+  const [taskConflict, setTaskConflict] = useState<TaskConflict | null>(null);
+
+  // Our own saves bump the version before the refreshed task arrives, so the next save checks
+  // against whichever is newer
+  const [savedVersion, setSavedVersion] = useState({ taskId: task.id, version: task.version });
+  const taskVersion =
+    savedVersion.taskId === task.id ? Math.max(savedVersion.version, task.version) : task.version;
+
+  const rememberVersion = useCallback(
+    (version: number) => setSavedVersion({ taskId: task.id, version }),
+    [task.id],
+  );
+
+  const saveTaskFields = async (changes: TaskFieldChanges) => {
+    const result = await updateTask(task.id, taskVersion, changes);
+    if (result.version !== undefined) {
+      rememberVersion(result.version);
+    }
+    if (result.conflict) {
+      setTaskConflict({ base: task, changes, current: result.conflict });
+    }
+    return result;
+  };
+
+  // Assignees live in their own table, so the task is saved first to check nobody else has
+  // changed it since it was loaded
+  const claimTaskVersion = async () => {
+    const result = await updateTask(task.id, taskVersion, {});
+    if (result.version !== undefined) {
+      rememberVersion(result.version);
+    }
+    if (result.conflict) {
+      setAssigneeError('This task was changed by someone else. Check it and try again.');
+      refreshTasks();
+    } else if (!result.success) {
+      setAssigneeError('Failed to update assignees');
+    }
+    return result.success;
+  };
+
+  const handleConflictResolved = useCallback(
+    (version: number) => {
+      rememberVersion(version);
+      refreshTasks();
+      setEditingTitle(false);
+      setEditingDescription(false);
+      setEditingDueDate(false);
+      setEditingStartDate(false);
+    },
+    [refreshTasks, rememberVersion],
+  );
+
+  // Show status and priority changes by name rather than id
+  const activityFieldOptions: ActivityFieldOptions = {
+    formatters: {
+      status_id: (value) => allStatuses.find((s) => s.id === value)?.name || 'Unknown status',
+      priority_id: (value) => allPriorities.find((p) => p.id === value)?.name || 'Unknown priority',
+    },
+  };
+
+  // Keep fields that are not being edited in step with live changes to the task
+  useEffect(() => {
+    if (!editingTitle) setTitleValue(task.title);
+  }, [task.title, editingTitle]);
+
+  useEffect(() => {
+    if (!editingDescription) setDescriptionValue(task.description || '');
+  }, [task.description, editingDescription]);
+
   // Refresh comments when modal is opened
   useEffect(() => {
     if (isOpen) {
@@ -191,18 +339,14 @@ export function TaskDrawer({
     setTitleError(null);
 
     try {
-      const supabase = getSupabaseClient();
-
-      const { error } = await supabase
-        .from('tasks')
-        .update({
-          title: titleValue,
-          updated_at: new Date().toISOString(),
-        })
-        .eq('id', task.id);
+      const result = await saveTaskFields({
+        title: titleValue,
+      });
 
-      if (error) {
-        console.error('Error updating task title:', error);
+      if (result.conflict) {
+        setSavingTitle(false);
+      } else if (!result.success) {
+        console.error('Error updating task title:', result.error);
         setTitleError('Failed to update title');
         setSavingTitle(false);
       } else {
@@ -228,18 +372,14 @@ export function TaskDrawer({
     setDescriptionError(null);
 
     try {
-      const supabase = getSupabaseClient();
-
-      const { error } = await supabase
-        .from('tasks')
-        .update({
-          description: descriptionValue,
-          updated_at: new Date().toISOString(),
-        })
-        .eq('id', task.id);
+      const result = await saveTaskFields({
+        description: descriptionValue,
+      });
 
-      if (error) {
-        console.error('Error updating task description:', error);
+      if (result.conflict) {
+        setSavingDescription(false);
+      } else if (!result.success) {
+        console.error('Error updating task description:', result.error);
         setDescriptionError('Failed to update description');
         setSavingDescription(false);
       } else {
@@ -531,18 +671,14 @@ export function TaskDrawer({
     setDueDateError(null);
 
     try {
-      const supabase = getSupabaseClient();
-
-      const { error } = await supabase
-        .from('tasks')
-        .update({
-          due_date: dueDateValue ? dueDateValue.toISOString() : null,
-          updated_at: new Date().toISOString(),
-        })
-        .eq('id', task.id);
+      const result = await saveTaskFields({
+        due_date: dueDateValue ? dueDateValue.toISOString() : null,
+      });
 
-      if (error) {
-        console.error('Error updating task due date:', error);
+      if (result.conflict) {
+        setSavingDueDate(false);
+      } else if (!result.success) {
+        console.error('Error updating task due date:', result.error);
         setDueDateError('Failed to update due date');
         setSavingDueDate(false);
       } else {
@@ -557,6 +693,73 @@ export function TaskDrawer({
     }
   };
 
+  // Start date save handler
+  const handleStartDateSave = async () => {
+    if (startDateValue === (task.start_date ? new Date(task.start_date) : undefined)) {
+      setEditingStartDate(false);
+      return;
+    }
+
+    if (startDateValue && task.due_date && startDateValue > new Date(task.due_date)) {
+      setStartDateError('Start date must be on or before the due date');
+      return;
+    }
+
+    setSavingStartDate(true);
+    setStartDateError(null);
+
+    try {
+      const result = await saveTaskFields({
+        start_date: startDateValue ? startDateValue.toISOString() : null,
+      });
+
+      if (result.conflict) {
+        setSavingStartDate(false);
+      } else if (!result.success) {
+        console.error('Error updating task start date:', result.error);
+        setStartDateError('Failed to update start date');
+        setSavingStartDate(false);
+      } else {
+        refreshTasks();
+        setEditingStartDate(false);
+        setSavingStartDate(false);
+      }
+    } catch (err) {
+      console.error('Exception updating task start date:', err);
+      setStartDateError('An unexpected error occurred');
+      setSavingStartDate(false);
+    }
+  };
+
+  // Removing the rule detaches every occurrence, so no further ones are created
+  const handleStopRecurrence = async () => {
+    if (!task.recurrence_id) return;
+
+    setStoppingRecurrence(true);
+    setRecurrenceError(null);
+
+    try {
+      const supabase = getSupabaseClient();
+
+      const { error } = await supabase
+        .from('task_recurrences')
+        .delete()
+        .eq('id', task.recurrence_id);
+
+      if (error) {
+        console.error('Error stopping task recurrence:', error);
+        setRecurrenceError('Failed to stop repeating');
+      } else {
+        refreshTasks();
+      }
+    } catch (err) {
+      console.error('Exception stopping task recurrence:', err);
+      setRecurrenceError('An unexpected error occurred');
+    } finally {
+      setStoppingRecurrence(false);
+    }
+  };
+
   const handleAssigneeAdd = async (member: ProjectMember) => {
     if (!user?.id) return;
     setAssigneeError(null);
@@ -569,6 +772,8 @@ export function TaskDrawer({
         return;
       }
 
+      if (!(await claimTaskVersion())) return;
+
       const { error } = await supabase.from('entity_assignees').insert({
         assigned_by: user.id,
         entity_id: task.id,
@@ -593,6 +798,8 @@ export function TaskDrawer({
     setAssigneeError(null);
 
     try {
+      if (!(await claimTaskVersion())) return;
+
       const supabase = getSupabaseClient();
 
       const { error } = await supabase
@@ -615,6 +822,75 @@ export function TaskDrawer({
     }
   };
 
+  // Subtasks start in the project's default status and priority
+  const handleAddSubtask = async (title: string) => {
+    const statusId = allStatuses.find((s) => s.is_default)?.id || allStatuses[0]?.id;
+    const priorityId = allPriorities.find((p) => p.is_default)?.id || allPriorities[0]?.id;
+
+    if (!statusId || !priorityId) {
+      return { success: false, error: 'No statuses or priorities configured' };
+    }
+
+    const result = await addSubtask({ title, parentTaskId: task.id, statusId, priorityId });
+    if (result.success) {
+      refreshTasks();
+    }
+    return result;
+  };
+
+  // Keep the board's blocked badges in sync with dependency edits
+  const handleAddDependency = async (params: {
+    predecessorTaskId: number;
+    successorTaskId: number;
+  }) => {
+    const result = await addDependency(params);
+    if (result.success) {
+      refreshTasks();
+    }
+    return result;
+  };
+
+  const handleRemoveDependency = async (dependencyId: number) => {
+    const result = await removeDependency(dependencyId);
+    if (result.success) {
+      refreshTasks();
+    }
+    return result;
+  };
+
+  // Logged time changes the task's actual hours, so refresh the task as well
+  const handleRequestSignoff = async (approverIds: string[]) => {
+    const result = await requestSignoff(approverIds);
+    if (result.success) {
+      refreshTasks();
+    }
+    return result;
+  };
+
+  const handleResubmitSignoff = async () => {
+    const result = await resubmitSignoff();
+    if (result.success) {
+      refreshTasks();
+    }
+    return result;
+  };
+
+  const handleAddTimeEntry = async (entry: { entryDate: string; hours: number; note?: string }) => {
+    const result = await addTimeEntry(entry);
+    if (result.success) {
+      refreshTasks();
+    }
+    return result;
+  };
+
+  const handleDeleteTimeEntry = async (entryId: number) => {
+    const result = await deleteTimeEntry(entryId);
+    if (result.success) {
+      refreshTasks();
+    }
+    return result;
+  };
+
   return (
     <Sheet open={isOpen} onOpenChange={onClose}>
       <SheetContent side="right" className="w-full sm:w-[600px] sm:max-w-[600px]">
@@ -625,18 +901,26 @@ export function TaskDrawer({
               <StatusPill
                 status={status}
                 taskId={task.id}
+                version={taskVersion}
                 allStatuses={allStatuses}
                 refreshTasks={refreshTasks}
+                onVersionChange={rememberVersion}
                 className="px-3 py-1"
               />
               <PriorityPill
                 priority={priority}
                 taskId={task.id}
+                version={taskVersion}
                 allPriorities={allPriorities}
                 refreshTasks={refreshTasks}
+                onVersionChange={rememberVersion}
                 className="px-3 py-1"
               />
-              <Link href={`/protected/tasks/${task.id}`} className="ml-auto">
+              <PresenceAvatars viewers={viewers} className="ml-auto" />
+              <Link
+                href={`/protected/tasks/${task.id}`}
+                className={viewers.length > 0 ? undefined : 'ml-auto'}
+              >
                 <Button size="sm" variant="outline" className="flex items-center gap-1">
                   <ExternalLink size={14} />
                   <span>Open full page</span>
@@ -756,6 +1040,55 @@ export function TaskDrawer({
                 </div>
               </div>
 
+              <div>
+                <div className="mb-2 flex items-center justify-between">
+                  <h3 className="text-sm font-medium text-muted-foreground">Start Date</h3>
+                  <Button
+                    onClick={() => setEditingStartDate(!editingStartDate)}
+                    size="sm"
+                    variant="ghost"
+                    className="text-muted-foreground opacity-50 hover:opacity-100"
+                  >
+                    {editingStartDate ? <X size={14} /> : <Pencil size={14} />}
+                  </Button>
+                </div>
+
+                {editingStartDate ? (
+                  <div className="flex flex-col">
+                    <div className="flex items-center">
+                      <div className="mr-2 flex-1">
+                        <DatePicker
+                          date={startDateValue}
+                          setDate={setStartDateValue}
+                          disabled={savingStartDate}
+                          placeholder="No start date"
+                        />
+                      </div>
+                      <Button
+                        onClick={handleStartDateSave}
+                        disabled={savingStartDate}
+                        size="sm"
+                        variant="ghost"
+                        className="text-green-500 hover:text-green-400"
+                      >
+                        <Check size={20} />
+                      </Button>
+                    </div>
+                    {startDateError && (
+                      <p className="mt-1 text-xs text-red-500">{startDateError}</p>
+                    )}
+                  </div>
+                ) : (
+                  <div className="rounded-md border border-muted-foreground/20 bg-muted/50 p-3 text-foreground">
+                    {task.start_date ? (
+                      format(new Date(task.start_date), 'MMMM do, yyyy')
+                    ) : (
+                      <span className="text-muted-foreground">No start date set</span>
+                    )}
+                  </div>
+                )}
+              </div>
+
               <div>
                 <div className="mb-2 flex items-center justify-between">
                   <h3 className="text-sm font-medium text-muted-foreground">Due Date</h3>
@@ -807,6 +1140,30 @@ export function TaskDrawer({
                   </div>
                 )}
               </div>
+
+              {task.task_recurrences && (
+                <div>
+                  <h3 className="mb-2 text-sm font-medium text-muted-foreground">Repeats</h3>
+                  <div className="flex items-center justify-between rounded-md border border-muted-foreground/20 bg-muted/50 p-3 text-foreground">
+                    <span className="flex items-center gap-2">
+                      <Repeat size={14} className="text-muted-foreground" />
+                      {describeRecurrenceRule(task.task_recurrences)}
+                    </span>
+                    <Button
+                      onClick={handleStopRecurrence}
+                      disabled={stoppingRecurrence}
+                      size="sm"
+                      variant="ghost"
+                      className="text-muted-foreground hover:text-red-500"
+                    >
+                      Stop repeating
+                    </Button>
+                  </div>
+                  {recurrenceError && (
+                    <p className="mt-1 text-xs text-red-500">{recurrenceError}</p>
+                  )}
+                </div>
+              )}
             </div>
 
             {/* Add the AssigneeSelector in the correct location */}
@@ -859,6 +1216,65 @@ export function TaskDrawer({
               </div>
             </div>
 
+            {/* Subtasks */}
+            <div className="border-t border-border pt-4">
+              <SubtaskTree
+                subtasks={subtasks}
+                allStatuses={allStatuses}
+                loading={loadingSubtasks}
+                adding={addingSubtask}
+                error={subtaskError}
+                onAddSubtask={handleAddSubtask}
+              />
+            </div>
+
+            {/* Dependencies */}
+            <div className="border-t border-border pt-4">
+              <TaskDependencies
+                taskId={task.id}
+                blockedBy={blockedBy}
+                blocking={blocking}
+                projectTasks={projectTasks}
+                allStatuses={allStatuses}
+                loading={loadingDependencies}
+                saving={savingDependency}
+                error={dependencyError}
+                onAddDependency={handleAddDependency}
+                onRemoveDependency={handleRemoveDependency}
+              />
+            </div>
+
+            {/* Sign-off */}
+            <div className="border-t border-border pt-4">
+              <TaskSignoff
+                approval={signoff}
+                approverIds={signoffApproverIds}
+                members={projectMembers}
+                projectId={user?.activeProjectId}
+                required={signoffRequired}
+                loading={loadingSignoff}
+                saving={savingSignoff}
+                error={signoffError}
+                onRequestSignoff={handleRequestSignoff}
+                onResubmit={handleResubmitSignoff}
+              />
+            </div>
+
+            {/* Time Tracking */}
+            <div className="border-t border-border pt-4">
+              <TaskTimeEntries
+                entries={timeEntries}
+                members={projectMembers}
+                currentUserId={user?.id}
+                estimatedHours={task.estimated_hours}
+                loading={loadingTimeEntries}
+                saving={savingTimeEntry}
+                error={timeEntryError}
+                onAddEntry={handleAddTimeEntry}
+                onDeleteEntry={handleDeleteTimeEntry}
+              />
+            </div>
+
             {/* Task Attachments */}
             <div className="border-t border-border pt-4">
               <div className="mb-3 flex items-center justify-between">
@@ -1105,89 +1521,92 @@ export function TaskDrawer({
               </div>
             </div>
 
-            {/* Comments Section */}
-            <div className="border-t border-border pt-4">
-              <h3 className="mb-3 text-sm font-medium text-muted-foreground">Comments</h3>
+            {/* Comments and Activity */}
+            <Tabs defaultValue="comments" className="border-t border-border pt-4">
+              <TabsList className="mb-3">
+                <TabsTrigger value="comments">Comments</TabsTrigger>
+                <TabsTrigger value="activity">Activity</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="comments">
+                {/* Comments List */}
+                <div className="mb-4 space-y-4">
+                  {loadingComments ? (
+                    <div className="flex justify-center py-4">
+                      <div className="animate-pulse text-muted-foreground">Loading comments...</div>
+                    </div>
+                  ) : comments.length > 0 ? (
+                    <TaskCommentThread
+                      comments={comments}
+                      members={projectMembers}
+                      currentUserId={user?.id}
+                      onReply={addComment}
+                      onEdit={editComment}
+                      onDelete={deleteComment}
+                      onToggleReaction={toggleReaction}
+                    />
+                  ) : (
+                    <div className="py-4 text-center text-muted-foreground">No comments yet</div>
+                  )}
+                </div>
 
-              {/* Comments List */}
-              <div className="mb-4 space-y-4">
-                {loadingComments ? (
-                  <div className="flex justify-center py-4">
-                    <div className="animate-pulse text-muted-foreground">Loading comments...</div>
-                  </div>
-                ) : comments.length > 0 ? (
-                  comments.map((comment: TaskComment) => (
-                    <div key={comment.id} className="rounded-md bg-muted/50 p-3">
-                      <div className="mb-2 flex items-center gap-2">
-                        <Avatar className="h-6 w-6">
-                          <AvatarImage src={comment.user_avatar} />
-                          <AvatarFallback className="bg-secondary text-xs text-secondary-foreground">
-                            {comment.user_name
-                              ? comment.user_name
-                                  .split(' ')
-                                  .map((n: string) => n[0])
-                                  .join('')
-                              : '?'}
-                          </AvatarFallback>
-                        </Avatar>
-                        <span className="text-sm font-medium text-foreground">
-                          {comment.user_name || 'Unknown User'}
-                        </span>
-                        <span className="text-xs text-muted-foreground">
-                          {formatDistanceToNow(new Date(comment.created_at), { addSuffix: true })}
-                        </span>
-                      </div>
-                      <div className="whitespace-pre-line text-sm text-foreground">
-                        {comment.content}
+                {/* Add Comment */}
+                {user && (
+                  <div className="flex flex-col">
+                    <div className="flex items-start">
+                      <Avatar className="mr-2 mt-1 h-8 w-8">
+                        <AvatarImage src={user.user_metadata?.avatar_url} />
+                        <AvatarFallback className="bg-secondary text-xs text-secondary-foreground">
+                          {(user.user_metadata?.name || 'U').charAt(0)}
+                        </AvatarFallback>
+                      </Avatar>
+                      <div className="flex flex-1 flex-col">
+                        <MentionTextarea
+                          ref={commentInputRef}
+                          value={commentValue}
+                          onChange={setCommentValue}
+                          members={projectMembers}
+                          onKeyDown={handleCommentKeyDown}
+                          className="min-h-[80px] w-full resize-y rounded-md border border-muted-foreground/20 bg-muted p-3 text-foreground focus:border-transparent focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          placeholder="Add a comment... Type @ to mention someone"
+                          disabled={addingComment}
+                        />
+                        {commentError && (
+                          <p className="mt-1 text-xs text-red-500">{commentError}</p>
+                        )}
+                        <p className="mt-1 text-xs text-muted-foreground">
+                          Use Ctrl+Enter to submit
+                        </p>
                       </div>
+                      <button
+                        onClick={handleAddComment}
+                        disabled={addingComment || !commentValue.trim()}
+                        className={`ml-2 mt-1 rounded-full p-2 transition-colors hover:bg-muted ${
+                          commentValue.trim()
+                            ? 'text-blue-500 hover:text-blue-400'
+                            : 'cursor-not-allowed text-muted-foreground'
+                        }`}
+                        aria-label="Send comment"
+                      >
+                        <Send size={20} />
+                      </button>
                     </div>
-                  ))
-                ) : (
-                  <div className="py-4 text-center text-muted-foreground">No comments yet</div>
+                  </div>
                 )}
-              </div>
+              </TabsContent>
 
-              {/* Add Comment */}
-              {user && (
-                <div className="flex flex-col">
-                  <div className="flex items-start">
-                    <Avatar className="mr-2 mt-1 h-8 w-8">
-                      <AvatarImage src={user.user_metadata?.avatar_url} />
-                      <AvatarFallback className="bg-secondary text-xs text-secondary-foreground">
-                        {(user.user_metadata?.name || 'U').charAt(0)}
-                      </AvatarFallback>
-                    </Avatar>
-                    <div className="flex flex-1 flex-col">
-                      <textarea
-                        ref={commentInputRef}
-                        value={commentValue}
-                        onChange={(e) => setCommentValue(e.target.value)}
-                        onKeyDown={handleCommentKeyDown}
-                        className="min-h-[80px] w-full resize-y rounded-md border border-muted-foreground/20 bg-muted p-3 text-foreground focus:border-transparent focus:outline-none focus:ring-2 focus:ring-blue-500"
-                        placeholder="Add a comment..."
-                        disabled={addingComment}
-                      />
-                      {commentError && <p className="mt-1 text-xs text-red-500">{commentError}</p>}
-                      <p className="mt-1 text-xs text-muted-foreground">Use Ctrl+Enter to submit</p>
-                    </div>
-                    <button
-                      onClick={handleAddComment}
-                      disabled={addingComment || !commentValue.trim()}
-                      className={`ml-2 mt-1 rounded-full p-2 transition-colors hover:bg-muted ${
-                        commentValue.trim()
-                          ? 'text-blue-500 hover:text-blue-400'
-                          : 'cursor-not-allowed text-muted-foreground'
-                      }`}
-                      aria-label="Send comment"
-                    >
-                      <Send size={20} />
-                    </button>
-                  </div>
-                </div>
-              )}
-            </div>
+              <TabsContent value="activity">
+                <ActivityTimeline entityType="task" entityId={task.id} {...activityFieldOptions} />
+              </TabsContent>
+            </Tabs>
           </div>
 
+          <TaskConflictDialog
+            conflict={taskConflict}
+            onConflictChange={setTaskConflict}
+            onResolved={handleConflictResolved}
+          />
+
           {/* Label Creation Popup */}
           {showLabelPopup && (
             <>
@@ -0,0 +1,306 @@
+'use client';
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { Bookmark, ChevronDown, Link2, Save, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Database } from '@/lib/supabase/types.generated';
+import { ProjectMember } from '@/hooks/useProjectMembers';
+import { TaskDueFilter, TaskFilterPreset, TaskFilters } from '@/app/protected/tasks/models';
+import { DUE_SOON_DAYS, EMPTY_TASK_FILTERS, hasActiveTaskFilters } from '@/lib/utils/task-filters';
+
+type TaskLabel = Database['public']['Tables']['labels']['Row'];
+type Priority = Database['public']['Tables']['priorities']['Row'];
+
+const DUE_FILTER_LABELS: Record<TaskDueFilter, string> = {
+  any: 'Any due date',
+  overdue: 'Overdue',
+  due_soon: `Due in ${DUE_SOON_DAYS} days`,
+  no_date: 'No due date',
+};
+
+interface TaskFilterBarProps {
+  filters: TaskFilters;
+  onFiltersChange: (filters: TaskFilters) => void;
+  members: ProjectMember[];
+  labels: TaskLabel[];
+  priorities: Priority[];
+  presets: TaskFilterPreset[];
+  savingPreset?: boolean;
+  onSavePreset: (name: string) => Promise<{ success: boolean; error?: string }>;
+  onDeletePreset: (presetId: number) => Promise<{ success: boolean; error?: string }>;
+  resultCount: number;
+  totalCount: number;
+}
+
+export function TaskFilterBar({
+  filters,
+  onFiltersChange,
+  members,
+  labels,
+  priorities,
+  presets,
+  savingPreset = false,
+  onSavePreset,
+  onDeletePreset,
+  resultCount,
+  totalCount,
+}: TaskFilterBarProps) {
+  const [showSaveDialog, setShowSaveDialog] = useState(false);
+  const [presetName, setPresetName] = useState('');
+  const active = hasActiveTaskFilters(filters);
+
+  // Adds or removes a value from one of the multi-select filters
+  const toggle = <K extends 'assignees' | 'labels' | 'priorities'>(
+    key: K,
+    value: TaskFilters[K][number],
+  ) => {
+    const current = filters[key] as TaskFilters[K][number][];
+    const next = current.includes(value)
+      ? current.filter((item) => item !== value)
+      : [...current, value];
+    onFiltersChange({ ...filters, [key]: next });
+  };
+
+  const handleSavePreset = async () => {
+    const result = await onSavePreset(presetName);
+    if (result.success) {
+      toast.success(`Saved filter "${presetName.trim()}"`);
+      setPresetName('');
+      setShowSaveDialog(false);
+    } else {
+      toast.error(result.error || 'Failed to save filter');
+    }
+  };
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      toast.success('Link copied to clipboard');
+    } catch (err) {
+      console.error('Error copying link:', err);
+      toast.error('Failed to copy link');
+    }
+  };
+
+  return (
+    <div className="mb-4 flex flex-wrap items-center gap-2">
+      <FilterMenu label="Assignee" count={filters.assignees.length}>
+        {members.length === 0 && <DropdownMenuLabel>No project members</DropdownMenuLabel>}
+        {members.map((member) => (
+          <DropdownMenuCheckboxItem
+            key={member.id}
+            checked={filters.assignees.includes(member.id)}
+            onCheckedChange={() => toggle('assignees', member.id)}
+            onSelect={(e) => e.preventDefault()}
+          >
+            {member.name}
+          </DropdownMenuCheckboxItem>
+        ))}
+      </FilterMenu>
+
+      <FilterMenu label="Label" count={filters.labels.length}>
+        {labels.length === 0 && <DropdownMenuLabel>No labels in use</DropdownMenuLabel>}
+        {labels.map((label) => (
+          <DropdownMenuCheckboxItem
+            key={label.id}
+            checked={filters.labels.includes(label.id)}
+            onCheckedChange={() => toggle('labels', label.id)}
+            onSelect={(e) => e.preventDefault()}
+          >
+            <span
+              className="mr-2 h-2.5 w-2.5 rounded-full"
+              style={{ backgroundColor: label.color || '#E2E8F0' }}
+            />
+            {label.name}
+          </DropdownMenuCheckboxItem>
+        ))}
+      </FilterMenu>
+
+      <FilterMenu label="Priority" count={filters.priorities.length}>
+        {priorities.map((priority) => (
+          <DropdownMenuCheckboxItem
+            key={priority.id}
+            checked={filters.priorities.includes(priority.id)}
+            onCheckedChange={() => toggle('priorities', priority.id)}
+            onSelect={(e) => e.preventDefault()}
+          >
+            {priority.name}
+          </DropdownMenuCheckboxItem>
+        ))}
+      </FilterMenu>
+
+      <FilterMenu
+        label={filters.due === 'any' ? 'Due date' : DUE_FILTER_LABELS[filters.due]}
+        active={filters.due !== 'any'}
+      >
+        <DropdownMenuRadioGroup
+          value={filters.due}
+          onValueChange={(value) => onFiltersChange({ ...filters, due: value as TaskDueFilter })}
+        >
+          {(Object.keys(DUE_FILTER_LABELS) as TaskDueFilter[]).map((option) => (
+            <DropdownMenuRadioItem key={option} value={option}>
+              {DUE_FILTER_LABELS[option]}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+      </FilterMenu>
+
+      {active && (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="flex items-center gap-1 text-muted-foreground"
+          onClick={() => onFiltersChange(EMPTY_TASK_FILTERS)}
+        >
+          <X size={14} />
+          Clear
+        </Button>
+      )}
+
+      <div className="ml-auto flex items-center gap-2">
+        {active && (
+          <span className="text-sm text-muted-foreground">
+            {resultCount} of {totalCount} tasks
+          </span>
+        )}
+
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" className="flex items-center gap-1">
+              <Bookmark size={14} />
+              Saved filters
+              <ChevronDown size={14} />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end" className="w-56">
+            {presets.length === 0 && <DropdownMenuLabel>No saved filters</DropdownMenuLabel>}
+            {presets.map((preset) => (
+              <DropdownMenuItem
+                key={preset.id}
+                className="flex items-center justify-between"
+                onSelect={() => onFiltersChange(preset.filters)}
+              >
+                <span className="truncate">{preset.name}</span>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onDeletePreset(preset.id);
+                  }}
+                  className="rounded p-1 text-muted-foreground hover:text-red-500"
+                  aria-label={`Delete ${preset.name}`}
+                >
+                  <Trash2 size={12} />
+                </button>
+              </DropdownMenuItem>
+            ))}
+            <DropdownMenuSeparator />
+            <DropdownMenuItem disabled={!active} onSelect={() => setShowSaveDialog(true)}>
+              <Save size={14} className="mr-2" />
+              Save current filters
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        <Button
+          variant="outline"
+          size="sm"
+          className="flex items-center gap-1"
+          onClick={handleCopyLink}
+        >
+          <Link2 size={14} />
+          Copy link
+        </Button>
+      </div>
+
+      <Dialog open={showSaveDialog} onOpenChange={setShowSaveDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Save Filters</DialogTitle>
+            <DialogDescription>
+              Save the current filters to reuse them later on this project
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="preset-name">Name</Label>
+            <Input
+              id="preset-name"
+              placeholder="e.g. My overdue tasks"
+              value={presetName}
+              onChange={(e) => setPresetName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && presetName.trim()) {
+                  handleSavePreset();
+                }
+              }}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowSaveDialog(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSavePreset} disabled={savingPreset || !presetName.trim()}>
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+// Dropdown trigger that shows how many values of a filter are selected
+function FilterMenu({
+  label,
+  count = 0,
+  active = count > 0,
+  children,
+}: {
+  label: string;
+  count?: number;
+  active?: boolean;
+  children: React.ReactNode;
+}) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant={active ? 'secondary' : 'outline'}
+          size="sm"
+          className="flex items-center gap-1"
+        >
+          {label}
+          {count > 0 && (
+            <span className="rounded-full bg-primary px-1.5 text-xs text-primary-foreground">
+              {count}
+            </span>
+          )}
+          <ChevronDown size={14} />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="max-h-72 w-56 overflow-y-auto">
+        {children}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
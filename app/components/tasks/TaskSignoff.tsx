@@ -0,0 +1,162 @@
+'use client';
+import { useState } from 'react';
+import Link from 'next/link';
+import { ShieldCheck, Users } from 'lucide-react';
+import { ApproverSelector } from '@/components/ApproverSelector';
+import { ProjectMember } from '@/hooks/useProjectMembers';
+import { TaskApprovalSummary } from '@/app/protected/tasks/models';
+import { isSignoffPending } from '@/lib/utils/task-utils';
+import { cn } from '@/lib/utils';
+
+const SIGNOFF_LABELS: Record<string, string> = {
+  draft: 'Sign-off recalled',
+  submitted: 'Awaiting sign-off',
+  approved: 'Signed off',
+  declined: 'Sign-off declined',
+  revision_requested: 'Changes requested',
+};
+
+const SIGNOFF_COLORS: Record<string, string> = {
+  draft: 'bg-muted text-muted-foreground',
+  submitted: 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300',
+  approved: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300',
+  declined: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300',
+  revision_requested: 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-300',
+};
+
+export function SignoffPill({ approval }: { approval: TaskApprovalSummary }) {
+  return (
+    <span
+      className={cn(
+        'flex items-center gap-1 rounded-full px-2 py-0.5 text-xs',
+        SIGNOFF_COLORS[approval.status] || SIGNOFF_COLORS.draft,
+      )}
+    >
+      <ShieldCheck size={12} />
+      {SIGNOFF_LABELS[approval.status] || approval.status}
+    </span>
+  );
+}
+
+interface TaskSignoffProps {
+  approval: TaskApprovalSummary | null;
+  approverIds: string[];
+  members: ProjectMember[];
+  projectId?: number;
+  // Whether the project holds tasks back from done until they are signed off
+  required?: boolean;
+  loading?: boolean;
+  saving?: boolean;
+  error?: string | null;
+  onRequestSignoff: (approverIds: string[]) => Promise<{ success: boolean; error?: string }>;
+  onResubmit: () => Promise<{ success: boolean; error?: string }>;
+}
+
+export function TaskSignoff({
+  approval,
+  approverIds,
+  members,
+  projectId,
+  required = false,
+  loading = false,
+  saving = false,
+  error,
+  onRequestSignoff,
+  onResubmit,
+}: TaskSignoffProps) {
+  const [selectedApprovers, setSelectedApprovers] = useState<string[]>([]);
+
+  const getMemberName = (userId: string) =>
+    members.find((member) => member.id === userId)?.name || 'Unknown';
+
+  // A declined request is final, so the task needs a fresh one
+  const canRequest = !approval || approval.status === 'declined';
+  const canResubmit = approval?.status === 'draft' || approval?.status === 'revision_requested';
+
+  const handleRequest = async () => {
+    const result = await onRequestSignoff(selectedApprovers);
+    if (result.success) {
+      setSelectedApprovers([]);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div>
+        <h3 className="mb-2 text-sm font-medium text-muted-foreground">Sign-off</h3>
+        <div className="animate-pulse space-y-2">
+          <div className="h-8 rounded bg-muted"></div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="mb-2 flex items-center justify-between">
+        <h3 className="text-sm font-medium text-muted-foreground">Sign-off</h3>
+        {approval && <SignoffPill approval={approval} />}
+      </div>
+
+      {approval ? (
+        <div className="mb-2 space-y-1 rounded-md bg-muted/50 p-2 text-sm">
+          <div className="flex items-center gap-2">
+            <Users size={14} className="shrink-0 text-muted-foreground" />
+            <span className="flex-1 truncate">
+              {approverIds.length > 0 ? approverIds.map(getMemberName).join(', ') : 'No approvers'}
+            </span>
+            <Link
+              href={`/protected/approvals?approval=${approval.id}`}
+              className="shrink-0 text-xs text-blue-500 hover:underline"
+            >
+              View request
+            </Link>
+          </div>
+        </div>
+      ) : (
+        <div className="mb-2 text-sm text-muted-foreground">No sign-off requested</div>
+      )}
+
+      {required && isSignoffPending(approval) && (
+        <p className="mb-2 text-xs text-muted-foreground">
+          This task can&apos;t be moved to done until it is signed off.
+        </p>
+      )}
+
+      {canRequest && (
+        <div className="flex items-center gap-2">
+          <ApproverSelector
+            selectedApprovers={selectedApprovers}
+            onApproversChange={setSelectedApprovers}
+            projectId={projectId}
+            disabled={saving}
+          />
+          <button
+            onClick={handleRequest}
+            disabled={saving || selectedApprovers.length === 0}
+            className={cn(
+              'rounded-md px-2 py-1.5 text-sm transition-colors',
+              selectedApprovers.length > 0
+                ? 'text-blue-500 hover:bg-muted hover:text-blue-400'
+                : 'cursor-not-allowed text-muted-foreground',
+            )}
+          >
+            {saving ? 'Requesting...' : 'Request sign-off'}
+          </button>
+        </div>
+      )}
+
+      {canResubmit && (
+        <button
+          onClick={onResubmit}
+          disabled={saving}
+          className="rounded-md px-2 py-1.5 text-sm text-blue-500 transition-colors hover:bg-muted hover:text-blue-400"
+        >
+          {saving ? 'Resubmitting...' : 'Resubmit for sign-off'}
+        </button>
+      )}
+
+      {error && <p className="mt-1 text-xs text-red-500">{error}</p>}
+    </div>
+  );
+}
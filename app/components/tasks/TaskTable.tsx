@@ -0,0 +1,322 @@
+'use client';
+import { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { ArrowDown, ArrowUp, ArrowUpDown, Columns3 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Database } from '@/lib/supabase/types.generated';
+import { TaskWithRelations } from '@/app/protected/tasks/models';
+import { getDoneStatusId, isTaskOverdue } from '@/lib/utils/task-utils';
+import { cn } from '@/lib/utils';
+import { TaskDrawer } from './TaskDrawer';
+
+type Status = Database['public']['Tables']['statuses']['Row'];
+type Priority = Database['public']['Tables']['priorities']['Row'];
+
+type TaskTableColumn =
+  | 'title'
+  | 'status'
+  | 'priority'
+  | 'assignees'
+  | 'labels'
+  | 'start_date'
+  | 'due_date'
+  | 'created_at'
+  | 'estimated_hours';
+
+type SortDirection = 'asc' | 'desc';
+
+const COLUMN_LABELS: Record<TaskTableColumn, string> = {
+  title: 'Title',
+  status: 'Status',
+  priority: 'Priority',
+  assignees: 'Assignees',
+  labels: 'Labels',
+  start_date: 'Start',
+  due_date: 'Due',
+  created_at: 'Created',
+  estimated_hours: 'Est. hours',
+};
+
+const ALL_COLUMNS = Object.keys(COLUMN_LABELS) as TaskTableColumn[];
+
+const DEFAULT_COLUMNS: TaskTableColumn[] = [
+  'title',
+  'status',
+  'priority',
+  'assignees',
+  'labels',
+  'due_date',
+];
+
+const getAssigneeName = (ea: TaskWithRelations['entity_assignees'][number]) =>
+  ea.users.user_profiles?.global_display_name || ea.users.raw_user_meta_data.name;
+
+// Value a column is sorted by; empty values always sort last
+const getSortValue = (
+  task: TaskWithRelations,
+  column: TaskTableColumn,
+  allStatuses: Status[],
+): string | number | null => {
+  switch (column) {
+    case 'title':
+      return task.title.toLowerCase();
+    case 'status':
+      return allStatuses.find((s) => s.id === task.status_id)?.position ?? null;
+    case 'priority':
+      return task.priorities?.position ?? null;
+    case 'assignees':
+      return task.entity_assignees.map(getAssigneeName).sort().join(', ').toLowerCase() || null;
+    case 'labels':
+      return (
+        task.labels
+          .map((label) => label.name)
+          .sort()
+          .join(', ')
+          .toLowerCase() || null
+      );
+    case 'start_date':
+    case 'due_date':
+    case 'created_at':
+      return task[column] ? new Date(task[column]!).getTime() : null;
+    case 'estimated_hours':
+      return task.estimated_hours || null;
+  }
+};
+
+interface TaskTableProps {
+  tasks: TaskWithRelations[];
+  allStatuses: Status[];
+  allPriorities: Priority[];
+  refreshTasks: () => void;
+}
+
+export function TaskTable({ tasks, allStatuses, allPriorities, refreshTasks }: TaskTableProps) {
+  const [visibleColumns, setVisibleColumns] = useState<TaskTableColumn[]>(DEFAULT_COLUMNS);
+  const [sort, setSort] = useState<{ column: TaskTableColumn; direction: SortDirection }>({
+    column: 'due_date',
+    direction: 'asc',
+  });
+  const [selectedTaskId, setSelectedTaskId] = useState<number | null>(null);
+
+  const doneStatusId = getDoneStatusId(allStatuses);
+
+  const sortedTasks = useMemo(() => {
+    const direction = sort.direction === 'asc' ? 1 : -1;
+
+    return [...tasks].sort((a, b) => {
+      const aValue = getSortValue(a, sort.column, allStatuses);
+      const bValue = getSortValue(b, sort.column, allStatuses);
+
+      if (aValue === bValue) return 0;
+      if (aValue === null) return 1;
+      if (bValue === null) return -1;
+      return aValue < bValue ? -direction : direction;
+    });
+  }, [tasks, sort, allStatuses]);
+
+  const handleSort = (column: TaskTableColumn) => {
+    setSort((prev) =>
+      prev.column === column
+        ? { column, direction: prev.direction === 'asc' ? 'desc' : 'asc' }
+        : { column, direction: 'asc' },
+    );
+  };
+
+  const toggleColumn = (column: TaskTableColumn) => {
+    setVisibleColumns((prev) =>
+      prev.includes(column)
+        ? prev.filter((c) => c !== column)
+        : ALL_COLUMNS.filter((c) => c === column || prev.includes(c)),
+    );
+  };
+
+  const renderCell = (task: TaskWithRelations, column: TaskTableColumn) => {
+    switch (column) {
+      case 'title':
+        return <span className="font-medium">{task.title}</span>;
+      case 'status': {
+        const status = allStatuses.find((s) => s.id === task.status_id);
+        return status ? (
+          <span
+            className="rounded-full px-2 py-0.5 text-xs text-black"
+            style={{ backgroundColor: status.color || '#E2E8F0' }}
+          >
+            {status.name}
+          </span>
+        ) : null;
+      }
+      case 'priority':
+        return task.priorities ? (
+          <span
+            className="rounded-full px-2 py-0.5 text-xs text-black"
+            style={{ backgroundColor: task.priorities.color || '#E2E8F0' }}
+          >
+            {task.priorities.name}
+          </span>
+        ) : null;
+      case 'assignees':
+        return (
+          <span className="text-sm">
+            {task.entity_assignees.map(getAssigneeName).join(', ') || (
+              <span className="text-muted-foreground">Unassigned</span>
+            )}
+          </span>
+        );
+      case 'labels':
+        return (
+          <div className="flex flex-wrap gap-1">
+            {task.labels.map((label) => (
+              <span
+                key={label.id}
+                className="rounded-full px-2 py-0.5 text-xs text-black"
+                style={{ backgroundColor: label.color || '#E2E8F0' }}
+              >
+                {label.name}
+              </span>
+            ))}
+          </div>
+        );
+      case 'start_date':
+      case 'created_at':
+        return task[column] ? format(new Date(task[column]!), 'MMM d, yyyy') : null;
+      case 'due_date':
+        return task.due_date ? (
+          <span className={cn(isTaskOverdue(task, doneStatusId) ? 'text-red-500' : '')}>
+            {format(new Date(task.due_date), 'MMM d, yyyy')}
+          </span>
+        ) : null;
+      case 'estimated_hours':
+        return task.estimated_hours || null;
+    }
+  };
+
+  const selectedTask = tasks.find((task) => task.id === selectedTaskId) || null;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-end">
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" className="flex items-center gap-1">
+              <Columns3 size={14} />
+              Columns
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end" className="w-48">
+            <DropdownMenuLabel>Visible columns</DropdownMenuLabel>
+            <DropdownMenuSeparator />
+            {ALL_COLUMNS.map((column) => (
+              <DropdownMenuCheckboxItem
+                key={column}
+                checked={visibleColumns.includes(column)}
+                // The title column identifies the row, so it can't be hidden
+                disabled={column === 'title'}
+                onCheckedChange={() => toggleColumn(column)}
+                onSelect={(e) => e.preventDefault()}
+              >
+                {COLUMN_LABELS[column]}
+              </DropdownMenuCheckboxItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+
+      <div className="rounded-lg border border-border bg-card">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              {visibleColumns.map((column) => (
+                <TableHead key={column}>
+                  <button
+                    onClick={() => handleSort(column)}
+                    className="flex items-center gap-1 hover:text-foreground"
+                  >
+                    {COLUMN_LABELS[column]}
+                    {sort.column !== column ? (
+                      <ArrowUpDown size={12} className="opacity-40" />
+                    ) : sort.direction === 'asc' ? (
+                      <ArrowUp size={12} />
+                    ) : (
+                      <ArrowDown size={12} />
+                    )}
+                  </button>
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {sortedTasks.length === 0 ? (
+              <TableRow>
+                <TableCell
+                  colSpan={visibleColumns.length}
+                  className="py-8 text-center text-muted-foreground"
+                >
+                  No tasks
+                </TableCell>
+              </TableRow>
+            ) : (
+              sortedTasks.map((task) => (
+                <TableRow
+                  key={task.id}
+                  className="cursor-pointer"
+                  onClick={() => setSelectedTaskId(task.id)}
+                >
+                  {visibleColumns.map((column) => (
+                    <TableCell key={column}>{renderCell(task, column)}</TableCell>
+                  ))}
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      {selectedTask && (
+        <TaskDrawer
+          isOpen={!!selectedTask}
+          onClose={() => setSelectedTaskId(null)}
+          task={selectedTask}
+          status={allStatuses.find((s) => s.id === selectedTask.status_id) || allStatuses[0]}
+          priority={
+            selectedTask.priorities || {
+              id: 0,
+              name: 'No Priority',
+              color: '#E2E8F0',
+              position: 0,
+              is_default: false,
+              project_id: 0,
+              created_at: '',
+              created_by: '',
+            }
+          }
+          labels={selectedTask.labels}
+          assignees={selectedTask.entity_assignees.map((ea) => ({
+            id: ea.user_id,
+            name: getAssigneeName(ea),
+            avatar_url:
+              ea.users.user_profiles?.global_avatar_url || ea.users.raw_user_meta_data.avatar_url,
+          }))}
+          allStatuses={allStatuses}
+          allPriorities={allPriorities}
+          refreshTasks={refreshTasks}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,223 @@
+'use client';
+import { CornerDownRight, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { TaskTemplateInput, TaskTemplateItemInput } from '@/lib/api/task-templates';
+import { createTemplateItem, createTemplateSubtask } from '@/lib/utils/task-templates';
+
+type TemplateItemFields = Omit<TaskTemplateItemInput, 'subtasks'>;
+
+interface TaskTemplateEditorProps {
+  value: TaskTemplateInput;
+  onChange: (value: TaskTemplateInput) => void;
+  disabled?: boolean;
+}
+
+const parseOffset = (value: string): number | null =>
+  value === '' ? null : Math.max(0, Math.floor(Number(value)));
+
+// Fields shared by tasks and subtasks
+function TemplateItemFieldsEditor({
+  item,
+  onChange,
+  disabled,
+  compact = false,
+}: {
+  item: TemplateItemFields;
+  onChange: (item: TemplateItemFields) => void;
+  disabled: boolean;
+  compact?: boolean;
+}) {
+  const setMetadata = (key: string, value: string) =>
+    onChange({ ...item, metadata: { ...item.metadata, [key]: value } });
+
+  return (
+    <div className="grid flex-1 gap-2 sm:grid-cols-2">
+      <Input
+        placeholder={compact ? 'Subtask title' : 'Task title'}
+        value={item.title}
+        onChange={(e) => onChange({ ...item, title: e.target.value })}
+        disabled={disabled}
+        className="sm:col-span-2"
+      />
+      {!compact && (
+        <Textarea
+          placeholder="Description (optional)"
+          value={item.description ?? ''}
+          onChange={(e) => onChange({ ...item, description: e.target.value })}
+          disabled={disabled}
+          rows={2}
+          className="sm:col-span-2"
+        />
+      )}
+      <Input
+        placeholder="Status (project default)"
+        value={item.status_name ?? ''}
+        onChange={(e) => onChange({ ...item, status_name: e.target.value })}
+        disabled={disabled}
+      />
+      <Input
+        placeholder="Priority (project default)"
+        value={item.priority_name ?? ''}
+        onChange={(e) => onChange({ ...item, priority_name: e.target.value })}
+        disabled={disabled}
+      />
+      <Input
+        placeholder="Labels, comma separated"
+        value={item.label_names.join(',')}
+        onChange={(e) =>
+          onChange({ ...item, label_names: e.target.value ? e.target.value.split(',') : [] })
+        }
+        disabled={disabled}
+      />
+      <Input
+        type="number"
+        min={0}
+        placeholder="Due after (days)"
+        value={item.due_offset_days ?? ''}
+        onChange={(e) => onChange({ ...item, due_offset_days: parseOffset(e.target.value) })}
+        disabled={disabled}
+      />
+      <Input
+        type="number"
+        min={0}
+        step={0.5}
+        placeholder="Estimated hours"
+        value={item.metadata.estimated_hours ?? ''}
+        onChange={(e) => setMetadata('estimated_hours', e.target.value)}
+        disabled={disabled}
+      />
+      <Input
+        type="number"
+        min={0}
+        placeholder="Manpower"
+        value={item.metadata.manpower ?? ''}
+        onChange={(e) => setMetadata('manpower', e.target.value)}
+        disabled={disabled}
+      />
+    </div>
+  );
+}
+
+export function TaskTemplateEditor({ value, onChange, disabled = false }: TaskTemplateEditorProps) {
+  const updateItem = (index: number, item: TaskTemplateItemInput) =>
+    onChange({ ...value, items: value.items.map((current, i) => (i === index ? item : current)) });
+
+  const removeItem = (index: number) =>
+    onChange({ ...value, items: value.items.filter((_, i) => i !== index) });
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="template-name">Template Name</Label>
+        <Input
+          id="template-name"
+          placeholder="e.g. Site setup"
+          value={value.name}
+          onChange={(e) => onChange({ ...value, name: e.target.value })}
+          disabled={disabled}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="template-description">Description</Label>
+        <Textarea
+          id="template-description"
+          placeholder="What this set of tasks is for"
+          value={value.description ?? ''}
+          onChange={(e) => onChange({ ...value, description: e.target.value })}
+          disabled={disabled}
+          rows={2}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label>Tasks</Label>
+        <p className="text-xs text-muted-foreground">
+          Statuses, priorities and labels are matched by name in the project the template is applied
+          to. Due dates are counted in days from the date the template is applied.
+        </p>
+
+        {value.items.map((item, index) => (
+          <div key={index} className="space-y-3 rounded-lg border p-3">
+            <div className="flex items-start gap-2">
+              <TemplateItemFieldsEditor
+                item={item}
+                onChange={(fields) => updateItem(index, { ...fields, subtasks: item.subtasks })}
+                disabled={disabled}
+              />
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => removeItem(index)}
+                disabled={disabled}
+                aria-label="Remove task"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+
+            {item.subtasks.map((subtask, subtaskIndex) => (
+              <div key={subtaskIndex} className="flex items-start gap-2 pl-4">
+                <CornerDownRight className="mt-2.5 h-4 w-4 shrink-0 text-muted-foreground" />
+                <TemplateItemFieldsEditor
+                  item={subtask}
+                  onChange={(fields) =>
+                    updateItem(index, {
+                      ...item,
+                      subtasks: item.subtasks.map((current, i) =>
+                        i === subtaskIndex ? fields : current,
+                      ),
+                    })
+                  }
+                  disabled={disabled}
+                  compact
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() =>
+                    updateItem(index, {
+                      ...item,
+                      subtasks: item.subtasks.filter((_, i) => i !== subtaskIndex),
+                    })
+                  }
+                  disabled={disabled}
+                  aria-label="Remove subtask"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() =>
+                updateItem(index, {
+                  ...item,
+                  subtasks: [...item.subtasks, createTemplateSubtask()],
+                })
+              }
+              disabled={disabled}
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              Add Subtask
+            </Button>
+          </div>
+        ))}
+
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onChange({ ...value, items: [...value.items, createTemplateItem()] })}
+          disabled={disabled}
+        >
+          <Plus className="mr-2 h-4 w-4" />
+          Add Task
+        </Button>
+      </div>
+    </div>
+  );
+}
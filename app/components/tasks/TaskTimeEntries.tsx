@@ -0,0 +1,168 @@
+'use client';
+import { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Clock, Plus, Trash2 } from 'lucide-react';
+import { DatePicker } from '@/components/ui/date-picker';
+import { ProjectMember } from '@/hooks/useProjectMembers';
+import { TaskTimeEntry } from '@/app/protected/tasks/models';
+import { cn } from '@/lib/utils';
+
+interface TaskTimeEntriesProps {
+  entries: TaskTimeEntry[];
+  members: ProjectMember[];
+  currentUserId?: string;
+  estimatedHours: number | null;
+  loading?: boolean;
+  saving?: boolean;
+  error?: string | null;
+  onAddEntry: (entry: {
+    entryDate: string;
+    hours: number;
+    note?: string;
+  }) => Promise<{ success: boolean; error?: string }>;
+  onDeleteEntry: (entryId: number) => Promise<{ success: boolean; error?: string }>;
+}
+
+export function TaskTimeEntries({
+  entries,
+  members,
+  currentUserId,
+  estimatedHours,
+  loading = false,
+  saving = false,
+  error,
+  onAddEntry,
+  onDeleteEntry,
+}: TaskTimeEntriesProps) {
+  const [entryDate, setEntryDate] = useState<Date | undefined>(new Date());
+  const [hours, setHours] = useState('');
+  const [note, setNote] = useState('');
+
+  const totalHours = Math.round(entries.reduce((sum, e) => sum + Number(e.hours), 0) * 100) / 100;
+  const canAdd = !!entryDate && Number(hours) > 0;
+
+  const getMemberName = (userId: string) =>
+    members.find((member) => member.id === userId)?.name || 'Unknown';
+
+  const handleAdd = async () => {
+    if (!entryDate || !canAdd) return;
+
+    const result = await onAddEntry({
+      entryDate: format(entryDate, 'yyyy-MM-dd'),
+      hours: Number(hours),
+      note,
+    });
+    if (result.success) {
+      setHours('');
+      setNote('');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div>
+        <h3 className="mb-2 text-sm font-medium text-muted-foreground">Time</h3>
+        <div className="animate-pulse space-y-2">
+          <div className="h-8 rounded bg-muted"></div>
+          <div className="h-8 rounded bg-muted"></div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="mb-2 flex items-center justify-between">
+        <h3 className="text-sm font-medium text-muted-foreground">Time</h3>
+        <span
+          className={cn(
+            'flex items-center gap-1 text-xs',
+            estimatedHours !== null && totalHours > estimatedHours
+              ? 'text-red-500'
+              : 'text-muted-foreground',
+          )}
+        >
+          <Clock size={12} />
+          {totalHours}h logged
+          {estimatedHours !== null && ` of ${estimatedHours}h estimated`}
+        </span>
+      </div>
+
+      {entries.length > 0 ? (
+        <ul className="mb-3 space-y-1">
+          {entries.map((entry) => (
+            <li
+              key={entry.id}
+              className="flex items-center gap-2 rounded-md bg-muted/50 p-2 text-sm"
+            >
+              <span className="w-20 shrink-0 text-muted-foreground">
+                {format(parseISO(entry.entry_date), 'MMM d')}
+              </span>
+              <span className="w-28 shrink-0 truncate">{getMemberName(entry.user_id)}</span>
+              <span className="flex-1 truncate text-muted-foreground">{entry.note}</span>
+              <span className="shrink-0 font-medium">{Number(entry.hours)}h</span>
+              {entry.user_id === currentUserId && (
+                <button
+                  onClick={() => onDeleteEntry(entry.id)}
+                  disabled={saving}
+                  className="rounded-full p-1 text-muted-foreground transition-colors hover:bg-muted hover:text-red-500"
+                  aria-label="Delete time entry"
+                >
+                  <Trash2 size={14} />
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <div className="mb-3 text-sm text-muted-foreground">No time logged yet</div>
+      )}
+
+      <div className="grid grid-cols-[1fr_5rem] gap-2 sm:grid-cols-[10rem_5rem_1fr_auto]">
+        <DatePicker
+          date={entryDate}
+          setDate={setEntryDate}
+          disabled={saving}
+          placeholder="Date"
+          className="h-9 text-sm"
+        />
+        <input
+          type="number"
+          min={0.25}
+          max={24}
+          step={0.25}
+          value={hours}
+          onChange={(e) => setHours(e.target.value)}
+          placeholder="Hours"
+          className="rounded-md border border-muted-foreground/20 bg-muted px-3 py-1.5 text-sm text-foreground focus:border-transparent focus:outline-none focus:ring-2 focus:ring-blue-500"
+          disabled={saving}
+        />
+        <input
+          type="text"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleAdd();
+          }}
+          placeholder="Note (optional)"
+          className="rounded-md border border-muted-foreground/20 bg-muted px-3 py-1.5 text-sm text-foreground focus:border-transparent focus:outline-none focus:ring-2 focus:ring-blue-500"
+          disabled={saving}
+        />
+        <button
+          onClick={handleAdd}
+          disabled={saving || !canAdd}
+          className={cn(
+            'flex items-center justify-center rounded-md px-2 py-1.5 text-sm transition-colors',
+            canAdd
+              ? 'text-blue-500 hover:bg-muted hover:text-blue-400'
+              : 'cursor-not-allowed text-muted-foreground',
+          )}
+          aria-label="Log time"
+        >
+          <Plus size={16} />
+        </button>
+      </div>
+      {error && <p className="mt-1 text-xs text-red-500">{error}</p>}
+    </div>
+  );
+}
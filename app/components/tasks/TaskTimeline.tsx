@@ -0,0 +1,322 @@
+'use client';
+import { useMemo, useRef, useState } from 'react';
+import Link from 'next/link';
+import {
+  addDays,
+  differenceInCalendarDays,
+  eachDayOfInterval,
+  format,
+  isSameDay,
+  isWeekend,
+  max as maxDate,
+  min as minDate,
+  startOfDay,
+} from 'date-fns';
+import { Database } from '@/lib/supabase/types.generated';
+import { TaskWithRelations } from '@/app/protected/tasks/models';
+import { getTaskTimelineSpan } from '@/lib/utils/task-utils';
+import { cn } from '@/lib/utils';
+
+type Status = Database['public']['Tables']['statuses']['Row'];
+
+export type TimelineGroupBy = 'assignee' | 'label';
+
+// Width of a single day column in pixels
+const DAY_WIDTH = 32;
+
+// Days of padding shown either side of the scheduled tasks
+const RANGE_PADDING_DAYS = 7;
+
+// Minimum number of days shown so short programmes still have some context
+const MIN_RANGE_DAYS = 28;
+
+interface TaskTimelineProps {
+  tasks: TaskWithRelations[];
+  allStatuses: Status[];
+  onReschedule: (
+    taskId: number,
+    dates: { start_date: string | null; due_date: string },
+  ) => Promise<void> | void;
+}
+
+interface TimelineGroup {
+  key: string;
+  name: string;
+  color?: string | null;
+  tasks: TaskWithRelations[];
+}
+
+interface DragState {
+  taskId: number;
+  mode: 'move' | 'resize';
+  originX: number;
+  deltaDays: number;
+}
+
+export function TaskTimeline({ tasks, allStatuses, onReschedule }: TaskTimelineProps) {
+  const [groupBy, setGroupBy] = useState<TimelineGroupBy>('assignee');
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const dragRef = useRef<DragState | null>(null);
+
+  // Date range covering every task plus padding, always including today
+  const days = useMemo(() => {
+    const today = startOfDay(new Date());
+    const spans = tasks.map((task) => getTaskTimelineSpan(task));
+    const earliest = minDate([today, ...spans.map((span) => span.start)]);
+    const latest = maxDate([today, ...spans.map((span) => span.end)]);
+
+    const start = addDays(earliest, -RANGE_PADDING_DAYS);
+    const end = maxDate([addDays(latest, RANGE_PADDING_DAYS), addDays(start, MIN_RANGE_DAYS)]);
+
+    return eachDayOfInterval({ start, end });
+  }, [tasks]);
+
+  const rangeStart = days[0];
+
+  // Tasks with several assignees or labels appear once in each of their groups
+  const groups = useMemo(() => {
+    const result = new Map<string, TimelineGroup>();
+    const addToGroup = (key: string, name: string, task: TaskWithRelations, color?: string) => {
+      if (!result.has(key)) {
+        result.set(key, { key, name, color, tasks: [] });
+      }
+      result.get(key)!.tasks.push(task);
+    };
+
+    tasks.forEach((task) => {
+      if (groupBy === 'assignee') {
+        if (task.entity_assignees.length === 0) {
+          addToGroup('none', 'Unassigned', task);
+        }
+        task.entity_assignees.forEach((ea) =>
+          addToGroup(
+            ea.user_id,
+            ea.users.user_profiles?.global_display_name || ea.users.raw_user_meta_data.name,
+            task,
+          ),
+        );
+      } else {
+        if (task.labels.length === 0) {
+          addToGroup('none', 'No label', task);
+        }
+        task.labels.forEach((label) =>
+          addToGroup(String(label.id), label.name, task, label.color || undefined),
+        );
+      }
+    });
+
+    // Named groups alphabetically, with the catch-all group last
+    return Array.from(result.values()).sort((a, b) => {
+      if (a.key === 'none') return 1;
+      if (b.key === 'none') return -1;
+      return a.name.localeCompare(b.name);
+    });
+  }, [tasks, groupBy]);
+
+  const handlePointerDown = (
+    e: React.PointerEvent<HTMLDivElement>,
+    taskId: number,
+    mode: DragState['mode'],
+  ) => {
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const state = { taskId, mode, originX: e.clientX, deltaDays: 0 };
+    dragRef.current = state;
+    setDrag(state);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!dragRef.current) return;
+
+    const deltaDays = Math.round((e.clientX - dragRef.current.originX) / DAY_WIDTH);
+    if (deltaDays !== dragRef.current.deltaDays) {
+      dragRef.current = { ...dragRef.current, deltaDays };
+      setDrag(dragRef.current);
+    }
+  };
+
+  const handlePointerUp = async (task: TaskWithRelations) => {
+    const current = dragRef.current;
+    dragRef.current = null;
+    setDrag(null);
+
+    if (!current || current.deltaDays === 0) return;
+
+    const { start, end } = getTaskTimelineSpan(task);
+    // Shift the stored due date so its time of day is kept
+    const baseDue = task.due_date ? new Date(task.due_date) : end;
+
+    if (current.mode === 'move') {
+      await onReschedule(task.id, {
+        start_date: addDays(start, current.deltaDays).toISOString(),
+        due_date: addDays(baseDue, current.deltaDays).toISOString(),
+      });
+    } else {
+      const newDue = addDays(baseDue, current.deltaDays);
+      await onReschedule(task.id, {
+        start_date: task.start_date,
+        due_date: (startOfDay(newDue) < start ? start : newDue).toISOString(),
+      });
+    }
+  };
+
+  const getBarPosition = (task: TaskWithRelations) => {
+    const { start, end } = getTaskTimelineSpan(task);
+    let startOffset = differenceInCalendarDays(start, rangeStart);
+    let length = differenceInCalendarDays(end, start) + 1;
+
+    // Preview the drag before it is saved
+    if (drag?.taskId === task.id) {
+      if (drag.mode === 'move') {
+        startOffset += drag.deltaDays;
+      } else {
+        length = Math.max(1, length + drag.deltaDays);
+      }
+    }
+
+    return { left: startOffset * DAY_WIDTH, width: length * DAY_WIDTH };
+  };
+
+  const timelineWidth = days.length * DAY_WIDTH;
+  const todayOffset = differenceInCalendarDays(new Date(), rangeStart) * DAY_WIDTH;
+
+  return (
+    <div className="space-y-4">
+      {/* Grouping controls */}
+      <div className="flex items-center gap-2 text-sm">
+        <span className="text-muted-foreground">Group by</span>
+        {(['assignee', 'label'] as TimelineGroupBy[]).map((option) => (
+          <button
+            key={option}
+            onClick={() => setGroupBy(option)}
+            className={cn(
+              'rounded-md px-3 py-1 capitalize transition-colors',
+              groupBy === option
+                ? 'bg-primary text-primary-foreground'
+                : 'bg-muted text-muted-foreground hover:text-foreground',
+            )}
+          >
+            {option}
+          </button>
+        ))}
+      </div>
+
+      <div className="overflow-x-auto rounded-lg border border-border bg-card">
+        <div style={{ width: timelineWidth + 240 }}>
+          {/* Date axis */}
+          <div className="flex border-b border-border">
+            <div className="sticky left-0 z-20 w-60 shrink-0 border-r border-border bg-card p-2 text-sm font-medium">
+              Task
+            </div>
+            <div className="flex" style={{ width: timelineWidth }}>
+              {days.map((day) => (
+                <div
+                  key={day.toISOString()}
+                  className={cn(
+                    'flex shrink-0 flex-col items-center justify-center border-r border-border/50 py-1 text-xs',
+                    isWeekend(day) ? 'bg-muted/50 text-muted-foreground' : '',
+                    isSameDay(day, new Date()) ? 'font-bold text-blue-500' : '',
+                  )}
+                  style={{ width: DAY_WIDTH }}
+                >
+                  {day.getDate() === 1 || isSameDay(day, rangeStart) ? (
+                    <span className="text-[10px] uppercase">{format(day, 'MMM')}</span>
+                  ) : (
+                    <span className="text-[10px] text-transparent">-</span>
+                  )}
+                  <span>{format(day, 'd')}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {groups.length === 0 && (
+            <div className="py-12 text-center text-sm text-muted-foreground">No tasks</div>
+          )}
+
+          {groups.map((group) => (
+            <div key={group.key}>
+              {/* Group header */}
+              <div className="flex border-b border-border bg-muted/30">
+                <div className="sticky left-0 z-20 flex w-60 shrink-0 items-center gap-2 border-r border-border bg-muted p-2 text-sm font-medium">
+                  {group.color && (
+                    <span
+                      className="h-3 w-3 rounded-full"
+                      style={{ backgroundColor: group.color }}
+                    />
+                  )}
+                  <span className="truncate">{group.name}</span>
+                  <span className="text-xs text-muted-foreground">({group.tasks.length})</span>
+                </div>
+                <div style={{ width: timelineWidth }} />
+              </div>
+
+              {/* Task rows */}
+              {group.tasks.map((task) => {
+                const status = allStatuses.find((s) => s.id === task.status_id);
+                const { left, width } = getBarPosition(task);
+                const { start, end } = getTaskTimelineSpan(task);
+
+                return (
+                  <div key={`${group.key}-${task.id}`} className="flex border-b border-border/50">
+                    <div className="sticky left-0 z-20 w-60 shrink-0 truncate border-r border-border bg-card p-2 text-sm">
+                      <Link href={`/protected/tasks/${task.id}`} className="hover:underline">
+                        {task.title}
+                      </Link>
+                    </div>
+                    <div className="relative h-10" style={{ width: timelineWidth }}>
+                      {/* Weekend shading */}
+                      {days.map((day, index) =>
+                        isWeekend(day) ? (
+                          <div
+                            key={day.toISOString()}
+                            className="absolute inset-y-0 bg-muted/30"
+                            style={{ left: index * DAY_WIDTH, width: DAY_WIDTH }}
+                          />
+                        ) : null,
+                      )}
+
+                      {/* Today marker */}
+                      <div
+                        className="absolute inset-y-0 w-px bg-blue-500/60"
+                        style={{ left: todayOffset + DAY_WIDTH / 2 }}
+                      />
+
+                      {/* Task bar */}
+                      <div
+                        className={cn(
+                          'absolute top-2 flex h-6 cursor-grab touch-none select-none items-center rounded-md px-2 text-xs text-black shadow-sm',
+                          !task.due_date ? 'border-2 border-dashed border-muted-foreground/50' : '',
+                          drag?.taskId === task.id ? 'cursor-grabbing opacity-80' : '',
+                        )}
+                        style={{ left, width, backgroundColor: status?.color || '#E2E8F0' }}
+                        title={`${task.title}: ${format(start, 'MMM d')} – ${
+                          task.due_date ? format(end, 'MMM d') : 'no due date'
+                        }`}
+                        onPointerDown={(e) => handlePointerDown(e, task.id, 'move')}
+                        onPointerMove={handlePointerMove}
+                        onPointerUp={() => handlePointerUp(task)}
+                      >
+                        <span className="truncate">{task.title}</span>
+                        {/* Resize handle for the due date */}
+                        <div
+                          className="absolute inset-y-0 right-0 w-2 cursor-ew-resize rounded-r-md hover:bg-black/20"
+                          onPointerDown={(e) => handlePointerDown(e, task.id, 'resize')}
+                          onPointerMove={handlePointerMove}
+                          onPointerUp={(e) => {
+                            e.stopPropagation();
+                            handlePointerUp(task);
+                          }}
+                        />
+                      </div>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
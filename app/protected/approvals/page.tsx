@@ -1,6 +1,7 @@
 'use client';
 
-import { useState } from 'react';
+import { Suspense, useEffect, useState } from 'react';
+import { useSearchParams } from 'next/navigation';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { CheckCircle2, Clock, FileText } from 'lucide-react';
@@ -9,7 +10,8 @@ import { ApprovalDetailDrawer } from '@/components/approvals/ApprovalDetailDrawe
 import { usePendingApprovals, useMyApprovalRequests } from '@/hooks/useApprovals';
 import { ApprovalWithDetails } from '@/lib/api/approvals';
 
-export default function ApprovalsPage() {
+function ApprovalsPageContent() {
+  const searchParams = useSearchParams();
   const [activeTab, setActiveTab] = useState('pending');
   const [selectedApprovalId, setSelectedApprovalId] = useState<number | null>(null);
   const [detailDrawerOpen, setDetailDrawerOpen] = useState(false);
@@ -29,6 +31,16 @@ export default function ApprovalsPage() {
     refresh: refreshRequests,
   } = useMyApprovalRequests();
 
+  // Notification links open a specific approval with ?approval=<id>
+  const linkedApprovalId = Number(searchParams.get('approval')) || null;
+
+  useEffect(() => {
+    if (linkedApprovalId) {
+      setSelectedApprovalId(linkedApprovalId);
+      setDetailDrawerOpen(true);
+    }
+  }, [linkedApprovalId]);
+
   const handleApprovalClick = (approval: ApprovalWithDetails) => {
     setSelectedApprovalId(approval.id);
     setDetailDrawerOpen(true);
@@ -119,3 +131,13 @@ export default function ApprovalsPage() {
     </div>
   );
 }
+
+export default function ApprovalsPage() {
+  return (
+    <Suspense
+      fallback={<div className="flex items-center justify-center p-8">Loading approvals...</div>}
+    >
+      <ApprovalsPageContent />
+    </Suspense>
+  );
+}
@@ -0,0 +1,372 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  addMonths,
+  addWeeks,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isBefore,
+  isSameDay,
+  isSameMonth,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+} from 'date-fns';
+import { Book, CalendarDays, ChevronLeft, ChevronRight } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useProject } from '@/contexts/ProjectContext';
+import { useTaskPriorities, useTasks, useTaskStatuses } from '../tasks/hooks';
+import { TaskWithRelations } from '../tasks/models';
+import { TaskDrawer } from '@/app/components/tasks/TaskDrawer';
+import { ViewSiteDiary } from '../site-diaries/view-site-diary';
+import { getSiteDiaries } from '@/lib/api/site-diaries';
+import { SiteDiary } from '@/lib/types/site-diary';
+import { getDoneStatusId } from '@/lib/utils/task-utils';
+import { isWorkingDay, toDiaryDate } from '@/lib/utils/site-diary-utils';
+import { cn } from '@/lib/utils';
+
+type CalendarMode = 'month' | 'week';
+
+// Number of entries listed in a month cell before collapsing into "+N more"
+const MAX_MONTH_CELL_ITEMS = 3;
+
+const WEEK_OPTIONS = { weekStartsOn: 1 } as const;
+
+export default function CalendarPage() {
+  const { current: currentProject } = useProject();
+  const { tasks, loading: loadingTasks, refresh: refreshTasks } = useTasks();
+  const { statuses, loading: loadingStatuses } = useTaskStatuses();
+  const { priorities, loading: loadingPriorities } = useTaskPriorities();
+
+  const [mode, setMode] = useState<CalendarMode>('month');
+  const [cursor, setCursor] = useState(() => new Date());
+  const [selectedTaskId, setSelectedTaskId] = useState<number | null>(null);
+  const [selectedDiaryId, setSelectedDiaryId] = useState<number | null>(null);
+
+  const [diaries, setDiaries] = useState<SiteDiary[]>([]);
+  const [loadingDiaries, setLoadingDiaries] = useState(true);
+  const [diariesError, setDiariesError] = useState<string | null>(null);
+
+  const loadDiaries = useCallback(async () => {
+    if (!currentProject?.id) {
+      setDiaries([]);
+      setLoadingDiaries(false);
+      return;
+    }
+
+    setLoadingDiaries(true);
+    setDiariesError(null);
+
+    try {
+      setDiaries(await getSiteDiaries(currentProject.id));
+    } catch (err) {
+      console.error('Error loading site diaries:', err);
+      setDiariesError('Failed to load site diaries');
+    } finally {
+      setLoadingDiaries(false);
+    }
+  }, [currentProject?.id]);
+
+  useEffect(() => {
+    loadDiaries();
+  }, [loadDiaries]);
+
+  const days = useMemo(() => {
+    if (mode === 'week') {
+      return eachDayOfInterval({
+        start: startOfWeek(cursor, WEEK_OPTIONS),
+        end: endOfWeek(cursor, WEEK_OPTIONS),
+      });
+    }
+
+    return eachDayOfInterval({
+      start: startOfWeek(startOfMonth(cursor), WEEK_OPTIONS),
+      end: endOfWeek(endOfMonth(cursor), WEEK_OPTIONS),
+    });
+  }, [mode, cursor]);
+
+  // Index tasks and diaries by calendar day for quick lookup per cell
+  const tasksByDay = useMemo(() => {
+    const result = new Map<string, TaskWithRelations[]>();
+    tasks.forEach((task) => {
+      if (!task.due_date) return;
+      const key = toDiaryDate(new Date(task.due_date));
+      result.set(key, [...(result.get(key) || []), task]);
+    });
+    return result;
+  }, [tasks]);
+
+  const diariesByDay = useMemo(() => {
+    const result = new Map<string, SiteDiary[]>();
+    diaries.forEach((diary) => {
+      result.set(diary.date, [...(result.get(diary.date) || []), diary]);
+    });
+    return result;
+  }, [diaries]);
+
+  const doneStatusId = useMemo(() => getDoneStatusId(statuses), [statuses]);
+  const selectedTask = tasks.find((task) => task.id === selectedTaskId) || null;
+
+  const navigate = (direction: 1 | -1) => {
+    setCursor((prev) => (mode === 'week' ? addWeeks(prev, direction) : addMonths(prev, direction)));
+  };
+
+  const title =
+    mode === 'week'
+      ? `${format(days[0], 'MMM d')} – ${format(days[days.length - 1], 'MMM d, yyyy')}`
+      : format(cursor, 'MMMM yyyy');
+
+  const loading = loadingTasks || loadingStatuses || loadingPriorities || loadingDiaries;
+  const today = startOfDay(new Date());
+
+  return (
+    <div className="flex w-full flex-1 flex-col gap-6">
+      {/* Page Header */}
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-primary">
+            <CalendarDays className="h-6 w-6 text-primary-foreground" />
+          </div>
+          <div>
+            <h1 className="text-2xl font-bold tracking-tight">Calendar</h1>
+            <p className="text-muted-foreground">Task due dates and site diaries</p>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <div className="flex rounded-md border border-border p-0.5">
+            {(['month', 'week'] as CalendarMode[]).map((option) => (
+              <Button
+                key={option}
+                variant={mode === option ? 'secondary' : 'ghost'}
+                size="sm"
+                className="capitalize"
+                onClick={() => setMode(option)}
+              >
+                {option}
+              </Button>
+            ))}
+          </div>
+          <Button variant="outline" size="sm" onClick={() => setCursor(new Date())}>
+            Today
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => navigate(-1)} aria-label="Previous">
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => navigate(1)} aria-label="Next">
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h2 className="text-lg font-semibold">{title}</h2>
+        <div className="flex items-center gap-4 text-xs text-muted-foreground">
+          <span className="flex items-center gap-1">
+            <span className="h-3 w-3 rounded-sm bg-slate-300" />
+            Task due
+          </span>
+          <span className="flex items-center gap-1">
+            <Book className="h-3 w-3" />
+            Site diary
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="h-3 w-3 rounded-sm border border-dashed border-yellow-500 bg-yellow-500/10" />
+            No diary
+          </span>
+        </div>
+      </div>
+
+      {diariesError && <p className="text-sm text-red-500">{diariesError}</p>}
+
+      {loading ? (
+        <Skeleton className="h-[600px] w-full" />
+      ) : (
+        <div className="overflow-hidden rounded-lg border border-border">
+          {/* Weekday headings */}
+          <div className="grid grid-cols-7 border-b border-border bg-muted/50">
+            {days.slice(0, 7).map((day) => (
+              <div
+                key={day.toISOString()}
+                className="p-2 text-center text-xs font-medium text-muted-foreground"
+              >
+                {format(day, 'EEE')}
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-7">
+            {days.map((day) => {
+              const key = toDiaryDate(day);
+              const dayTasks = tasksByDay.get(key) || [];
+              const dayDiaries = diariesByDay.get(key) || [];
+              const missingDiary =
+                isWorkingDay(day) && isBefore(day, today) && dayDiaries.length === 0;
+
+              return (
+                <CalendarDay
+                  key={key}
+                  day={day}
+                  mode={mode}
+                  outsideMonth={mode === 'month' && !isSameMonth(day, cursor)}
+                  isToday={isSameDay(day, today)}
+                  missingDiary={missingDiary}
+                  tasks={dayTasks}
+                  diaries={dayDiaries}
+                  statuses={statuses}
+                  doneStatusId={doneStatusId}
+                  onSelectTask={setSelectedTaskId}
+                  onSelectDiary={setSelectedDiaryId}
+                />
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {selectedTask && (
+        <TaskDrawer
+          isOpen={!!selectedTask}
+          onClose={() => setSelectedTaskId(null)}
+          task={selectedTask}
+          status={statuses.find((s) => s.id === selectedTask.status_id) || statuses[0]}
+          priority={
+            selectedTask.priorities || {
+              id: 0,
+              name: 'No Priority',
+              color: '#E2E8F0',
+              position: 0,
+              is_default: false,
+              project_id: 0,
+              created_at: '',
+              created_by: '',
+            }
+          }
+          labels={
+            selectedTask.entity_labels
+              ?.map((el) => el.labels)
+              .filter((label): label is NonNullable<typeof label> => label !== null) || []
+          }
+          assignees={
+            selectedTask.entity_assignees?.map((ea) => ({
+              id: ea.user_id,
+              name: ea.users.user_profiles?.global_display_name || ea.users.raw_user_meta_data.name,
+              avatar_url:
+                ea.users.user_profiles?.global_avatar_url || ea.users.raw_user_meta_data.avatar_url,
+            })) || []
+          }
+          allStatuses={statuses}
+          allPriorities={priorities}
+          refreshTasks={refreshTasks}
+        />
+      )}
+
+      <ViewSiteDiary
+        open={selectedDiaryId !== null}
+        onOpenChange={(open) => !open && setSelectedDiaryId(null)}
+        diaryId={selectedDiaryId}
+        onDiaryUpdated={loadDiaries}
+      />
+    </div>
+  );
+}
+
+// A single day cell listing the diaries and tasks due on that day
+function CalendarDay({
+  day,
+  mode,
+  outsideMonth,
+  isToday,
+  missingDiary,
+  tasks,
+  diaries,
+  statuses,
+  doneStatusId,
+  onSelectTask,
+  onSelectDiary,
+}: {
+  day: Date;
+  mode: CalendarMode;
+  outsideMonth: boolean;
+  isToday: boolean;
+  missingDiary: boolean;
+  tasks: TaskWithRelations[];
+  diaries: SiteDiary[];
+  statuses: { id: number; color: string | null }[];
+  doneStatusId: number | null;
+  onSelectTask: (taskId: number) => void;
+  onSelectDiary: (diaryId: number) => void;
+}) {
+  const [expanded, setExpanded] = useState(false);
+  const items = [
+    ...diaries.map((diary) => ({ type: 'diary' as const, diary })),
+    ...tasks.map((task) => ({ type: 'task' as const, task })),
+  ];
+  const visibleItems = mode === 'month' && !expanded ? items.slice(0, MAX_MONTH_CELL_ITEMS) : items;
+  const hiddenCount = items.length - visibleItems.length;
+
+  return (
+    <div
+      className={cn(
+        'border-b border-r border-border p-1.5',
+        mode === 'week' ? 'min-h-[400px]' : 'min-h-[120px]',
+        outsideMonth ? 'bg-muted/30 text-muted-foreground' : '',
+        missingDiary ? 'border-2 border-dashed border-yellow-500/70 bg-yellow-500/5' : '',
+      )}
+    >
+      <div className="mb-1 flex items-center justify-between">
+        <span
+          className={cn(
+            'flex h-6 w-6 items-center justify-center rounded-full text-xs',
+            isToday ? 'bg-primary font-bold text-primary-foreground' : '',
+          )}
+        >
+          {format(day, 'd')}
+        </span>
+        {missingDiary && <span className="text-[10px] font-medium text-yellow-600">No diary</span>}
+      </div>
+
+      <div className="space-y-1">
+        {visibleItems.map((item) =>
+          item.type === 'diary' ? (
+            <button
+              key={`diary-${item.diary.id}`}
+              onClick={() => item.diary.id && onSelectDiary(item.diary.id)}
+              className="flex w-full items-center gap-1 truncate rounded bg-green-100 px-1.5 py-0.5 text-left text-xs text-green-800 hover:bg-green-200 dark:bg-green-900/30 dark:text-green-300"
+            >
+              <Book className="h-3 w-3 shrink-0" />
+              <span className="truncate">{item.diary.name}</span>
+            </button>
+          ) : (
+            <button
+              key={`task-${item.task.id}`}
+              onClick={() => onSelectTask(item.task.id)}
+              className={cn(
+                'flex w-full items-center gap-1 truncate rounded px-1.5 py-0.5 text-left text-xs text-black hover:opacity-80',
+                item.task.status_id === doneStatusId ? 'line-through opacity-60' : '',
+              )}
+              style={{
+                backgroundColor:
+                  statuses.find((s) => s.id === item.task.status_id)?.color || '#E2E8F0',
+              }}
+            >
+              <span className="truncate">{item.task.title}</span>
+            </button>
+          ),
+        )}
+        {hiddenCount > 0 && (
+          <button
+            onClick={() => setExpanded(true)}
+            className="w-full text-left text-xs text-muted-foreground hover:text-foreground"
+          >
+            +{hiddenCount} more
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,10 +1,10 @@
 'use client';
 
-import { useState, useEffect, Suspense } from 'react';
+import { useState, useEffect, useMemo, Suspense } from 'react';
 import { createClient } from '@/utils/supabase/client';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Search, X, ArrowLeft, Check, Pencil, Image } from 'lucide-react';
+import { Search, X, ArrowLeft, Check, Pencil, Image, FileIcon } from 'lucide-react';
 import { ImageViewer } from '@/components/image-viewer';
 import { FileViewer } from '@/components/file-viewer';
 import {
@@ -30,10 +30,18 @@ import { toast } from 'sonner';
 import { Checkbox } from '@/components/ui/checkbox';
 // Import types and fetch function from the API modules
 import { fetchFormEntriesWithStatus, FormEntry, ApprovalStatus } from '@/lib/api/entries';
-import { getFormEntryById, updateFormEntry } from '@/lib/api/form-entries';
+import { getFormEntryById, updateFormEntryAnswers } from '@/lib/api/form-entries';
 import { FormEntryResponse, FormEntryAnswer } from '@/lib/types/form-entry';
-import { getFormById } from '@/lib/api/forms';
+import { getFormById, getFormVersionItems } from '@/lib/api/forms';
 import { FormItem } from '@/lib/types/form';
+import { getAnswerError, isAnswerEmpty } from '@/lib/utils/form-utils';
+import { getHiddenItemIds, getItemStates } from '@/lib/utils/form-logic';
+import { getEntryCalculations } from '@/lib/utils/form-calculations';
+import { FormFieldInput } from '@/components/forms/form-field-input';
+import { FormAnswerValue } from '@/components/forms/form-answer-value';
+import { RepeatableGroupInput } from '@/components/forms/repeatable-group-input';
+import { RepeatableGroupTable } from '@/components/forms/repeatable-group-table';
+import { CalculatedValue, PassFailBadge } from '@/components/forms/calculated-value';
 import { getSupabaseClient } from '@/lib/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
 import { useRouter, useSearchParams } from 'next/navigation';
@@ -53,6 +61,13 @@ import { submitApproval } from '@/lib/api/approvals';
 import { EntryResponsesAccordion } from '@/components/entry-responses-accordion';
 import { fetchFormEntriesByProject } from '@/lib/api/entries';
 import { useProject } from '@/contexts/ProjectContext';
+import { ConflictResolutionDialog } from '@/components/conflicts/ConflictResolutionDialog';
+import {
+  ConflictChoice,
+  getConflictFields,
+  getKeptValues,
+  isVersionConflict,
+} from '@/lib/utils/conflicts';
 
 // Get these from the actual enum or configuration (or potentially move to a shared constants file)
 const APPROVAL_STATUSES: { value: ApprovalStatus | 'all'; label: string }[] = [
@@ -66,6 +81,68 @@ const APPROVAL_STATUSES: { value: ApprovalStatus | 'all'; label: string }[] = [
 
 const DEFAULT_STATUS_FILTERS: ApprovalStatus[] = ['draft', 'revision_requested'];
 
+type ScoreFilter = 'all' | 'passed' | 'failed' | 'scored' | 'unscored';
+
+const SCORE_FILTERS: { value: ScoreFilter; label: string }[] = [
+  { value: 'all', label: 'All Results' },
+  { value: 'passed', label: 'Passed' },
+  { value: 'failed', label: 'Failed' },
+  { value: 'scored', label: 'Scored' },
+  { value: 'unscored', label: 'Not Scored' },
+];
+
+type EntrySort = 'newest' | 'oldest' | 'score_desc' | 'score_asc';
+
+const ENTRY_SORTS: { value: EntrySort; label: string }[] = [
+  { value: 'newest', label: 'Newest First' },
+  { value: 'oldest', label: 'Oldest First' },
+  { value: 'score_desc', label: 'Highest Score' },
+  { value: 'score_asc', label: 'Lowest Score' },
+];
+
+type EntryConflict = {
+  // The entry as it was when editing started
+  base: FormEntryResponse;
+  name?: string;
+  answers: Record<number, unknown>;
+  current: FormEntryResponse;
+};
+
+const getAnswerValues = (entry: FormEntryResponse) =>
+  entry.answers.reduce(
+    (acc, answer) => ({ ...acc, [answer.item_id]: answer.answer_value }),
+    {} as Record<number, unknown>,
+  );
+
+const getEntryConflictFields = (
+  { base, name, answers, current }: EntryConflict,
+  formItems: FormItem[],
+) => {
+  const baseAnswers = getAnswerValues(base);
+  const currentAnswers = getAnswerValues(current);
+
+  return getConflictFields([
+    ...(name !== undefined
+      ? [
+          {
+            key: 'name',
+            label: 'Entry name',
+            base: base.entry.name,
+            mine: name,
+            theirs: current.entry.name,
+          },
+        ]
+      : []),
+    ...formItems.map((item) => ({
+      key: String(item.id),
+      label: item.question_value,
+      base: baseAnswers[item.id!],
+      mine: answers[item.id!],
+      theirs: currentAnswers[item.id!],
+    })),
+  ]);
+};
+
 // SearchParamsWrapper component to handle the useSearchParams hook
 function SearchParamsWrapper() {
   const searchParams = useSearchParams();
@@ -86,6 +163,9 @@ function EntriesPageContent({ entryId }: { entryId: string | null }) {
   const [error, setError] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedStatus, setSelectedStatus] = useState<ApprovalStatus | 'all'>('all');
+  const [scoreFilter, setScoreFilter] = useState<ScoreFilter>('all');
+  const [minScore, setMinScore] = useState('');
+  const [sortOrder, setSortOrder] = useState<EntrySort>('newest');
 
   // State for entry detail view
   const [selectedEntryId, setSelectedEntryId] = useState<number | null>(null);
@@ -106,6 +186,7 @@ function EntriesPageContent({ entryId }: { entryId: string | null }) {
   const [editedEntryName, setEditedEntryName] = useState<string>('');
   const [formErrors, setFormErrors] = useState<Record<number, string>>({});
   const [isSaving, setIsSaving] = useState(false);
+  const [entryConflict, setEntryConflict] = useState<EntryConflict | null>(null);
 
   // Add state for dialog and change tracking
   const [showDiscardDialog, setShowDiscardDialog] = useState(false);
@@ -204,6 +285,39 @@ function EntriesPageContent({ entryId }: { entryId: string | null }) {
     setFilteredEntries(filterEntries(allEntries, searchTerm, selectedStatus));
   }, [allEntries, searchTerm, selectedStatus]);
 
+  // Score filters and sorting apply on top of the search and status filters
+  const displayedEntries = useMemo(() => {
+    const getScore = (entry: FormEntry) => (entry.score === null ? null : Number(entry.score));
+    let result = filteredEntries;
+
+    if (scoreFilter === 'passed') result = result.filter((entry) => entry.passed === true);
+    if (scoreFilter === 'failed') result = result.filter((entry) => entry.passed === false);
+    if (scoreFilter === 'scored') result = result.filter((entry) => getScore(entry) !== null);
+    if (scoreFilter === 'unscored') result = result.filter((entry) => getScore(entry) === null);
+
+    if (minScore.trim() !== '' && !isNaN(Number(minScore))) {
+      result = result.filter((entry) => {
+        const score = getScore(entry);
+        return score !== null && score >= Number(minScore);
+      });
+    }
+
+    return [...result].sort((a, b) => {
+      if (sortOrder === 'score_desc' || sortOrder === 'score_asc') {
+        const scoreA = getScore(a);
+        const scoreB = getScore(b);
+        // Unscored entries go last either way
+        if (scoreA === null || scoreB === null) {
+          return scoreA === scoreB ? 0 : scoreA === null ? 1 : -1;
+        }
+        return sortOrder === 'score_desc' ? scoreB - scoreA : scoreA - scoreB;
+      }
+
+      const difference = new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
+      return sortOrder === 'oldest' ? difference : -difference;
+    });
+  }, [filteredEntries, scoreFilter, minScore, sortOrder]);
+
   // Effect to fetch user emails when entries are loaded
   useEffect(() => {
     const fetchUserEmails = async () => {
@@ -288,17 +402,21 @@ function EntriesPageContent({ entryId }: { entryId: string | null }) {
             setApprovalStatus(entryWithStatus.approval_status);
           }
 
-          // Fetch form to get questions/items
+          // Fetch form to get questions/items, as they were in the version the entry was
+          // filled against
           const formData = await getFormById(entryData.entry.form_id);
           if (formData) {
-            setFormItems(formData.items);
+            const items = entryData.entry.form_version_id
+              ? await getFormVersionItems(entryData.entry.form_version_id)
+              : formData.publishedItems;
+            setFormItems(items);
             setFormName(formData.form.name);
 
             // Log form items for debugging
-            console.log('Form items:', formData.items);
+            console.log('Form items:', items);
 
             // Check for photo-type items
-            const photoItems = formData.items.filter((item) => item.item_type === 'photo');
+            const photoItems = items.filter((item) => item.item_type === 'photo');
             console.log('Photo items:', photoItems);
           }
 
@@ -412,6 +530,12 @@ function EntriesPageContent({ entryId }: { entryId: string | null }) {
     setHasUnsavedChanges(true);
   };
 
+  // Which questions are shown and required given the edited answers
+  const itemStates = getItemStates(formItems, editedAnswers);
+
+  // Calculated items, worked out live from the edited answers
+  const editCalculations = getEntryCalculations(formItems, editedAnswers);
+
   const validateForm = () => {
     const newErrors: Record<number, string> = {};
     let hasErrors = false;
@@ -422,10 +546,13 @@ function EntriesPageContent({ entryId }: { entryId: string | null }) {
       return false;
     }
 
-    // Check for required fields
+    // Check for required fields, skipping questions hidden by conditional logic
     if (formItems.length > 0) {
       formItems.forEach((item) => {
-        if (item.is_required) {
+        const state = itemStates[item.display_order];
+        if (!state?.visible) return;
+
+        if (state.required) {
           const answer = editedAnswers[item.id!];
           let isValid = true;
 
@@ -446,12 +573,13 @@ function EntriesPageContent({ entryId }: { entryId: string | null }) {
               break;
 
             case 'photo':
-              // Photo upload - we'll skip validation for now as it's not fully implemented
+            case 'file':
+              // Uploads - we'll skip validation for now as they're not editable here yet
               isValid = true;
               break;
 
             default:
-              isValid = !!answer && answer.toString().trim() !== '';
+              isValid = !isAnswerEmpty(answer);
           }
 
           if (!isValid) {
@@ -459,6 +587,16 @@ function EntriesPageContent({ entryId }: { entryId: string | null }) {
             hasErrors = true;
           }
         }
+
+        // Numbers also have to fall within the field's range, and group rows need their
+        // required fields
+        if ((item.item_type === 'number' || item.item_type === 'group') && !newErrors[item.id!]) {
+          const error = getAnswerError(item, editedAnswers[item.id!]);
+          if (error) {
+            newErrors[item.id!] = error;
+            hasErrors = true;
+          }
+        }
       });
     }
 
@@ -471,79 +609,106 @@ function EntriesPageContent({ entryId }: { entryId: string | null }) {
     return !hasErrors;
   };
 
-  const handleSaveChanges = async () => {
-    if (!entryDetail || !user || !entryDetail.entry.id) return;
-
-    if (!validateForm()) {
-      toast.error('Please fill all required fields');
-      return;
-    }
+  // Save edits against the version they were made from
+  const saveEntry = async (
+    base: FormEntryResponse,
+    name: string | undefined,
+    answers: Record<number, unknown>,
+  ) => {
+    if (!base.entry.id) return;
 
     try {
       setIsSaving(true);
 
-      // Update the entry name - add non-null assertion to id
-      await updateFormEntry(entryDetail.entry.id, {
-        name: editedEntryName,
-        form_id: entryDetail.entry.form_id,
-        submitted_by_user_id: entryDetail.entry.submitted_by_user_id,
-      });
+      // Answers to questions hidden by conditional logic are removed rather than saved
+      const hiddenItemIds = getHiddenItemIds(formItems, answers);
 
-      // Update each answer with new value
-      const supabase = getSupabaseClient();
+      // Rework calculated values from the answers as they will be once saved
+      const calculations = getEntryCalculations(formItems, {
+        ...getAnswerValues(base),
+        ...answers,
+      });
 
-      // First delete existing answers
-      const { error: deleteError } = await supabase
-        .from('form_entry_answers')
-        .delete()
-        .eq('entry_id', entryDetail.entry.id);
+      await updateFormEntryAnswers(base.entry.id, {
+        name,
+        answers: Object.entries(answers)
+          .filter(([itemId]) => !hiddenItemIds.includes(parseInt(itemId)))
+          .map(([itemId, value]) => ({
+            itemId: parseInt(itemId),
+            value,
+          })),
+        clearItemIds: hiddenItemIds,
+        expectedVersion: base.entry.version,
+        calculations,
+      });
 
-      if (deleteError) {
-        throw deleteError;
+      toast.success('Entry updated successfully');
+      await handleEntrySaved(base.entry.id);
+    } catch (error) {
+      if (isVersionConflict<FormEntryResponse | null>(error) && error.current) {
+        const conflict = { base, name, answers, current: error.current };
+        if (getEntryConflictFields(conflict, formItems).length > 0) {
+          setEntryConflict(conflict);
+        } else {
+          // Both sides saved the same values, so there is nothing to choose
+          await handleEntrySaved(base.entry.id);
+        }
+        return;
       }
+      console.error('Error updating entry:', error);
+      toast.error('Failed to update entry');
+    } finally {
+      setIsSaving(false);
+    }
+  };
 
-      // Then insert new answers - fix the type by ensuring non-null values
-      const newAnswers = Object.entries(editedAnswers).map(([itemId, value]) => ({
-        entry_id: entryDetail.entry.id as number, // Add type assertion
-        item_id: parseInt(itemId),
-        answer_value: value,
-      }));
+  // Refresh the entry details and exit edit mode
+  const handleEntrySaved = async (id: number) => {
+    setEntryConflict(null);
+    setIsEditMode(false);
+    setHasUnsavedChanges(false);
 
-      if (newAnswers.length > 0) {
-        const { error: insertError } = await supabase.from('form_entry_answers').insert(newAnswers);
+    // Reload all entries to get updated data
+    const supabase = getSupabaseClient();
+    const fetchedEntries = await fetchFormEntriesWithStatus(supabase);
+    setAllEntries(fetchedEntries);
+    setFilteredEntries(filterEntries(fetchedEntries, searchTerm, selectedStatus));
+
+    // Reload the specific entry
+    const updatedEntry = await getFormEntryById(id);
+    setEntryDetail(updatedEntry);
+    setEditedEntryName(updatedEntry?.entry.name || '');
+
+    // Update the answers map
+    const answersMap: Record<number, any> = {};
+    updatedEntry?.answers.forEach((answer: FormEntryAnswer) => {
+      answersMap[answer.item_id] = answer.answer_value;
+    });
+    setEditedAnswers(answersMap);
+  };
 
-        if (insertError) {
-          throw insertError;
-        }
-      }
+  const handleSaveChanges = async () => {
+    if (!entryDetail || !user || !entryDetail.entry.id) return;
 
-      toast.success('Entry updated successfully');
+    if (!validateForm()) {
+      toast.error('Please fill all required fields');
+      return;
+    }
 
-      // Refresh the entry details and exit edit mode
-      setIsEditMode(false);
-      setHasUnsavedChanges(false);
+    await saveEntry(entryDetail, editedEntryName, editedAnswers);
+  };
 
-      // Reload all entries to get updated data
-      const fetchedEntries = await fetchFormEntriesWithStatus(supabase);
-      setAllEntries(fetchedEntries);
-      setFilteredEntries(filterEntries(fetchedEntries, searchTerm, selectedStatus));
+  const conflictFields = useMemo(
+    () => (entryConflict ? getEntryConflictFields(entryConflict, formItems) : []),
+    [entryConflict, formItems],
+  );
 
-      // Reload the specific entry
-      const updatedEntry = await getFormEntryById(entryDetail.entry.id);
-      setEntryDetail(updatedEntry);
+  // Re-save only the values the user kept, on top of the latest saved entry
+  const handleResolveConflict = async (choices: Record<string, ConflictChoice>) => {
+    if (!entryConflict) return;
 
-      // Update the answers map
-      const answersMap: Record<number, any> = {};
-      updatedEntry?.answers.forEach((answer: FormEntryAnswer) => {
-        answersMap[answer.item_id] = answer.answer_value;
-      });
-      setEditedAnswers(answersMap);
-    } catch (error) {
-      console.error('Error updating entry:', error);
-      toast.error('Failed to update entry');
-    } finally {
-      setIsSaving(false);
-    }
+    const { name, ...answers } = getKeptValues(conflictFields, choices);
+    await saveEntry(entryConflict.current, name as string | undefined, answers);
   };
 
   const handleCancelEdit = () => {
@@ -660,6 +825,24 @@ function EntriesPageContent({ entryId }: { entryId: string | null }) {
         }
         return <p className="text-muted-foreground">No photos available</p>;
 
+      case 'file':
+        if (Array.isArray(answer) && answer.length > 0) {
+          return <FileViewer attachmentIds={answer} />;
+        }
+        return <p className="text-muted-foreground">No files available</p>;
+
+      case 'number':
+      case 'date':
+      case 'time':
+      case 'signature':
+      case 'dropdown':
+      case 'yes_no_na':
+      case 'rating':
+        return <FormAnswerValue item={item} value={answer} />;
+
+      case 'group':
+        return <RepeatableGroupTable item={item} value={answer} />;
+
       default:
         return <span className="text-foreground">{getDisplayValue(answer)}</span>;
     }
@@ -778,8 +961,72 @@ function EntriesPageContent({ entryId }: { entryId: string | null }) {
           </div>
         );
 
+      case 'file':
+        return (
+          <div className="space-y-2">
+            <h3 className="flex items-center gap-1 text-base font-semibold">
+              {item.question_value}
+              {item.is_required && <span className="text-red-500">*</span>}
+            </h3>
+            <div className="flex flex-col items-center justify-center rounded-md border-2 border-dashed border-muted p-6 text-center">
+              <FileIcon className="mb-2 h-10 w-10 text-muted-foreground" />
+              <p className="text-muted-foreground">File upload (coming soon)</p>
+            </div>
+          </div>
+        );
+
+      case 'section':
+        return (
+          <div className="space-y-1 border-b pb-2 pt-2">
+            <h3 className="text-lg font-semibold">{item.question_value}</h3>
+            {item.metadata?.description && (
+              <p className="text-sm text-muted-foreground">{item.metadata.description}</p>
+            )}
+          </div>
+        );
+
+      case 'calculated':
+        return (
+          <div className="space-y-2">
+            <h3 className="text-base font-semibold">{item.question_value}</h3>
+            <CalculatedValue item={item} value={editCalculations.values[itemId]} />
+          </div>
+        );
+
+      case 'group':
+        return (
+          <div className="space-y-2">
+            <h3 className="flex items-center gap-1 text-base font-semibold">
+              {item.question_value}
+              {item.is_required && <span className="text-red-500">*</span>}
+            </h3>
+            <RepeatableGroupInput
+              item={item}
+              value={editedAnswers[itemId]}
+              onChange={(value) => handleAnswerChange(itemId, value)}
+              hasError={hasError}
+              allowUploads={false}
+            />
+            {hasError && <p className="text-sm text-red-500">{formErrors[itemId]}</p>}
+          </div>
+        );
+
       default:
-        return null;
+        return (
+          <div className="space-y-2">
+            <h3 className="flex items-center gap-1 text-base font-semibold">
+              {item.question_value}
+              {item.is_required && <span className="text-red-500">*</span>}
+            </h3>
+            <FormFieldInput
+              item={item}
+              value={editedAnswers[itemId]}
+              onChange={(value) => handleAnswerChange(itemId, value)}
+              hasError={hasError}
+            />
+            {hasError && <p className="text-sm text-red-500">{formErrors[itemId]}</p>}
+          </div>
+        );
     }
   };
 
@@ -884,6 +1131,37 @@ function EntriesPageContent({ entryId }: { entryId: string | null }) {
             ))}
           </SelectContent>
         </Select>
+        <Select value={scoreFilter} onValueChange={(value) => setScoreFilter(value as ScoreFilter)}>
+          <SelectTrigger className="w-full md:w-[150px]">
+            <SelectValue placeholder="Filter by result" />
+          </SelectTrigger>
+          <SelectContent>
+            {SCORE_FILTERS.map((filter) => (
+              <SelectItem key={filter.value} value={filter.value}>
+                {filter.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          type="number"
+          placeholder="Min score"
+          className="w-full md:w-[120px]"
+          value={minScore}
+          onChange={(e) => setMinScore(e.target.value)}
+        />
+        <Select value={sortOrder} onValueChange={(value) => setSortOrder(value as EntrySort)}>
+          <SelectTrigger className="w-full md:w-[160px]">
+            <SelectValue placeholder="Sort by" />
+          </SelectTrigger>
+          <SelectContent>
+            {ENTRY_SORTS.map((sort) => (
+              <SelectItem key={sort.value} value={sort.value}>
+                {sort.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
       </div>
 
       {/* Entries Table */}
@@ -894,6 +1172,7 @@ function EntriesPageContent({ entryId }: { entryId: string | null }) {
               <TableHead>Entry Name</TableHead>
               <TableHead>Form Name</TableHead>
               <TableHead>Status</TableHead>
+              <TableHead>Score</TableHead>
               <TableHead>Submitted Date</TableHead>
               <TableHead>Submitted By</TableHead>
             </TableRow>
@@ -901,18 +1180,18 @@ function EntriesPageContent({ entryId }: { entryId: string | null }) {
           <TableBody>
             {loading ? (
               <TableRow>
-                <TableCell colSpan={5} className="text-center">
+                <TableCell colSpan={6} className="text-center">
                   Loading...
                 </TableCell>
               </TableRow>
             ) : error ? (
               <TableRow>
-                <TableCell colSpan={5} className="text-center text-destructive">
+                <TableCell colSpan={6} className="text-center text-destructive">
                   {error}
                 </TableCell>
               </TableRow>
-            ) : filteredEntries.length > 0 ? (
-              filteredEntries.map((entry) => (
+            ) : displayedEntries.length > 0 ? (
+              displayedEntries.map((entry) => (
                 <TableRow
                   key={entry.id}
                   onClick={() => handleViewEntry(entry.id)}
@@ -938,6 +1217,16 @@ function EntriesPageContent({ entryId }: { entryId: string | null }) {
                       {entry.approval_status || 'N/A'}
                     </Badge>
                   </TableCell>
+                  <TableCell>
+                    {entry.score !== null ? (
+                      <div className="flex items-center gap-2">
+                        <span>{Number(entry.score)}</span>
+                        {entry.passed !== null && <PassFailBadge passed={entry.passed} />}
+                      </div>
+                    ) : (
+                      <span className="text-muted-foreground">-</span>
+                    )}
+                  </TableCell>
                   <TableCell>
                     {entry.created_at ? format(new Date(entry.created_at), 'PPP') : 'N/A'}
                   </TableCell>
@@ -946,7 +1235,7 @@ function EntriesPageContent({ entryId }: { entryId: string | null }) {
               ))
             ) : (
               <TableRow>
-                <TableCell colSpan={5} className="text-center text-muted-foreground">
+                <TableCell colSpan={6} className="text-center text-muted-foreground">
                   No entries found.
                 </TableCell>
               </TableRow>
@@ -1074,11 +1363,21 @@ function EntriesPageContent({ entryId }: { entryId: string | null }) {
                       </div>
                     ) : (
                       <div className="space-y-6">
-                        {formItems.map((item) => (
-                          <div key={item.id} className="rounded-lg border p-4">
-                            {renderFormItem(item)}
-                          </div>
-                        ))}
+                        {formItems
+                          .filter((item) => itemStates[item.display_order]?.visible)
+                          .map((item) => (
+                            <div
+                              key={item.id}
+                              className={
+                                item.item_type === 'section' ? '' : 'rounded-lg border p-4'
+                              }
+                            >
+                              {renderFormItem({
+                                ...item,
+                                is_required: itemStates[item.display_order].required,
+                              })}
+                            </div>
+                          ))}
                       </div>
                     )
                   ) : (
@@ -1091,6 +1390,7 @@ function EntriesPageContent({ entryId }: { entryId: string | null }) {
                             entryId={selectedEntryId}
                             formItems={formItems}
                             answers={entryDetail.answers}
+                            calculatedValues={entryDetail.entry.calculated_values}
                           />
                         </div>
                       )}
@@ -1134,6 +1434,14 @@ function EntriesPageContent({ entryId }: { entryId: string | null }) {
         </SheetContent>
       </Sheet>
 
+      <ConflictResolutionDialog
+        open={!!entryConflict}
+        fields={conflictFields}
+        saving={isSaving}
+        onResolve={handleResolveConflict}
+        onCancel={() => setEntryConflict(null)}
+      />
+
       {/* AlertDialog component after the Sheet */}
       <AlertDialog open={showDiscardDialog} onOpenChange={setShowDiscardDialog}>
         <AlertDialogContent>
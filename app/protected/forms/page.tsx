@@ -4,7 +4,7 @@ import { useState, useEffect, Suspense } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Plus, Search, X, ArrowLeft, Check, Pencil, Trash2, Image } from 'lucide-react';
+import { Plus, Search, X, ArrowLeft, Check, Pencil, Trash2 } from 'lucide-react';
 import {
   Select,
   SelectContent,
@@ -22,8 +22,16 @@ import {
 } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
 import { CreateFormDialog } from '@/components/forms/create-form-dialog';
-import { getForms, getFormById, updateForm, getFormsByProject } from '@/lib/api/forms';
-import { FormResponse, FormItem, ItemType, Form } from '@/lib/types/form';
+import {
+  getForms,
+  getFormById,
+  updateForm,
+  getFormsByProject,
+  publishFormDraft,
+  discardFormDraft,
+} from '@/lib/api/forms';
+import { isVersionConflict } from '@/lib/utils/conflicts';
+import { FormResponse, FormItem, Form } from '@/lib/types/form';
 import { format } from 'date-fns';
 import { Sheet, SheetContent, SheetHeader, SheetTitle } from '@/components/ui/sheet';
 import TextareaAutosize from 'react-textarea-autosize';
@@ -54,17 +62,17 @@ import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { Checkbox } from '@/components/ui/checkbox';
 import FormPhotoUploader from '@/components/form-photo-uploader';
+import FormFileUploader from '@/components/form-file-uploader';
+import { FormFieldInput } from '@/components/forms/form-field-input';
+import { RepeatableGroupInput } from '@/components/forms/repeatable-group-input';
+import { CalculatedValue } from '@/components/forms/calculated-value';
+import { getAnswerError, getFormPages, getSettingsForType } from '@/lib/utils/form-utils';
+import { getHiddenItemIds, getItemStates, remapItemLogic } from '@/lib/utils/form-logic';
+import { getEntryCalculations } from '@/lib/utils/form-calculations';
 import { useAttachmentStore } from '@/lib/store/attachment-store';
 import { useProject } from '@/contexts/ProjectContext';
 import { uploadAttachment } from '@/lib/api/attachments';
 
-const questionTypes = [
-  { value: 'question', label: 'Short answer' },
-  { value: 'radio_box', label: 'Multiple choice' },
-  { value: 'checklist', label: 'Checkboxes' },
-  { value: 'photo', label: 'Photo' },
-] as const;
-
 // Adapter functions to convert between FormItem and FormBuilderQuestion
 const toFormBuilderQuestion = (item: FormItem): FormBuilderQuestion => ({
   id: item.id?.toString() || item.display_order.toString(),
@@ -72,6 +80,8 @@ const toFormBuilderQuestion = (item: FormItem): FormBuilderQuestion => ({
   title: item.question_value,
   options: item.options,
   required: item.is_required,
+  settings: item.metadata || undefined,
+  logic: item.logic,
 });
 
 const fromFormBuilderQuestion = (
@@ -83,8 +93,17 @@ const fromFormBuilderQuestion = (
   options: question.options,
   is_required: question.required,
   display_order: displayOrder,
+  metadata: getSettingsForType(question.type, question.settings),
+  logic: question.logic || null,
 });
 
+const isPendingUpload = (value: unknown): value is File[] =>
+  Array.isArray(value) && value[0] instanceof File;
+
+// Group rows with photos that are uploaded once the entry has been created
+const hasPendingRowUploads = (value: unknown): value is unknown[][] =>
+  Array.isArray(value) && value.some((row) => Array.isArray(row) && row.some(isPendingUpload));
+
 // SearchParamsWrapper component to handle the useSearchParams hook
 function SearchParamsWrapper() {
   const searchParams = useSearchParams();
@@ -122,6 +141,7 @@ function FormsPageContent({
   const [editedTitle, setEditedTitle] = useState('');
   const [editedItems, setEditedItems] = useState<FormItem[]>([]);
   const [isSaving, setIsSaving] = useState(false);
+  const [isPublishing, setIsPublishing] = useState(false);
 
   // State for assignees
   const [assignees, setAssignees] = useState<{ id: string; name: string; avatar_url?: string }[]>(
@@ -134,6 +154,7 @@ function FormsPageContent({
   const [entryName, setEntryName] = useState<string>('');
   const [answers, setAnswers] = useState<Record<number, any>>({});
   const [formErrors, setFormErrors] = useState<Record<number, string>>({});
+  const [entryPage, setEntryPage] = useState(0);
   const [isSubmittingEntry, setIsSubmittingEntry] = useState(false);
   const [assignedBy, setAssignedBy] = useState<string | null>(null);
 
@@ -164,6 +185,7 @@ function FormsPageContent({
           // Make sure answers is initialized
           setAnswers({});
           setFormErrors({});
+          setEntryPage(0);
         }
       }
     }
@@ -330,6 +352,7 @@ function FormsPageContent({
     setIsClosing(false);
     setAnswers({});
     setFormErrors({});
+    setEntryPage(0);
 
     // Update state to show entry form
     setSelectedFormId(formId);
@@ -354,6 +377,7 @@ function FormsPageContent({
       setIsCreatingEntry(false);
       setAnswers({});
       setFormErrors({});
+      setEntryPage(0);
       setIsClosing(false);
     }, 300); // Match animation duration
   };
@@ -369,6 +393,7 @@ function FormsPageContent({
     // Reset form state
     setAnswers({});
     setFormErrors({});
+    setEntryPage(0);
 
     // Update URL to remove entry mode parameter but keep the form ID
     if (selectedFormId) {
@@ -409,8 +434,11 @@ function FormsPageContent({
         editedItem.item_type !== originalItem.item_type ||
         editedItem.is_required !== originalItem.is_required ||
         editedItem.display_order !== originalItem.display_order ||
-        // Compare options arrays
-        JSON.stringify(editedItem.options) !== JSON.stringify(originalItem.options)
+        // Compare options arrays and field settings
+        JSON.stringify(editedItem.options) !== JSON.stringify(originalItem.options) ||
+        JSON.stringify(editedItem.metadata || null) !==
+          JSON.stringify(originalItem.metadata || null) ||
+        JSON.stringify(editedItem.logic || null) !== JSON.stringify(originalItem.logic || null)
       );
     });
   };
@@ -434,24 +462,29 @@ function FormsPageContent({
         display_order: item.display_order || 0, // Ensure display_order is set
       }));
 
-      await updateForm(selectedFormId, {
+      const updated = await updateForm(selectedFormId, {
         name: editedTitle.trim(),
         items: itemsToUpdate,
+        expectedVersion: formDetail.form.version,
       });
 
-      // Update local state
-      setFormDetail({
-        ...formDetail,
-        form: {
-          ...formDetail.form,
-          name: editedTitle.trim(),
-        },
-        items: editedItems,
-      });
+      // Update local state with the saved draft
+      setFormDetail(updated);
+      setEditedItems(updated.items);
 
       setIsEditing(false);
-      toast.success('Form updated successfully');
+      toast.success(
+        updated.draftVersion
+          ? 'Draft saved. Publish it to use it for new entries.'
+          : 'Form updated',
+      );
     } catch (error) {
+      if (isVersionConflict(error)) {
+        toast.error(error.message, {
+          description: 'Reopen the form to see the latest version before editing it again.',
+        });
+        return;
+      }
       console.error('Error updating form:', error);
       toast.error('Failed to update form');
     } finally {
@@ -459,6 +492,41 @@ function FormsPageContent({
     }
   };
 
+  const handlePublishDraft = async () => {
+    if (!selectedFormId) return;
+
+    try {
+      setIsPublishing(true);
+      const published = await publishFormDraft(selectedFormId);
+      setFormDetail(published);
+      setEditedItems(published.items);
+      toast.success(`Version ${published.publishedVersion?.version_number} published`);
+    } catch (error) {
+      console.error('Error publishing form:', error);
+      toast.error('Failed to publish form');
+    } finally {
+      setIsPublishing(false);
+    }
+  };
+
+  const handleDiscardDraft = async () => {
+    if (!selectedFormId) return;
+    if (!confirm('Discard the unpublished changes to this form?')) return;
+
+    try {
+      setIsPublishing(true);
+      const form = await discardFormDraft(selectedFormId);
+      setFormDetail(form);
+      setEditedItems(form.items);
+      toast.success('Draft discarded');
+    } catch (error) {
+      console.error('Error discarding form draft:', error);
+      toast.error('Failed to discard draft');
+    } finally {
+      setIsPublishing(false);
+    }
+  };
+
   const updateQuestion = (id: string, updates: Partial<FormBuilderQuestion>) => {
     const index = editedItems.findIndex(
       (item) => item.id?.toString() === id || item.display_order.toString() === id,
@@ -475,6 +543,14 @@ function FormsPageContent({
               question_value: updates.title || item.question_value,
               options: updates.options || item.options,
               is_required: updates.required ?? item.is_required,
+              metadata:
+                updates.type || updates.settings
+                  ? getSettingsForType(
+                      updates.type || item.item_type,
+                      updates.settings || item.metadata,
+                    )
+                  : item.metadata,
+              logic: 'logic' in updates ? updates.logic : item.logic,
             }
           : item,
       ),
@@ -486,7 +562,12 @@ function FormsPageContent({
       (item) => item.id?.toString() === id || item.display_order.toString() === id,
     );
     if (index === -1) return;
-    setEditedItems((items) => items.filter((_, i) => i !== index));
+    setEditedItems((items) =>
+      remapItemLogic(
+        items.filter((_, i) => i !== index),
+        items.map((_, i) => i).filter((i) => i !== index),
+      ).map((item, i) => ({ ...item, display_order: i })),
+    );
   };
 
   const getStatusColor = () => {
@@ -522,7 +603,14 @@ function FormsPageContent({
         const newIndex = items.findIndex(
           (item) => (item.id?.toString() || item.display_order.toString()) === over.id,
         );
-        return arrayMove(items, oldIndex, newIndex).map((item, index) => ({
+        return remapItemLogic(
+          arrayMove(items, oldIndex, newIndex),
+          arrayMove(
+            items.map((_, index) => index),
+            oldIndex,
+            newIndex,
+          ),
+        ).map((item, index) => ({
           ...item,
           display_order: index,
         }));
@@ -625,32 +713,68 @@ function FormsPageContent({
     }
   };
 
-  const validateForm = () => {
-    const newErrors: Record<number, string> = {};
+  // Entries are filled against the published version, not any draft being edited
+  const entryItems = formDetail?.publishedItems || [];
+
+  // Which questions are shown and required given the answers so far
+  const itemStates = getItemStates(entryItems, answers);
+
+  // Calculated items, worked out live as answers change
+  const calculations = formDetail ? getEntryCalculations(entryItems, answers) : null;
+
+  // Long forms are filled in page by page, split at sections that start a new page
+  const entryPages = getFormPages(
+    entryItems.filter((item) => itemStates[item.display_order]?.visible),
+  );
+  const currentEntryPage = Math.min(entryPage, entryPages.length - 1);
+  const isLastEntryPage = currentEntryPage === entryPages.length - 1;
 
+  // Required fields and out-of-range values, skipping hidden questions
+  const getEntryErrors = (items: FormItem[]) => {
+    const errors: Record<number, string> = {};
+
+    items.forEach((item) => {
+      const state = itemStates[item.display_order];
+      if (!state?.visible) return;
+
+      const error = getAnswerError({ ...item, is_required: state.required }, answers[item.id!]);
+      if (error) {
+        errors[item.id!] = error;
+      }
+    });
+
+    return errors;
+  };
+
+  const validateForm = (items: FormItem[] = entryItems) => {
     // Check for entry name
     if (!entryName.trim()) {
       toast.error('Please provide an entry name');
       return false;
     }
 
-    // Check for required fields
-    if (formDetail) {
-      formDetail.items.forEach((item) => {
-        if (item.is_required && (!answers[item.id!] || answers[item.id!] === '')) {
-          newErrors[item.id!] = 'This field is required';
-        }
-      });
-    }
-
+    const newErrors = getEntryErrors(items);
     setFormErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
 
+  const handleNextEntryPage = () => {
+    if (!validateForm(entryPages[currentEntryPage])) {
+      toast.error('Please fill all required fields');
+      return;
+    }
+    setEntryPage(currentEntryPage + 1);
+  };
+
   const handleSubmitEntry = async () => {
     if (!user?.id || !formDetail || !selectedFormId || !currentProject?.id) return;
 
     if (!validateForm()) {
+      // Go back to the first page with a problem
+      const errors = getEntryErrors(entryItems);
+      const errorPage = entryPages.findIndex((page) => page.some((item) => errors[item.id!]));
+      if (errorPage !== -1) setEntryPage(errorPage);
+
       toast.error('Please fill all required fields');
       return;
     }
@@ -658,16 +782,21 @@ function FormsPageContent({
     try {
       setIsSubmittingEntry(true);
 
+      // Answers to questions hidden by conditional logic are not stored
+      const hiddenItemIds = getHiddenItemIds(entryItems, answers);
+      const visibleAnswers = Object.entries(answers).filter(
+        ([itemId]) => !hiddenItemIds.includes(parseInt(itemId)),
+      );
+
       // Create the form entry first to get its ID
-      const entryAnswers = Object.entries(answers)
-        .filter(
-          ([_, value]) =>
-            (value !== null && !Array.isArray(value)) ||
-            (Array.isArray(value) && !(value[0] instanceof File)),
-        )
+      const entryAnswers = visibleAnswers
+        .filter(([_, value]) => value !== null && !isPendingUpload(value))
         .map(([itemId, value]) => ({
           itemId: parseInt(itemId),
-          value: value,
+          // Photos on group rows are added once they're uploaded below
+          value: hasPendingRowUploads(value)
+            ? value.map((row) => row.map((cell) => (isPendingUpload(cell) ? null : cell)))
+            : value,
         }));
 
       const response = await createFormEntry({
@@ -675,6 +804,7 @@ function FormsPageContent({
         userId: user.id,
         name: entryName || formDetail.form.name,
         answers: entryAnswers,
+        calculations: calculations || undefined,
       });
 
       // Once we have the entry ID, upload any attachments and associate them
@@ -682,46 +812,57 @@ function FormsPageContent({
 
       // Process file uploads - we now have the files directly in the answers
       if (entryId) {
-        // Find all photo answers with files
-        const fileUploads = Object.entries(answers)
-          .filter(([_, value]) => Array.isArray(value) && value[0] instanceof File)
-          .map(async ([itemId, files]) => {
-            // Upload each file and get its attachment ID
-            const uploadedFileIds = await Promise.all(
-              (files as File[]).map(async (file) => {
-                try {
-                  const { data, error } = await uploadAttachment({
-                    projectId: currentProject.id.toString(),
-                    entityType: 'form_entry',
-                    entityId: entryId.toString(),
-                    file,
-                  });
-
-                  if (error) {
-                    console.error('Error uploading file:', error);
-                    throw error;
-                  }
-
-                  return data?.id;
-                } catch (err) {
-                  console.error('Failed to upload file:', err);
-                  return null;
+        // Upload each file and get its attachment ID
+        const uploadFiles = async (files: File[]) => {
+          const uploadedFileIds = await Promise.all(
+            files.map(async (file) => {
+              try {
+                const { data, error } = await uploadAttachment({
+                  projectId: currentProject.id.toString(),
+                  entityType: 'form_entry',
+                  entityId: entryId.toString(),
+                  file,
+                });
+
+                if (error) {
+                  console.error('Error uploading file:', error);
+                  throw error;
                 }
-              }),
-            );
 
-            // Filter out any failed uploads
-            const successfulUploads = uploadedFileIds.filter(Boolean);
+                return data?.id;
+              } catch (err) {
+                console.error('Failed to upload file:', err);
+                return null;
+              }
+            }),
+          );
 
-            // Create an answer with the attachment IDs
-            return {
-              itemId: parseInt(itemId),
-              value: successfulUploads,
-            };
-          });
+          // Filter out any failed uploads
+          return uploadedFileIds.filter(Boolean);
+        };
+
+        // Find all photo answers with files
+        const fileUploads = visibleAnswers
+          .filter(([_, value]) => isPendingUpload(value))
+          .map(async ([itemId, files]) => ({
+            itemId: parseInt(itemId),
+            value: await uploadFiles(files as File[]),
+          }));
+
+        // And group rows with photos, keeping the rest of each row as entered
+        const rowUploads = visibleAnswers
+          .filter(([_, value]) => hasPendingRowUploads(value))
+          .map(async ([itemId, rows]) => ({
+            itemId: parseInt(itemId),
+            value: await Promise.all(
+              (rows as unknown[][]).map((row) =>
+                Promise.all(row.map((cell) => (isPendingUpload(cell) ? uploadFiles(cell) : cell))),
+              ),
+            ),
+          }));
 
         // Wait for all file uploads to complete
-        const fileAnswers = await Promise.all(fileUploads);
+        const fileAnswers = await Promise.all([...fileUploads, ...rowUploads]);
 
         // Update the form entry with file attachment IDs
         if (fileAnswers.length > 0) {
@@ -832,8 +973,74 @@ function FormsPageContent({
           />
         );
 
+      case 'file':
+        return (
+          <FormFileUploader
+            item={item}
+            tempEntityId={`form_entry_${selectedFormId}`}
+            onUploadChange={(itemId, value) => handleAnswerChange(itemId, value)}
+            value={answers[itemId] || null}
+            hasError={hasError}
+            errorMessage={formErrors[itemId]}
+            isDisabled={isSubmittingEntry}
+          />
+        );
+
+      case 'section':
+        return (
+          <div className="space-y-1 border-b pb-2 pt-2">
+            <h3 className="text-lg font-semibold">{item.question_value}</h3>
+            {item.metadata?.description && (
+              <p className="text-sm text-muted-foreground">{item.metadata.description}</p>
+            )}
+          </div>
+        );
+
+      case 'calculated':
+        return (
+          <div className="space-y-2">
+            <Label className="font-medium">{item.question_value}</Label>
+            <CalculatedValue
+              item={item}
+              value={calculations?.values[itemId]}
+              emptyText="Answer the questions this uses to see the result"
+            />
+          </div>
+        );
+
+      case 'group':
+        return (
+          <div className="space-y-2">
+            <Label className="font-medium">
+              {item.question_value} {item.is_required && <span className="text-red-500">*</span>}
+            </Label>
+            <RepeatableGroupInput
+              item={item}
+              value={answers[itemId]}
+              onChange={(value) => handleAnswerChange(itemId, value)}
+              hasError={hasError}
+              disabled={isSubmittingEntry}
+            />
+            {hasError && <p className="text-sm text-red-500">{formErrors[itemId]}</p>}
+          </div>
+        );
+
       default:
-        return null;
+        return (
+          <div className="space-y-2">
+            <Label className="font-medium">
+              {item.question_value} {item.is_required && <span className="text-red-500">*</span>}
+            </Label>
+            <FormFieldInput
+              item={item}
+              value={answers[itemId]}
+              onChange={(value) => handleAnswerChange(itemId, value)}
+              hasError={hasError}
+              disabled={isSubmittingEntry}
+            />
+            {hasError && <p className="text-sm text-red-500">{formErrors[itemId]}</p>}
+          </div>
+        );
     }
   };
 
@@ -1000,21 +1207,35 @@ function FormsPageContent({
                 <div className="flex-1 overflow-auto">
                   <div className="space-y-6 p-6">
                     <div className="space-y-4">
-                      <div className="space-y-2">
-                        <Label htmlFor="entry-name" className="font-medium">
-                          Entry Name <span className="text-red-500">*</span>
-                        </Label>
-                        <Input
-                          id="entry-name"
-                          value={entryName}
-                          onChange={(e) => setEntryName(e.target.value)}
-                          placeholder="Give this entry a name"
-                        />
-                      </div>
+                      {entryPages.length > 1 && (
+                        <p className="text-sm text-muted-foreground">
+                          Page {currentEntryPage + 1} of {entryPages.length}
+                        </p>
+                      )}
+
+                      {currentEntryPage === 0 && (
+                        <div className="space-y-2">
+                          <Label htmlFor="entry-name" className="font-medium">
+                            Entry Name <span className="text-red-500">*</span>
+                          </Label>
+                          <Input
+                            id="entry-name"
+                            value={entryName}
+                            onChange={(e) => setEntryName(e.target.value)}
+                            placeholder="Give this entry a name"
+                          />
+                        </div>
+                      )}
 
-                      {formDetail.items.map((item) => (
-                        <div key={item.id} className="rounded-lg border p-4">
-                          {renderFormItem(item)}
+                      {entryPages[currentEntryPage].map((item) => (
+                        <div
+                          key={item.id}
+                          className={item.item_type === 'section' ? '' : 'rounded-lg border p-4'}
+                        >
+                          {renderFormItem({
+                            ...item,
+                            is_required: itemStates[item.display_order].required,
+                          })}
                         </div>
                       ))}
                     </div>
@@ -1029,9 +1250,22 @@ function FormsPageContent({
                     >
                       Cancel
                     </Button>
-                    <Button onClick={handleSubmitEntry} disabled={isSubmittingEntry}>
-                      {isSubmittingEntry ? 'Submitting...' : 'Submit'}
-                    </Button>
+                    {currentEntryPage > 0 && (
+                      <Button
+                        variant="outline"
+                        onClick={() => setEntryPage(currentEntryPage - 1)}
+                        disabled={isSubmittingEntry}
+                      >
+                        Back
+                      </Button>
+                    )}
+                    {isLastEntryPage ? (
+                      <Button onClick={handleSubmitEntry} disabled={isSubmittingEntry}>
+                        {isSubmittingEntry ? 'Submitting...' : 'Submit'}
+                      </Button>
+                    ) : (
+                      <Button onClick={handleNextEntryPage}>Next</Button>
+                    )}
                   </div>
                 </div>
               </div>
@@ -1066,15 +1300,50 @@ function FormsPageContent({
                             : 'Never'}
                         </span>
                       </div>
+                      <div className="mt-2 flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+                        {formDetail.publishedVersion && (
+                          <span>
+                            Version {formDetail.publishedVersion.version_number} published
+                          </span>
+                        )}
+                        {formDetail.draftVersion && (
+                          <Badge
+                            variant="outline"
+                            className="border-yellow-200 bg-yellow-50 text-yellow-700"
+                          >
+                            Unpublished draft
+                          </Badge>
+                        )}
+                      </div>
                       {!isEditing && (
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          className="mt-4"
-                          onClick={() => handleCreateEntry(selectedFormId || undefined)}
-                        >
-                          Create entry
-                        </Button>
+                        <div className="mt-4 flex flex-wrap gap-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleCreateEntry(selectedFormId || undefined)}
+                          >
+                            Create entry
+                          </Button>
+                          {formDetail.draftVersion && (
+                            <>
+                              <Button
+                                size="sm"
+                                onClick={handlePublishDraft}
+                                disabled={isPublishing}
+                              >
+                                {isPublishing ? 'Publishing...' : 'Publish draft'}
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={handleDiscardDraft}
+                                disabled={isPublishing}
+                              >
+                                Discard draft
+                              </Button>
+                            </>
+                          )}
+                        </div>
                       )}
                     </div>
                     <div className="ml-auto flex items-center gap-2">
@@ -1158,6 +1427,9 @@ function FormsPageContent({
                                   onDelete={deleteQuestion}
                                   isFirst={index === 0}
                                   isEditing={isEditing}
+                                  previousQuestions={editedItems
+                                    .slice(0, index)
+                                    .map(toFormBuilderQuestion)}
                                 />
                               ))}
                             </div>
@@ -1173,6 +1445,9 @@ function FormsPageContent({
                               onDelete={deleteQuestion}
                               isFirst={index === 0}
                               isEditing={isEditing}
+                              previousQuestions={editedItems
+                                .slice(0, index)
+                                .map(toFormBuilderQuestion)}
                             />
                           ))}
                         </div>
@@ -1,40 +1,342 @@
 'use client';
-import FetchDataSteps from '@/components/tutorial/fetch-data-steps';
-import { InfoIcon } from 'lucide-react';
-import { redirect } from 'next/navigation';
-import { CreateApprovalButton } from '@/components/create-approval-button';
-import { ApproveButton } from '@/components/approve-button';
+
+import { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { format, formatDistanceToNow } from 'date-fns';
+import { AlertTriangle, Bell, Book, CalendarClock, CheckCircle2, ChevronRight } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
 import { useAuth } from '@/hooks/useAuth';
+import { useProject } from '@/contexts/ProjectContext';
+import { useNotifications } from '@/providers/NotificationProvider';
+import { usePendingApprovals } from '@/hooks/useApprovals';
+import { useTasks, useTaskStatuses } from './tasks/hooks';
+import { getSiteDiaries } from '@/lib/api/site-diaries';
+import { getDoneStatusId, isTaskDueThisWeek, isTaskOverdue } from '@/lib/utils/task-utils';
+import { getMissingDiaryDays, getRecentWorkingDays } from '@/lib/utils/site-diary-utils';
+import { notificationIcons } from '@/lib/types/notifications';
+import { TaskWithRelations } from './tasks/models';
+
+// Number of past working days checked for missing site diaries
+const DIARY_LOOKBACK_DAYS = 5;
+
+// Maximum number of unread notifications listed on the dashboard
+const MAX_NOTIFICATIONS = 5;
 
 export default function ProtectedPage() {
   const { user } = useAuth();
+  const { current: currentProject } = useProject();
+  const { tasks, loading: loadingTasks } = useTasks();
+  const { statuses, loading: loadingStatuses } = useTaskStatuses();
+  const { unreadNotifications, isLoading: loadingNotifications } = useNotifications();
+  const {
+    approvals,
+    loading: loadingApprovals,
+    error: approvalsError,
+  } = usePendingApprovals(currentProject?.id);
+
+  const [diaryDates, setDiaryDates] = useState<string[]>([]);
+  const [loadingDiaries, setLoadingDiaries] = useState(true);
+  const [diariesError, setDiariesError] = useState<string | null>(null);
+
+  // Load the dates of diaries already recorded for the current project
+  useEffect(() => {
+    const loadDiaries = async () => {
+      if (!currentProject?.id) {
+        setDiaryDates([]);
+        setLoadingDiaries(false);
+        return;
+      }
+
+      setLoadingDiaries(true);
+      setDiariesError(null);
+
+      try {
+        const diaries = await getSiteDiaries(currentProject.id);
+        setDiaryDates(diaries.map((diary) => diary.date));
+      } catch (err) {
+        console.error('Error loading site diaries:', err);
+        setDiariesError('Failed to load site diaries');
+      } finally {
+        setLoadingDiaries(false);
+      }
+    };
+
+    loadDiaries();
+  }, [currentProject?.id]);
+
+  const doneStatusId = useMemo(() => getDoneStatusId(statuses), [statuses]);
+
+  // Only tasks assigned to the current user are shown on the dashboard
+  const myTasks = useMemo(
+    () => tasks.filter((task) => user?.id && task.assignees.includes(user.id)),
+    [tasks, user?.id],
+  );
+
+  const overdueTasks = useMemo(
+    () =>
+      myTasks
+        .filter((task) => isTaskOverdue(task, doneStatusId))
+        .sort((a, b) => new Date(a.due_date!).getTime() - new Date(b.due_date!).getTime()),
+    [myTasks, doneStatusId],
+  );
+
+  const dueThisWeekTasks = useMemo(
+    () =>
+      myTasks
+        .filter((task) => isTaskDueThisWeek(task, doneStatusId))
+        .sort((a, b) => new Date(a.due_date!).getTime() - new Date(b.due_date!).getTime()),
+    [myTasks, doneStatusId],
+  );
+
+  const missingDiaryDays = useMemo(
+    () => getMissingDiaryDays(getRecentWorkingDays(DIARY_LOOKBACK_DAYS), diaryDates),
+    [diaryDates],
+  );
+
+  // Notifications without a project are global and are always shown
+  const projectNotifications = useMemo(
+    () =>
+      unreadNotifications
+        .filter(
+          (notification) =>
+            !notification.data?.project_id ||
+            Number(notification.data.project_id) === currentProject?.id,
+        )
+        .slice(0, MAX_NOTIFICATIONS),
+    [unreadNotifications, currentProject?.id],
+  );
+
+  const displayName =
+    user?.profile?.global_display_name || user?.user_metadata?.name || user?.email || '';
 
   return (
-    <div className="flex w-full flex-1 flex-col gap-12">
-      <div className="w-full">
-        <div className="flex items-center gap-3 rounded-md bg-accent p-3 px-5 text-sm text-foreground">
-          <InfoIcon size="16" strokeWidth={2} />
-          This is a protected page that you can only see as an authenticated user
-        </div>
-      </div>
-      <div className="flex flex-col items-start gap-2">
-        <h2 className="mb-4 text-2xl font-bold">Your user details</h2>
-        <pre className="max-h-32 overflow-auto rounded border p-3 font-mono text-xs">
-          {JSON.stringify(user, null, 2)}
-        </pre>
-      </div>
-      <div className="flex flex-col gap-4">
-        <h2 className="text-2xl font-bold">Create Approval</h2>
-        <CreateApprovalButton />
-      </div>
-      <div className="flex flex-col gap-4">
-        <h2 className="text-2xl font-bold">Approve Approval</h2>
-        <ApproveButton approvalId={31} />
-      </div>
+    <div className="flex w-full flex-1 flex-col gap-6">
+      {/* Page Header */}
       <div>
-        <h2 className="mb-4 text-2xl font-bold">Next steps</h2>
-        <FetchDataSteps />
+        <h1 className="text-2xl font-bold tracking-tight">
+          {displayName ? `Welcome back, ${displayName}` : 'Welcome back'}
+        </h1>
+        <p className="text-muted-foreground">
+          {currentProject
+            ? `Here's what needs your attention on ${currentProject.name}`
+            : 'Select a project to see your dashboard'}
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 gap-4 lg:grid-cols-2">
+        {/* My Tasks */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <CalendarClock className="h-5 w-5" />
+              My Tasks
+            </CardTitle>
+            <CardDescription>Overdue and due this week</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {loadingTasks || loadingStatuses ? (
+              <SectionSkeleton />
+            ) : overdueTasks.length === 0 && dueThisWeekTasks.length === 0 ? (
+              <EmptyState message="Nothing overdue or due this week" />
+            ) : (
+              <>
+                {overdueTasks.length > 0 && (
+                  <TaskGroup title="Overdue" tasks={overdueTasks} overdue />
+                )}
+                {dueThisWeekTasks.length > 0 && (
+                  <TaskGroup title="Due this week" tasks={dueThisWeekTasks} />
+                )}
+              </>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Approvals waiting on me */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <CheckCircle2 className="h-5 w-5" />
+              Waiting on You
+            </CardTitle>
+            <CardDescription>Approvals that need your response</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {loadingApprovals ? (
+              <SectionSkeleton />
+            ) : approvalsError ? (
+              <p className="text-sm text-red-500">{approvalsError}</p>
+            ) : approvals.length === 0 ? (
+              <EmptyState message="No approvals waiting on you" />
+            ) : (
+              <ul className="divide-y divide-border">
+                {approvals.map((approval) => (
+                  <li key={approval.id}>
+                    <DashboardLink href="/protected/approvals">
+                      <div className="min-w-0 flex-1">
+                        <p className="truncate text-sm font-medium">{approval.entity_title}</p>
+                        <p className="text-xs text-muted-foreground">
+                          Requested by {approval.requester_name}{' '}
+                          {formatDistanceToNow(new Date(approval.created_at), {
+                            addSuffix: true,
+                          })}
+                        </p>
+                      </div>
+                    </DashboardLink>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Missing site diaries */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Book className="h-5 w-5" />
+              Missing Site Diaries
+            </CardTitle>
+            <CardDescription>
+              Working days in the last {DIARY_LOOKBACK_DAYS} without a diary
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {loadingDiaries ? (
+              <SectionSkeleton />
+            ) : diariesError ? (
+              <p className="text-sm text-red-500">{diariesError}</p>
+            ) : missingDiaryDays.length === 0 ? (
+              <EmptyState message="All recent working days have a diary" />
+            ) : (
+              <ul className="divide-y divide-border">
+                {missingDiaryDays.map((day) => (
+                  <li key={day.toISOString()}>
+                    <DashboardLink href="/protected/site-diaries">
+                      <div className="flex flex-1 items-center justify-between gap-2">
+                        <span className="text-sm font-medium">{format(day, 'EEEE, MMMM do')}</span>
+                        <Badge variant="outline" className="border-yellow-500 text-yellow-600">
+                          No diary
+                        </Badge>
+                      </div>
+                    </DashboardLink>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Recent unread notifications */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Bell className="h-5 w-5" />
+              Unread Notifications
+            </CardTitle>
+            <CardDescription>Your most recent unread updates</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {loadingNotifications ? (
+              <SectionSkeleton />
+            ) : projectNotifications.length === 0 ? (
+              <EmptyState message="You're all caught up" />
+            ) : (
+              <ul className="divide-y divide-border">
+                {projectNotifications.map((notification) => (
+                  <li key={notification.id}>
+                    <DashboardLink href="/protected/notifications">
+                      <span className="text-lg">
+                        {notificationIcons[notification.type] || '🔔'}
+                      </span>
+                      <div className="min-w-0 flex-1">
+                        <p className="truncate text-sm font-medium">{notification.title}</p>
+                        <p className="line-clamp-1 text-xs text-muted-foreground">
+                          {notification.message}
+                        </p>
+                      </div>
+                      <span className="shrink-0 text-xs text-muted-foreground">
+                        {formatDistanceToNow(new Date(notification.created_at), {
+                          addSuffix: true,
+                        })}
+                      </span>
+                    </DashboardLink>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
       </div>
     </div>
   );
 }
+
+// List of tasks under a small heading
+function TaskGroup({
+  title,
+  tasks,
+  overdue = false,
+}: {
+  title: string;
+  tasks: TaskWithRelations[];
+  overdue?: boolean;
+}) {
+  return (
+    <div>
+      <h3 className="mb-1 flex items-center gap-1 text-sm font-medium text-muted-foreground">
+        {overdue && <AlertTriangle className="h-4 w-4 text-red-500" />}
+        {title} ({tasks.length})
+      </h3>
+      <ul className="divide-y divide-border">
+        {tasks.map((task) => (
+          <li key={task.id}>
+            <DashboardLink href={`/protected/tasks/${task.id}`}>
+              <div className="min-w-0 flex-1">
+                <p className="truncate text-sm font-medium">{task.title}</p>
+                {task.statuses && (
+                  <p className="text-xs text-muted-foreground">{task.statuses.name}</p>
+                )}
+              </div>
+              <span
+                className={
+                  overdue ? 'shrink-0 text-xs text-red-500' : 'shrink-0 text-xs text-foreground'
+                }
+              >
+                {format(new Date(task.due_date!), 'MMM d')}
+              </span>
+            </DashboardLink>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+// Row link shared by all dashboard lists
+function DashboardLink({ href, children }: { href: string; children: React.ReactNode }) {
+  return (
+    <Link
+      href={href}
+      className="-mx-2 flex items-center gap-3 rounded-md px-2 py-2 transition-colors hover:bg-muted/50"
+    >
+      {children}
+      <ChevronRight className="h-4 w-4 shrink-0 text-muted-foreground" />
+    </Link>
+  );
+}
+
+function EmptyState({ message }: { message: string }) {
+  return <p className="py-4 text-center text-sm text-muted-foreground">{message}</p>;
+}
+
+function SectionSkeleton() {
+  return (
+    <div className="space-y-3">
+      <Skeleton className="h-10 w-full" />
+      <Skeleton className="h-10 w-full" />
+      <Skeleton className="h-10 w-3/4" />
+    </div>
+  );
+}
@@ -0,0 +1,336 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { useOrganization } from '@/contexts/OrganizationContext';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { DatePicker } from '@/components/ui/date-picker';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { ArrowLeft, Download, History, Search } from 'lucide-react';
+import Link from 'next/link';
+import { useParams, useRouter } from 'next/navigation';
+import { endOfDay, format, startOfDay } from 'date-fns';
+import { OrganizationMembership } from '@/lib/types/organization';
+import {
+  ActivityEntityType,
+  ActivityLogEntry,
+  ActivityLogFilters,
+  activityLogAPI,
+} from '@/lib/api/activity-log';
+import {
+  ACTIVITY_ENTITY_LABELS,
+  activityToCsv,
+  getActivityChangeLines,
+} from '@/lib/utils/activity';
+import { downloadCsv } from '@/lib/utils/csv';
+
+const PAGE_SIZE = 100;
+// Upper bound on rows in one export
+const EXPORT_LIMIT = 5000;
+
+export default function OrganizationAuditLogPage() {
+  const params = useParams();
+  const router = useRouter();
+  const { memberships } = useOrganization();
+  const [membership, setMembership] = useState<OrganizationMembership | null>(null);
+  const [entries, setEntries] = useState<ActivityLogEntry[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+  const [entityType, setEntityType] = useState<ActivityEntityType | 'all'>('all');
+  const [fromDate, setFromDate] = useState<Date | undefined>();
+  const [toDate, setToDate] = useState<Date | undefined>();
+
+  const slug = params.slug as string;
+  const canView = membership?.role === 'owner' || membership?.role === 'admin';
+
+  const filters: ActivityLogFilters = {
+    search,
+    entityType,
+    from: fromDate ? startOfDay(fromDate) : null,
+    to: toDate ? endOfDay(toDate) : null,
+  };
+
+  const loadEntries = useCallback(
+    async (organizationId: number, pageFilters: ActivityLogFilters, offset = 0) => {
+      try {
+        const page = await activityLogAPI.getOrganizationActivity(organizationId, {
+          ...pageFilters,
+          limit: PAGE_SIZE,
+          offset,
+        });
+        setEntries((prev) => (offset === 0 ? page : [...prev, ...page]));
+        setHasMore(page.length === PAGE_SIZE);
+      } catch (error) {
+        console.error('Failed to load audit log:', error);
+        setError('Failed to load audit log');
+      }
+    },
+    [],
+  );
+
+  useEffect(() => {
+    const foundMembership = memberships.find((m) => m.organization.slug === slug);
+
+    if (memberships.length > 0 && !foundMembership) {
+      router.push('/protected/settings/organizations');
+      return;
+    }
+
+    if (foundMembership) {
+      setMembership(foundMembership);
+    }
+  }, [memberships, slug, router]);
+
+  // Reload from the first page whenever the filters change
+  useEffect(() => {
+    if (!membership || !canView) {
+      if (membership) setIsLoading(false);
+      return;
+    }
+
+    const reload = async () => {
+      setIsLoading(true);
+      await loadEntries(membership.organization_id, {
+        search,
+        entityType,
+        from: fromDate ? startOfDay(fromDate) : null,
+        to: toDate ? endOfDay(toDate) : null,
+      });
+      setIsLoading(false);
+    };
+
+    reload();
+  }, [membership, canView, search, entityType, fromDate, toDate, loadEntries]);
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setSearch(searchInput.trim());
+  };
+
+  const handleLoadMore = async () => {
+    if (!membership) return;
+
+    setIsLoadingMore(true);
+    await loadEntries(membership.organization_id, filters, entries.length);
+    setIsLoadingMore(false);
+  };
+
+  const handleExport = async () => {
+    if (!membership) return;
+
+    setIsExporting(true);
+    try {
+      const rows = await activityLogAPI.getOrganizationActivity(membership.organization_id, {
+        ...filters,
+        limit: EXPORT_LIMIT,
+      });
+      downloadCsv(
+        `audit-log-${membership.organization.slug}-${format(new Date(), 'yyyy-MM-dd')}.csv`,
+        activityToCsv(rows),
+      );
+    } catch (error) {
+      console.error('Failed to export audit log:', error);
+      setError('Failed to export audit log');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  if (!membership || (isLoading && entries.length === 0 && !error)) {
+    return (
+      <div className="p-6">
+        <div className="flex min-h-[400px] items-center justify-center">
+          <div className="text-center">
+            <div className="mx-auto mb-4 h-8 w-8 animate-spin rounded-full border-b-2 border-primary"></div>
+            <p>Loading audit log...</p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 p-6">
+      {/* Header */}
+      <div className="flex items-center gap-4">
+        <Link href={`/protected/settings/organizations/${slug}`}>
+          <Button variant="outline" size="sm">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Organization
+          </Button>
+        </Link>
+        <div>
+          <h1 className="flex items-center gap-2 text-3xl font-bold">
+            <History className="h-8 w-8" />
+            Audit Log
+          </h1>
+          <p className="text-muted-foreground">
+            Who changed what and when in {membership.organization.name}
+          </p>
+        </div>
+      </div>
+
+      {!canView ? (
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-muted-foreground">
+              Only organization owners and admins can view the audit log.
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          {error && (
+            <Card className="border-destructive">
+              <CardContent className="pt-4">
+                <p className="text-destructive">{error}</p>
+                <Button variant="outline" size="sm" className="mt-2" onClick={() => setError(null)}>
+                  Dismiss
+                </Button>
+              </CardContent>
+            </Card>
+          )}
+
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <div>
+                  <CardTitle>Activity</CardTitle>
+                  <CardDescription>
+                    Changes to tasks, form entries, site diaries, approvals and members
+                  </CardDescription>
+                </div>
+                <Button variant="outline" onClick={handleExport} disabled={isExporting}>
+                  <Download className="mr-2 h-4 w-4" />
+                  {isExporting ? 'Exporting...' : 'Export CSV'}
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {/* Filters */}
+              <div className="grid gap-3 md:grid-cols-4">
+                <form onSubmit={handleSearch} className="relative md:col-span-2">
+                  <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                  <Input
+                    value={searchInput}
+                    onChange={(e) => setSearchInput(e.target.value)}
+                    onBlur={() => setSearch(searchInput.trim())}
+                    placeholder="Search by name or user, then press Enter"
+                    className="pl-9"
+                  />
+                </form>
+                <Select
+                  value={entityType}
+                  onValueChange={(value) => setEntityType(value as ActivityEntityType | 'all')}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="All types" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All types</SelectItem>
+                    {(Object.keys(ACTIVITY_ENTITY_LABELS) as ActivityEntityType[]).map((type) => (
+                      <SelectItem key={type} value={type}>
+                        {ACTIVITY_ENTITY_LABELS[type]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <div className="grid grid-cols-2 gap-2">
+                  <DatePicker date={fromDate} setDate={setFromDate} placeholder="From" />
+                  <DatePicker date={toDate} setDate={setToDate} placeholder="To" />
+                </div>
+              </div>
+
+              {entries.length === 0 ? (
+                <p className="py-6 text-center text-sm text-muted-foreground">
+                  No activity matches these filters
+                </p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-[170px]">When</TableHead>
+                      <TableHead>User</TableHead>
+                      <TableHead>Action</TableHead>
+                      <TableHead>Item</TableHead>
+                      <TableHead>Changes</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {entries.map((entry) => {
+                      const lines = getActivityChangeLines(entry);
+
+                      return (
+                        <TableRow key={entry.id}>
+                          <TableCell className="whitespace-nowrap text-sm text-muted-foreground">
+                            {format(new Date(entry.created_at), 'MMM d, yyyy h:mm a')}
+                          </TableCell>
+                          <TableCell className="font-medium">
+                            {entry.actor_name || 'System'}
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant="outline" className="capitalize">
+                              {entry.action}
+                            </Badge>
+                          </TableCell>
+                          <TableCell>
+                            <div className="text-sm">{entry.entity_name || '—'}</div>
+                            <div className="text-xs text-muted-foreground">
+                              {ACTIVITY_ENTITY_LABELS[entry.entity_type]}
+                            </div>
+                          </TableCell>
+                          <TableCell className="max-w-md text-xs">
+                            {lines.map((line) => (
+                              <div key={line.field} className="break-words">
+                                <span className="font-medium">{line.label}:</span>{' '}
+                                <span className="text-muted-foreground line-through">
+                                  {line.from}
+                                </span>
+                                {' → '}
+                                {line.to}
+                              </div>
+                            ))}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              )}
+
+              {hasMore && (
+                <div className="flex justify-center">
+                  <Button variant="outline" onClick={handleLoadMore} disabled={isLoadingMore}>
+                    {isLoadingMore ? 'Loading...' : 'Load more'}
+                  </Button>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
@@ -8,7 +8,17 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
-import { Building2, Users, Settings, Save, ArrowLeft, Shield, Database } from 'lucide-react';
+import {
+  Building2,
+  Users,
+  Settings,
+  Save,
+  ArrowLeft,
+  Shield,
+  Database,
+  ClipboardList,
+  History,
+} from 'lucide-react';
 import Link from 'next/link';
 import { useParams, useRouter } from 'next/navigation';
 import { Organization, OrganizationMembership } from '@/lib/types/organization';
@@ -407,6 +417,56 @@ export default function OrganizationSettingsPage() {
         </CardContent>
       </Card>
 
+      {/* Task Templates */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ClipboardList className="h-5 w-5" />
+            Task Templates
+          </CardTitle>
+          <CardDescription>
+            Standard sets of tasks that can be created in any project of this organization
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Link
+            href={`/protected/settings/organizations/${organization.slug}/task-templates`}
+            className="block"
+          >
+            <Button variant="outline" className="w-full">
+              <ClipboardList className="mr-2 h-4 w-4" />
+              {canEdit ? 'Manage Task Templates' : 'View Task Templates'}
+            </Button>
+          </Link>
+        </CardContent>
+      </Card>
+
+      {/* Audit Log */}
+      {canEdit && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <History className="h-5 w-5" />
+              Audit Log
+            </CardTitle>
+            <CardDescription>
+              Who changed what and when across the projects and members of this organization
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Link
+              href={`/protected/settings/organizations/${organization.slug}/audit`}
+              className="block"
+            >
+              <Button variant="outline" className="w-full">
+                <History className="mr-2 h-4 w-4" />
+                View Audit Log
+              </Button>
+            </Link>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Danger Zone */}
       {membership.role === 'owner' && (
         <Card className="border-destructive">
@@ -0,0 +1,310 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useOrganization } from '@/contexts/OrganizationContext';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { ArrowLeft, ClipboardList, Edit, Plus, Trash2 } from 'lucide-react';
+import Link from 'next/link';
+import { useParams, useRouter } from 'next/navigation';
+import { OrganizationMembership } from '@/lib/types/organization';
+import { TaskTemplate, TaskTemplateInput, taskTemplatesAPI } from '@/lib/api/task-templates';
+import { TaskTemplateEditor } from '@/app/components/tasks/TaskTemplateEditor';
+import {
+  countTemplateTasks,
+  createTemplateItem,
+  normalizeTemplateInput,
+  templateToInput,
+  validateTemplateInput,
+} from '@/lib/utils/task-templates';
+
+const emptyTemplate = (): TaskTemplateInput => ({
+  name: '',
+  description: null,
+  items: [createTemplateItem()],
+});
+
+export default function OrganizationTaskTemplatesPage() {
+  const params = useParams();
+  const router = useRouter();
+  const { memberships } = useOrganization();
+  const [membership, setMembership] = useState<OrganizationMembership | null>(null);
+  const [templates, setTemplates] = useState<TaskTemplate[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [showDialog, setShowDialog] = useState(false);
+  const [editingTemplate, setEditingTemplate] = useState<TaskTemplate | null>(null);
+  const [form, setForm] = useState<TaskTemplateInput>(emptyTemplate);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const slug = params.slug as string;
+  const canEdit = membership?.role === 'owner' || membership?.role === 'admin';
+
+  const loadTemplates = async (organizationId: number) => {
+    try {
+      setTemplates(await taskTemplatesAPI.getOrganizationTemplates(organizationId));
+    } catch (error) {
+      console.error('Failed to load task templates:', error);
+      setError('Failed to load task templates');
+    }
+  };
+
+  useEffect(() => {
+    const loadOrganization = async () => {
+      const foundMembership = memberships.find((m) => m.organization.slug === slug);
+
+      if (!foundMembership) {
+        router.push('/protected/settings/organizations');
+        return;
+      }
+
+      setMembership(foundMembership);
+      await loadTemplates(foundMembership.organization_id);
+      setIsLoading(false);
+    };
+
+    if (memberships.length > 0) {
+      loadOrganization();
+    }
+  }, [memberships, slug, router]);
+
+  const openDialog = (template?: TaskTemplate) => {
+    setEditingTemplate(template ?? null);
+    setForm(template ? templateToInput(template) : emptyTemplate());
+    setFormError(null);
+    setShowDialog(true);
+  };
+
+  const handleSave = async () => {
+    if (!membership) return;
+
+    const validationError = validateTemplateInput(form);
+    if (validationError) {
+      setFormError(validationError);
+      return;
+    }
+
+    if (
+      templates.some(
+        (t) =>
+          t.id !== editingTemplate?.id && t.name.toLowerCase() === form.name.trim().toLowerCase(),
+      )
+    ) {
+      setFormError('A template with this name already exists');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const input = normalizeTemplateInput(form);
+      if (editingTemplate) {
+        await taskTemplatesAPI.updateTemplate(editingTemplate.id, input);
+      } else {
+        await taskTemplatesAPI.createTemplate(membership.organization_id, input);
+      }
+
+      await loadTemplates(membership.organization_id);
+      setShowDialog(false);
+    } catch (error) {
+      setFormError(error instanceof Error ? error.message : 'Failed to save template');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (template: TaskTemplate) => {
+    try {
+      await taskTemplatesAPI.deleteTemplate(template.id);
+      setTemplates((prev) => prev.filter((t) => t.id !== template.id));
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to delete template');
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="p-6">
+        <div className="flex min-h-[400px] items-center justify-center">
+          <div className="text-center">
+            <div className="mx-auto mb-4 h-8 w-8 animate-spin rounded-full border-b-2 border-primary"></div>
+            <p>Loading task templates...</p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!membership) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-6 p-6">
+      {/* Header */}
+      <div className="flex items-center gap-4">
+        <Link href={`/protected/settings/organizations/${slug}`}>
+          <Button variant="outline" size="sm">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Organization
+          </Button>
+        </Link>
+        <div>
+          <h1 className="flex items-center gap-2 text-3xl font-bold">
+            <ClipboardList className="h-8 w-8" />
+            Task Templates
+          </h1>
+          <p className="text-muted-foreground">
+            Standard sets of tasks for projects in {membership.organization.name}
+          </p>
+        </div>
+      </div>
+
+      {error && (
+        <Card className="border-destructive">
+          <CardContent className="pt-4">
+            <p className="text-destructive">{error}</p>
+            <Button variant="outline" size="sm" className="mt-2" onClick={() => setError(null)}>
+              Dismiss
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Templates</CardTitle>
+              <CardDescription>
+                Apply a template from a project&apos;s task settings to create all of its tasks at
+                once
+              </CardDescription>
+            </div>
+            {canEdit && (
+              <Button onClick={() => openDialog()}>
+                <Plus className="mr-2 h-4 w-4" />
+                Add Template
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent>
+          {templates.length === 0 ? (
+            <p className="py-6 text-center text-sm text-muted-foreground">No task templates yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Template</TableHead>
+                  <TableHead>Description</TableHead>
+                  <TableHead>Tasks</TableHead>
+                  {canEdit && <TableHead className="w-[100px]">Actions</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {templates.map((template) => (
+                  <TableRow key={template.id}>
+                    <TableCell className="font-medium">{template.name}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {template.description}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{countTemplateTasks(template)} tasks</Badge>
+                    </TableCell>
+                    {canEdit && (
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <Button variant="ghost" size="sm" onClick={() => openDialog(template)}>
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button variant="ghost" size="sm">
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>Delete Template</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  Are you sure you want to delete the template &quot;
+                                  {template.name}&quot;? Tasks already created from it are kept.
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                <AlertDialogAction
+                                  onClick={() => handleDelete(template)}
+                                  className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                                >
+                                  Delete
+                                </AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        </div>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={showDialog} onOpenChange={setShowDialog}>
+        <DialogContent className="max-h-[85vh] max-w-3xl overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingTemplate ? 'Edit Template' : 'Create New Template'}</DialogTitle>
+            <DialogDescription>
+              {editingTemplate
+                ? 'Changes apply to projects the template is applied to from now on'
+                : 'Define the tasks this template creates in a project'}
+            </DialogDescription>
+          </DialogHeader>
+          <TaskTemplateEditor value={form} onChange={setForm} disabled={isSaving} />
+          {formError && <p className="text-sm text-destructive">{formError}</p>}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowDialog(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving ? 'Saving...' : editingTemplate ? 'Update' : 'Create'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,226 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { format, parseISO } from 'date-fns';
+import { useAuth } from '@/hooks/useAuth';
+import { useProjectMembers } from '@/hooks/useProjectMembers';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { DatePicker } from '@/components/ui/date-picker';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { toast } from 'sonner';
+import { Loader2, Plane, Trash2 } from 'lucide-react';
+import {
+  ApprovalDelegationWithUsers,
+  createApprovalDelegation,
+  deleteApprovalDelegation,
+  getMyApprovalDelegations,
+} from '@/lib/api/approval-delegations';
+
+const formatDay = (date: string) => format(parseISO(date), 'MMM d, yyyy');
+
+export default function OutOfOfficePage() {
+  const { user } = useAuth();
+  const { members } = useProjectMembers();
+  const [delegations, setDelegations] = useState<ApprovalDelegationWithUsers[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [delegateId, setDelegateId] = useState('');
+  const [startsOn, setStartsOn] = useState<Date | undefined>();
+  const [endsOn, setEndsOn] = useState<Date | undefined>();
+  const [reason, setReason] = useState('');
+
+  const loadDelegations = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      setDelegations(await getMyApprovalDelegations());
+    } catch (error) {
+      console.error('Error loading delegations:', error);
+      toast.error('Failed to load out-of-office periods');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    loadDelegations();
+  }, [loadDelegations]);
+
+  const handleCreate = async () => {
+    if (!delegateId || !startsOn || !endsOn) {
+      toast.error('Choose a delegate and the dates you are away');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await createApprovalDelegation({
+        delegate_id: delegateId,
+        starts_on: format(startsOn, 'yyyy-MM-dd'),
+        ends_on: format(endsOn, 'yyyy-MM-dd'),
+        reason,
+      });
+      setDelegateId('');
+      setStartsOn(undefined);
+      setEndsOn(undefined);
+      setReason('');
+      toast.success('Out-of-office period added');
+      await loadDelegations();
+    } catch (error) {
+      console.error('Error creating delegation:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to add out-of-office period');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (delegationId: number) => {
+    try {
+      await deleteApprovalDelegation(delegationId);
+      setDelegations((prev) => prev.filter((d) => d.id !== delegationId));
+      toast.success('Out-of-office period removed');
+    } catch (error) {
+      console.error('Error deleting delegation:', error);
+      toast.error('Failed to remove out-of-office period');
+    }
+  };
+
+  const myDelegations = delegations.filter((d) => d.user_id === user?.id);
+  const coveringFor = delegations.filter((d) => d.delegate_id === user?.id);
+
+  return (
+    <div className="space-y-4 p-6 sm:space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold sm:text-3xl">Out of Office</h1>
+        <p className="mt-1 text-muted-foreground sm:mt-2">
+          Name a delegate to respond to your approvals while you are away. Approval requests go to
+          them for the dates you choose.
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Add an out-of-office period</CardTitle>
+          <CardDescription>Dates are inclusive</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 sm:grid-cols-3">
+            <div className="space-y-2">
+              <Label htmlFor="ooo-delegate">Delegate</Label>
+              <Select value={delegateId} onValueChange={setDelegateId}>
+                <SelectTrigger id="ooo-delegate">
+                  <SelectValue placeholder="Choose a delegate" />
+                </SelectTrigger>
+                <SelectContent>
+                  {members
+                    .filter((member) => member.id !== user?.id)
+                    .map((member) => (
+                      <SelectItem key={member.id} value={member.id}>
+                        {member.name}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>From</Label>
+              <DatePicker date={startsOn} setDate={setStartsOn} placeholder="First day away" />
+            </div>
+            <div className="space-y-2">
+              <Label>Until</Label>
+              <DatePicker date={endsOn} setDate={setEndsOn} placeholder="Last day away" />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="ooo-reason">Reason</Label>
+            <Input
+              id="ooo-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Optional, e.g. Annual leave"
+            />
+          </div>
+          <Button onClick={handleCreate} disabled={isSaving}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Add period
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Your out-of-office periods</CardTitle>
+          <CardDescription>Current and upcoming periods</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {isLoading ? (
+            <div className="flex items-center justify-center p-4">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : myDelegations.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No out-of-office periods planned.</p>
+          ) : (
+            myDelegations.map((delegation) => (
+              <div
+                key={delegation.id}
+                className="flex items-center justify-between rounded-lg border p-3"
+              >
+                <div className="flex items-center gap-3">
+                  <Plane className="h-4 w-4 text-muted-foreground" />
+                  <div>
+                    <p className="text-sm font-medium">
+                      {formatDay(delegation.starts_on)} – {formatDay(delegation.ends_on)}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {delegation.delegate_name} responds on your behalf
+                      {delegation.reason ? ` · ${delegation.reason}` : ''}
+                    </p>
+                  </div>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => handleDelete(delegation.id)}
+                  aria-label="Remove out-of-office period"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      {coveringFor.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Covering for</CardTitle>
+            <CardDescription>
+              Colleagues whose approvals come to you while they are away
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {coveringFor.map((delegation) => (
+              <div key={delegation.id} className="rounded-lg border p-3">
+                <p className="text-sm font-medium">{delegation.user_name}</p>
+                <p className="text-xs text-muted-foreground">
+                  {formatDay(delegation.starts_on)} – {formatDay(delegation.ends_on)}
+                  {delegation.reason ? ` · ${delegation.reason}` : ''}
+                </p>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
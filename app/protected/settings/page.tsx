@@ -10,6 +10,7 @@ import {
   Database,
   FolderOpen,
   ArrowRight,
+  Plane,
 } from 'lucide-react';
 
 export default function SettingsPage() {
@@ -46,6 +47,14 @@ export default function SettingsPage() {
       color: 'text-yellow-600',
       bgColor: 'bg-yellow-50',
     },
+    {
+      title: 'Out of Office',
+      description: 'Choose who responds to your approvals while you are away',
+      icon: Plane,
+      href: '/protected/settings/out-of-office',
+      color: 'text-sky-600',
+      bgColor: 'bg-sky-50',
+    },
     {
       title: 'Security',
       description: 'Manage your password, two-factor authentication, and security settings',
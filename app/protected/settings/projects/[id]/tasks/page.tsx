@@ -7,6 +7,7 @@ import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
 import {
   Table,
   TableBody,
@@ -53,11 +54,18 @@ import {
   X,
   Flag,
   Circle,
+  ClipboardList,
+  ShieldCheck,
 } from 'lucide-react';
 import Link from 'next/link';
 import { useParams, useRouter } from 'next/navigation';
 import { Project, ProjectMembership } from '@/lib/types/project';
 import { taskSettingsAPI, TaskStatus, TaskPriority } from '@/lib/api/task-settings';
+import { TaskTemplate, taskTemplatesAPI } from '@/lib/api/task-templates';
+import { countTemplateTasks } from '@/lib/utils/task-templates';
+import { getDoneStatusId } from '@/lib/utils/task-utils';
+import { DatePicker } from '@/components/ui/date-picker';
+import { format } from 'date-fns';
 
 const DEFAULT_COLORS = [
   '#ef4444', // red
@@ -73,7 +81,7 @@ const DEFAULT_COLORS = [
 export default function ProjectTaskSettingsPage() {
   const params = useParams();
   const router = useRouter();
-  const { memberships } = useProject();
+  const { memberships, updateProject } = useProject();
   const [project, setProject] = useState<Project | null>(null);
   const [membership, setMembership] = useState<ProjectMembership | null>(null);
   const [isLoading, setIsLoading] = useState(true);
@@ -93,8 +101,21 @@ export default function ProjectTaskSettingsPage() {
   const [priorityForm, setPriorityForm] = useState({ name: '', color: DEFAULT_COLORS[0] });
   const [priorityError, setPriorityError] = useState<string | null>(null);
 
+  // Task template state
+  const [templates, setTemplates] = useState<TaskTemplate[]>([]);
+  const [applyingTemplate, setApplyingTemplate] = useState<TaskTemplate | null>(null);
+  const [templateStartDate, setTemplateStartDate] = useState<Date | undefined>(new Date());
+  const [isApplyingTemplate, setIsApplyingTemplate] = useState(false);
+  const [templateError, setTemplateError] = useState<string | null>(null);
+  const [templateMessage, setTemplateMessage] = useState<string | null>(null);
+
+  // Sign-off state
+  const [isSavingSignoff, setIsSavingSignoff] = useState(false);
+  const [signoffError, setSignoffError] = useState<string | null>(null);
+
   const projectId = parseInt(params.id as string);
   const canEdit = membership?.role === 'owner' || membership?.role === 'admin';
+  const doneStatus = statuses.find((s) => s.id === getDoneStatusId(statuses));
 
   useEffect(() => {
     const loadProjectAndData = async () => {
@@ -120,6 +141,9 @@ export default function ProjectTaskSettingsPage() {
         if (!dataLoaded) {
           await loadStatuses();
           await loadPriorities();
+          if (foundMembership.project.organization_id) {
+            await loadTemplates(foundMembership.project.organization_id);
+          }
           setDataLoaded(true);
         }
       } catch (error: any) {
@@ -155,6 +179,54 @@ export default function ProjectTaskSettingsPage() {
     }
   };
 
+  const loadTemplates = async (organizationId: number) => {
+    try {
+      const templatesData = await taskTemplatesAPI.getOrganizationTemplates(organizationId);
+      setTemplates(templatesData);
+    } catch (error) {
+      console.error('Failed to load task templates:', error);
+      setTemplateError('Failed to load task templates');
+    }
+  };
+
+  // Creates every task of the template, with due dates counted from the chosen start date
+  const handleApplyTemplate = async () => {
+    if (!applyingTemplate || !templateStartDate) return;
+
+    setIsApplyingTemplate(true);
+    try {
+      const created = await taskTemplatesAPI.applyTemplate(
+        applyingTemplate.id,
+        projectId,
+        format(templateStartDate, 'yyyy-MM-dd'),
+      );
+
+      setTemplateMessage(
+        `Created ${created} ${created === 1 ? 'task' : 'tasks'} from "${applyingTemplate.name}"`,
+      );
+      setApplyingTemplate(null);
+      await loadStatuses();
+      await loadPriorities();
+    } catch (error) {
+      setTemplateError(error instanceof Error ? error.message : 'Failed to apply template');
+      setApplyingTemplate(null);
+    } finally {
+      setIsApplyingTemplate(false);
+    }
+  };
+
+  const handleToggleSignoff = async (checked: boolean) => {
+    setIsSavingSignoff(true);
+    setSignoffError(null);
+    try {
+      await updateProject(projectId, { require_task_signoff: checked });
+    } catch (error) {
+      setSignoffError(error instanceof Error ? error.message : 'Failed to update sign-off setting');
+    } finally {
+      setIsSavingSignoff(false);
+    }
+  };
+
   // Status CRUD operations
   const handleCreateStatus = async () => {
     if (!statusForm.name.trim()) {
@@ -428,6 +500,22 @@ export default function ProjectTaskSettingsPage() {
         </Card>
       )}
 
+      {templateError && (
+        <Card className="border-destructive">
+          <CardContent className="pt-4">
+            <p className="text-destructive">{templateError}</p>
+            <Button
+              variant="outline"
+              size="sm"
+              className="mt-2"
+              onClick={() => setTemplateError(null)}
+            >
+              Dismiss
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Task Statuses */}
       <Card>
         <CardHeader>
@@ -727,6 +815,147 @@ export default function ProjectTaskSettingsPage() {
           </Table>
         </CardContent>
       </Card>
+
+      {/* Sign-off */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5" />
+            Sign-off
+          </CardTitle>
+          <CardDescription>
+            Tasks can be sent to approvers for sign-off from the task drawer
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          <div className="flex items-center justify-between gap-4">
+            <Label htmlFor="require-task-signoff" className="space-y-1">
+              <span className="block">Require sign-off before done</span>
+              <span className="block text-sm font-normal text-muted-foreground">
+                A task with a sign-off request can only be moved to{' '}
+                {doneStatus ? `"${doneStatus.name}"` : 'the last status'} once the request is
+                approved
+              </span>
+            </Label>
+            <Switch
+              id="require-task-signoff"
+              checked={project.require_task_signoff}
+              onCheckedChange={handleToggleSignoff}
+              disabled={!canEdit || isSavingSignoff}
+            />
+          </div>
+          {signoffError && <p className="text-sm text-destructive">{signoffError}</p>}
+        </CardContent>
+      </Card>
+
+      {/* Task Templates */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <ClipboardList className="h-5 w-5" />
+                Task Templates
+              </CardTitle>
+              <CardDescription>
+                Create a standard set of tasks from one of your organization&apos;s templates
+              </CardDescription>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {templateMessage && (
+            <div className="mb-4 flex items-center justify-between rounded-lg bg-muted p-3 text-sm">
+              <span>{templateMessage}</span>
+              <Link href="/protected/tasks" className="font-medium hover:underline">
+                View tasks
+              </Link>
+            </div>
+          )}
+          {templates.length === 0 ? (
+            <p className="py-6 text-center text-sm text-muted-foreground">
+              Your organization has no task templates yet
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Template</TableHead>
+                  <TableHead>Description</TableHead>
+                  <TableHead>Tasks</TableHead>
+                  {canEdit && <TableHead className="w-[100px]">Actions</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {templates.map((template) => (
+                  <TableRow key={template.id}>
+                    <TableCell className="font-medium">{template.name}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {template.description}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{countTemplateTasks(template)} tasks</Badge>
+                    </TableCell>
+                    {canEdit && (
+                      <TableCell>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => {
+                            setTemplateStartDate(new Date());
+                            setTemplateMessage(null);
+                            setApplyingTemplate(template);
+                          }}
+                        >
+                          Apply
+                        </Button>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog
+        open={!!applyingTemplate}
+        onOpenChange={(open) => !open && !isApplyingTemplate && setApplyingTemplate(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Apply &quot;{applyingTemplate?.name}&quot;</DialogTitle>
+            <DialogDescription>
+              Creates {applyingTemplate ? countTemplateTasks(applyingTemplate) : 0} tasks in{' '}
+              {project.name}. Due dates are counted from the start date.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label>Start Date</Label>
+            <DatePicker
+              date={templateStartDate}
+              setDate={setTemplateStartDate}
+              disabled={isApplyingTemplate}
+            />
+          </div>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setApplyingTemplate(null)}
+              disabled={isApplyingTemplate}
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={handleApplyTemplate}
+              disabled={isApplyingTemplate || !templateStartDate}
+            >
+              {isApplyingTemplate ? 'Creating tasks...' : 'Create Tasks'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -32,12 +32,21 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
-import { createApproval } from '@/lib/api/approvals';
+import {
+  ApprovalDeadlineSettings,
+  ApprovalPolicySettings,
+  createApproval,
+} from '@/lib/api/approvals';
+import { ApprovalPolicyPicker } from '@/components/approvals/ApprovalPolicyPicker';
+import { ApprovalDeadlinePicker } from '@/components/approvals/ApprovalDeadlinePicker';
 import { getSupabaseClient } from '@/lib/supabase/client';
 import { uploadAttachment } from '@/lib/api/attachments';
 import { useRouter } from 'next/navigation';
 import { useProject } from '@/contexts/ProjectContext';
 import SiteDiaryPhotoUploader from '@/components/site-diary-photo-uploader';
+import { FormFieldInput } from '@/components/forms/form-field-input';
+import { getAnswerError } from '@/lib/utils/form-utils';
+import { getHiddenItemIds, getItemStates } from '@/lib/utils/form-logic';
 import { ApproverSelector } from '@/components/ApproverSelector';
 import { SelectedApproversDisplay } from '@/components/SelectedApproversDisplay';
 
@@ -91,6 +100,8 @@ export function CreateSiteDiarySheet({
 
   // State for approvers
   const [selectedApprovers, setSelectedApprovers] = useState<string[]>([]);
+  const [approvalPolicy, setApprovalPolicy] = useState<ApprovalPolicySettings>({ policy: 'all' });
+  const [approvalDeadline, setApprovalDeadline] = useState<ApprovalDeadlineSettings>({});
 
   // State for template and answers
   const [template, setTemplate] = useState<SiteDiaryTemplate | null>(null);
@@ -145,10 +156,10 @@ export function CreateSiteDiarySheet({
             if (item.id) {
               if (item.item_type === 'checklist') {
                 initialAnswers[item.id] = [];
-              } else if (item.item_type === 'radio_box') {
+              } else if (item.item_type === 'radio_box' || item.item_type === 'question') {
                 initialAnswers[item.id] = '';
               } else {
-                initialAnswers[item.id] = '';
+                initialAnswers[item.id] = null;
               }
             }
           });
@@ -270,6 +281,9 @@ export function CreateSiteDiarySheet({
   };
 
   // Validate form before submission
+  // Which questions are shown and required given the answers so far
+  const itemStates = getItemStates(templateItems, answers);
+
   const validateForm = (): boolean => {
     const errors: Record<string, string> = {};
 
@@ -318,23 +332,14 @@ export function CreateSiteDiarySheet({
       errors.conditions = 'Site conditions are required';
     }
 
-    // Validate required template items
+    // Validate required template items and number ranges, skipping hidden questions
     templateItems.forEach((item) => {
-      if (item.is_required && item.id) {
-        const answer = answers[item.id];
-        let isValid = true;
-
-        if (item.item_type === 'checklist') {
-          isValid = Array.isArray(answer) && answer.length > 0;
-        } else if (item.item_type === 'radio_box') {
-          isValid = !!answer;
-        } else {
-          isValid = !!answer && answer.trim() !== '';
-        }
+      const state = itemStates[item.display_order];
+      if (!item.id || !state?.visible) return;
 
-        if (!isValid) {
-          errors[`item_${item.id}`] = 'This field is required';
-        }
+      const error = getAnswerError({ ...item, is_required: state.required }, answers[item.id]);
+      if (error) {
+        errors[`item_${item.id}`] = error;
       }
     });
 
@@ -354,10 +359,14 @@ export function CreateSiteDiarySheet({
       if (!template) throw new Error('Template not found');
 
       // Format answers for submission
-      const formattedAnswers = Object.entries(answers).map(([key, value]) => ({
-        item_id: Number(key),
-        value: value,
-      }));
+      // Answers to questions hidden by conditional logic are not stored
+      const hiddenItemIds = getHiddenItemIds(templateItems, answers);
+      const formattedAnswers = Object.entries(answers)
+        .filter(([key]) => !hiddenItemIds.includes(Number(key)))
+        .map(([key, value]) => ({
+          item_id: Number(key),
+          value: value,
+        }));
 
       // Create the site diary
       const response = await createSiteDiary({
@@ -374,6 +383,8 @@ export function CreateSiteDiarySheet({
       if (Object.keys(fileUploads).length > 0 && response.diary.id) {
         // Upload each file
         for (const [itemId, files] of Object.entries(fileUploads)) {
+          if (hiddenItemIds.includes(Number(itemId))) continue;
+
           for (const file of files) {
             try {
               // Use the standardized uploadAttachment function to create proper attachment records
@@ -407,6 +418,9 @@ export function CreateSiteDiarySheet({
             entity_type: 'site_diary',
             entity_id: response.diary.id,
             approvers_id: selectedApprovers,
+            // The rule only matters with more than one approver
+            ...(selectedApprovers.length > 1 ? approvalPolicy : {}),
+            ...approvalDeadline,
           });
         } catch (err) {
           console.error('Error creating approvals:', err);
@@ -550,8 +564,49 @@ export function CreateSiteDiarySheet({
           </div>
         );
 
+      case 'file':
+        return (
+          <div className="space-y-2">
+            <Label
+              className={cn(
+                item.is_required && "after:ml-0.5 after:text-red-500 after:content-['*']",
+              )}
+            >
+              {item.question_value}
+            </Label>
+            <SiteDiaryPhotoUploader
+              item={item}
+              tempEntityId={tempEntityId}
+              onUploadChange={handlePhotoUploadChange}
+              value={fileUploads[itemId] || null}
+              hasError={!!error}
+              errorMessage={error || ''}
+              isDisabled={submitting}
+              acceptedFileTypes="*"
+            />
+          </div>
+        );
+
       default:
-        return null;
+        return (
+          <div className="space-y-2">
+            <Label
+              className={cn(
+                item.is_required && "after:ml-0.5 after:text-red-500 after:content-['*']",
+              )}
+            >
+              {item.question_value}
+            </Label>
+            <FormFieldInput
+              item={item}
+              value={answers[itemId]}
+              onChange={(value) => handleAnswerChange(itemId, value)}
+              hasError={!!error}
+              disabled={submitting}
+            />
+            {error && <p className="text-sm text-red-500">{error}</p>}
+          </div>
+        );
     }
   };
 
@@ -631,6 +686,22 @@ export function CreateSiteDiarySheet({
                   projectId={projectId}
                   showRemoveButton={true}
                 />
+
+                {selectedApprovers.length > 1 && (
+                  <ApprovalPolicyPicker
+                    value={approvalPolicy}
+                    onChange={setApprovalPolicy}
+                    approverCount={selectedApprovers.length}
+                  />
+                )}
+
+                {selectedApprovers.length > 0 && (
+                  <ApprovalDeadlinePicker
+                    value={approvalDeadline}
+                    onChange={setApprovalDeadline}
+                    approverIds={selectedApprovers}
+                  />
+                )}
               </div>
             </div>
 
@@ -883,11 +954,16 @@ export function CreateSiteDiarySheet({
                 </p>
               ) : (
                 <div className="space-y-6">
-                  {templateItems.map((item) => (
-                    <div key={item.id} className="space-y-2">
-                      {renderFormItem(item)}
-                    </div>
-                  ))}
+                  {templateItems
+                    .filter((item) => itemStates[item.display_order]?.visible)
+                    .map((item) => (
+                      <div key={item.id} className="space-y-2">
+                        {renderFormItem({
+                          ...item,
+                          is_required: itemStates[item.display_order].required,
+                        })}
+                      </div>
+                    ))}
                 </div>
               )}
             </div>
@@ -29,6 +29,7 @@ import {
   createSiteDiaryTemplate,
   updateSiteDiaryTemplate,
 } from '@/lib/api/site-diaries';
+import { isVersionConflict } from '@/lib/utils/conflicts';
 import { X, GripVertical, Plus, Image as ImageIcon } from 'lucide-react';
 import {
   Select,
@@ -39,6 +40,11 @@ import {
 } from '@/components/ui/select';
 import { Checkbox } from '@/components/ui/checkbox';
 import { cn } from '@/lib/utils';
+import { ItemType } from '@/lib/types/form';
+import { FIELD_TYPES, getSettingsForType, hasOptions } from '@/lib/utils/form-utils';
+import { FieldSettingsEditor } from '@/components/forms/field-settings-editor';
+import { LogicEditor } from '@/components/forms/logic-editor';
+import { remapItemLogic } from '@/lib/utils/form-logic';
 import {
   DndContext,
   closestCenter,
@@ -67,14 +73,6 @@ interface CreateTemplateDialogProps {
   onTemplateChange: (template: SiteDiaryTemplate) => void;
 }
 
-// Question type options
-const questionTypes = [
-  { value: 'question', label: 'Short answer' },
-  { value: 'radio_box', label: 'Multiple choice' },
-  { value: 'checklist', label: 'Checkboxes' },
-  { value: 'photo', label: 'Photo' },
-] as const;
-
 // Default options
 const DEFAULT_WEATHER_OPTIONS = [
   'Sunny',
@@ -126,9 +124,17 @@ interface SortableQuestionCardProps {
   question: SiteDiaryTemplateItem;
   onUpdate: (id: string, updates: Partial<SiteDiaryTemplateItem>) => void;
   onDelete: (id: string) => void;
+  // Questions above this one, which its conditional logic can refer to
+  previousQuestions: SiteDiaryTemplateItem[];
 }
 
-function SortableQuestionCard({ id, question, onUpdate, onDelete }: SortableQuestionCardProps) {
+function SortableQuestionCard({
+  id,
+  question,
+  onUpdate,
+  onDelete,
+  previousQuestions,
+}: SortableQuestionCardProps) {
   const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({
     id,
   });
@@ -143,14 +149,12 @@ function SortableQuestionCard({ id, question, onUpdate, onDelete }: SortableQues
       }
     : undefined;
 
-  const [showOptions, setShowOptions] = useState<boolean>(
-    question.item_type === 'radio_box' || question.item_type === 'checklist',
-  );
+  const [showOptions, setShowOptions] = useState<boolean>(hasOptions(question.item_type));
   const [optionInput, setOptionInput] = useState<string>('');
 
   // Effect to show/hide options based on question type
   useEffect(() => {
-    setShowOptions(question.item_type === 'radio_box' || question.item_type === 'checklist');
+    setShowOptions(hasOptions(question.item_type));
   }, [question.item_type]);
 
   // Handle adding an option
@@ -185,13 +189,19 @@ function SortableQuestionCard({ id, question, onUpdate, onDelete }: SortableQues
 
         <Select
           value={question.item_type}
-          onValueChange={(value) => onUpdate(id, { item_type: value as any })}
+          onValueChange={(value) => {
+            const itemType = value as ItemType;
+            onUpdate(id, {
+              item_type: itemType,
+              metadata: getSettingsForType(itemType, question.metadata) || undefined,
+            });
+          }}
         >
           <SelectTrigger className="w-[180px]">
             <SelectValue placeholder="Question type" />
           </SelectTrigger>
           <SelectContent>
-            {questionTypes.map((type) => (
+            {FIELD_TYPES.map((type) => (
               <SelectItem key={type.value} value={type.value}>
                 {type.label}
               </SelectItem>
@@ -286,6 +296,25 @@ function SortableQuestionCard({ id, question, onUpdate, onDelete }: SortableQues
           </div>
         )}
 
+        {!hasOptions(question.item_type) && question.item_type !== 'photo' && (
+          <FieldSettingsEditor
+            type={question.item_type}
+            settings={question.metadata}
+            onChange={(settings) => onUpdate(id, { metadata: settings })}
+          />
+        )}
+
+        <LogicEditor
+          logic={question.logic}
+          sources={previousQuestions.map((previous, order) => ({
+            order,
+            title: previous.question_value,
+            type: previous.item_type,
+            options: previous.options,
+          }))}
+          onChange={(logic) => onUpdate(id, { logic })}
+        />
+
         {question.item_type === 'photo' && (
           <div className="space-y-2">
             <Label>Photo Upload Preview</Label>
@@ -331,6 +360,8 @@ export function CreateTemplateDialog({
   const [templateName, setTemplateName] = useState('');
   const [templateDescription, setTemplateDescription] = useState('');
   const [questions, setQuestions] = useState<SiteDiaryTemplateItem[]>([]);
+  // Version of the template being edited, so a stale save is rejected
+  const [templateVersion, setTemplateVersion] = useState<number | undefined>(undefined);
 
   // Metadata configuration state
   const [metadataConfig, setMetadataConfig] = useState<SiteDiaryMetadataConfig>({
@@ -414,7 +445,10 @@ export function CreateTemplateDialog({
           origQuestion.is_required !== currQuestion.is_required ||
           // Compare arrays
           JSON.stringify(origQuestion.options?.sort()) !==
-            JSON.stringify(currQuestion.options?.sort())
+            JSON.stringify(currQuestion.options?.sort()) ||
+          JSON.stringify(origQuestion.metadata || null) !==
+            JSON.stringify(currQuestion.metadata || null) ||
+          JSON.stringify(origQuestion.logic || null) !== JSON.stringify(currQuestion.logic || null)
         ) {
           hasQuestionsChanged = true;
           break;
@@ -492,6 +526,7 @@ export function CreateTemplateDialog({
           setTemplateName(templateData.template.name);
           setTemplateDescription(templateData.template.description || '');
           setQuestions(templateData.items);
+          setTemplateVersion(templateData.template.version);
 
           // Load metadata configuration if it exists
           if (templateData.template.metadata) {
@@ -635,7 +670,16 @@ export function CreateTemplateDialog({
 
   // Delete a question
   const deleteQuestion = (id: string) => {
-    setQuestions((prevQuestions) => prevQuestions.filter((_, index) => index.toString() !== id));
+    setQuestions((prevQuestions) => {
+      const remaining = prevQuestions
+        .map((_, index) => index)
+        .filter((index) => index.toString() !== id);
+
+      return remapItemLogic(
+        prevQuestions.filter((_, index) => index.toString() !== id),
+        remaining,
+      ).map((item, index) => ({ ...item, display_order: index }));
+    });
   };
 
   // Handle drag start
@@ -653,7 +697,14 @@ export function CreateTemplateDialog({
         const oldIndex = parseInt(active.id.toString());
         const newIndex = parseInt(over.id.toString());
 
-        return arrayMove(items, oldIndex, newIndex).map((item, index) => ({
+        return remapItemLogic(
+          arrayMove(items, oldIndex, newIndex),
+          arrayMove(
+            items.map((_, index) => index),
+            oldIndex,
+            newIndex,
+          ),
+        ).map((item, index) => ({
           ...item,
           display_order: index,
         }));
@@ -732,6 +783,7 @@ export function CreateTemplateDialog({
             ...q,
             display_order: index,
           })),
+          expectedVersion: templateVersion,
         });
 
         toast.success('Template updated successfully');
@@ -760,6 +812,12 @@ export function CreateTemplateDialog({
       // Close the dialog after successful submission
       onOpenChange(false);
     } catch (err: any) {
+      if (isVersionConflict(err)) {
+        toast.error(err.message, {
+          description: 'Reopen the template to see the latest version before editing it again.',
+        });
+        return;
+      }
       console.error('Error saving template:', err);
       toast.error(err.message || 'Failed to save template');
     } finally {
@@ -888,6 +946,7 @@ export function CreateTemplateDialog({
                             question={question}
                             onUpdate={updateQuestion}
                             onDelete={deleteQuestion}
+                            previousQuestions={questions.slice(0, index)}
                           />
                         ))
                       )}
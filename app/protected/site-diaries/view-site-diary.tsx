@@ -1,8 +1,9 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { Sheet, SheetContent, SheetHeader, SheetTitle } from '@/components/ui/sheet';
 import { Button } from '@/components/ui/button';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Dialog, DialogContent } from '@/components/ui/dialog';
 import { ArrowLeft, Calendar, Pencil, ChevronLeft, ChevronRight } from 'lucide-react';
 import { format } from 'date-fns';
@@ -41,6 +42,10 @@ import {
 } from '@/components/ui/alert-dialog';
 import { getAttachments } from '@/lib/api/attachments';
 import { FileViewer } from '@/components/file-viewer';
+import { FormAnswerValue } from '@/components/forms/form-answer-value';
+import { FormFieldInput } from '@/components/forms/form-field-input';
+import { isAnswerEmpty } from '@/lib/utils/form-utils';
+import { getHiddenItemIds, getItemStates } from '@/lib/utils/form-logic';
 import Image from 'next/image';
 import { ZoomIn, FileText, Save, X } from 'lucide-react';
 import { Input } from '@/components/ui/input';
@@ -48,6 +53,42 @@ import { Textarea } from '@/components/ui/textarea';
 import { Checkbox } from '@/components/ui/checkbox';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Label } from '@/components/ui/label';
+import { ConflictResolutionDialog } from '@/components/conflicts/ConflictResolutionDialog';
+import { ActivityTimeline } from '@/components/activity/ActivityTimeline';
+import {
+  ConflictChoice,
+  getConflictFields,
+  getKeptValues,
+  isVersionConflict,
+} from '@/lib/utils/conflicts';
+
+type DiaryConflict = {
+  // The diary as it was when editing started
+  base: SiteDiaryResponse;
+  answers: Record<number, unknown>;
+  current: SiteDiaryResponse;
+};
+
+const getAnswerValues = (diary: SiteDiaryResponse) =>
+  diary.answers.reduce(
+    (acc, answer) => ({ ...acc, [answer.item_id]: answer.answer_value }),
+    {} as Record<number, unknown>,
+  );
+
+const getDiaryConflictFields = ({ base, answers, current }: DiaryConflict) => {
+  const baseAnswers = getAnswerValues(base);
+  const currentAnswers = getAnswerValues(current);
+
+  return getConflictFields(
+    (current.template_items || []).map((item) => ({
+      key: String(item.id),
+      label: item.question_value,
+      base: baseAnswers[item.id!],
+      mine: answers[item.id!],
+      theirs: currentAnswers[item.id!],
+    })),
+  );
+};
 
 interface ViewSiteDiaryProps {
   open: boolean;
@@ -74,6 +115,10 @@ export function ViewSiteDiary({ open, onOpenChange, diaryId, onDiaryUpdated }: V
   const [editAnswers, setEditAnswers] = useState<Record<number, any>>({});
   const [editMetadata, setEditMetadata] = useState<Record<string, any>>({});
   const [isSaving, setIsSaving] = useState(false);
+  const [diaryConflict, setDiaryConflict] = useState<DiaryConflict | null>(null);
+
+  // Details or activity; edit mode always shows the details
+  const [activeTab, setActiveTab] = useState('details');
 
   // State for submit for approval
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -189,6 +234,9 @@ export function ViewSiteDiary({ open, onOpenChange, diaryId, onDiaryUpdated }: V
     onOpenChange(false);
   };
 
+  // Which questions are shown while editing, given the edited answers
+  const editItemStates = getItemStates(diaryData?.template_items || [], editAnswers);
+
   // Handle edit toggle
   const handleEditToggle = () => {
     if (!diaryData) return;
@@ -207,29 +255,51 @@ export function ViewSiteDiary({ open, onOpenChange, diaryId, onDiaryUpdated }: V
     setHasUnsavedChanges(false);
   };
 
-  // Handle save changes
-  const handleSaveChanges = async () => {
-    if (!diaryId || !diaryData) return;
+  // Save answers against the version they were edited from
+  const saveAnswers = async (
+    base: SiteDiaryResponse,
+    answers: Record<number, unknown>,
+    metadata?: Record<string, unknown>,
+  ) => {
+    if (!diaryId) return;
 
     setIsSaving(true);
     try {
-      // Prepare answers array
-      const answers = Object.entries(editAnswers).map(([itemId, value]) => ({
-        item_id: parseInt(itemId),
-        value: value,
-      }));
+      // Answers to questions hidden by conditional logic are removed rather than saved
+      const hiddenItemIds = getHiddenItemIds(base.template_items || [], answers);
 
       const request: UpdateSiteDiaryAnswersRequest = {
-        answers,
-        metadata: editMetadata,
+        answers: Object.entries(answers)
+          .filter(([itemId]) => !hiddenItemIds.includes(parseInt(itemId)))
+          .map(([itemId, value]) => ({
+            item_id: parseInt(itemId),
+            value: value,
+          })),
+        clearItemIds: hiddenItemIds,
+        metadata,
+        expectedVersion: base.diary.version,
       };
 
       const updatedDiary = await updateSiteDiaryAnswers(diaryId, request);
       setDiaryData(updatedDiary);
+      setDiaryConflict(null);
       resetEditState();
       toast.success('Site diary updated successfully');
       onDiaryUpdated();
     } catch (err: any) {
+      if (isVersionConflict<SiteDiaryResponse | null>(err) && err.current) {
+        const conflict = { base, answers, current: err.current };
+        if (getDiaryConflictFields(conflict).length > 0) {
+          setDiaryConflict(conflict);
+        } else {
+          // Both sides saved the same answers, so there is nothing to choose
+          setDiaryData(err.current);
+          setDiaryConflict(null);
+          resetEditState();
+          onDiaryUpdated();
+        }
+        return;
+      }
       console.error('Error saving changes:', err);
       toast.error(err.message || 'Failed to save changes');
     } finally {
@@ -237,6 +307,23 @@ export function ViewSiteDiary({ open, onOpenChange, diaryId, onDiaryUpdated }: V
     }
   };
 
+  // Handle save changes
+  const handleSaveChanges = async () => {
+    if (!diaryData) return;
+    await saveAnswers(diaryData, editAnswers, editMetadata);
+  };
+
+  const conflictFields = useMemo(
+    () => (diaryConflict ? getDiaryConflictFields(diaryConflict) : []),
+    [diaryConflict],
+  );
+
+  // Re-save only the answers the user kept, on top of the latest saved diary
+  const handleResolveConflict = async (choices: Record<string, ConflictChoice>) => {
+    if (!diaryConflict) return;
+    await saveAnswers(diaryConflict.current, getKeptValues(conflictFields, choices));
+  };
+
   // Handle cancel edit
   const handleCancelEdit = () => {
     if (hasUnsavedChanges) {
@@ -343,7 +430,8 @@ export function ViewSiteDiary({ open, onOpenChange, diaryId, onDiaryUpdated }: V
 
   // Render answer value based on item type
   const renderAnswerValue = (item: SiteDiaryTemplateItem, answerValue: any) => {
-    if (!answerValue) return <span className="text-muted-foreground">No answer provided</span>;
+    if (isAnswerEmpty(answerValue))
+      return <span className="text-muted-foreground">No answer provided</span>;
 
     switch (item.item_type) {
       case 'checklist':
@@ -358,8 +446,18 @@ export function ViewSiteDiary({ open, onOpenChange, diaryId, onDiaryUpdated }: V
         return <span>{answerValue}</span>;
 
       case 'photo':
+      case 'file':
         return <FileAnswerViewer diaryId={diaryId} itemId={item.id} />;
 
+      case 'number':
+      case 'date':
+      case 'time':
+      case 'signature':
+      case 'dropdown':
+      case 'yes_no_na':
+      case 'rating':
+        return <FormAnswerValue item={item} value={answerValue} />;
+
       default:
         return <span>{answerValue}</span>;
     }
@@ -434,6 +532,24 @@ export function ViewSiteDiary({ open, onOpenChange, diaryId, onDiaryUpdated }: V
           </div>
         );
 
+      case 'file':
+        return (
+          <div className="text-muted-foreground">
+            File editing not supported in this view. Please use the main creation form.
+          </div>
+        );
+
+      case 'number':
+      case 'date':
+      case 'time':
+      case 'signature':
+      case 'dropdown':
+      case 'yes_no_na':
+      case 'rating':
+        return (
+          <FormFieldInput item={item} value={editAnswers[item.id!]} onChange={handleValueChange} />
+        );
+
       default:
         return (
           <Textarea
@@ -551,134 +667,162 @@ export function ViewSiteDiary({ open, onOpenChange, diaryId, onDiaryUpdated }: V
                 </div>
               )}
 
-              {/* Site Diary Content */}
-              {!isEditMode ? (
-                <SiteDiaryResponses diaryData={diaryData} />
-              ) : (
-                /* Edit Mode - Custom rendering for responses section only */
-                <div className="mb-6">
-                  <div className="mb-4 flex items-center justify-between">
-                    <h3 className="text-lg font-semibold">Responses</h3>
-                    <div className="flex gap-2">
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={handleCancelEdit}
-                        disabled={isSaving}
-                        className="flex items-center gap-2"
-                      >
-                        <X className="h-4 w-4" />
-                        Cancel
-                      </Button>
-                      <Button
-                        size="sm"
-                        onClick={handleSaveChanges}
-                        disabled={isSaving}
-                        className="flex items-center gap-2"
-                      >
-                        <Save className="h-4 w-4" />
-                        {isSaving ? 'Saving...' : 'Save Changes'}
-                      </Button>
-                    </div>
-                  </div>
-                  {diaryData.template_items && diaryData.template_items.length > 0 && (
-                    <div className="space-y-4">
-                      {diaryData.template_items.map((item) => (
-                        <div key={item.id} className="rounded-md border p-4">
-                          <p className="mb-2 font-medium">{item.question_value}</p>
-                          <div className="ml-2">{renderEditableField(item)}</div>
+              <Tabs value={isEditMode ? 'details' : activeTab} onValueChange={setActiveTab}>
+                {!isEditMode && (
+                  <TabsList className="mb-4">
+                    <TabsTrigger value="details">Details</TabsTrigger>
+                    <TabsTrigger value="activity">Activity</TabsTrigger>
+                  </TabsList>
+                )}
+
+                <TabsContent value="details">
+                  {/* Site Diary Content */}
+                  {!isEditMode ? (
+                    <SiteDiaryResponses diaryData={diaryData} />
+                  ) : (
+                    /* Edit Mode - Custom rendering for responses section only */
+                    <div className="mb-6">
+                      <div className="mb-4 flex items-center justify-between">
+                        <h3 className="text-lg font-semibold">Responses</h3>
+                        <div className="flex gap-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={handleCancelEdit}
+                            disabled={isSaving}
+                            className="flex items-center gap-2"
+                          >
+                            <X className="h-4 w-4" />
+                            Cancel
+                          </Button>
+                          <Button
+                            size="sm"
+                            onClick={handleSaveChanges}
+                            disabled={isSaving}
+                            className="flex items-center gap-2"
+                          >
+                            <Save className="h-4 w-4" />
+                            {isSaving ? 'Saving...' : 'Save Changes'}
+                          </Button>
+                        </div>
+                      </div>
+                      {diaryData.template_items && diaryData.template_items.length > 0 && (
+                        <div className="space-y-4">
+                          {diaryData.template_items
+                            .filter((item) => editItemStates[item.display_order]?.visible)
+                            .map((item) => (
+                              <div key={item.id} className="rounded-md border p-4">
+                                <p className="mb-2 font-medium">{item.question_value}</p>
+                                <div className="ml-2">{renderEditableField(item)}</div>
+                              </div>
+                            ))}
                         </div>
-                      ))}
+                      )}
                     </div>
                   )}
-                </div>
-              )}
 
-              {/* Approval Details */}
-              {approvalDetails && (
-                <div className="mb-6">
-                  <h3 className="mb-4 text-lg font-semibold">Approval Details</h3>
-
-                  {/* Approvers Section */}
-                  <div className="mb-6">
-                    <div className="mb-3 flex items-center gap-2">
-                      <Users className="h-4 w-4" />
-                      <h4 className="font-medium">
-                        Approvers ({approvalDetails.approvers.length})
-                      </h4>
-                    </div>
+                  {/* Approval Details */}
+                  {approvalDetails && (
+                    <div className="mb-6">
+                      <h3 className="mb-4 text-lg font-semibold">Approval Details</h3>
+
+                      {/* Approvers Section */}
+                      <div className="mb-6">
+                        <div className="mb-3 flex items-center gap-2">
+                          <Users className="h-4 w-4" />
+                          <h4 className="font-medium">
+                            Approvers ({approvalDetails.approvers.length})
+                          </h4>
+                        </div>
 
-                    <div className="space-y-2">
-                      {approvalDetails.approvers.map((approver: any) => {
-                        const response = approvalDetails.approver_responses.find(
-                          (r: any) => r.approver_id === approver.id,
-                        );
+                        <div className="space-y-2">
+                          {approvalDetails.approvers.map((approver: any) => {
+                            const response = approvalDetails.approver_responses.find(
+                              (r: any) => r.approver_id === approver.id,
+                            );
 
-                        return (
-                          <div
-                            key={approver.id}
-                            className="flex items-center justify-between rounded-lg border p-3"
-                          >
-                            <div className="flex items-center gap-3">
-                              <Avatar className="h-8 w-8">
-                                <AvatarFallback>
-                                  <User className="h-4 w-4" />
-                                </AvatarFallback>
-                              </Avatar>
-                              <div>
-                                <p className="text-sm font-medium">
-                                  {approver.raw_user_meta_data?.email || 'Unknown'}
-                                </p>
-                                {response?.comment && (
-                                  <p className="mt-1 text-xs text-muted-foreground">
-                                    "{response.comment}"
-                                  </p>
+                            return (
+                              <div
+                                key={approver.id}
+                                className="flex items-center justify-between rounded-lg border p-3"
+                              >
+                                <div className="flex items-center gap-3">
+                                  <Avatar className="h-8 w-8">
+                                    <AvatarFallback>
+                                      <User className="h-4 w-4" />
+                                    </AvatarFallback>
+                                  </Avatar>
+                                  <div>
+                                    <p className="text-sm font-medium">
+                                      {approver.raw_user_meta_data?.email || 'Unknown'}
+                                    </p>
+                                    {response?.comment && (
+                                      <p className="mt-1 text-xs text-muted-foreground">
+                                        "{response.comment}"
+                                      </p>
+                                    )}
+                                  </div>
+                                </div>
+
+                                {response ? (
+                                  <Badge
+                                    variant="outline"
+                                    className={`${getStatusColor(response.status)} border-current text-white`}
+                                  >
+                                    {formatStatus(response.status)}
+                                  </Badge>
+                                ) : (
+                                  <Badge variant="outline" className="text-muted-foreground">
+                                    Pending
+                                  </Badge>
                                 )}
                               </div>
-                            </div>
-
-                            {response ? (
-                              <Badge
-                                variant="outline"
-                                className={`${getStatusColor(response.status)} border-current text-white`}
-                              >
-                                {formatStatus(response.status)}
-                              </Badge>
-                            ) : (
-                              <Badge variant="outline" className="text-muted-foreground">
-                                Pending
-                              </Badge>
-                            )}
-                          </div>
-                        );
-                      })}
+                            );
+                          })}
+                        </div>
+                      </div>
+
+                      {/* Comments Section */}
+                      <div className="mb-6">
+                        <ApprovalComments
+                          approvalId={approvalDetails.id}
+                          comments={approvalDetails.comments}
+                          onCommentAdded={fetchApprovalDetails}
+                          disabled={approvalDetails.status === 'draft'}
+                        />
+                      </div>
                     </div>
-                  </div>
-
-                  {/* Comments Section */}
-                  <div className="mb-6">
-                    <ApprovalComments
-                      approvalId={approvalDetails.id}
-                      comments={approvalDetails.comments}
-                      onCommentAdded={fetchApprovalDetails}
-                      disabled={approvalDetails.status === 'draft'}
-                    />
-                  </div>
-                </div>
-              )}
+                  )}
 
-              {/* Loading state for approval details */}
-              {loadingApprovalDetails && (
-                <div className="mb-6">
-                  <h3 className="mb-4 text-lg font-semibold">Approval Details</h3>
-                  <div className="flex items-center justify-center py-8">
-                    <div className="text-center">
-                      <div className="mx-auto mb-2 h-8 w-8 animate-spin rounded-full border-b-2 border-primary"></div>
-                      <p className="text-sm text-muted-foreground">Loading approval details...</p>
+                  {/* Loading state for approval details */}
+                  {loadingApprovalDetails && (
+                    <div className="mb-6">
+                      <h3 className="mb-4 text-lg font-semibold">Approval Details</h3>
+                      <div className="flex items-center justify-center py-8">
+                        <div className="text-center">
+                          <div className="mx-auto mb-2 h-8 w-8 animate-spin rounded-full border-b-2 border-primary"></div>
+                          <p className="text-sm text-muted-foreground">
+                            Loading approval details...
+                          </p>
+                        </div>
+                      </div>
                     </div>
-                  </div>
-                </div>
-              )}
+                  )}
+                </TabsContent>
+
+                <TabsContent value="activity">
+                  {diaryId && (
+                    <ActivityTimeline
+                      entityType="site_diary"
+                      entityId={diaryId}
+                      labels={(diaryData.template_items || []).reduce(
+                        (acc, item) => ({ ...acc, [`answer:${item.id}`]: item.question_value }),
+                        { metadata: 'Diary details' } as Record<string, string>,
+                      )}
+                    />
+                  )}
+                </TabsContent>
+              </Tabs>
 
               {/* Footer buttons for edit mode */}
               {isEditMode && (
@@ -705,11 +849,13 @@ export function ViewSiteDiary({ open, onOpenChange, diaryId, onDiaryUpdated }: V
                 </div>
               )}
 
-              {/* Submit for Approval button - only show for author when in draft status */}
+              {/* Submit for Approval button - only show for author when in draft status or sent back */}
               {!isEditMode &&
                 user &&
                 diaryData.diary.submitted_by_user_id === user.id &&
-                (approvalStatus === 'draft' || approvalStatus === null) && (
+                (approvalStatus === 'draft' ||
+                  approvalStatus === 'revision_requested' ||
+                  approvalStatus === null) && (
                   <div className="mt-4 border-t pt-4">
                     <div className="flex justify-end">
                       <Button
@@ -717,7 +863,11 @@ export function ViewSiteDiary({ open, onOpenChange, diaryId, onDiaryUpdated }: V
                         disabled={isSubmitting}
                         className="bg-blue-600 hover:bg-blue-700"
                       >
-                        {isSubmitting ? 'Submitting...' : 'Submit'}
+                        {isSubmitting
+                          ? 'Submitting...'
+                          : approvalStatus === 'revision_requested'
+                            ? 'Resubmit'
+                            : 'Submit'}
                       </Button>
                     </div>
                   </div>
@@ -749,6 +899,14 @@ export function ViewSiteDiary({ open, onOpenChange, diaryId, onDiaryUpdated }: V
         </SheetContent>
       </Sheet>
 
+      <ConflictResolutionDialog
+        open={!!diaryConflict}
+        fields={conflictFields}
+        saving={isSaving}
+        onResolve={handleResolveConflict}
+        onCancel={() => setDiaryConflict(null)}
+      />
+
       {/* Discard Changes Confirmation Dialog */}
       <AlertDialog open={showDiscardDialog} onOpenChange={setShowDiscardDialog}>
         <AlertDialogContent>
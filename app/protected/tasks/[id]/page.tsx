@@ -1,29 +1,37 @@
 'use client';
 
-import { useEffect, useState, useRef } from 'react';
+import { useCallback, useEffect, useState, useRef } from 'react';
 import { useParams } from 'next/navigation';
+import Link from 'next/link';
 import { format, formatDistanceToNow } from 'date-fns';
-import { Pencil, Check, Send, Plus, Trash2, X } from 'lucide-react';
+import { Pencil, Check, Send, Plus, Trash2, X, ChevronRight } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { Avatar, AvatarFallback, AvatarImage } from '@/app/components/ui/avatar';
 import { DatePicker } from '@/components/ui/date-picker';
 import { getSupabaseClient } from '@/lib/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
 import { AssigneeSelector, type AssigneeSelectorProps } from '@/components/AssigneeSelector';
-import { ProjectMember } from '@/hooks/useProjectMembers';
+import { ProjectMember, useProjectMembers } from '@/hooks/useProjectMembers';
+import { usePresence } from '@/hooks/usePresence';
+import { PresenceAvatars } from '@/components/presence/PresenceAvatars';
+import { MentionTextarea } from '@/components/mentions/MentionTextarea';
 import {
   useTask,
   useTaskComments,
   useTaskMetadata,
   useTaskStatuses,
   useTaskPriorities,
+  useTaskHierarchy,
+  useTaskUpdate,
 } from '../hooks';
 import StatusPill from '@/app/components/tasks/StatusPill';
 import PriorityPill from '@/app/components/tasks/PriorityPill';
-import { TaskWithRelations } from '../models';
+import { TaskFieldChanges, TaskWithRelations } from '../models';
 import { Database } from '@/lib/supabase/types.generated';
 import { TaskAttachmentsViewer } from '@/components/task-attachments-viewer';
+import { SubtaskTree } from '@/app/components/tasks/SubtaskTree';
+import { TaskCommentThread } from '@/app/components/tasks/TaskCommentThread';
+import { TaskConflict, TaskConflictDialog } from '@/app/components/tasks/TaskConflictDialog';
 
 type Status = Database['public']['Tables']['statuses']['Row'];
 type Priority = Database['public']['Tables']['priorities']['Row'];
@@ -34,6 +42,9 @@ export default function TaskPage() {
   const taskId = params.id as string;
   const numericTaskId = Number(taskId);
   const { user } = useAuth();
+  const viewers = usePresence(
+    Number.isFinite(numericTaskId) ? `presence:task:${numericTaskId}` : null,
+  );
 
   // Task data - use numeric task ID for all hooks
   const {
@@ -44,6 +55,14 @@ export default function TaskPage() {
   } = useTask(numericTaskId);
   const { statuses } = useTaskStatuses();
   const { priorities } = useTaskPriorities();
+  const {
+    ancestors,
+    subtasks,
+    loading: loadingSubtasks,
+    error: subtaskError,
+    adding: addingSubtask,
+    addSubtask,
+  } = useTaskHierarchy(numericTaskId);
 
   // State variables
   const [editingTitle, setEditingTitle] = useState(false);
@@ -89,9 +108,14 @@ export default function TaskPage() {
     error: commentError,
     adding: addingComment,
     addComment,
+    editComment,
+    deleteComment,
+    toggleReaction,
     refresh: refreshComments,
   } = useTaskComments(numericTaskId);
 
+  const { members: projectMembers } = useProjectMembers();
+
   // Local state for comment input
   const [commentValue, setCommentValue] = useState('');
   const commentInputRef = useRef<HTMLTextAreaElement>(null);
@@ -110,6 +134,55 @@ export default function TaskPage() {
 
   const [assigneeError, setAssigneeError] = useState<string | null>(null);
 
+  // Field saves are rejected if someone else saved the task first; the dialog merges them
+  const { updateTask } = useTaskUpdate();
+  const [taskConflict, setTaskConflict] = useState<TaskConflict | null>(null);
+
+  // Our own saves bump the version before the refreshed task arrives, so the next save checks
+  // against whichever is newer
+  const [savedVersion, setSavedVersion] = useState(0);
+  const taskVersion = Math.max(savedVersion, task?.version ?? 0);
+
+  const saveTaskFields = async (changes: TaskFieldChanges) => {
+    if (!task) return { success: false, error: 'Task not loaded' };
+
+    const result = await updateTask(task.id, taskVersion, changes);
+    if (result.version !== undefined) {
+      setSavedVersion(result.version);
+    }
+    if (result.conflict) {
+      setTaskConflict({ base: task, changes, current: result.conflict });
+    }
+    return result;
+  };
+
+  // Assignees live in their own table, so the task is saved first to check nobody else has
+  // changed it since it was loaded
+  const claimTaskVersion = async () => {
+    const result = await updateTask(numericTaskId, taskVersion, {});
+    if (result.version !== undefined) {
+      setSavedVersion(result.version);
+    }
+    if (result.conflict) {
+      setAssigneeError('This task was changed by someone else. Check it and try again.');
+      refreshTask();
+    } else if (!result.success) {
+      setAssigneeError('Failed to update assignees');
+    }
+    return result.success;
+  };
+
+  const handleConflictResolved = useCallback(
+    (version: number) => {
+      setSavedVersion(version);
+      refreshTask();
+      setEditingTitle(false);
+      setEditingDescription(false);
+      setEditingDueDate(false);
+    },
+    [refreshTask],
+  );
+
   // Update state when task data is loaded
   useEffect(() => {
     if (task) {
@@ -178,18 +251,14 @@ export default function TaskPage() {
     setTitleError(null);
 
     try {
-      const supabase = getSupabaseClient();
-
-      const { error } = await supabase
-        .from('tasks')
-        .update({
-          title: titleValue,
-          updated_at: new Date().toISOString(),
-        })
-        .eq('id', numericTaskId);
+      const result = await saveTaskFields({
+        title: titleValue,
+      });
 
-      if (error) {
-        console.error('Error updating task title:', error);
+      if (result.conflict) {
+        setSavingTitle(false);
+      } else if (!result.success) {
+        console.error('Error updating task title:', result.error);
         setTitleError('Failed to update title');
         setSavingTitle(false);
       } else {
@@ -215,18 +284,14 @@ export default function TaskPage() {
     setDescriptionError(null);
 
     try {
-      const supabase = getSupabaseClient();
-
-      const { error } = await supabase
-        .from('tasks')
-        .update({
-          description: descriptionValue,
-          updated_at: new Date().toISOString(),
-        })
-        .eq('id', numericTaskId);
+      const result = await saveTaskFields({
+        description: descriptionValue,
+      });
 
-      if (error) {
-        console.error('Error updating task description:', error);
+      if (result.conflict) {
+        setSavingDescription(false);
+      } else if (!result.success) {
+        console.error('Error updating task description:', result.error);
         setDescriptionError('Failed to update description');
         setSavingDescription(false);
       } else {
@@ -279,18 +344,14 @@ export default function TaskPage() {
     setDueDateError(null);
 
     try {
-      const supabase = getSupabaseClient();
-
-      const { error } = await supabase
-        .from('tasks')
-        .update({
-          due_date: dueDateValue?.toISOString() || null,
-          updated_at: new Date().toISOString(),
-        })
-        .eq('id', numericTaskId);
+      const result = await saveTaskFields({
+        due_date: dueDateValue?.toISOString() || null,
+      });
 
-      if (error) {
-        console.error('Error updating due date:', error);
+      if (result.conflict) {
+        setSavingDueDate(false);
+      } else if (!result.success) {
+        console.error('Error updating due date:', result.error);
         setDueDateError('Failed to update due date');
         setSavingDueDate(false);
       } else {
@@ -314,6 +375,8 @@ export default function TaskPage() {
         return;
       }
 
+      if (!(await claimTaskVersion())) return;
+
       const { error } = await supabase.from('entity_assignees').insert({
         entity_type: 'task',
         entity_id: numericTaskId,
@@ -336,6 +399,8 @@ export default function TaskPage() {
 
   const handleAssigneeRemove = async (memberId: string) => {
     try {
+      if (!(await claimTaskVersion())) return;
+
       const supabase = getSupabaseClient();
 
       const { error } = await supabase
@@ -358,6 +423,18 @@ export default function TaskPage() {
     }
   };
 
+  // Subtasks start in the project's default status and priority
+  const handleAddSubtask = async (title: string) => {
+    const statusId = statuses.find((s) => s.is_default)?.id || statuses[0]?.id;
+    const priorityId = priorities.find((p) => p.is_default)?.id || priorities[0]?.id;
+
+    if (!statusId || !priorityId) {
+      return { success: false, error: 'No statuses or priorities configured' };
+    }
+
+    return addSubtask({ title, parentTaskId: numericTaskId, statusId, priorityId });
+  };
+
   // If loading, show skeleton
   if (loadingTask) {
     return (
@@ -423,6 +500,32 @@ export default function TaskPage() {
 
   return (
     <div className="container mx-auto max-w-4xl p-4">
+      {/* Breadcrumbs */}
+      <nav className="mb-3 flex flex-wrap items-center gap-1 text-sm text-muted-foreground">
+        <Link href="/protected/tasks" className="hover:text-foreground">
+          Tasks
+        </Link>
+        {ancestors.map((ancestor) => (
+          <span key={ancestor.id} className="flex items-center gap-1">
+            <ChevronRight size={14} />
+            <Link
+              href={`/protected/tasks/${ancestor.id}`}
+              className="max-w-[200px] truncate hover:text-foreground"
+            >
+              {ancestor.title}
+            </Link>
+          </span>
+        ))}
+        <ChevronRight size={14} />
+        <span className="max-w-[200px] truncate text-foreground">{task.title}</span>
+      </nav>
+
+      <TaskConflictDialog
+        conflict={taskConflict}
+        onConflictChange={setTaskConflict}
+        onResolved={handleConflictResolved}
+      />
+
       <div className="flex h-full flex-col rounded-lg border border-border bg-background shadow-sm">
         {/* Header */}
         <div className="border-b border-border p-6 pb-4">
@@ -430,17 +533,22 @@ export default function TaskPage() {
             <StatusPill
               status={status}
               taskId={task.id}
+              version={taskVersion}
               allStatuses={statuses}
               refreshTasks={refreshTask}
+              onVersionChange={setSavedVersion}
               className="px-3 py-1"
             />
             <PriorityPill
               priority={priority}
               taskId={task.id}
+              version={taskVersion}
               allPriorities={priorities}
               refreshTasks={refreshTask}
+              onVersionChange={setSavedVersion}
               className="px-3 py-1"
             />
+            <PresenceAvatars viewers={viewers} className="ml-auto" />
           </div>
           {editingTitle ? (
             <div className="flex flex-col">
@@ -643,6 +751,16 @@ export default function TaskPage() {
             </div>
           </div>
 
+          {/* Subtasks */}
+          <SubtaskTree
+            subtasks={subtasks}
+            allStatuses={statuses}
+            loading={loadingSubtasks}
+            adding={addingSubtask}
+            error={subtaskError}
+            onAddSubtask={handleAddSubtask}
+          />
+
           {/* Task Attachments */}
           <div>
             <h3 className="mb-2 text-sm font-medium text-muted-foreground">Attachments</h3>
@@ -664,44 +782,28 @@ export default function TaskPage() {
                   No comments yet
                 </div>
               ) : (
-                <div className="space-y-4">
-                  {comments.map((comment) => (
-                    <div
-                      key={comment.id}
-                      className="rounded-md border border-muted-foreground/20 bg-muted/50 p-3"
-                    >
-                      <div className="mb-2 flex items-center justify-between">
-                        <div className="flex items-center gap-2">
-                          <Avatar className="h-6 w-6">
-                            <AvatarImage src={comment.user_avatar} />
-                            <AvatarFallback className="text-xs">
-                              {comment.user_name
-                                ?.split(' ')
-                                .map((n) => n[0])
-                                .join('') || '?'}
-                            </AvatarFallback>
-                          </Avatar>
-                          <span className="text-sm font-medium">{comment.user_name}</span>
-                        </div>
-                        <span className="text-xs text-muted-foreground">
-                          {formatDistanceToNow(new Date(comment.created_at), { addSuffix: true })}
-                        </span>
-                      </div>
-                      <div className="whitespace-pre-line text-sm">{comment.content}</div>
-                    </div>
-                  ))}
-                </div>
+                <TaskCommentThread
+                  comments={comments}
+                  members={projectMembers}
+                  currentUserId={user?.id}
+                  onReply={addComment}
+                  onEdit={editComment}
+                  onDelete={deleteComment}
+                  onToggleReaction={toggleReaction}
+                />
               )}
 
               {/* Add comment */}
               <div className="mt-4">
                 <div className="flex items-start gap-2">
-                  <textarea
+                  <MentionTextarea
+                    ref={commentInputRef}
                     value={commentValue}
-                    onChange={(e) => setCommentValue(e.target.value)}
+                    onChange={setCommentValue}
+                    members={projectMembers}
                     onKeyDown={handleCommentKeyDown}
                     className="min-h-[60px] w-full resize-y rounded-md border border-muted-foreground/20 bg-muted p-3 text-foreground focus:border-transparent focus:outline-none focus:ring-2 focus:ring-blue-500"
-                    placeholder="Add a comment..."
+                    placeholder="Add a comment... Type @ to mention someone"
                     disabled={addingComment}
                   />
                   <Button
@@ -1,15 +1,37 @@
 import { getSupabaseClient } from '@/lib/supabase/client';
 import { Database } from '@/lib/supabase/types.generated';
-import { useState, useEffect, useCallback } from 'react';
-import { TaskWithRelations } from './models';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { addDays, format } from 'date-fns';
+import {
+  BulkTaskChanges,
+  TaskWithRelations,
+  SubtaskSummary,
+  TaskApprovalSummary,
+  TaskTreeNode,
+  DependencyTask,
+  TaskDependencyWithTask,
+  TaskFilterPreset,
+  TaskFilters,
+  TaskUpdateChanges,
+  TaskTimeEntry,
+  TimeEntryWithTask,
+} from './models';
 import { UserData } from './models';
 import { useAuth } from '@/hooks/useAuth';
+import { wouldCreateDependencyCycle } from '@/lib/utils/task-utils';
+import { EMPTY_TASK_FILTERS } from '@/lib/utils/task-filters';
+import { createApproval, submitApprovalForEntity } from '@/lib/api/approvals';
+
+export type TaskCommentReaction = Database['public']['Tables']['task_comment_reactions']['Row'];
+
+export type TaskCommentRevision = Database['public']['Tables']['task_comment_revisions']['Row'];
 
 export type TaskComment = Omit<
   Database['public']['Tables']['task_comments']['Row'],
   'user_avatar'
 > & {
   user_avatar?: string;
+  reactions: TaskCommentReaction[];
 };
 
 export type TaskMetadata = Database['public']['Tables']['task_metadata']['Row'];
@@ -20,219 +42,379 @@ export const useTasks = () => {
   const [error, setError] = useState<string | null>(null);
   const { user } = useAuth();
 
-  const getTasks = useCallback(async () => {
-    setLoading(true);
-    setError(null);
-    const supabase = getSupabaseClient();
-    const projectId = user?.activeProjectId;
+  // Silent refetches (for realtime changes) keep the board on screen instead of the skeleton
+  const getTasks = useCallback(
+    async ({ silent = false }: { silent?: boolean } = {}) => {
+      if (!silent) {
+        setLoading(true);
+      }
+      setError(null);
+      const supabase = getSupabaseClient();
+      const projectId = user?.activeProjectId;
 
-    try {
-      // First fetch tasks with direct relationships
-      let query = supabase.from('tasks').select(`
+      try {
+        // First fetch tasks with direct relationships
+        let query = supabase.from('tasks').select(`
           *,
           priorities (*),
-          statuses (*)
+          statuses (*),
+          task_recurrences (*)
         `);
 
-      // Apply filters if provided
-      if (projectId) {
-        query = query.eq('project_id', projectId);
-      }
+        // Apply filters if provided
+        if (projectId) {
+          query = query.eq('project_id', projectId);
+        }
 
-      // Order by created date
-      query = query.order('created_at', { ascending: false });
+        // Order by created date
+        query = query.order('created_at', { ascending: false });
 
-      const { data: rawTasks, error: tasksError } = await query;
+        const { data: rawTasks, error: tasksError } = await query;
 
-      if (tasksError) {
-        console.error('Error fetching tasks:', tasksError);
-        setError(tasksError.message);
-        setTasks([]);
-        setLoading(false);
-        return;
-      }
+        if (tasksError) {
+          console.error('Error fetching tasks:', tasksError);
+          setError(tasksError.message);
+          setTasks([]);
+          setLoading(false);
+          return;
+        }
 
-      if (!rawTasks?.length) {
-        setTasks([]);
-        setLoading(false);
-        return;
-      }
+        if (!rawTasks?.length) {
+          setTasks([]);
+          setLoading(false);
+          return;
+        }
 
-      // Get task IDs for fetching related data
-      const taskIds = rawTasks.map((task) => task.id);
+        // Get task IDs for fetching related data
+        const taskIds = rawTasks.map((task) => task.id);
 
-      // Fetch assignees separately
-      const { data: assignees, error: assigneesError } = await supabase
-        .from('entity_assignees')
-        .select('entity_id, user_id')
-        .eq('entity_type', 'task')
-        .in('entity_id', taskIds);
+        // Fetch assignees separately
+        const { data: assignees, error: assigneesError } = await supabase
+          .from('entity_assignees')
+          .select('entity_id, user_id')
+          .eq('entity_type', 'task')
+          .in('entity_id', taskIds);
 
-      if (assigneesError) {
-        console.error('Error fetching assignees:', assigneesError);
-      }
+        if (assigneesError) {
+          console.error('Error fetching assignees:', assigneesError);
+        }
 
-      // Fetch labels separately
-      const { data: entityLabels, error: labelsError } = await supabase
-        .from('entity_labels')
-        .select('entity_id, label_id, labels (*)')
-        .eq('entity_type', 'task')
-        .in('entity_id', taskIds);
+        // Fetch labels separately
+        const { data: entityLabels, error: labelsError } = await supabase
+          .from('entity_labels')
+          .select('entity_id, label_id, labels (*)')
+          .eq('entity_type', 'task')
+          .in('entity_id', taskIds);
 
-      if (labelsError) {
-        console.error('Error fetching labels:', labelsError);
-      }
+        if (labelsError) {
+          console.error('Error fetching labels:', labelsError);
+        }
 
-      // Fetch task positions for kanban view
-      const { data: taskPositions, error: positionsError } = await supabase
-        .from('entity_positions')
-        .select('entity_id, position')
-        .eq('entity_type', 'task')
-        .eq('context', 'kanban')
-        .is('user_id', null)
-        .in('entity_id', taskIds);
+        // Fetch task positions for kanban view
+        const { data: taskPositions, error: positionsError } = await supabase
+          .from('entity_positions')
+          .select('entity_id, position')
+          .eq('entity_type', 'task')
+          .eq('context', 'kanban')
+          .is('user_id', null)
+          .in('entity_id', taskIds);
+
+        if (positionsError) {
+          console.error('Error fetching task positions:', positionsError);
+        }
 
-      if (positionsError) {
-        console.error('Error fetching task positions:', positionsError);
-      }
+        // Fetch task metadata for time estimates
+        const { data: taskMetadata, error: metadataError } = await supabase
+          .from('task_metadata')
+          .select('*')
+          .in('task_id', taskIds);
 
-      // Fetch task metadata for time estimates
-      const { data: taskMetadata, error: metadataError } = await supabase
-        .from('task_metadata')
-        .select('*')
-        .in('task_id', taskIds);
+        if (metadataError) {
+          console.error('Error fetching task metadata:', metadataError);
+        }
 
-      if (metadataError) {
-        console.error('Error fetching task metadata:', metadataError);
-      }
+        // Fetch dependencies where these tasks are the successor
+        const { data: taskDependencies, error: dependenciesError } = await supabase
+          .from('task_dependencies')
+          .select('predecessor_task_id, successor_task_id')
+          .in('successor_task_id', taskIds);
 
-      // Get unique user IDs from assignees for user info
-      const userIds = Array.from(
-        new Set((assignees || []).map((a: { user_id: string }) => a.user_id)),
-      );
+        if (dependenciesError) {
+          console.error('Error fetching task dependencies:', dependenciesError);
+        }
 
-      // Fetch user details if we have any assignees
-      let usersData: any[] = [];
-      if (userIds.length > 0) {
-        try {
-          const { data: users, error: usersError } = await supabase.rpc('get_user_details', {
-            user_ids: userIds,
-          });
+        // Fetch sign-off requests, newest first so the first per task is the current one
+        const { data: taskApprovals, error: approvalsError } = await supabase
+          .from('approvals')
+          .select('id, status, due_at, entity_id')
+          .eq('entity_type', 'tasks')
+          .in('entity_id', taskIds)
+          .order('created_at', { ascending: false });
 
-          if (usersError && usersError.code !== 'PGRST116') {
-            // Ignore if RPC doesn't exist yet
-            console.error('Error fetching users:', usersError);
-          }
+        if (approvalsError) {
+          console.error('Error fetching task approvals:', approvalsError);
+        }
 
-          // Map the updated function response to include user_profiles data
-          usersData =
-            users?.map((user: any) => ({
-              id: user.id,
-              raw_user_meta_data: user.raw_user_meta_data || {
-                name: 'User ' + user.id.substring(0, 6),
-              },
-              user_profiles:
-                user.global_avatar_url || user.global_display_name
-                  ? {
-                      global_avatar_url: user.global_avatar_url,
-                      global_display_name: user.global_display_name,
-                    }
-                  : null,
-            })) ||
-            userIds.map((id) => ({
+        // Get unique user IDs from assignees for user info
+        const userIds = Array.from(
+          new Set((assignees || []).map((a: { user_id: string }) => a.user_id)),
+        );
+
+        // Fetch user details if we have any assignees
+        let usersData: any[] = [];
+        if (userIds.length > 0) {
+          try {
+            const { data: users, error: usersError } = await supabase.rpc('get_user_details', {
+              user_ids: userIds,
+            });
+
+            if (usersError && usersError.code !== 'PGRST116') {
+              // Ignore if RPC doesn't exist yet
+              console.error('Error fetching users:', usersError);
+            }
+
+            // Map the updated function response to include user_profiles data
+            usersData =
+              users?.map((user: any) => ({
+                id: user.id,
+                raw_user_meta_data: user.raw_user_meta_data || {
+                  name: 'User ' + user.id.substring(0, 6),
+                },
+                user_profiles:
+                  user.global_avatar_url || user.global_display_name
+                    ? {
+                        global_avatar_url: user.global_avatar_url,
+                        global_display_name: user.global_display_name,
+                      }
+                    : null,
+              })) ||
+              userIds.map((id) => ({
+                id,
+                raw_user_meta_data: { name: 'User ' + id.substring(0, 6) },
+                user_profiles: null,
+              }));
+          } catch (err) {
+            console.error('Exception fetching user details:', err);
+            // Provide fallback user data
+            usersData = userIds.map((id) => ({
               id,
               raw_user_meta_data: { name: 'User ' + id.substring(0, 6) },
               user_profiles: null,
             }));
-        } catch (err) {
-          console.error('Exception fetching user details:', err);
-          // Provide fallback user data
-          usersData = userIds.map((id) => ({
-            id,
-            raw_user_meta_data: { name: 'User ' + id.substring(0, 6) },
-            user_profiles: null,
-          }));
+          }
         }
-      }
 
-      // Map them to a more usable format
-      const tasksWithRelations = rawTasks.map((task) => {
-        // Get task's assignees
-        const taskAssignees =
-          assignees?.filter((a) => a.entity_id === task.id).map((a) => a.user_id) || [];
+        // Map them to a more usable format
+        const tasksWithRelations = rawTasks.map((task) => {
+          // Get task's assignees
+          const taskAssignees =
+            assignees?.filter((a) => a.entity_id === task.id).map((a) => a.user_id) || [];
+
+          // Get task's labels
+          const taskLabels =
+            entityLabels?.filter((l) => l.entity_id === task.id).map((l) => l.labels) || [];
+
+          // Get task's position
+          const taskPosition =
+            taskPositions?.find((p) => p.entity_id === task.id)?.position || null;
+
+          // Get task's metadata
+          const taskMetadataItems = taskMetadata?.filter((m) => m.task_id === task.id) || [];
+
+          // Convert metadata array to object for easier access
+          const metadataObj =
+            taskMetadataItems?.reduce(
+              (acc, item) => {
+                if (item.title) {
+                  acc[item.title] = item.value;
+                }
+                return acc;
+              },
+              {} as Record<string, string | null>,
+            ) || {};
+
+          // Extract hours from metadata for convenience
+          const estimatedHours = parseFloat(metadataObj['estimated_hours'] || '0');
+          const actualHours = parseFloat(metadataObj['actual_hours'] || '0');
+
+          // Get task's parent and direct subtasks from the same project
+          const parentTask = rawTasks.find((t) => t.id === task.parent_task_id);
+          const subtasks = rawTasks
+            .filter((t) => t.parent_task_id === task.id)
+            .map((t) => ({
+              id: t.id,
+              title: t.title,
+              status_id: t.status_id,
+              parent_task_id: t.parent_task_id,
+              due_date: t.due_date,
+            }));
 
-        // Get task's labels
-        const taskLabels =
-          entityLabels?.filter((l) => l.entity_id === task.id).map((l) => l.labels) || [];
+          // Get the tasks this task is waiting on
+          const blockedBy = (taskDependencies || [])
+            .filter((d) => d.successor_task_id === task.id)
+            .map((d) => rawTasks.find((t) => t.id === d.predecessor_task_id))
+            .filter((t): t is NonNullable<typeof t> => !!t)
+            .map((t) => ({ id: t.id, title: t.title, status_id: t.status_id }));
+
+          const taskApproval = taskApprovals?.find((a) => a.entity_id === task.id);
+
+          return {
+            ...task,
+            assignees: taskAssignees,
+            entity_assignees:
+              assignees
+                ?.filter((a) => a.entity_id === task.id)
+                .map((a) => ({
+                  entity_id: a.entity_id,
+                  user_id: a.user_id,
+                  users: usersData?.find((u) => u.id === a.user_id) || {
+                    id: a.user_id,
+                    raw_user_meta_data: { name: 'Unknown' },
+                  },
+                })) || [],
+            entity_labels:
+              entityLabels
+                ?.filter((l) => l.entity_id === task.id)
+                .map((l) => ({
+                  entity_id: l.entity_id,
+                  label_id: l.label_id,
+                  labels: l.labels,
+                })) || [],
+            labels: taskLabels,
+            metadata: taskMetadataItems || [],
+            metadataObj,
+            estimated_hours: isNaN(estimatedHours) ? null : estimatedHours,
+            actual_hours: isNaN(actualHours) ? null : actualHours,
+            position: taskPosition,
+            priorities: task.priorities,
+            statuses: task.statuses,
+            task_recurrences: task.task_recurrences,
+            parent_task: parentTask ? { id: parentTask.id, title: parentTask.title } : null,
+            subtasks,
+            blocked_by: blockedBy,
+            approval: taskApproval
+              ? { id: taskApproval.id, status: taskApproval.status, due_at: taskApproval.due_at }
+              : null,
+          } as TaskWithRelations;
+        });
 
-        // Get task's position
-        const taskPosition = taskPositions?.find((p) => p.entity_id === task.id)?.position || null;
+        setTasks(tasksWithRelations);
+      } catch (error) {
+        console.error('Error fetching tasks:', error);
+        setError('Failed to load tasks data');
+        setTasks([]);
+      } finally {
+        setLoading(false);
+      }
+    },
+    [user],
+  );
 
-        // Get task's metadata
-        const taskMetadataItems = taskMetadata?.filter((m) => m.task_id === task.id) || [];
+  useEffect(() => {
+    getTasks();
+  }, [getTasks]);
 
-        // Convert metadata array to object for easier access
-        const metadataObj =
-          taskMetadataItems?.reduce(
-            (acc, item) => {
-              if (item.title) {
-                acc[item.title] = item.value;
-              }
-              return acc;
-            },
-            {} as Record<string, string | null>,
-          ) || {};
+  // Realtime handlers read the current tasks without resubscribing on every change
+  const tasksRef = useRef(tasks);
+  useEffect(() => {
+    tasksRef.current = tasks;
+  }, [tasks]);
 
-        // Extract hours from metadata for convenience
-        const estimatedHours = parseFloat(metadataObj['estimated_hours'] || '0');
-        const actualHours = parseFloat(metadataObj['actual_hours'] || '0');
+  // Apply other people's changes to this project's tasks as they happen
+  useEffect(() => {
+    const projectId = user?.activeProjectId;
+    if (!projectId) return;
 
-        return {
-          ...task,
-          assignees: taskAssignees,
-          entity_assignees:
-            assignees
-              ?.filter((a) => a.entity_id === task.id)
-              .map((a) => ({
-                entity_id: a.entity_id,
-                user_id: a.user_id,
-                users: usersData?.find((u) => u.id === a.user_id) || {
-                  id: a.user_id,
-                  raw_user_meta_data: { name: 'Unknown' },
-                },
-              })) || [],
-          entity_labels:
-            entityLabels
-              ?.filter((l) => l.entity_id === task.id)
-              .map((l) => ({
-                entity_id: l.entity_id,
-                label_id: l.label_id,
-                labels: l.labels,
-              })) || [],
-          labels: taskLabels,
-          metadata: taskMetadataItems || [],
-          metadataObj,
-          estimated_hours: isNaN(estimatedHours) ? null : estimatedHours,
-          actual_hours: isNaN(actualHours) ? null : actualHours,
-          position: taskPosition,
-          priorities: task.priorities,
-          statuses: task.statuses,
-        } as TaskWithRelations;
-      });
+    const supabase = getSupabaseClient();
+    let refetchTimer: ReturnType<typeof setTimeout> | null = null;
+    const hasTask = (taskId: number) => tasksRef.current.some((task) => task.id === taskId);
+
+    // New tasks and assignee changes need their relations joined, so they are
+    // picked up by one quiet refetch once a burst of changes settles
+    const scheduleRefetch = () => {
+      if (refetchTimer) clearTimeout(refetchTimer);
+      refetchTimer = setTimeout(() => getTasks({ silent: true }), 500);
+    };
+
+    const channel = supabase
+      .channel(`tasks:project:${projectId}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'tasks', filter: `project_id=eq.${projectId}` },
+        scheduleRefetch,
+      )
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'tasks', filter: `project_id=eq.${projectId}` },
+        (payload) => {
+          const row = payload.new as Database['public']['Tables']['tasks']['Row'];
+          const current = tasksRef.current.find((task) => task.id === row.id);
+          if (!current) {
+            scheduleRefetch();
+            return;
+          }
 
-      setTasks(tasksWithRelations);
-    } catch (error) {
-      console.error('Error fetching tasks:', error);
-      setError('Failed to load tasks data');
-      setTasks([]);
-    } finally {
-      setLoading(false);
-    }
-  }, [user]);
+          setTasks((prev) => prev.map((task) => (task.id === row.id ? { ...task, ...row } : task)));
 
-  useEffect(() => {
-    getTasks();
-  }, [getTasks]);
+          // Joined status, priority and subtask summaries follow on the refetch
+          if (
+            row.status_id !== current.status_id ||
+            row.priority_id !== current.priority_id ||
+            row.parent_task_id !== current.parent_task_id
+          ) {
+            scheduleRefetch();
+          }
+        },
+      )
+      // Delete events cannot be filtered, so they are matched against the loaded tasks
+      .on('postgres_changes', { event: 'DELETE', schema: 'public', table: 'tasks' }, (payload) => {
+        const taskId = (payload.old as { id?: number }).id;
+        if (taskId && hasTask(taskId)) {
+          setTasks((prev) => prev.filter((task) => task.id !== taskId));
+        }
+      })
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'entity_positions' },
+        (payload) => {
+          const row = (payload.eventType === 'DELETE' ? payload.old : payload.new) as Partial<
+            Database['public']['Tables']['entity_positions']['Row']
+          >;
+          if (
+            row.entity_type !== 'task' ||
+            row.context !== 'kanban' ||
+            row.user_id ||
+            !row.entity_id ||
+            !hasTask(row.entity_id)
+          ) {
+            return;
+          }
+
+          const position = payload.eventType === 'DELETE' ? null : (row.position ?? null);
+          setTasks((prev) =>
+            prev.map((task) => (task.id === row.entity_id ? { ...task, position } : task)),
+          );
+        },
+      )
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'entity_assignees' },
+        (payload) => {
+          const row = (payload.eventType === 'DELETE' ? payload.old : payload.new) as Partial<
+            Database['public']['Tables']['entity_assignees']['Row']
+          >;
+          if (row.entity_type === 'task' && row.entity_id && hasTask(row.entity_id)) {
+            scheduleRefetch();
+          }
+        },
+      )
+      .subscribe();
+
+    return () => {
+      if (refetchTimer) clearTimeout(refetchTimer);
+      supabase.removeChannel(channel);
+    };
+  }, [user?.activeProjectId, getTasks]);
 
   return { tasks, loading, error, refresh: getTasks };
 };
@@ -336,53 +518,65 @@ export const useTaskComments = (taskId: number) => {
   const [adding, setAdding] = useState(false);
   const { user } = useAuth();
 
-  const fetchComments = useCallback(async () => {
-    setLoading(true);
-    setError(null);
+  const fetchComments = useCallback(
+    async ({ silent = false }: { silent?: boolean } = {}) => {
+      if (!silent) {
+        setLoading(true);
+      }
+      setError(null);
 
-    try {
-      const supabase = getSupabaseClient();
+      try {
+        const supabase = getSupabaseClient();
 
-      // Fetch comments for this task
-      const { data, error } = await supabase
-        .from('task_comments')
-        .select(
-          `
+        // Fetch comments for this task
+        const { data, error } = await supabase
+          .from('task_comments')
+          .select(
+            `
           id,
           task_id,
+          parent_id,
           user_id,
           content,
           created_at,
+          edited_at,
+          deleted_at,
           user_name,
-          user_avatar
+          user_avatar,
+          task_comment_reactions (*)
         `,
-        )
-        .eq('task_id', taskId)
-        .order('created_at', { ascending: true });
+          )
+          .eq('task_id', taskId)
+          .order('created_at', { ascending: true });
 
-      if (error) {
-        console.error('Error fetching comments:', error);
-        setError(error.message);
+        if (error) {
+          console.error('Error fetching comments:', error);
+          setError(error.message);
+          setComments([]);
+        } else {
+          // Transform the data to handle null user_avatar
+          const transformedComments = (data || []).map(
+            ({ task_comment_reactions, ...comment }) => ({
+              ...comment,
+              user_avatar: comment.user_avatar || undefined,
+              reactions: task_comment_reactions ?? [],
+            }),
+          );
+          setComments(transformedComments);
+        }
+      } catch (err) {
+        console.error('Exception fetching comments:', err);
+        setError('Failed to load comments');
         setComments([]);
-      } else {
-        // Transform the data to handle null user_avatar
-        const transformedComments = (data || []).map((comment) => ({
-          ...comment,
-          user_avatar: comment.user_avatar || undefined,
-        }));
-        setComments(transformedComments);
+      } finally {
+        setLoading(false);
       }
-    } catch (err) {
-      console.error('Exception fetching comments:', err);
-      setError('Failed to load comments');
-      setComments([]);
-    } finally {
-      setLoading(false);
-    }
-  }, [taskId]);
+    },
+    [taskId],
+  );
 
   const addComment = useCallback(
-    async (content: string) => {
+    async (content: string, parentId: number | null = null) => {
       if (!user || !content.trim()) {
         return { success: false, error: 'No user or empty comment' };
       }
@@ -400,6 +594,7 @@ export const useTaskComments = (taskId: number) => {
         // Add the comment
         const { error } = await supabase.from('task_comments').insert({
           task_id: taskId,
+          parent_id: parentId,
           user_id: user.id,
           content: content.trim(),
           user_name: userName,
@@ -427,21 +622,197 @@ export const useTaskComments = (taskId: number) => {
     [taskId, user, fetchComments],
   );
 
+  // The previous content is kept in task_comment_revisions by a trigger
+  const editComment = useCallback(
+    async (commentId: number, content: string) => {
+      if (!content.trim()) {
+        return { success: false, error: 'Comment cannot be empty' };
+      }
+
+      try {
+        const supabase = getSupabaseClient();
+
+        const { error } = await supabase
+          .from('task_comments')
+          .update({ content: content.trim() })
+          .eq('id', commentId);
+
+        if (error) {
+          console.error('Error editing comment:', error);
+          return { success: false, error: error.message };
+        }
+
+        await fetchComments();
+        return { success: true };
+      } catch (err) {
+        console.error('Exception editing comment:', err);
+        return { success: false, error: 'An unexpected error occurred' };
+      }
+    },
+    [fetchComments],
+  );
+
+  // Soft delete so replies keep their parent; the trigger clears the content
+  const deleteComment = useCallback(
+    async (commentId: number) => {
+      try {
+        const supabase = getSupabaseClient();
+
+        const { error } = await supabase
+          .from('task_comments')
+          .update({ deleted_at: new Date().toISOString() })
+          .eq('id', commentId);
+
+        if (error) {
+          console.error('Error deleting comment:', error);
+          return { success: false, error: error.message };
+        }
+
+        await fetchComments();
+        return { success: true };
+      } catch (err) {
+        console.error('Exception deleting comment:', err);
+        return { success: false, error: 'An unexpected error occurred' };
+      }
+    },
+    [fetchComments],
+  );
+
+  const toggleReaction = useCallback(
+    async (commentId: number, emoji: string) => {
+      if (!user) {
+        return { success: false, error: 'No user' };
+      }
+
+      const existing = comments
+        .find((comment) => comment.id === commentId)
+        ?.reactions.find((reaction) => reaction.user_id === user.id && reaction.emoji === emoji);
+
+      try {
+        const supabase = getSupabaseClient();
+
+        const { error } = existing
+          ? await supabase.from('task_comment_reactions').delete().eq('id', existing.id)
+          : await supabase
+              .from('task_comment_reactions')
+              .insert({ comment_id: commentId, user_id: user.id, emoji });
+
+        if (error) {
+          console.error('Error updating reaction:', error);
+          return { success: false, error: error.message };
+        }
+
+        await fetchComments();
+        return { success: true };
+      } catch (err) {
+        console.error('Exception updating reaction:', err);
+        return { success: false, error: 'An unexpected error occurred' };
+      }
+    },
+    [user, comments, fetchComments],
+  );
+
   // Fetch comments initially
   useEffect(() => {
     fetchComments();
   }, [fetchComments]);
 
+  const commentsRef = useRef(comments);
+  useEffect(() => {
+    commentsRef.current = comments;
+  }, [comments]);
+
+  // Pick up comments, edits and reactions from other people while the task is open
+  useEffect(() => {
+    const supabase = getSupabaseClient();
+    const refetch = () => fetchComments({ silent: true });
+
+    const channel = supabase
+      .channel(`task-comments:${taskId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'task_comments', filter: `task_id=eq.${taskId}` },
+        refetch,
+      )
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'task_comment_reactions' },
+        (payload) => {
+          const row = (
+            payload.eventType === 'DELETE' ? payload.old : payload.new
+          ) as Partial<TaskCommentReaction>;
+          if (commentsRef.current.some((comment) => comment.id === row.comment_id)) {
+            refetch();
+          }
+        },
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [taskId, fetchComments]);
+
   return {
     comments,
     loading,
     error,
     adding,
     addComment,
+    editComment,
+    deleteComment,
+    toggleReaction,
     refresh: fetchComments,
   };
 };
 
+// Previous versions of a comment, newest first
+export const useTaskCommentRevisions = (commentId: number | null) => {
+  const [revisions, setRevisions] = useState<TaskCommentRevision[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchRevisions = useCallback(async () => {
+    if (!commentId) {
+      setRevisions([]);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const supabase = getSupabaseClient();
+
+      const { data, error } = await supabase
+        .from('task_comment_revisions')
+        .select('*')
+        .eq('comment_id', commentId)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching comment revisions:', error);
+        setError(error.message);
+        setRevisions([]);
+      } else {
+        setRevisions(data || []);
+      }
+    } catch (err) {
+      console.error('Exception fetching comment revisions:', err);
+      setError('Failed to load edit history');
+      setRevisions([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [commentId]);
+
+  useEffect(() => {
+    fetchRevisions();
+  }, [fetchRevisions]);
+
+  return { revisions, loading, error, refresh: fetchRevisions };
+};
+
 // Updated hook for managing task metadata
 export const useTaskMetadata = (taskId: number) => {
   const [metadata, setMetadata] = useState<TaskMetadata[]>([]);
@@ -556,7 +927,8 @@ export const useTask = (taskId: number | string) => {
           `
           *,
           priorities (*),
-          statuses (*)
+          statuses (*),
+          task_recurrences (*)
         `,
         )
         .eq('id', numericTaskId)
@@ -622,10 +994,62 @@ export const useTask = (taskId: number | string) => {
         console.error('Error fetching task metadata:', metadataError);
       }
 
-      // Get unique user IDs from assignees for user info
-      const userIds = Array.from(
-        new Set((assignees || []).map((a: { user_id: string }) => a.user_id)),
-      );
+      // Fetch direct subtasks
+      const { data: subtasks, error: subtasksError } = await supabase
+        .from('tasks')
+        .select('id, title, status_id, parent_task_id, due_date')
+        .eq('parent_task_id', numericTaskId)
+        .order('created_at', { ascending: true });
+
+      if (subtasksError) {
+        console.error('Error fetching subtasks:', subtasksError);
+      }
+
+      // Fetch parent task for breadcrumbs
+      let parentTask: { id: number; title: string } | null = null;
+      if (rawTask.parent_task_id) {
+        const { data: parent, error: parentError } = await supabase
+          .from('tasks')
+          .select('id, title')
+          .eq('id', rawTask.parent_task_id)
+          .single();
+
+        if (parentError) {
+          console.error('Error fetching parent task:', parentError);
+        }
+        parentTask = parent;
+      }
+
+      // Fetch the tasks this task is waiting on
+      const { data: predecessorLinks, error: predecessorsError } = await supabase
+        .from('task_dependencies')
+        .select(
+          'predecessor:tasks!task_dependencies_predecessor_task_id_fkey (id, title, status_id)',
+        )
+        .eq('successor_task_id', numericTaskId);
+
+      if (predecessorsError) {
+        console.error('Error fetching task dependencies:', predecessorsError);
+      }
+
+      // Fetch the latest sign-off request
+      const { data: taskApproval, error: approvalError } = await supabase
+        .from('approvals')
+        .select('id, status, due_at')
+        .eq('entity_type', 'tasks')
+        .eq('entity_id', numericTaskId)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (approvalError) {
+        console.error('Error fetching task approval:', approvalError);
+      }
+
+      // Get unique user IDs from assignees for user info
+      const userIds = Array.from(
+        new Set((assignees || []).map((a: { user_id: string }) => a.user_id)),
+      );
 
       // Fetch user details if we have any assignees
       let usersData: any[] = [];
@@ -727,6 +1151,14 @@ export const useTask = (taskId: number | string) => {
         position: position,
         priorities: rawTask.priorities,
         statuses: rawTask.statuses,
+        task_recurrences: rawTask.task_recurrences,
+        parent_task: parentTask,
+        subtasks: subtasks || [],
+        blocked_by:
+          predecessorLinks
+            ?.map((link) => link.predecessor)
+            .filter((t): t is NonNullable<typeof t> => !!t) || [],
+        approval: taskApproval || null,
       } as TaskWithRelations;
 
       setTask(taskWithRelations);
@@ -745,3 +1177,890 @@ export const useTask = (taskId: number | string) => {
 
   return { task, loading, error, refresh: getTask };
 };
+
+// Maximum depth walked when resolving ancestors and descendants, guards against bad parent links
+const MAX_TASK_DEPTH = 10;
+
+export const useTaskHierarchy = (taskId: number) => {
+  const [ancestors, setAncestors] = useState<SubtaskSummary[]>([]);
+  const [subtasks, setSubtasks] = useState<TaskTreeNode[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [adding, setAdding] = useState(false);
+  const { user } = useAuth();
+
+  const fetchHierarchy = useCallback(async () => {
+    if (!taskId) {
+      setAncestors([]);
+      setSubtasks([]);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const supabase = getSupabaseClient();
+      const columns = 'id, title, status_id, parent_task_id, due_date';
+
+      const { data: current, error: currentError } = await supabase
+        .from('tasks')
+        .select(columns)
+        .eq('id', taskId)
+        .single();
+
+      if (currentError) {
+        console.error('Error fetching task hierarchy:', currentError);
+        setError(currentError.message);
+        setAncestors([]);
+        setSubtasks([]);
+        return;
+      }
+
+      // Walk up the parent chain for breadcrumbs
+      const ancestorChain: SubtaskSummary[] = [];
+      let parentId = current?.parent_task_id ?? null;
+      while (parentId && ancestorChain.length < MAX_TASK_DEPTH) {
+        const { data: parent, error: parentError } = await supabase
+          .from('tasks')
+          .select(columns)
+          .eq('id', parentId)
+          .single();
+
+        if (parentError || !parent) {
+          console.error('Error fetching parent task:', parentError);
+          break;
+        }
+
+        ancestorChain.unshift(parent);
+        parentId = parent.parent_task_id;
+      }
+
+      // Walk down one level at a time to collect every descendant
+      const descendants: SubtaskSummary[] = [];
+      let levelIds = [taskId];
+      for (let depth = 0; depth < MAX_TASK_DEPTH && levelIds.length > 0; depth++) {
+        const { data: children, error: childrenError } = await supabase
+          .from('tasks')
+          .select(columns)
+          .in('parent_task_id', levelIds)
+          .order('created_at', { ascending: true });
+
+        if (childrenError) {
+          console.error('Error fetching subtasks:', childrenError);
+          break;
+        }
+
+        descendants.push(...(children || []));
+        levelIds = (children || []).map((child) => child.id);
+      }
+
+      // Assemble the flat list into a tree rooted at the current task
+      const buildChildren = (parentTaskId: number): TaskTreeNode[] =>
+        descendants
+          .filter((task) => task.parent_task_id === parentTaskId)
+          .map((task) => ({ ...task, children: buildChildren(task.id) }));
+
+      setAncestors(ancestorChain);
+      setSubtasks(buildChildren(taskId));
+    } catch (err) {
+      console.error('Exception fetching task hierarchy:', err);
+      setError('Failed to load subtasks');
+      setAncestors([]);
+      setSubtasks([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [taskId]);
+
+  const addSubtask = useCallback(
+    async (params: {
+      title: string;
+      parentTaskId: number;
+      statusId: number;
+      priorityId: number;
+    }) => {
+      if (!user || !params.title.trim()) {
+        return { success: false, error: 'No user or empty title' };
+      }
+
+      setAdding(true);
+      setError(null);
+
+      try {
+        const supabase = getSupabaseClient();
+        const now = new Date().toISOString();
+
+        const { error } = await supabase.from('tasks').insert({
+          title: params.title.trim(),
+          parent_task_id: params.parentTaskId,
+          status_id: params.statusId,
+          priority_id: params.priorityId,
+          created_at: now,
+          updated_at: now,
+          created_by: user.id,
+          project_id: user.activeProjectId,
+        });
+
+        if (error) {
+          console.error('Error adding subtask:', error);
+          setError(error.message);
+          return { success: false, error: error.message };
+        }
+
+        await fetchHierarchy();
+        return { success: true };
+      } catch (err) {
+        const errorMessage = 'An unexpected error occurred';
+        console.error('Exception adding subtask:', err);
+        setError(errorMessage);
+        return { success: false, error: errorMessage };
+      } finally {
+        setAdding(false);
+      }
+    },
+    [user, fetchHierarchy],
+  );
+
+  useEffect(() => {
+    fetchHierarchy();
+  }, [fetchHierarchy]);
+
+  return { ancestors, subtasks, loading, error, adding, addSubtask, refresh: fetchHierarchy };
+};
+
+export const useTaskDependencies = (taskId: number) => {
+  const [projectTasks, setProjectTasks] = useState<DependencyTask[]>([]);
+  const [dependencies, setDependencies] = useState<
+    Database['public']['Tables']['task_dependencies']['Row'][]
+  >([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const { user } = useAuth();
+
+  const fetchDependencies = useCallback(async () => {
+    if (!taskId || !user?.activeProjectId) {
+      setProjectTasks([]);
+      setDependencies([]);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const supabase = getSupabaseClient();
+
+      // Cycle checks need every edge in the project, not just the ones touching this task
+      const { data: dependencyData, error: dependenciesError } = await supabase
+        .from('task_dependencies')
+        .select('*')
+        .eq('project_id', user.activeProjectId);
+
+      if (dependenciesError) {
+        console.error('Error fetching task dependencies:', dependenciesError);
+        setError(dependenciesError.message);
+        setDependencies([]);
+        return;
+      }
+
+      const { data: tasksData, error: tasksError } = await supabase
+        .from('tasks')
+        .select('id, title, status_id')
+        .eq('project_id', user.activeProjectId)
+        .order('title');
+
+      if (tasksError) {
+        console.error('Error fetching project tasks:', tasksError);
+        setError(tasksError.message);
+        setProjectTasks([]);
+        return;
+      }
+
+      setDependencies(dependencyData || []);
+      setProjectTasks(tasksData || []);
+    } catch (err) {
+      console.error('Exception fetching task dependencies:', err);
+      setError('Failed to load dependencies');
+      setDependencies([]);
+      setProjectTasks([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [taskId, user?.activeProjectId]);
+
+  // Pair each edge touching this task with the task on its other side
+  const withTask = useCallback(
+    (dependency: Database['public']['Tables']['task_dependencies']['Row'], otherTaskId: number) => {
+      const task = projectTasks.find((t) => t.id === otherTaskId);
+      return task ? { ...dependency, task } : null;
+    },
+    [projectTasks],
+  );
+
+  const blockedBy = useMemo(
+    () =>
+      dependencies
+        .filter((d) => d.successor_task_id === taskId)
+        .map((d) => withTask(d, d.predecessor_task_id))
+        .filter((d): d is TaskDependencyWithTask => !!d),
+    [dependencies, taskId, withTask],
+  );
+
+  const blocking = useMemo(
+    () =>
+      dependencies
+        .filter((d) => d.predecessor_task_id === taskId)
+        .map((d) => withTask(d, d.successor_task_id))
+        .filter((d): d is TaskDependencyWithTask => !!d),
+    [dependencies, taskId, withTask],
+  );
+
+  const addDependency = useCallback(
+    async (params: { predecessorTaskId: number; successorTaskId: number }) => {
+      if (!user?.id || !user.activeProjectId) {
+        return { success: false, error: 'No user or project' };
+      }
+
+      if (
+        wouldCreateDependencyCycle(dependencies, params.predecessorTaskId, params.successorTaskId)
+      ) {
+        const errorMessage = 'This dependency would create a cycle';
+        setError(errorMessage);
+        return { success: false, error: errorMessage };
+      }
+
+      setSaving(true);
+      setError(null);
+
+      try {
+        const supabase = getSupabaseClient();
+        const { error } = await supabase.from('task_dependencies').insert({
+          project_id: user.activeProjectId,
+          predecessor_task_id: params.predecessorTaskId,
+          successor_task_id: params.successorTaskId,
+          created_by: user.id,
+        });
+
+        if (error) {
+          console.error('Error adding task dependency:', error);
+          setError(error.message);
+          return { success: false, error: error.message };
+        }
+
+        await fetchDependencies();
+        return { success: true };
+      } catch (err) {
+        const errorMessage = 'An unexpected error occurred';
+        console.error('Exception adding task dependency:', err);
+        setError(errorMessage);
+        return { success: false, error: errorMessage };
+      } finally {
+        setSaving(false);
+      }
+    },
+    [user, dependencies, fetchDependencies],
+  );
+
+  const removeDependency = useCallback(async (dependencyId: number) => {
+    setSaving(true);
+    setError(null);
+
+    try {
+      const supabase = getSupabaseClient();
+      const { error } = await supabase.from('task_dependencies').delete().eq('id', dependencyId);
+
+      if (error) {
+        console.error('Error removing task dependency:', error);
+        setError(error.message);
+        return { success: false, error: error.message };
+      }
+
+      setDependencies((prev) => prev.filter((d) => d.id !== dependencyId));
+      return { success: true };
+    } catch (err) {
+      const errorMessage = 'An unexpected error occurred';
+      console.error('Exception removing task dependency:', err);
+      setError(errorMessage);
+      return { success: false, error: errorMessage };
+    } finally {
+      setSaving(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchDependencies();
+  }, [fetchDependencies]);
+
+  return {
+    blockedBy,
+    blocking,
+    projectTasks,
+    loading,
+    error,
+    saving,
+    addDependency,
+    removeDependency,
+    refresh: fetchDependencies,
+  };
+};
+
+export const useTaskFilterPresets = () => {
+  const [presets, setPresets] = useState<TaskFilterPreset[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const { user } = useAuth();
+
+  const fetchPresets = useCallback(async () => {
+    if (!user?.id || !user.activeProjectId) {
+      setPresets([]);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const supabase = getSupabaseClient();
+      const { data, error } = await supabase
+        .from('task_filter_presets')
+        .select('*')
+        .eq('user_id', user.id)
+        .eq('project_id', user.activeProjectId)
+        .order('name');
+
+      if (error) {
+        console.error('Error fetching task filter presets:', error);
+        setError(error.message);
+        setPresets([]);
+        return;
+      }
+
+      setPresets(
+        (data || []).map((preset) => ({
+          ...preset,
+          filters: { ...EMPTY_TASK_FILTERS, ...(preset.filters as Partial<TaskFilters>) },
+        })),
+      );
+    } catch (err) {
+      console.error('Exception fetching task filter presets:', err);
+      setError('Failed to load saved filters');
+      setPresets([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [user?.id, user?.activeProjectId]);
+
+  // Saving under an existing name overwrites that preset
+  const savePreset = useCallback(
+    async (name: string, filters: TaskFilters) => {
+      if (!user?.id || !user.activeProjectId || !name.trim()) {
+        return { success: false, error: 'No user, project or name' };
+      }
+
+      setSaving(true);
+      setError(null);
+
+      try {
+        const supabase = getSupabaseClient();
+        const { error } = await supabase.from('task_filter_presets').upsert(
+          {
+            user_id: user.id,
+            project_id: user.activeProjectId,
+            name: name.trim(),
+            filters,
+            updated_at: new Date().toISOString(),
+          },
+          { onConflict: 'user_id,project_id,name' },
+        );
+
+        if (error) {
+          console.error('Error saving task filter preset:', error);
+          setError(error.message);
+          return { success: false, error: error.message };
+        }
+
+        await fetchPresets();
+        return { success: true };
+      } catch (err) {
+        const errorMessage = 'An unexpected error occurred';
+        console.error('Exception saving task filter preset:', err);
+        setError(errorMessage);
+        return { success: false, error: errorMessage };
+      } finally {
+        setSaving(false);
+      }
+    },
+    [user?.id, user?.activeProjectId, fetchPresets],
+  );
+
+  const deletePreset = useCallback(async (presetId: number) => {
+    setSaving(true);
+    setError(null);
+
+    try {
+      const supabase = getSupabaseClient();
+      const { error } = await supabase.from('task_filter_presets').delete().eq('id', presetId);
+
+      if (error) {
+        console.error('Error deleting task filter preset:', error);
+        setError(error.message);
+        return { success: false, error: error.message };
+      }
+
+      setPresets((prev) => prev.filter((preset) => preset.id !== presetId));
+      return { success: true };
+    } catch (err) {
+      const errorMessage = 'An unexpected error occurred';
+      console.error('Exception deleting task filter preset:', err);
+      setError(errorMessage);
+      return { success: false, error: errorMessage };
+    } finally {
+      setSaving(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchPresets();
+  }, [fetchPresets]);
+
+  return { presets, loading, error, saving, savePreset, deletePreset, refresh: fetchPresets };
+};
+
+// Applies the same changes to many tasks in one round trip. Assignees get a single
+// consolidated notification instead of one per task and change.
+export const useBulkTaskUpdate = () => {
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const bulkUpdate = useCallback(async (taskIds: number[], changes: BulkTaskChanges) => {
+    if (taskIds.length === 0) {
+      return { success: false, error: 'No tasks selected', updated: 0 };
+    }
+
+    setSaving(true);
+    setError(null);
+
+    try {
+      const supabase = getSupabaseClient();
+      const { data, error } = await supabase.rpc('bulk_update_tasks', {
+        p_task_ids: taskIds,
+        p_changes: changes,
+      });
+
+      if (error) {
+        console.error('Error bulk updating tasks:', error);
+        setError(error.message);
+        return { success: false, error: error.message, updated: 0 };
+      }
+
+      return { success: true, updated: data ?? 0 };
+    } catch (err) {
+      const errorMessage = 'An unexpected error occurred';
+      console.error('Exception bulk updating tasks:', err);
+      setError(errorMessage);
+      return { success: false, error: errorMessage, updated: 0 };
+    } finally {
+      setSaving(false);
+    }
+  }, []);
+
+  return { saving, error, bulkUpdate };
+};
+
+// Saves task fields only if nobody else has saved the task since `expectedVersion` was
+// loaded. On a conflict the latest saved task is returned so the caller can merge.
+export const useTaskUpdate = () => {
+  const [saving, setSaving] = useState(false);
+
+  const updateTask = useCallback(
+    async (
+      taskId: number,
+      expectedVersion: number,
+      changes: TaskUpdateChanges,
+    ): Promise<{
+      success: boolean;
+      error?: string;
+      // The task's version after a successful save, for the next save to check against
+      version?: number;
+      conflict?: Database['public']['Tables']['tasks']['Row'];
+    }> => {
+      setSaving(true);
+
+      try {
+        const supabase = getSupabaseClient();
+
+        const { data, error } = await supabase
+          .from('tasks')
+          .update({ ...changes, updated_at: new Date().toISOString() })
+          .eq('id', taskId)
+          .eq('version', expectedVersion)
+          .select('id, version');
+
+        if (error) {
+          console.error('Error updating task:', error);
+          return { success: false, error: error.message };
+        }
+
+        if (data && data.length > 0) {
+          return { success: true, version: data[0].version };
+        }
+
+        const { data: current, error: currentError } = await supabase
+          .from('tasks')
+          .select('*')
+          .eq('id', taskId)
+          .single();
+
+        if (currentError || !current) {
+          console.error('Error fetching current task:', currentError);
+          return { success: false, error: 'This task no longer exists' };
+        }
+
+        return {
+          success: false,
+          error: 'This task was changed by someone else',
+          conflict: current,
+        };
+      } catch (err) {
+        console.error('Exception updating task:', err);
+        return { success: false, error: 'An unexpected error occurred' };
+      } finally {
+        setSaving(false);
+      }
+    },
+    [],
+  );
+
+  return { saving, updateTask };
+};
+
+export const useTaskTimeEntries = (taskId: number) => {
+  const [entries, setEntries] = useState<TaskTimeEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const { user } = useAuth();
+
+  const fetchEntries = useCallback(async () => {
+    if (!taskId) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const supabase = getSupabaseClient();
+      const { data, error } = await supabase
+        .from('task_time_entries')
+        .select('*')
+        .eq('task_id', taskId)
+        .order('entry_date', { ascending: false })
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching time entries:', error);
+        setError(error.message);
+        setEntries([]);
+        return;
+      }
+
+      setEntries(data || []);
+    } catch (err) {
+      console.error('Exception fetching time entries:', err);
+      setError('Failed to load time entries');
+      setEntries([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [taskId]);
+
+  // The task's actual_hours is rolled up from these entries by the database
+  const addEntry = useCallback(
+    async ({ entryDate, hours, note }: { entryDate: string; hours: number; note?: string }) => {
+      if (!user?.id || !user.activeProjectId) {
+        return { success: false, error: 'No user or project' };
+      }
+
+      if (!(hours > 0 && hours <= 24)) {
+        return { success: false, error: 'Hours must be more than 0 and at most 24' };
+      }
+
+      setSaving(true);
+      setError(null);
+
+      try {
+        const supabase = getSupabaseClient();
+        const { error } = await supabase.from('task_time_entries').insert({
+          project_id: user.activeProjectId,
+          task_id: taskId,
+          user_id: user.id,
+          entry_date: entryDate,
+          hours,
+          note: note?.trim() || null,
+        });
+
+        if (error) {
+          console.error('Error adding time entry:', error);
+          setError(error.message);
+          return { success: false, error: error.message };
+        }
+
+        await fetchEntries();
+        return { success: true };
+      } catch (err) {
+        const errorMessage = 'An unexpected error occurred';
+        console.error('Exception adding time entry:', err);
+        setError(errorMessage);
+        return { success: false, error: errorMessage };
+      } finally {
+        setSaving(false);
+      }
+    },
+    [taskId, user?.id, user?.activeProjectId, fetchEntries],
+  );
+
+  const deleteEntry = useCallback(async (entryId: number) => {
+    setSaving(true);
+    setError(null);
+
+    try {
+      const supabase = getSupabaseClient();
+      const { error } = await supabase.from('task_time_entries').delete().eq('id', entryId);
+
+      if (error) {
+        console.error('Error deleting time entry:', error);
+        setError(error.message);
+        return { success: false, error: error.message };
+      }
+
+      setEntries((prev) => prev.filter((entry) => entry.id !== entryId));
+      return { success: true };
+    } catch (err) {
+      const errorMessage = 'An unexpected error occurred';
+      console.error('Exception deleting time entry:', err);
+      setError(errorMessage);
+      return { success: false, error: errorMessage };
+    } finally {
+      setSaving(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  return { entries, loading, error, saving, addEntry, deleteEntry, refresh: fetchEntries };
+};
+
+// Whether the active project keeps tasks out of done until their sign-off is approved
+export const useTaskSignoffRequired = () => {
+  const [required, setRequired] = useState(false);
+  const { user } = useAuth();
+
+  useEffect(() => {
+    if (!user?.activeProjectId) return;
+
+    const fetchSetting = async () => {
+      const supabase = getSupabaseClient();
+      const { data, error } = await supabase
+        .from('projects')
+        .select('require_task_signoff')
+        .eq('id', user.activeProjectId)
+        .single();
+
+      if (error) {
+        console.error('Error fetching project sign-off setting:', error);
+        return;
+      }
+
+      setRequired(!!data?.require_task_signoff);
+    };
+
+    fetchSetting();
+  }, [user?.activeProjectId]);
+
+  return required;
+};
+
+// The task's latest sign-off request and who was asked to approve it
+export const useTaskApproval = (taskId: number) => {
+  const [approval, setApproval] = useState<TaskApprovalSummary | null>(null);
+  const [approverIds, setApproverIds] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const { user } = useAuth();
+
+  const fetchApproval = useCallback(async () => {
+    if (!taskId) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const supabase = getSupabaseClient();
+      const { data, error } = await supabase
+        .from('approvals')
+        .select('id, status, due_at, approval_approvers (approver_id)')
+        .eq('entity_type', 'tasks')
+        .eq('entity_id', taskId)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching task approval:', error);
+        setError(error.message);
+        return;
+      }
+
+      setApproval(data ? { id: data.id, status: data.status, due_at: data.due_at } : null);
+      setApproverIds((data?.approval_approvers || []).map((a) => a.approver_id));
+    } catch (err) {
+      console.error('Exception fetching task approval:', err);
+      setError('Failed to load sign-off');
+    } finally {
+      setLoading(false);
+    }
+  }, [taskId]);
+
+  // Creates a new sign-off request and sends it straight to the approvers
+  const requestSignoff = useCallback(
+    async (approvers: string[]) => {
+      if (!user?.id) {
+        return { success: false, error: 'No user' };
+      }
+
+      if (approvers.length === 0) {
+        return { success: false, error: 'Choose at least one approver' };
+      }
+
+      setSaving(true);
+      setError(null);
+
+      try {
+        await createApproval({ entity_type: 'tasks', entity_id: taskId, approvers_id: approvers });
+        await submitApprovalForEntity({
+          entityId: taskId,
+          entityType: 'tasks',
+          status: 'submitted',
+          userId: user.id,
+        });
+
+        await fetchApproval();
+        return { success: true };
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'Failed to request sign-off';
+        console.error('Exception requesting task sign-off:', err);
+        setError(errorMessage);
+        return { success: false, error: errorMessage };
+      } finally {
+        setSaving(false);
+      }
+    },
+    [taskId, user?.id, fetchApproval],
+  );
+
+  // Sends a recalled request, or one sent back for revision, to the same approvers again
+  const resubmit = useCallback(async () => {
+    if (!user?.id) {
+      return { success: false, error: 'No user' };
+    }
+
+    setSaving(true);
+    setError(null);
+
+    try {
+      await submitApprovalForEntity({
+        entityId: taskId,
+        entityType: 'tasks',
+        status: 'submitted',
+        userId: user.id,
+      });
+
+      await fetchApproval();
+      return { success: true };
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to resubmit sign-off';
+      console.error('Exception resubmitting task sign-off:', err);
+      setError(errorMessage);
+      return { success: false, error: errorMessage };
+    } finally {
+      setSaving(false);
+    }
+  }, [taskId, user?.id, fetchApproval]);
+
+  useEffect(() => {
+    fetchApproval();
+  }, [fetchApproval]);
+
+  return {
+    approval,
+    approverIds,
+    loading,
+    error,
+    saving,
+    requestSignoff,
+    resubmit,
+    refresh: fetchApproval,
+  };
+};
+
+// Loads every time entry logged in the active project during the week starting on weekStart
+export const useWeeklyTimesheet = (weekStart: Date) => {
+  const [entries, setEntries] = useState<TimeEntryWithTask[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { user } = useAuth();
+
+  const from = format(weekStart, 'yyyy-MM-dd');
+  const to = format(addDays(weekStart, 6), 'yyyy-MM-dd');
+
+  const fetchEntries = useCallback(async () => {
+    if (!user?.activeProjectId) {
+      setEntries([]);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const supabase = getSupabaseClient();
+      const { data, error } = await supabase
+        .from('task_time_entries')
+        .select('*, task:tasks (id, title)')
+        .eq('project_id', user.activeProjectId)
+        .gte('entry_date', from)
+        .lte('entry_date', to)
+        .order('entry_date');
+
+      if (error) {
+        console.error('Error fetching timesheet entries:', error);
+        setError(error.message);
+        setEntries([]);
+        return;
+      }
+
+      setEntries(data || []);
+    } catch (err) {
+      console.error('Exception fetching timesheet entries:', err);
+      setError('Failed to load timesheet');
+      setEntries([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [user?.activeProjectId, from, to]);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  return { entries, loading, error, refresh: fetchEntries };
+};
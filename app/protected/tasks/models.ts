@@ -4,6 +4,7 @@ export type TaskWithRelations = Database['public']['Tables']['tasks']['Row'] & {
   // Relations
   priorities: Database['public']['Tables']['priorities']['Row'] | null;
   statuses: Database['public']['Tables']['statuses']['Row'] | null;
+  task_recurrences: TaskRecurrence | null;
 
   // Arrays of related entities
   entity_assignees: {
@@ -40,8 +41,109 @@ export type TaskWithRelations = Database['public']['Tables']['tasks']['Row'] & {
 
   // Position for ordering
   position: number | null;
+
+  // Subtask hierarchy
+  parent_task: Pick<Database['public']['Tables']['tasks']['Row'], 'id' | 'title'> | null;
+  subtasks: SubtaskSummary[];
+
+  // Finish-to-start dependencies this task is waiting on
+  blocked_by: DependencyTask[];
+
+  // Latest sign-off request, if one was ever made
+  approval: TaskApprovalSummary | null;
+};
+
+// Minimal task shape used when rendering subtask lists and breadcrumbs
+export type SubtaskSummary = Pick<
+  Database['public']['Tables']['tasks']['Row'],
+  'id' | 'title' | 'status_id' | 'parent_task_id' | 'due_date'
+>;
+
+// A subtask together with its own nested subtasks
+export type TaskTreeNode = SubtaskSummary & {
+  children: TaskTreeNode[];
+};
+
+// Minimal task shape shown on either side of a dependency
+export type DependencyTask = Pick<
+  Database['public']['Tables']['tasks']['Row'],
+  'id' | 'title' | 'status_id'
+>;
+
+// Enough of a task's sign-off request to show where it stands
+export type TaskApprovalSummary = Pick<
+  Database['public']['Tables']['approvals']['Row'],
+  'id' | 'status' | 'due_at'
+>;
+
+// A dependency edge together with the task on the other side of it
+export type TaskDependencyWithTask = Database['public']['Tables']['task_dependencies']['Row'] & {
+  task: DependencyTask;
+};
+
+// Due date ranges the task board can be filtered by
+export type TaskDueFilter = 'any' | 'overdue' | 'due_soon' | 'no_date';
+
+// Filter state for the task board, shared through the URL and saved as presets
+export type TaskFilters = {
+  assignees: string[];
+  labels: number[];
+  priorities: number[];
+  due: TaskDueFilter;
 };
 
+export type TaskFilterPreset = Omit<
+  Database['public']['Tables']['task_filter_presets']['Row'],
+  'filters'
+> & {
+  filters: TaskFilters;
+};
+
+export type TaskRecurrenceFrequency = 'daily' | 'weekdays' | 'weekly' | 'monthly';
+
+export type TaskRecurrence = Omit<
+  Database['public']['Tables']['task_recurrences']['Row'],
+  'frequency'
+> & {
+  frequency: TaskRecurrenceFrequency;
+};
+
+// The parts of a recurrence rule chosen when creating or editing a recurring task
+export type TaskRecurrenceRule = Pick<
+  TaskRecurrence,
+  'frequency' | 'days_of_week' | 'day_of_month' | 'ends_on'
+>;
+
+export type TaskTimeEntry = Database['public']['Tables']['task_time_entries']['Row'];
+
+// A time entry together with the task it was logged against, as shown on timesheets
+export type TimeEntryWithTask = TaskTimeEntry & {
+  task: Pick<Database['public']['Tables']['tasks']['Row'], 'id' | 'title'> | null;
+};
+
+// Changes applied to every selected task by bulk_update_tasks(); omitted keys are left alone.
+// due_date: null clears the due date.
+export type BulkTaskChanges = {
+  status_id?: number;
+  priority_id?: number;
+  due_date?: string | null;
+  add_assignees?: string[];
+  remove_assignees?: string[];
+  add_labels?: number[];
+  remove_labels?: number[];
+};
+
+// Task fields edited directly in the drawer and task page, saved with a version check
+export type TaskFieldChanges = Pick<
+  Database['public']['Tables']['tasks']['Update'],
+  'title' | 'description' | 'due_date' | 'start_date'
+>;
+
+// Everything saved through a version check, including the pill and board changes that
+// aren't merged in the conflict dialog
+export type TaskUpdateChanges = TaskFieldChanges &
+  Pick<Database['public']['Tables']['tasks']['Update'], 'status_id' | 'priority_id'>;
+
 // Define interface for user data
 export type UserData = {
   id: string;
@@ -1,13 +1,30 @@
 'use client';
 
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, Suspense } from 'react';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
 import { TaskCard } from '@/app/components/tasks/TaskCard';
 import { TaskColumnSkeleton } from '@/app/components/tasks/TaskColumnSkeleton';
 import { TaskCardSkeleton } from '@/app/components/tasks/TaskCardSkeleton';
-import { useTaskStatuses, useTaskPriorities, useTasks } from './hooks';
+import {
+  useTaskStatuses,
+  useTaskPriorities,
+  useTasks,
+  useTaskFilterPresets,
+  useBulkTaskUpdate,
+  useTaskSignoffRequired,
+  useTaskUpdate,
+} from './hooks';
 import { Button } from '@/components/ui/button';
-import { Plus } from 'lucide-react';
+import { CalendarRange, Columns3, Plus, Table2 } from 'lucide-react';
 import { AddTaskDrawer } from '@/app/components/tasks/AddTaskDrawer';
+import { TaskTimeline } from '@/app/components/tasks/TaskTimeline';
+import { TaskTable } from '@/app/components/tasks/TaskTable';
+import { TaskFilterBar } from '@/app/components/tasks/TaskFilterBar';
+import { TaskBulkActionBar } from '@/app/components/tasks/TaskBulkActionBar';
+import { useProjectMembers } from '@/hooks/useProjectMembers';
+import { useAuth } from '@/hooks/useAuth';
+import { usePresence } from '@/hooks/usePresence';
+import { PresenceAvatars } from '@/components/presence/PresenceAvatars';
 import {
   DndContext,
   DragOverlay,
@@ -32,10 +49,31 @@ import {
   useSortable,
 } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
-import { TaskWithRelations } from './models';
+import { BulkTaskChanges, DependencyTask, TaskFilters, TaskWithRelations } from './models';
+import { toast } from 'sonner';
 import { cn } from '@/lib/utils';
 import { getSupabaseClient } from '@/lib/supabase/client';
 import { Database } from '@/lib/supabase/types.generated';
+import {
+  getDoneStatusId,
+  getUnfinishedPredecessors,
+  isSignoffPending,
+} from '@/lib/utils/task-utils';
+import {
+  filterTasks,
+  taskFiltersFromSearchParams,
+  taskFiltersToSearchParams,
+} from '@/lib/utils/task-filters';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
 
 // Define types for task position data
 type TaskPosition = {
@@ -44,10 +82,35 @@ type TaskPosition = {
   position: number;
 };
 
-export default function TasksPage() {
+type TaskView = 'board' | 'table' | 'timeline';
+
+const TASK_VIEWS: TaskView[] = ['board', 'table', 'timeline'];
+
+// The view and filters live in the query string so a filtered view can be shared as a link
+function TasksPageContent() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const requestedView = searchParams.get('view') as TaskView | null;
+  const view: TaskView =
+    requestedView && TASK_VIEWS.includes(requestedView) ? requestedView : 'board';
+  const filters = useMemo(
+    () => taskFiltersFromSearchParams(new URLSearchParams(searchParams.toString())),
+    [searchParams],
+  );
+
   const { statuses, loading: loadingStatuses } = useTaskStatuses();
   const { priorities, loading: loadingPriorities } = useTaskPriorities();
   const { tasks: remoteTasks, loading: loadingTasks, refresh: refreshTasks } = useTasks();
+  const { members } = useProjectMembers();
+  const { user } = useAuth();
+  const viewers = usePresence(
+    user?.activeProjectId ? `presence:tasks:${user.activeProjectId}` : null,
+  );
+  const { presets, saving: savingPreset, savePreset, deletePreset } = useTaskFilterPresets();
+  const { saving: savingBulk, bulkUpdate } = useBulkTaskUpdate();
+  const { updateTask } = useTaskUpdate();
+  const [selectedTaskIds, setSelectedTaskIds] = useState<number[]>([]);
   const [tasks, setTasks] = useState<TaskWithRelations[]>([]);
   const [activeId, setActiveId] = useState<UniqueIdentifier | null>(null);
   const [isAddTaskDrawerOpen, setIsAddTaskDrawerOpen] = useState(false);
@@ -55,6 +118,113 @@ export default function TasksPage() {
     overTaskId: number | null;
     overStatusId: number | null;
   }>({ overTaskId: null, overStatusId: null });
+  const [blockedMove, setBlockedMove] = useState<{
+    taskId: number;
+    taskTitle: string;
+    statusId: number;
+    predecessors: DependencyTask[];
+  } | null>(null);
+  const [blockedBulkChange, setBlockedBulkChange] = useState<{
+    changes: BulkTaskChanges;
+    tasks: { id: number; title: string; predecessors: DependencyTask[] }[];
+  } | null>(null);
+
+  const doneStatusId = useMemo(() => getDoneStatusId(statuses), [statuses]);
+  const signoffRequired = useTaskSignoffRequired();
+
+  const filteredTasks = useMemo(
+    () => filterTasks(tasks, filters, doneStatusId),
+    [tasks, filters, doneStatusId],
+  );
+
+  // Tasks hidden by the filters stay out of bulk actions
+  const visibleSelectedTaskIds = useMemo(
+    () => selectedTaskIds.filter((id) => filteredTasks.some((task) => task.id === id)),
+    [selectedTaskIds, filteredTasks],
+  );
+
+  const toggleTaskSelection = (taskId: number) => {
+    setSelectedTaskIds((prev) =>
+      prev.includes(taskId) ? prev.filter((id) => id !== taskId) : [...prev, taskId],
+    );
+  };
+
+  // Moving selected tasks to done asks for the same confirmation as dropping a blocked task
+  // into the done column. Predecessors selected along with them count as finishing too.
+  const applyBulkChanges = async (changes: BulkTaskChanges) => {
+    if (changes.status_id !== undefined && changes.status_id === doneStatusId) {
+      const blockedTasks = tasks
+        .filter((task) => visibleSelectedTaskIds.includes(task.id))
+        .map((task) => ({
+          id: task.id,
+          title: task.title,
+          predecessors: getUnfinishedPredecessors(task.blocked_by, doneStatusId).filter(
+            (predecessor) => !visibleSelectedTaskIds.includes(predecessor.id),
+          ),
+        }))
+        .filter((task) => task.predecessors.length > 0);
+
+      if (blockedTasks.length > 0) {
+        setBlockedBulkChange({ changes, tasks: blockedTasks });
+        return;
+      }
+    }
+
+    await runBulkUpdate(changes);
+  };
+
+  const runBulkUpdate = async (changes: BulkTaskChanges) => {
+    const result = await bulkUpdate(visibleSelectedTaskIds, changes);
+
+    if (!result.success) {
+      toast.error(result.error || 'Failed to update tasks');
+      return;
+    }
+
+    toast.success(`Updated ${result.updated} ${result.updated === 1 ? 'task' : 'tasks'}`);
+    setSelectedTaskIds([]);
+    refreshTasks();
+  };
+
+  // Escape clears the selection
+  useEffect(() => {
+    if (selectedTaskIds.length === 0) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setSelectedTaskIds([]);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [selectedTaskIds.length]);
+
+  // Only labels that are in use on this project's tasks are offered as filters
+  const labelOptions = useMemo(() => {
+    const labels = new Map<number, TaskWithRelations['labels'][number]>();
+    tasks.forEach((task) => task.labels.forEach((label) => label && labels.set(label.id, label)));
+    return Array.from(labels.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }, [tasks]);
+
+  const updateQuery = (params: URLSearchParams) => {
+    const query = params.toString();
+    router.replace(query ? `${pathname}?${query}` : pathname, { scroll: false });
+  };
+
+  const setView = (nextView: TaskView) => {
+    const params = new URLSearchParams(searchParams.toString());
+    if (nextView === 'board') {
+      params.delete('view');
+    } else {
+      params.set('view', nextView);
+    }
+    updateQuery(params);
+  };
+
+  const setFilters = (nextFilters: TaskFilters) => {
+    updateQuery(
+      taskFiltersToSearchParams(nextFilters, new URLSearchParams(searchParams.toString())),
+    );
+  };
 
   // Get the active task
   const activeTask = useMemo(() => {
@@ -66,14 +236,14 @@ export default function TasksPage() {
   const tasksByStatus = useMemo(() => {
     const result: Record<number, TaskWithRelations[]> = {};
 
-    if (statuses && tasks) {
+    if (statuses && filteredTasks) {
       // Initialize empty arrays for each status
       statuses.forEach((status) => {
         result[status.id] = [];
       });
 
       // Group tasks by status
-      tasks.forEach((task) => {
+      filteredTasks.forEach((task) => {
         if (task.status_id in result) {
           result[task.status_id].push(task);
         }
@@ -86,7 +256,7 @@ export default function TasksPage() {
     }
 
     return result;
-  }, [statuses, tasks]);
+  }, [statuses, filteredTasks]);
 
   // Sync remote data to local state
   useEffect(() => {
@@ -169,7 +339,7 @@ export default function TasksPage() {
 
         if (activeTask.status_id !== dropStatusId) {
           // Only update if status changed
-          await updateTaskStatus(activeTaskId, dropStatusId);
+          await moveTaskToStatus(activeTask, dropStatusId);
         } else {
           // We're dropping back in the same column - move to the end
           const tasksInColumn = tasksByStatus[dropStatusId] || [];
@@ -192,7 +362,7 @@ export default function TasksPage() {
 
         if (activeTask.status_id !== overTask.status_id) {
           // Moving to a different column
-          await updateTaskStatus(activeTaskId, overTask.status_id);
+          await moveTaskToStatus(activeTask, overTask.status_id);
         } else {
           // Reordering within the same column
           const tasksInSameStatus = tasksByStatus[activeTask.status_id] || [];
@@ -212,9 +382,34 @@ export default function TasksPage() {
     }
   };
 
+  // Ask for confirmation before a task with unfinished predecessors is moved to done, and keep
+  // tasks waiting on sign-off out of done when the project requires it
+  const moveTaskToStatus = async (task: TaskWithRelations, newStatusId: number) => {
+    if (newStatusId === doneStatusId && signoffRequired && isSignoffPending(task.approval)) {
+      toast.error(`"${task.title}" can't be moved to done until its sign-off is approved`);
+      return;
+    }
+
+    const unfinished = getUnfinishedPredecessors(task.blocked_by, doneStatusId);
+
+    if (newStatusId === doneStatusId && unfinished.length > 0) {
+      setBlockedMove({
+        taskId: task.id,
+        taskTitle: task.title,
+        statusId: newStatusId,
+        predecessors: unfinished,
+      });
+      return;
+    }
+
+    await updateTaskStatus(task.id, newStatusId);
+  };
+
   // Update task status and position in a new column
   const updateTaskStatus = async (taskId: number, newStatusId: number) => {
     const supabase = getSupabaseClient();
+    const movedTask = tasks.find((task) => task.id === taskId);
+    if (!movedTask) return;
 
     // Get all tasks in the target status, ordered by position
     const tasksInTargetStatus = tasksByStatus[newStatusId] || [];
@@ -226,8 +421,17 @@ export default function TasksPage() {
         : 1000;
 
     try {
-      // First update the task's status
-      await supabase.from('tasks').update({ status_id: newStatusId }).eq('id', taskId);
+      // First update the task's status, unless someone else has saved it since it was loaded
+      const result = await updateTask(taskId, movedTask.version, { status_id: newStatusId });
+      if (!result.success) {
+        if (result.conflict) {
+          toast.error(`"${movedTask.title}" was changed by someone else. Check it and try again.`);
+        } else {
+          console.error('Error updating task status:', result.error);
+        }
+        refreshTasks();
+        return;
+      }
 
       // Check if position record already exists
       const { data: existingPosition } = await supabase
@@ -259,7 +463,14 @@ export default function TasksPage() {
       // Optimistically update the local state
       setTasks(
         tasks.map((task) =>
-          task.id === taskId ? { ...task, status_id: newStatusId, position: newPosition } : task,
+          task.id === taskId
+            ? {
+                ...task,
+                status_id: newStatusId,
+                position: newPosition,
+                version: result.version ?? task.version,
+              }
+            : task,
         ),
       );
     } catch (error) {
@@ -413,6 +624,43 @@ export default function TasksPage() {
     }
   };
 
+  // Save dates changed by dragging a bar on the timeline
+  const rescheduleTask = async (
+    taskId: number,
+    dates: { start_date: string | null; due_date: string },
+  ) => {
+    const previousTasks = tasks;
+    const rescheduledTask = tasks.find((task) => task.id === taskId);
+    if (!rescheduledTask) return;
+
+    // Optimistically update the local state
+    setTasks(tasks.map((task) => (task.id === taskId ? { ...task, ...dates } : task)));
+
+    try {
+      const result = await updateTask(taskId, rescheduledTask.version, dates);
+
+      if (result.conflict) {
+        toast.error(
+          `"${rescheduledTask.title}" was changed by someone else. Check it and try again.`,
+        );
+        setTasks(previousTasks);
+        refreshTasks();
+      } else if (!result.success) {
+        console.error('Error rescheduling task:', result.error);
+        setTasks(previousTasks);
+      } else {
+        setTasks((current) =>
+          current.map((task) =>
+            task.id === taskId ? { ...task, version: result.version ?? task.version } : task,
+          ),
+        );
+      }
+    } catch (error) {
+      console.error('Error rescheduling task:', error);
+      setTasks(previousTasks);
+    }
+  };
+
   // Check if the page is in a loading state
   const loading = loadingStatuses || loadingPriorities || loadingTasks;
 
@@ -441,18 +689,76 @@ export default function TasksPage() {
   return (
     <div className="p-4">
       <div className="mb-6 flex items-center justify-between">
-        <h1 className="text-2xl font-bold">Tasks</h1>
-        <Button
-          variant="default"
-          className="flex items-center gap-1"
-          onClick={() => setIsAddTaskDrawerOpen(true)}
-        >
-          <Plus size={16} />
-          Add Task
-        </Button>
+        <div className="flex items-center gap-4">
+          <h1 className="text-2xl font-bold">Tasks</h1>
+          <PresenceAvatars viewers={viewers} />
+        </div>
+        <div className="flex items-center gap-2">
+          {/* View switcher */}
+          <div className="flex rounded-md border border-border p-0.5">
+            <Button
+              variant={view === 'board' ? 'secondary' : 'ghost'}
+              size="sm"
+              className="flex items-center gap-1"
+              onClick={() => setView('board')}
+            >
+              <Columns3 size={16} />
+              Board
+            </Button>
+            <Button
+              variant={view === 'table' ? 'secondary' : 'ghost'}
+              size="sm"
+              className="flex items-center gap-1"
+              onClick={() => setView('table')}
+            >
+              <Table2 size={16} />
+              Table
+            </Button>
+            <Button
+              variant={view === 'timeline' ? 'secondary' : 'ghost'}
+              size="sm"
+              className="flex items-center gap-1"
+              onClick={() => setView('timeline')}
+            >
+              <CalendarRange size={16} />
+              Timeline
+            </Button>
+          </div>
+          <Button
+            variant="default"
+            className="flex items-center gap-1"
+            onClick={() => setIsAddTaskDrawerOpen(true)}
+          >
+            <Plus size={16} />
+            Add Task
+          </Button>
+        </div>
       </div>
 
-      {isAddTaskDrawerOpen ? (
+      <TaskFilterBar
+        filters={filters}
+        onFiltersChange={setFilters}
+        members={members}
+        labels={labelOptions}
+        priorities={priorities}
+        presets={presets}
+        savingPreset={savingPreset}
+        onSavePreset={(name) => savePreset(name, filters)}
+        onDeletePreset={deletePreset}
+        resultCount={filteredTasks.length}
+        totalCount={tasks.length}
+      />
+
+      {view === 'timeline' ? (
+        <TaskTimeline tasks={filteredTasks} allStatuses={statuses} onReschedule={rescheduleTask} />
+      ) : view === 'table' ? (
+        <TaskTable
+          tasks={filteredTasks}
+          allStatuses={statuses}
+          allPriorities={priorities}
+          refreshTasks={refreshTasks}
+        />
+      ) : isAddTaskDrawerOpen ? (
         // Static view when drawer is open
         <TaskColumnsStatic
           statuses={statuses}
@@ -480,6 +786,8 @@ export default function TasksPage() {
                 allStatuses={statuses}
                 allPriorities={priorities}
                 refreshTasks={refreshTasks}
+                selectedTaskIds={visibleSelectedTaskIds}
+                onToggleSelect={toggleTaskSelection}
               />
             ))}
           </div>
@@ -523,6 +831,7 @@ export default function TasksPage() {
                   allPriorities={priorities}
                   refreshTasks={refreshTasks}
                   className="cursor-grabbing shadow-lg"
+                  selected={visibleSelectedTaskIds.includes(activeTask.id)}
                 />
               </div>
             )}
@@ -530,6 +839,94 @@ export default function TasksPage() {
         </DndContext>
       )}
 
+      {view === 'board' && visibleSelectedTaskIds.length > 0 && (
+        <TaskBulkActionBar
+          selectedCount={visibleSelectedTaskIds.length}
+          statuses={statuses}
+          priorities={priorities}
+          members={members}
+          saving={savingBulk}
+          onApply={applyBulkChanges}
+          onClearSelection={() => setSelectedTaskIds([])}
+        />
+      )}
+
+      {/* Warning when a blocked task is dropped into the done column */}
+      <AlertDialog open={!!blockedMove} onOpenChange={(open) => !open && setBlockedMove(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Task is blocked</AlertDialogTitle>
+            <AlertDialogDescription>
+              &ldquo;{blockedMove?.taskTitle}&rdquo; is still waiting on{' '}
+              {blockedMove?.predecessors.length === 1
+                ? 'a task that is'
+                : `${blockedMove?.predecessors.length} tasks that are`}{' '}
+              not done:
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <ul className="list-disc space-y-1 pl-6 text-sm">
+            {blockedMove?.predecessors.map((predecessor) => (
+              <li key={predecessor.id}>{predecessor.title}</li>
+            ))}
+          </ul>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={async () => {
+                if (blockedMove) {
+                  await updateTaskStatus(blockedMove.taskId, blockedMove.statusId);
+                }
+                setBlockedMove(null);
+              }}
+            >
+              Move anyway
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* Warning when selected tasks that are still blocked are moved to done */}
+      <AlertDialog
+        open={!!blockedBulkChange}
+        onOpenChange={(open) => !open && setBlockedBulkChange(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {blockedBulkChange?.tasks.length === 1 ? 'Task is blocked' : 'Tasks are blocked'}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {blockedBulkChange?.tasks.length === 1
+                ? 'A selected task is'
+                : `${blockedBulkChange?.tasks.length} selected tasks are`}{' '}
+              still waiting on tasks that are not done:
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <ul className="list-disc space-y-1 pl-6 text-sm">
+            {blockedBulkChange?.tasks.map((task) => (
+              <li key={task.id}>
+                <span className="font-medium">{task.title}</span>
+                {' waits on '}
+                {task.predecessors.map((predecessor) => predecessor.title).join(', ')}
+              </li>
+            ))}
+          </ul>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={async () => {
+                if (blockedBulkChange) {
+                  await runBulkUpdate(blockedBulkChange.changes);
+                }
+                setBlockedBulkChange(null);
+              }}
+            >
+              Move anyway
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       {/* Add Task Drawer */}
       <AddTaskDrawer
         isOpen={isAddTaskDrawerOpen}
@@ -551,6 +948,16 @@ export default function TasksPage() {
   );
 }
 
+export default function TasksPage() {
+  return (
+    <Suspense
+      fallback={<div className="flex items-center justify-center p-8">Loading tasks...</div>}
+    >
+      <TasksPageContent />
+    </Suspense>
+  );
+}
+
 // Static view of columns when add drawer is open
 function TaskColumnsStatic({
   statuses,
@@ -632,12 +1039,18 @@ function SortableTaskCard({
   allStatuses,
   allPriorities,
   refreshTasks,
+  selected,
+  selectionActive,
+  onToggleSelect,
 }: {
   task: TaskWithRelations;
   isActive: boolean;
   allStatuses: Database['public']['Tables']['statuses']['Row'][];
   allPriorities: Database['public']['Tables']['priorities']['Row'][];
   refreshTasks: () => void;
+  selected: boolean;
+  selectionActive: boolean;
+  onToggleSelect: (taskId: number) => void;
 }) {
   const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({
     id: task.id,
@@ -690,6 +1103,9 @@ function SortableTaskCard({
         allPriorities={allPriorities}
         refreshTasks={refreshTasks}
         className={cn('cursor-grab active:cursor-grabbing', isDragging && 'ring-2 ring-primary')}
+        selected={selected}
+        selectionActive={selectionActive}
+        onToggleSelect={onToggleSelect}
       />
     </div>
   );
@@ -715,6 +1131,8 @@ function TaskColumn({
   allStatuses,
   allPriorities,
   refreshTasks,
+  selectedTaskIds,
+  onToggleSelect,
 }: {
   status: Database['public']['Tables']['statuses']['Row'];
   tasks: TaskWithRelations[];
@@ -723,6 +1141,8 @@ function TaskColumn({
   allStatuses: Database['public']['Tables']['statuses']['Row'][];
   allPriorities: Database['public']['Tables']['priorities']['Row'][];
   refreshTasks: () => void;
+  selectedTaskIds: number[];
+  onToggleSelect: (taskId: number) => void;
 }) {
   // Set up the column as a droppable area
   const { setNodeRef } = useDroppable({
@@ -791,6 +1211,9 @@ function TaskColumn({
                 allStatuses={allStatuses}
                 allPriorities={allPriorities}
                 refreshTasks={refreshTasks}
+                selected={selectedTaskIds.includes(task.id)}
+                selectionActive={selectedTaskIds.length > 0}
+                onToggleSelect={onToggleSelect}
               />
             </React.Fragment>
           ))}
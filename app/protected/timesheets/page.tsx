@@ -0,0 +1,241 @@
+'use client';
+
+import { Fragment, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { addWeeks, format, isSameDay, parseISO, startOfWeek } from 'date-fns';
+import { ChevronDown, ChevronLeft, ChevronRight, ChevronUp, Clock, Download } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useProjectMembers } from '@/hooks/useProjectMembers';
+import { useWeeklyTimesheet } from '../tasks/hooks';
+import { downloadCsv } from '@/lib/utils/csv';
+import {
+  buildWeeklyTimesheet,
+  getWeekDays,
+  TimesheetRow,
+  weeklyTimesheetToCsv,
+  workerTimesheetToCsv,
+} from '@/lib/utils/timesheet-utils';
+import { cn } from '@/lib/utils';
+
+const WEEK_OPTIONS = { weekStartsOn: 1 } as const;
+
+export default function TimesheetsPage() {
+  const [weekStart, setWeekStart] = useState(() => startOfWeek(new Date(), WEEK_OPTIONS));
+  const [expandedUserId, setExpandedUserId] = useState<string | null>(null);
+  const { entries, loading, error } = useWeeklyTimesheet(weekStart);
+  const { members, loading: loadingMembers } = useProjectMembers();
+
+  const days = getWeekDays(weekStart);
+  const today = new Date();
+
+  const rows = useMemo(
+    () =>
+      buildWeeklyTimesheet(
+        entries,
+        weekStart,
+        (userId) => members.find((member) => member.id === userId)?.name || 'Unknown',
+      ),
+    [entries, weekStart, members],
+  );
+
+  const dailyTotals = days.map(
+    (_, index) => Math.round(rows.reduce((sum, row) => sum + row.dailyHours[index], 0) * 100) / 100,
+  );
+  const weekTotal = Math.round(rows.reduce((sum, row) => sum + row.total, 0) * 100) / 100;
+  const weekLabel = format(weekStart, 'yyyy-MM-dd');
+
+  const handleExportAll = () => {
+    downloadCsv(`timesheet-${weekLabel}.csv`, weeklyTimesheetToCsv(rows, weekStart));
+  };
+
+  const handleExportWorker = (row: TimesheetRow) => {
+    const slug = row.name.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+    downloadCsv(`timesheet-${weekLabel}-${slug}.csv`, workerTimesheetToCsv(row));
+  };
+
+  return (
+    <div className="flex w-full flex-1 flex-col gap-6">
+      {/* Page Header */}
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-primary">
+            <Clock className="h-6 w-6 text-primary-foreground" />
+          </div>
+          <div>
+            <h1 className="text-2xl font-bold tracking-tight">Timesheets</h1>
+            <p className="text-muted-foreground">Hours logged against tasks, by worker</p>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setWeekStart(startOfWeek(new Date(), WEEK_OPTIONS))}
+          >
+            This week
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setWeekStart((prev) => addWeeks(prev, -1))}
+            aria-label="Previous week"
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setWeekStart((prev) => addWeeks(prev, 1))}
+            aria-label="Next week"
+          >
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          <Button
+            size="sm"
+            className="flex items-center gap-1"
+            onClick={handleExportAll}
+            disabled={rows.length === 0}
+          >
+            <Download className="h-4 w-4" />
+            Export CSV
+          </Button>
+        </div>
+      </div>
+
+      <h2 className="text-lg font-semibold">
+        Week of {format(weekStart, 'MMM d')} – {format(days[6], 'MMM d, yyyy')}
+      </h2>
+
+      {error && <p className="text-sm text-red-500">{error}</p>}
+
+      {loading || loadingMembers ? (
+        <Skeleton className="h-[300px] w-full" />
+      ) : (
+        <div className="overflow-x-auto rounded-lg border border-border bg-card">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Worker</TableHead>
+                {days.map((day) => (
+                  <TableHead
+                    key={day.toISOString()}
+                    className={cn('text-right', isSameDay(day, today) && 'text-blue-500')}
+                  >
+                    {format(day, 'EEE d')}
+                  </TableHead>
+                ))}
+                <TableHead className="text-right">Total</TableHead>
+                <TableHead className="w-10" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={10} className="py-8 text-center text-muted-foreground">
+                    No time logged this week
+                  </TableCell>
+                </TableRow>
+              ) : (
+                rows.map((row) => {
+                  const expanded = expandedUserId === row.userId;
+                  return (
+                    <Fragment key={row.userId}>
+                      <TableRow
+                        className="cursor-pointer"
+                        onClick={() => setExpandedUserId(expanded ? null : row.userId)}
+                      >
+                        <TableCell className="font-medium">
+                          <span className="flex items-center gap-1">
+                            {expanded ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+                            {row.name}
+                          </span>
+                        </TableCell>
+                        {row.dailyHours.map((hours, index) => (
+                          <TableCell
+                            key={index}
+                            className={cn('text-right', !hours && 'text-muted-foreground')}
+                          >
+                            {hours || '–'}
+                          </TableCell>
+                        ))}
+                        <TableCell className="text-right font-semibold">{row.total}</TableCell>
+                        <TableCell>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleExportWorker(row);
+                            }}
+                            aria-label={`Export CSV for ${row.name}`}
+                          >
+                            <Download className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+
+                      {expanded && (
+                        <TableRow className="bg-muted/30 hover:bg-muted/30">
+                          <TableCell colSpan={10}>
+                            <ul className="space-y-1 text-sm">
+                              {[...row.entries]
+                                .sort((a, b) => a.entry_date.localeCompare(b.entry_date))
+                                .map((entry) => (
+                                  <li key={entry.id} className="flex items-center gap-4">
+                                    <span className="w-24 shrink-0 text-muted-foreground">
+                                      {format(parseISO(entry.entry_date), 'EEE MMM d')}
+                                    </span>
+                                    <Link
+                                      href={`/protected/tasks/${entry.task_id}`}
+                                      className="flex-1 truncate hover:underline"
+                                    >
+                                      {entry.task?.title ?? `Task #${entry.task_id}`}
+                                    </Link>
+                                    <span className="flex-1 truncate text-muted-foreground">
+                                      {entry.note}
+                                    </span>
+                                    <span className="w-12 shrink-0 text-right font-medium">
+                                      {Number(entry.hours)}h
+                                    </span>
+                                  </li>
+                                ))}
+                            </ul>
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </Fragment>
+                  );
+                })
+              )}
+            </TableBody>
+            {rows.length > 0 && (
+              <TableFooter>
+                <TableRow>
+                  <TableCell className="font-medium">Total</TableCell>
+                  {dailyTotals.map((hours, index) => (
+                    <TableCell key={index} className="text-right">
+                      {hours || '–'}
+                    </TableCell>
+                  ))}
+                  <TableCell className="text-right font-semibold">{weekTotal}</TableCell>
+                  <TableCell />
+                </TableRow>
+              </TableFooter>
+            )}
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { History } from 'lucide-react';
+import { ActivityEntityType, ActivityLogEntry, activityLogAPI } from '@/lib/api/activity-log';
+import {
+  ActivityFieldOptions,
+  describeActivity,
+  getActivityChangeLines,
+  groupActivityEntries,
+} from '@/lib/utils/activity';
+
+interface ActivityTimelineProps extends ActivityFieldOptions {
+  entityType: ActivityEntityType;
+  entityId: number;
+}
+
+/**
+ * Who changed what and when on a task, form entry or site diary, newest first
+ */
+export function ActivityTimeline({
+  entityType,
+  entityId,
+  labels,
+  formatters,
+}: ActivityTimelineProps) {
+  const [entries, setEntries] = useState<ActivityLogEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadActivity = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const data = await activityLogAPI.getEntityActivity(entityType, entityId);
+        if (!cancelled) setEntries(groupActivityEntries(data));
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load activity');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadActivity();
+    return () => {
+      cancelled = true;
+    };
+  }, [entityType, entityId]);
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-4">
+        <div className="animate-pulse text-muted-foreground">Loading activity...</div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className="py-4 text-center text-sm text-red-500">{error}</p>;
+  }
+
+  if (entries.length === 0) {
+    return <div className="py-4 text-center text-muted-foreground">No activity yet</div>;
+  }
+
+  return (
+    <ol className="space-y-4">
+      {entries.map((entry) => {
+        const lines = getActivityChangeLines(entry, { labels, formatters });
+
+        return (
+          <li key={entry.id} className="flex gap-3">
+            <History className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />
+            <div className="min-w-0 flex-1">
+              <p className="text-sm">
+                <span className="font-medium">{entry.actor_name || 'System'}</span>{' '}
+                {describeActivity(entry)}
+              </p>
+              <p
+                className="text-xs text-muted-foreground"
+                title={format(new Date(entry.created_at), 'PPpp')}
+              >
+                {formatDistanceToNow(new Date(entry.created_at), { addSuffix: true })}
+              </p>
+              {lines.length > 0 && (
+                <ul className="mt-2 space-y-1 rounded-md bg-muted/50 p-2 text-xs">
+                  {lines.map((line) => (
+                    <li key={line.field} className="break-words">
+                      <span className="font-medium">{line.label}:</span>{' '}
+                      <span className="text-muted-foreground line-through">{line.from}</span>
+                      {' → '}
+                      <span>{line.to}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
@@ -9,7 +9,13 @@ import {
   AccordionTrigger,
 } from '@/components/ui/accordion';
 import { Button } from '@/components/ui/button';
-import { createApproval } from '@/lib/api/approvals';
+import {
+  ApprovalDeadlineSettings,
+  ApprovalPolicySettings,
+  createApproval,
+} from '@/lib/api/approvals';
+import { ApprovalPolicyPicker } from '@/components/approvals/ApprovalPolicyPicker';
+import { ApprovalDeadlinePicker } from '@/components/approvals/ApprovalDeadlinePicker';
 import {
   Dialog,
   DialogContent,
@@ -66,6 +72,8 @@ export function ApprovalStatusAccordian({
   const [dialogOpen, setDialogOpen] = useState(false);
   const [users, setUsers] = useState<User[]>([]);
   const [selectedApprovers, setSelectedApprovers] = useState<string[]>([]);
+  const [policySettings, setPolicySettings] = useState<ApprovalPolicySettings>({ policy: 'all' });
+  const [deadlineSettings, setDeadlineSettings] = useState<ApprovalDeadlineSettings>({});
   const [requesterName, setRequesterName] = useState('');
   const [createLoading, setCreateLoading] = useState(false);
   const [externalEmail, setExternalEmail] = useState('');
@@ -301,6 +309,8 @@ export function ApprovalStatusAccordian({
         entity_type: entityType,
         entity_id: entryId,
         approvers_id: selectedApprovers,
+        ...policySettings,
+        ...deadlineSettings,
       });
 
       setDialogOpen(false);
@@ -320,7 +330,9 @@ export function ApprovalStatusAccordian({
       }
     } catch (err) {
       console.error('Failed to create approval:', err);
-      alert('Failed to create approval request. Please try again.');
+      alert(
+        err instanceof Error ? err.message : 'Failed to create approval request. Please try again.',
+      );
     } finally {
       setCreateLoading(false);
     }
@@ -542,13 +554,16 @@ export function ApprovalStatusAccordian({
                       <div className="mt-4">
                         <Label className="mb-2 block">Selected Approvers</Label>
                         <div className="flex flex-wrap gap-2">
-                          {selectedApprovers.map((approverId) => {
+                          {selectedApprovers.map((approverId, index) => {
                             const user = getUserById(approverId);
                             return (
                               <div
                                 key={approverId}
                                 className="flex items-center gap-1 rounded-md bg-muted px-2 py-1 text-sm"
                               >
+                                {policySettings.policy === 'sequential' && (
+                                  <span className="text-muted-foreground">{index + 1}.</span>
+                                )}
                                 <span>{getUserName(user)}</span>
                                 <button
                                   type="button"
@@ -567,6 +582,18 @@ export function ApprovalStatusAccordian({
                         </div>
                       </div>
                     )}
+
+                    <ApprovalPolicyPicker
+                      value={policySettings}
+                      onChange={setPolicySettings}
+                      approverCount={selectedApprovers.length}
+                    />
+
+                    <ApprovalDeadlinePicker
+                      value={deadlineSettings}
+                      onChange={setDeadlineSettings}
+                      approverIds={selectedApprovers}
+                    />
                   </div>
                   <DialogFooter>
                     <Button onClick={handleCreateApproval} disabled={createLoading}>
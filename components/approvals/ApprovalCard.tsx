@@ -3,9 +3,9 @@
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Avatar, AvatarFallback } from '@/app/components/ui/avatar';
-import { Book, FileText, List, CheckSquare, Clock, User } from 'lucide-react';
-import { ApprovalWithDetails } from '@/lib/api/approvals';
-import { formatDistanceToNow } from 'date-fns';
+import { Book, FileText, List, CheckSquare, Clock, User, AlarmClock } from 'lucide-react';
+import { ApprovalWithDetails, isApprovalOverdue } from '@/lib/api/approvals';
+import { format, formatDistanceToNow } from 'date-fns';
 
 interface ApprovalCardProps {
   approval: ApprovalWithDetails;
@@ -73,6 +73,7 @@ export function ApprovalCard({ approval, onClick }: ApprovalCardProps) {
   };
 
   const EntityIcon = getEntityIcon(approval.entity_type);
+  const overdue = isApprovalOverdue(approval);
 
   return (
     <Card className="cursor-pointer transition-colors hover:bg-muted/50" onClick={onClick}>
@@ -93,9 +94,12 @@ export function ApprovalCard({ approval, onClick }: ApprovalCardProps) {
                   {formatEntityType(approval.entity_type)} #{approval.entity_id}
                 </p>
               </div>
-              <Badge className={`${getStatusColor(approval.status)} shrink-0 text-white`}>
-                {formatStatus(approval.status)}
-              </Badge>
+              <div className="flex shrink-0 items-center gap-1">
+                {overdue && <Badge variant="destructive">Overdue</Badge>}
+                <Badge className={`${getStatusColor(approval.status)} text-white`}>
+                  {formatStatus(approval.status)}
+                </Badge>
+              </div>
             </div>
 
             {/* Requester Info */}
@@ -110,10 +114,26 @@ export function ApprovalCard({ approval, onClick }: ApprovalCardProps) {
               </span>
             </div>
 
+            {approval.on_behalf_of_name && (
+              <p className="mb-2 text-xs text-muted-foreground">
+                On behalf of {approval.on_behalf_of_name} while they are out of office
+              </p>
+            )}
+
             {/* Time */}
-            <div className="flex items-center gap-1 text-xs text-muted-foreground">
-              <Clock className="h-3 w-3" />
-              <span>{formatDistanceToNow(new Date(approval.created_at), { addSuffix: true })}</span>
+            <div className="flex items-center gap-3 text-xs text-muted-foreground">
+              <div className="flex items-center gap-1">
+                <Clock className="h-3 w-3" />
+                <span>
+                  {formatDistanceToNow(new Date(approval.created_at), { addSuffix: true })}
+                </span>
+              </div>
+              {approval.due_at && (
+                <div className={`flex items-center gap-1 ${overdue ? 'text-destructive' : ''}`}>
+                  <AlarmClock className="h-3 w-3" />
+                  <span>Due {format(new Date(approval.due_at), 'MMM d')}</span>
+                </div>
+              )}
             </div>
           </div>
         </div>
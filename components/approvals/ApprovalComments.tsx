@@ -2,13 +2,15 @@
 
 import { useState } from 'react';
 import { Button } from '@/components/ui/button';
-import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent } from '@/components/ui/card';
 import { MessageSquare, Send, Loader2, AlertCircle, User } from 'lucide-react';
 import { Avatar, AvatarFallback } from '@/app/components/ui/avatar';
 import { addApprovalComment } from '@/lib/api/approvals';
 import { formatDistanceToNow } from 'date-fns';
+import { useProjectMembers } from '@/hooks/useProjectMembers';
+import { MentionTextarea } from '@/components/mentions/MentionTextarea';
+import { MentionText } from '@/components/mentions/MentionText';
 
 interface ApprovalComment {
   id: number;
@@ -33,6 +35,7 @@ export function ApprovalComments({
   const [newComment, setNewComment] = useState('');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const { members } = useProjectMembers();
 
   const handleSubmitComment = async () => {
     if (!newComment.trim() || loading) return;
@@ -100,9 +103,11 @@ export function ApprovalComments({
                       </p>
                     </div>
 
-                    <div className="whitespace-pre-wrap text-sm leading-relaxed">
-                      {comment.comment}
-                    </div>
+                    <MentionText
+                      content={comment.comment}
+                      members={members}
+                      className="whitespace-pre-wrap text-sm leading-relaxed"
+                    />
                   </div>
                 </div>
               </CardContent>
@@ -120,13 +125,14 @@ export function ApprovalComments({
                 <Label htmlFor="new-comment" className="text-sm font-medium">
                   Add a comment
                 </Label>
-                <Textarea
+                <MentionTextarea
                   id="new-comment"
-                  placeholder="Share your thoughts, ask questions, or provide feedback..."
+                  placeholder="Share your thoughts, ask questions, or provide feedback... Type @ to mention someone"
                   value={newComment}
-                  onChange={(e) => setNewComment(e.target.value)}
+                  onChange={setNewComment}
+                  members={members}
                   onKeyDown={handleKeyDown}
-                  className="min-h-20 resize-none"
+                  className="flex min-h-20 w-full resize-none rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
                   disabled={loading}
                 />
                 <div className="flex items-center justify-between text-xs text-muted-foreground">
@@ -181,6 +187,7 @@ export function ApprovalComments({
         <p>• Use comments for ongoing discussion and clarification</p>
         <p>• Action comments (approve/decline/revision) are separate and final</p>
         <p>• All participants can see and respond to comments</p>
+        <p>• Type @ to mention a project member and notify them</p>
         <p>• Be constructive and professional in your feedback</p>
       </div>
     </div>
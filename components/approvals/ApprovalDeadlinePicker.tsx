@@ -0,0 +1,115 @@
+'use client';
+
+import { endOfDay } from 'date-fns';
+import { DatePicker } from '@/components/ui/date-picker';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ApprovalDeadlineSettings } from '@/lib/api/approvals';
+import { useProjectMembers } from '@/hooks/useProjectMembers';
+
+const REMINDER_OPTIONS = [
+  { hours: 24, label: 'Every day' },
+  { hours: 48, label: 'Every 2 days' },
+  { hours: 72, label: 'Every 3 days' },
+  { hours: 168, label: 'Every week' },
+];
+
+const NONE = 'none';
+
+interface ApprovalDeadlinePickerProps {
+  value: ApprovalDeadlineSettings;
+  onChange: (value: ApprovalDeadlineSettings) => void;
+  // Approvers already on the request, left out of the backup choices
+  approverIds?: string[];
+}
+
+/**
+ * Due date, reminder interval and backup approver for an approval request
+ */
+export function ApprovalDeadlinePicker({
+  value,
+  onChange,
+  approverIds = [],
+}: ApprovalDeadlinePickerProps) {
+  const { members } = useProjectMembers();
+  const backupCandidates = members.filter((member) => !approverIds.includes(member.id));
+
+  return (
+    <div className="grid gap-3 sm:grid-cols-2">
+      <div className="space-y-2">
+        <Label>Due by</Label>
+        <DatePicker
+          date={value.due_at ? new Date(value.due_at) : undefined}
+          setDate={(date) =>
+            onChange({
+              ...value,
+              due_at: date ? endOfDay(date).toISOString() : null,
+              // A backup approver only steps in after the due date
+              escalation_approver_id: date ? value.escalation_approver_id : null,
+            })
+          }
+          placeholder="No due date"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="approval-reminders">Reminders</Label>
+        <Select
+          value={value.reminder_interval_hours ? String(value.reminder_interval_hours) : NONE}
+          onValueChange={(next) =>
+            onChange({
+              ...value,
+              reminder_interval_hours: next === NONE ? null : parseInt(next, 10),
+            })
+          }
+        >
+          <SelectTrigger id="approval-reminders">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NONE}>No reminders</SelectItem>
+            {REMINDER_OPTIONS.map((option) => (
+              <SelectItem key={option.hours} value={String(option.hours)}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2 sm:col-span-2">
+        <Label htmlFor="approval-backup">Backup approver</Label>
+        <Select
+          value={value.escalation_approver_id || NONE}
+          onValueChange={(next) =>
+            onChange({ ...value, escalation_approver_id: next === NONE ? null : next })
+          }
+          disabled={!value.due_at}
+        >
+          <SelectTrigger id="approval-backup">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NONE}>No backup approver</SelectItem>
+            {backupCandidates.map((member) => (
+              <SelectItem key={member.id} value={member.id}>
+                {member.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-muted-foreground">
+          {value.due_at
+            ? 'Asked to step in if the request is still waiting after the due date.'
+            : 'Set a due date to choose a backup approver.'}
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -21,14 +21,31 @@ import {
   XCircle,
   RotateCcw,
   Loader2,
+  Undo2,
 } from 'lucide-react';
 import { Avatar, AvatarFallback } from '@/app/components/ui/avatar';
 import {
   ApprovalWithEntityDetails,
   getApprovalWithEntityDetails,
   canUserApprove,
+  isApprovalOverdue,
+  recallApproval,
 } from '@/lib/api/approvals';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { toast } from 'sonner';
 import { ApprovalActions } from './ApprovalActions';
+import { ApprovalSubmissionHistory } from './ApprovalSubmissionHistory';
+import { APPROVAL_POLICY_LABELS } from './ApprovalPolicyPicker';
 import { ApprovalComments } from './ApprovalComments';
 import { formatDistanceToNow, format } from 'date-fns';
 import { useAuth } from '@/hooks/useAuth';
@@ -51,6 +68,7 @@ export function ApprovalDetailDrawer({
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [userCanApproveState, setUserCanApproveState] = useState(false);
+  const [recalling, setRecalling] = useState(false);
   const { user } = useAuth();
 
   // Fetch approval details when drawer opens
@@ -83,6 +101,23 @@ export function ApprovalDetailDrawer({
     }
   };
 
+  const handleRecall = async () => {
+    if (!approvalId) return;
+
+    try {
+      setRecalling(true);
+      await recallApproval(approvalId);
+      toast.success('Approval recalled to draft');
+      fetchApprovalDetails();
+      onApprovalUpdate?.();
+    } catch (err) {
+      console.error('Error recalling approval:', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to recall approval');
+    } finally {
+      setRecalling(false);
+    }
+  };
+
   // Get entity type icon
   const getEntityIcon = (entityType: string) => {
     switch (entityType) {
@@ -166,7 +201,89 @@ export function ApprovalDetailDrawer({
     return null;
   }
 
+  // Progress of one step of a sequential approval
+  const getStepState = (step: number) => {
+    if (!approval) return 'Not started';
+
+    const stepResponses = approval.approver_responses.filter(
+      (r) => approval.approver_steps[r.approver_id] === step,
+    );
+    const decided = stepResponses.find((r) => r.status !== 'submitted');
+
+    if (stepResponses.some((r) => r.status === 'approved')) return 'Approved';
+    if (decided) return formatStatus(decided.status);
+    if (approval.status === 'submitted' && approval.current_step === step) return 'Waiting';
+    return 'Not started';
+  };
+
+  const renderApprover = (approver: any) => {
+    const response = approval?.approver_responses.find((r: any) => r.approver_id === approver.id);
+
+    return (
+      <div key={approver.id} className="flex items-center justify-between rounded-lg border p-3">
+        <div className="flex items-center gap-3">
+          <Avatar className="h-8 w-8">
+            <AvatarFallback>
+              <User className="h-4 w-4" />
+            </AvatarFallback>
+          </Avatar>
+          <div>
+            <p className="text-sm font-medium">{approver.raw_user_meta_data?.email || 'Unknown'}</p>
+            {response?.responder_name && (
+              <p className="text-xs text-muted-foreground">
+                Responded by {response.responder_name} on their behalf
+              </p>
+            )}
+            {response?.comment && (
+              <p className="mt-1 text-xs text-muted-foreground">"{response.comment}"</p>
+            )}
+          </div>
+        </div>
+
+        {response ? (
+          <Badge
+            variant="outline"
+            className={`${getStatusInfo(response.status).textColor} border-current`}
+          >
+            {formatStatus(response.status)}
+          </Badge>
+        ) : (
+          <Badge variant="outline" className="text-muted-foreground">
+            Pending
+          </Badge>
+        )}
+      </div>
+    );
+  };
+
   const EntityIcon = approval ? getEntityIcon(approval.entity_type) : FileText;
+  const chainSteps =
+    approval?.policy === 'sequential'
+      ? Array.from(new Set(Object.values(approval.approver_steps))).sort((a, b) => a - b)
+      : [];
+  const approvedCount =
+    approval?.approver_responses.filter((r) => r.status === 'approved').length || 0;
+  const deadlineDetails = approval
+    ? [
+        approval.due_at && `Due ${format(new Date(approval.due_at), 'PPp')}`,
+        approval.reminder_interval_hours &&
+          `Reminders every ${
+            approval.reminder_interval_hours % 24 === 0
+              ? `${approval.reminder_interval_hours / 24} day(s)`
+              : `${approval.reminder_interval_hours} hours`
+          }`,
+        approval.escalated_at &&
+          `Escalated to the backup approver ${formatDistanceToNow(new Date(approval.escalated_at), {
+            addSuffix: true,
+          })}`,
+      ].filter((detail): detail is string => !!detail)
+    : [];
+  // The requester can take a submission back until the first approver responds
+  const canRecall =
+    !!approval &&
+    approval.requester_id === user?.id &&
+    approval.status === 'submitted' &&
+    approval.approver_responses.length === 0;
   const statusInfo = approval ? getStatusInfo(approval.status) : getStatusInfo('draft');
   const StatusIcon = statusInfo.icon;
 
@@ -233,8 +350,13 @@ export function ApprovalDetailDrawer({
                   <Badge className={`${statusInfo.color} text-white`}>
                     {formatStatus(approval.status)}
                   </Badge>
+                  {isApprovalOverdue(approval) && <Badge variant="destructive">Overdue</Badge>}
                 </div>
 
+                {deadlineDetails.length > 0 && (
+                  <p className="text-sm text-muted-foreground">{deadlineDetails.join(' · ')}</p>
+                )}
+
                 {/* Requester Info */}
                 <div className="flex items-center gap-3 rounded-lg bg-muted/50 p-3">
                   <Avatar className="h-8 w-8">
@@ -242,10 +364,37 @@ export function ApprovalDetailDrawer({
                       <User className="h-4 w-4" />
                     </AvatarFallback>
                   </Avatar>
-                  <div>
+                  <div className="flex-1">
                     <p className="text-sm font-medium">Requested by</p>
                     <p className="text-sm text-muted-foreground">{approval.requester_name}</p>
                   </div>
+                  {canRecall && (
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button variant="outline" size="sm" disabled={recalling}>
+                          {recalling ? (
+                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          ) : (
+                            <Undo2 className="mr-2 h-4 w-4" />
+                          )}
+                          Recall
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Recall this approval?</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            It goes back to draft and approvers are told no response is needed.
+                            Submit it again when it is ready.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction onClick={handleRecall}>Recall</AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  )}
                 </div>
 
                 {/* Timestamps */}
@@ -305,53 +454,51 @@ export function ApprovalDetailDrawer({
                   <h3 className="font-medium">Approvers ({approval.approvers.length})</h3>
                 </div>
 
-                <div className="space-y-2">
-                  {approval.approvers.map((approver: any) => {
-                    const response = approval.approver_responses.find(
-                      (r: any) => r.approver_id === approver.id,
-                    );
-
-                    return (
-                      <div
-                        key={approver.id}
-                        className="flex items-center justify-between rounded-lg border p-3"
-                      >
-                        <div className="flex items-center gap-3">
-                          <Avatar className="h-8 w-8">
-                            <AvatarFallback>
-                              <User className="h-4 w-4" />
-                            </AvatarFallback>
-                          </Avatar>
-                          <div>
-                            <p className="text-sm font-medium">
-                              {approver.raw_user_meta_data?.email || 'Unknown'}
-                            </p>
-                            {response?.comment && (
-                              <p className="mt-1 text-xs text-muted-foreground">
-                                "{response.comment}"
-                              </p>
-                            )}
+                <p className="text-sm text-muted-foreground">
+                  {APPROVAL_POLICY_LABELS[approval.policy]}
+                  {approval.policy === 'quorum' &&
+                    ` · ${approvedCount} of ${approval.required_approvals} approvals`}
+                  {approval.policy === 'sequential' &&
+                    approval.current_step !== null &&
+                    approval.status === 'submitted' &&
+                    ` · step ${chainSteps.indexOf(approval.current_step) + 1} of ${chainSteps.length}`}
+                </p>
+
+                {approval.policy === 'sequential' ? (
+                  <ol className="space-y-4">
+                    {chainSteps.map((step, index) => {
+                      const state = getStepState(step);
+
+                      return (
+                        <li key={step} className="space-y-2">
+                          <div className="flex items-center justify-between">
+                            <p className="text-sm font-medium">Step {index + 1}</p>
+                            <Badge
+                              variant={state === 'Waiting' ? 'default' : 'outline'}
+                              className={state === 'Not started' ? 'text-muted-foreground' : ''}
+                            >
+                              {state}
+                            </Badge>
                           </div>
-                        </div>
-
-                        {response ? (
-                          <Badge
-                            variant="outline"
-                            className={`${getStatusInfo(response.status).textColor} border-current`}
-                          >
-                            {formatStatus(response.status)}
-                          </Badge>
-                        ) : (
-                          <Badge variant="outline" className="text-muted-foreground">
-                            Pending
-                          </Badge>
-                        )}
-                      </div>
-                    );
-                  })}
-                </div>
+                          <div className="space-y-2 border-l-2 pl-3">
+                            {approval.approvers
+                              .filter((approver) => approval.approver_steps[approver.id] === step)
+                              .map(renderApprover)}
+                          </div>
+                        </li>
+                      );
+                    })}
+                  </ol>
+                ) : (
+                  <div className="space-y-2">{approval.approvers.map(renderApprover)}</div>
+                )}
               </div>
 
+              <ApprovalSubmissionHistory
+                entityType={approval.entity_type}
+                submissions={approval.submissions}
+              />
+
               <Separator />
 
               {/* Comments Section */}
@@ -371,10 +518,14 @@ export function ApprovalDetailDrawer({
                   currentStatus={approval.status}
                   userCanApprove={userCanApproveState}
                   userHasResponded={
-                    !!approval.approver_responses.find((r: any) => r.approver_id === user?.id)
+                    !!approval.approver_responses.find(
+                      (r: any) => r.approver_id === user?.id || r.responded_by === user?.id,
+                    )
                   }
                   userResponse={
-                    approval.approver_responses.find((r: any) => r.approver_id === user?.id)?.status
+                    approval.approver_responses.find(
+                      (r: any) => r.approver_id === user?.id || r.responded_by === user?.id,
+                    )?.status
                   }
                   onActionComplete={() => {
                     fetchApprovalDetails();
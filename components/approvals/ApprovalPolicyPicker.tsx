@@ -0,0 +1,93 @@
+'use client';
+
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ApprovalPolicy, ApprovalPolicySettings } from '@/lib/api/approvals';
+
+export const APPROVAL_POLICY_LABELS: Record<ApprovalPolicy, string> = {
+  all: 'Everyone must approve',
+  any: 'Any one approver',
+  quorum: 'A number of approvers',
+  sequential: 'In order, one after another',
+};
+
+const POLICY_DESCRIPTIONS: Record<ApprovalPolicy, string> = {
+  all: 'Approved once every approver approves. Any decline declines it.',
+  any: 'Approved as soon as one approver approves.',
+  quorum: 'Approved once the chosen number of approvers approve.',
+  sequential:
+    'Approvers are asked one at a time, in the order they were selected. Each must approve before the next is asked.',
+};
+
+interface ApprovalPolicyPickerProps {
+  value: ApprovalPolicySettings;
+  onChange: (value: ApprovalPolicySettings) => void;
+  approverCount: number;
+}
+
+/**
+ * Chooses how approver responses decide an approval
+ */
+export function ApprovalPolicyPicker({
+  value,
+  onChange,
+  approverCount,
+}: ApprovalPolicyPickerProps) {
+  const policy = value.policy || 'all';
+
+  const handlePolicyChange = (next: ApprovalPolicy) => {
+    onChange({
+      policy: next,
+      required_approvals:
+        next === 'quorum'
+          ? value.required_approvals || Math.min(2, Math.max(approverCount, 1))
+          : null,
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="approval-policy">Approval rule</Label>
+      <Select value={policy} onValueChange={(next) => handlePolicyChange(next as ApprovalPolicy)}>
+        <SelectTrigger id="approval-policy">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.keys(APPROVAL_POLICY_LABELS) as ApprovalPolicy[]).map((option) => (
+            <SelectItem key={option} value={option}>
+              {APPROVAL_POLICY_LABELS[option]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {policy === 'quorum' && (
+        <div className="flex items-center gap-2 text-sm">
+          <Input
+            type="number"
+            min={1}
+            max={Math.max(approverCount, 1)}
+            value={value.required_approvals ?? ''}
+            onChange={(e) =>
+              onChange({
+                policy,
+                required_approvals: e.target.value ? parseInt(e.target.value, 10) : null,
+              })
+            }
+            className="w-20"
+          />
+          <span className="text-muted-foreground">of {approverCount} approvers must approve</span>
+        </div>
+      )}
+
+      <p className="text-xs text-muted-foreground">{POLICY_DESCRIPTIONS[policy]}</p>
+    </div>
+  );
+}
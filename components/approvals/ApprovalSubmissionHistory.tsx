@@ -0,0 +1,144 @@
+'use client';
+
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { History } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ApprovalRoundOutcome, ApprovalSubmission } from '@/lib/api/approvals';
+import { getSnapshotChanges } from '@/lib/utils/approval-snapshots';
+
+const OUTCOME_LABELS: Record<ApprovalRoundOutcome, string> = {
+  approved: 'Approved',
+  declined: 'Declined',
+  revision_requested: 'Revision requested',
+  recalled: 'Recalled',
+};
+
+const RESPONSE_LABELS: Record<string, string> = {
+  approved: 'Approved',
+  declined: 'Declined',
+  revision_requested: 'Requested revision',
+};
+
+interface ApprovalSubmissionHistoryProps {
+  entityType: string;
+  submissions: ApprovalSubmission[];
+}
+
+/**
+ * Each round an approval went through: what changed since the previous submission and how
+ * approvers responded to it
+ */
+export function ApprovalSubmissionHistory({
+  entityType,
+  submissions,
+}: ApprovalSubmissionHistoryProps) {
+  const [expandedRound, setExpandedRound] = useState<number | null>(null);
+
+  // A single open round has nothing to compare against or look back on
+  if (submissions.length === 0 || (submissions.length === 1 && !submissions[0].closed_at)) {
+    return null;
+  }
+
+  const rounds = submissions
+    .map((submission, index) => {
+      const previous = index > 0 ? submissions[index - 1] : null;
+      const canCompare = !!previous?.entity_data && !!submission.entity_data;
+
+      return {
+        submission,
+        canCompare,
+        changes: canCompare
+          ? getSnapshotChanges(entityType, previous?.entity_data, submission.entity_data)
+          : [],
+      };
+    })
+    .reverse();
+
+  return (
+    <div className="space-y-3">
+      <h3 className="flex items-center gap-2 font-medium">
+        <History className="h-4 w-4" />
+        Submission History
+      </h3>
+
+      <ol className="space-y-3">
+        {rounds.map(({ submission, canCompare, changes }) => {
+          const expanded = expandedRound === submission.round;
+
+          return (
+            <li key={submission.id} className="space-y-2 rounded-lg border p-3">
+              <div className="flex items-center justify-between gap-2">
+                <div>
+                  <p className="text-sm font-medium">Round {submission.round}</p>
+                  <p className="text-xs text-muted-foreground">
+                    Submitted {format(new Date(submission.submitted_at), 'PPp')}
+                  </p>
+                </div>
+                <Badge variant="outline">
+                  {submission.outcome ? OUTCOME_LABELS[submission.outcome] : 'In review'}
+                </Badge>
+              </div>
+
+              {submission.round > 1 && (
+                <div className="space-y-1">
+                  {!canCompare ? (
+                    <p className="text-xs text-muted-foreground">
+                      No snapshot to compare with the previous submission.
+                    </p>
+                  ) : changes.length === 0 ? (
+                    <p className="text-xs text-muted-foreground">
+                      No changes since round {submission.round - 1}.
+                    </p>
+                  ) : (
+                    <>
+                      <Button
+                        variant="link"
+                        size="sm"
+                        className="h-auto p-0 text-xs"
+                        onClick={() => setExpandedRound(expanded ? null : submission.round)}
+                      >
+                        {expanded ? 'Hide' : 'Show'} {changes.length} change
+                        {changes.length === 1 ? '' : 's'} since round {submission.round - 1}
+                      </Button>
+                      {expanded && (
+                        <ul className="space-y-1 rounded-md bg-muted/50 p-2 text-xs">
+                          {changes.map((change) => (
+                            <li key={change.key}>
+                              <span className="font-medium">{change.label}:</span>{' '}
+                              <span className="text-muted-foreground line-through">
+                                {change.before}
+                              </span>{' '}
+                              → <span>{change.after}</span>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </>
+                  )}
+                </div>
+              )}
+
+              {submission.responses.length > 0 && (
+                <ul className="space-y-1 text-xs">
+                  {submission.responses.map((response) => (
+                    <li key={response.approver_id}>
+                      <span className="font-medium">{response.approver_name || 'Unknown'}</span>{' '}
+                      {(RESPONSE_LABELS[response.status] || response.status).toLowerCase()}
+                      {response.responder_name &&
+                        ` (by ${response.responder_name} on their behalf)`}
+                      {response.comment && (
+                        <span className="text-muted-foreground">: “{response.comment}”</span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
@@ -12,7 +12,8 @@ import {
 } from '@/components/ui/select';
 import { Search, Filter, RefreshCw } from 'lucide-react';
 import { ApprovalCard } from './ApprovalCard';
-import { ApprovalWithDetails } from '@/lib/api/approvals';
+import { ApprovalWithDetails, isApprovalOverdue } from '@/lib/api/approvals';
+import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
 
 interface ApprovalsListProps {
@@ -51,11 +52,15 @@ export function ApprovalsList({
       entityTypeFilter === 'all' || approval.entity_type === entityTypeFilter;
 
     // Status filter
-    const matchesStatus = statusFilter === 'all' || approval.status === statusFilter;
+    const matchesStatus =
+      statusFilter === 'all' ||
+      (statusFilter === 'overdue' ? isApprovalOverdue(approval) : approval.status === statusFilter);
 
     return matchesSearch && matchesEntityType && matchesStatus;
   });
 
+  const overdueCount = approvals.filter(isApprovalOverdue).length;
+
   if (error) {
     return (
       <div className="rounded-lg border border-destructive/20 bg-destructive/10 p-6">
@@ -89,7 +94,17 @@ export function ApprovalsList({
         </div>
 
         {/* Filters */}
-        <div className="flex gap-2">
+        <div className="flex items-center gap-2">
+          {overdueCount > 0 && (
+            <Badge
+              variant="destructive"
+              className="cursor-pointer whitespace-nowrap"
+              onClick={() => setStatusFilter('overdue')}
+            >
+              {overdueCount} overdue
+            </Badge>
+          )}
+
           <Select value={entityTypeFilter} onValueChange={setEntityTypeFilter}>
             <SelectTrigger className="w-[140px]">
               <SelectValue placeholder="Entity type" />
@@ -110,6 +125,7 @@ export function ApprovalsList({
             <SelectContent>
               <SelectItem value="all">All Status</SelectItem>
               <SelectItem value="submitted">Submitted</SelectItem>
+              <SelectItem value="overdue">Overdue</SelectItem>
               <SelectItem value="approved">Approved</SelectItem>
               <SelectItem value="declined">Declined</SelectItem>
               <SelectItem value="revision_requested">Revision Requested</SelectItem>
@@ -0,0 +1,114 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ConflictChoice, ConflictField } from '@/lib/utils/conflicts';
+import { cn } from '@/lib/utils';
+
+interface ConflictResolutionDialogProps {
+  open: boolean;
+  fields: ConflictField[];
+  saving?: boolean;
+  onResolve: (choices: Record<string, ConflictChoice>) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Shows what someone else saved next to the user's unsaved values, field by field
+ */
+export function ConflictResolutionDialog({
+  open,
+  fields,
+  saving = false,
+  onResolve,
+  onCancel,
+}: ConflictResolutionDialogProps) {
+  const [choices, setChoices] = useState<Record<string, ConflictChoice>>({});
+
+  useEffect(() => {
+    setChoices(
+      fields.reduce(
+        (acc, field) => ({ ...acc, [field.key]: field.defaultChoice }),
+        {} as Record<string, ConflictChoice>,
+      ),
+    );
+  }, [fields]);
+
+  const setAll = (choice: ConflictChoice) =>
+    setChoices(
+      fields.reduce(
+        (acc, field) => ({ ...acc, [field.key]: choice }),
+        {} as Record<string, ConflictChoice>,
+      ),
+    );
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="max-h-[85vh] max-w-2xl overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Someone else saved changes</DialogTitle>
+          <DialogDescription>
+            This was updated while you were editing. Choose which value to keep for each field.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" size="sm" onClick={() => setAll('mine')} disabled={saving}>
+            Keep all mine
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setAll('theirs')} disabled={saving}>
+            Take all theirs
+          </Button>
+        </div>
+
+        <div className="space-y-4">
+          {fields.map((field) => (
+            <div key={field.key} className="space-y-2">
+              <p className="text-sm font-medium">{field.label}</p>
+              <div className="grid grid-cols-1 gap-2 sm:grid-cols-2">
+                {(['mine', 'theirs'] as const).map((choice) => (
+                  <button
+                    key={choice}
+                    type="button"
+                    onClick={() => setChoices((prev) => ({ ...prev, [field.key]: choice }))}
+                    disabled={saving}
+                    className={cn(
+                      'rounded-md border p-3 text-left transition-colors',
+                      choices[field.key] === choice
+                        ? 'border-primary bg-primary/5 ring-1 ring-primary'
+                        : 'border-border hover:bg-muted/50',
+                    )}
+                  >
+                    <span className="mb-1 block text-xs font-medium text-muted-foreground">
+                      {choice === 'mine' ? 'Keep mine' : 'Take theirs'}
+                    </span>
+                    <span className="block whitespace-pre-wrap break-words text-sm">
+                      {choice === 'mine' ? field.mineText : field.theirsText}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={() => onResolve(choices)} disabled={saving}>
+            {saving ? 'Saving...' : 'Save'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -11,17 +11,24 @@ import { FormEntryAnswer } from '@/lib/types/form-entry';
 import { Check } from 'lucide-react';
 import { ImageViewer } from '@/components/image-viewer';
 import { FileViewer } from './file-viewer';
+import { FormAnswerValue } from './forms/form-answer-value';
+import { RepeatableGroupTable } from './forms/repeatable-group-table';
+import { CalculatedValue } from './forms/calculated-value';
+import { getItemStates } from '@/lib/utils/form-logic';
 
 interface EntryResponsesAccordionProps {
   entryId: number;
   formItems: FormItem[];
   answers: FormEntryAnswer[];
+  // Values of the form's calculated items stored on the entry, keyed by item id
+  calculatedValues?: Record<number, number | null> | null;
 }
 
 export function EntryResponsesAccordion({
   entryId,
   formItems,
   answers,
+  calculatedValues,
 }: EntryResponsesAccordionProps) {
   const [isOpen, setIsOpen] = useState(true);
 
@@ -79,11 +86,50 @@ export function EntryResponsesAccordion({
         }
         return <p className="text-muted-foreground">No photos available</p>;
 
+      case 'file':
+        if (Array.isArray(answer) && answer.length > 0) {
+          return <FileViewer attachmentIds={answer} />;
+        }
+        return <p className="text-muted-foreground">No files available</p>;
+
+      case 'group':
+        return <RepeatableGroupTable item={item} value={answer} />;
+
+      case 'number':
+      case 'date':
+      case 'time':
+      case 'signature':
+      case 'dropdown':
+      case 'yes_no_na':
+      case 'rating':
+        return <FormAnswerValue item={item} value={answer} />;
+
       default:
         return <span className="text-foreground">{getDisplayValue(answer)}</span>;
     }
   };
 
+  // Show answers in form order, under their section headings. Sections hidden by conditional
+  // logic are left out along with their questions.
+  const answersByItem = new Map(answers.map((answer) => [answer.item_id, answer]));
+  const calculated = calculatedValues || {};
+  const itemStates = getItemStates(
+    formItems,
+    Object.fromEntries(answers.map((answer) => [answer.item_id, answer.answer_value])),
+  );
+  const orderedItems = [...formItems]
+    .sort((a, b) => a.display_order - b.display_order)
+    .filter((item) =>
+      item.item_type === 'section'
+        ? itemStates[item.display_order]?.visible
+        : item.item_type === 'calculated'
+          ? calculated[item.id!] !== undefined
+          : answersByItem.has(item.id!),
+    );
+  const unmatchedAnswers = answers.filter(
+    (answer) => !formItems.some((item) => item.id === answer.item_id),
+  );
+
   return (
     <Accordion
       type="single"
@@ -105,23 +151,39 @@ export function EntryResponsesAccordion({
                 No responses found for this entry
               </div>
             ) : (
-              answers.map((answer: FormEntryAnswer) => {
-                const matchingItem = formItems.find((item) => item.id === answer.item_id);
-                return (
+              <>
+                {orderedItems.map((item) =>
+                  item.item_type === 'section' ? (
+                    <div key={item.id} className="space-y-1 pt-2">
+                      <h3 className="text-lg font-semibold">{item.question_value}</h3>
+                      {item.metadata?.description && (
+                        <p className="text-sm text-muted-foreground">{item.metadata.description}</p>
+                      )}
+                    </div>
+                  ) : (
+                    <div key={item.id} className="rounded-lg border p-4">
+                      <h3 className="mb-2 text-base font-semibold">{item.question_value}</h3>
+                      <div className="text-sm text-muted-foreground">
+                        {item.item_type === 'calculated' ? (
+                          <CalculatedValue item={item} value={calculated[item.id!]} />
+                        ) : (
+                          renderAnswer(item, answersByItem.get(item.id!)?.answer_value)
+                        )}
+                      </div>
+                    </div>
+                  ),
+                )}
+                {unmatchedAnswers.map((answer: FormEntryAnswer) => (
                   <div key={answer.id} className="rounded-lg border p-4">
                     <h3 className="mb-2 text-base font-semibold">
-                      {matchingItem
-                        ? matchingItem.question_value
-                        : `Question ID: ${answer.item_id}`}
+                      {`Question ID: ${answer.item_id}`}
                     </h3>
                     <div className="text-sm text-muted-foreground">
-                      {matchingItem
-                        ? renderAnswer(matchingItem, answer.answer_value)
-                        : String(answer.answer_value)}
+                      {String(answer.answer_value)}
                     </div>
                   </div>
-                );
-              })
+                ))}
+              </>
             )}
           </div>
         </AccordionContent>
@@ -0,0 +1,51 @@
+import { Badge } from '@/components/ui/badge';
+import { FormItem } from '@/lib/types/form';
+import { getPassResult } from '@/lib/utils/form-calculations';
+import { cn } from '@/lib/utils';
+
+interface CalculatedValueProps {
+  item: Pick<FormItem, 'metadata'>;
+  value: number | null | undefined;
+  // Shown while the answers the calculation needs are missing
+  emptyText?: string;
+}
+
+/**
+ * Pass or fail against a calculated item's pass mark
+ */
+export function PassFailBadge({ passed }: { passed: boolean }) {
+  return (
+    <Badge
+      variant="outline"
+      className={cn(
+        passed
+          ? 'border-green-200 bg-green-50 text-green-700'
+          : 'border-red-200 bg-red-50 text-red-700',
+      )}
+    >
+      {passed ? 'Pass' : 'Fail'}
+    </Badge>
+  );
+}
+
+/**
+ * Read-only value of a calculated item, with its pass or fail result when it has a pass mark
+ */
+export function CalculatedValue({ item, value, emptyText = 'No value' }: CalculatedValueProps) {
+  if (value === null || value === undefined) {
+    return <span className="text-muted-foreground">{emptyText}</span>;
+  }
+
+  const passed = getPassResult(value, item.metadata);
+  const isPercentage = item.metadata?.calculation?.method === 'score';
+
+  return (
+    <div className="flex items-center gap-2">
+      <span className="text-lg font-semibold text-foreground">
+        {value}
+        {isPercentage && '%'}
+      </span>
+      {passed !== null && <PassFailBadge passed={passed} />}
+    </div>
+  );
+}
@@ -0,0 +1,182 @@
+'use client';
+
+import { useId } from 'react';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { LogicSourceItem } from './logic-editor';
+import { CalculationMethod, FormItemSettings, ItemCalculation } from '@/lib/types/form';
+import { getFormulaError } from '@/lib/utils/form-calculations';
+import { CALCULATION_METHODS } from '@/lib/utils/form-utils';
+
+interface CalculationEditorProps {
+  settings: FormItemSettings;
+  // Questions above the calculated item, which it can use
+  sources: LogicSourceItem[];
+  onChange: (settings: FormItemSettings) => void;
+}
+
+/**
+ * Builder controls for how a calculated item is worked out and what counts as a pass
+ */
+export function CalculationEditor({ settings, sources, onChange }: CalculationEditorProps) {
+  const idPrefix = useId();
+  const calculation: ItemCalculation = settings.calculation || { method: 'sum', items: [] };
+  const method = CALCULATION_METHODS.find((m) => m.value === calculation.method);
+  const usableSources = sources.filter((source) => method?.sourceTypes.includes(source.type));
+
+  const updateCalculation = (updates: Partial<ItemCalculation>) =>
+    onChange({ ...settings, calculation: { ...calculation, ...updates } });
+
+  const getWeight = (order: number) => calculation.weights?.[calculation.items.indexOf(order)] ?? 1;
+
+  const toggleSource = (order: number, checked: boolean) => {
+    const items = checked
+      ? [...calculation.items, order].sort((a, b) => a - b)
+      : calculation.items.filter((item) => item !== order);
+    updateCalculation({
+      items,
+      weights: calculation.method === 'score' ? items.map(getWeight) : undefined,
+    });
+  };
+
+  const changeMethod = (value: CalculationMethod) => {
+    const sourceTypes = CALCULATION_METHODS.find((m) => m.value === value)?.sourceTypes || [];
+    updateCalculation({
+      method: value,
+      // Keep only the answers the new method can use
+      items: calculation.items.filter((order) =>
+        sources.some((source) => source.order === order && sourceTypes.includes(source.type)),
+      ),
+      weights: undefined,
+    });
+  };
+
+  const formulaError =
+    calculation.method === 'formula'
+      ? getFormulaError(
+          calculation.formula,
+          usableSources.map((source) => source.order),
+        )
+      : null;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Label className="text-xs text-muted-foreground">Calculate</Label>
+        <Select
+          value={calculation.method}
+          onValueChange={(value) => changeMethod(value as CalculationMethod)}
+        >
+          <SelectTrigger className="w-[200px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {CALCULATION_METHODS.map((m) => (
+              <SelectItem key={m.value} value={m.value}>
+                {m.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {calculation.method === 'formula' ? (
+        <div className="space-y-1">
+          <Input
+            value={calculation.formula || ''}
+            onChange={(e) => updateCalculation({ formula: e.target.value })}
+            placeholder="e.g. (Q1 + Q2) / 2"
+            className="font-mono"
+          />
+          <p className="text-xs text-muted-foreground">
+            Use Q1, Q2 and so on for the answers to the numbered questions above.
+          </p>
+          {formulaError && <p className="text-xs text-red-500">{formulaError}</p>}
+        </div>
+      ) : usableSources.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          Add questions above this one that this calculation can use.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {usableSources.map((source) => (
+            <div key={source.order} className="flex items-center gap-2">
+              <Checkbox
+                id={`${idPrefix}-source-${source.order}`}
+                checked={calculation.items.includes(source.order)}
+                onCheckedChange={(checked) => toggleSource(source.order, checked === true)}
+              />
+              <label htmlFor={`${idPrefix}-source-${source.order}`} className="flex-1 text-sm">
+                {source.order + 1}. {source.title || 'Untitled question'}
+              </label>
+              {calculation.method === 'score' && calculation.items.includes(source.order) && (
+                <Input
+                  type="number"
+                  min={0}
+                  value={getWeight(source.order)}
+                  onChange={(e) =>
+                    updateCalculation({
+                      weights: calculation.items.map((order) =>
+                        order === source.order ? Number(e.target.value) : getWeight(order),
+                      ),
+                    })
+                  }
+                  className="h-8 w-20"
+                  aria-label="Weight"
+                />
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {calculation.method === 'count' && (
+        <div className="flex items-center gap-2">
+          <Label className="text-xs text-muted-foreground">Answers equal to</Label>
+          <Input
+            value={calculation.match ?? 'No'}
+            onChange={(e) => updateCalculation({ match: e.target.value })}
+            className="w-32"
+          />
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-4">
+        <div className="flex items-center gap-2">
+          <Label className="text-xs text-muted-foreground">Pass mark</Label>
+          <Input
+            type="number"
+            value={settings.passMark ?? ''}
+            onChange={(e) =>
+              onChange({
+                ...settings,
+                passMark: e.target.value === '' ? undefined : Number(e.target.value),
+              })
+            }
+            placeholder="None"
+            className="w-24"
+          />
+        </div>
+        <div className="flex items-center gap-2">
+          <Switch
+            id={`${idPrefix}-score`}
+            checked={!!settings.isScore}
+            onCheckedChange={(checked) => onChange({ ...settings, isScore: checked })}
+          />
+          <Label htmlFor={`${idPrefix}-score`} className="text-sm font-normal">
+            Use as the entry&apos;s score
+          </Label>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -25,6 +25,7 @@ import {
 } from '@dnd-kit/sortable';
 import { FormBuilderProps, FormBuilderQuestion } from '@/lib/types/form-builder';
 import { generateFormItems } from '@/lib/utils/form-utils';
+import { remapItemLogic } from '@/lib/utils/form-logic';
 import { SortableQuestionCard } from './sortable-question-card';
 import {
   AlertDialog,
@@ -80,7 +81,14 @@ export function CreateFormDialog({ open, onOpenChange, onFormCreated }: FormBuil
       setQuestions((items) => {
         const oldIndex = items.findIndex((item) => item.id === active.id);
         const newIndex = items.findIndex((item) => item.id === over.id);
-        return arrayMove(items, oldIndex, newIndex);
+        return remapItemLogic(
+          arrayMove(items, oldIndex, newIndex),
+          arrayMove(
+            items.map((_, index) => index),
+            oldIndex,
+            newIndex,
+          ),
+        );
       });
     }
   };
@@ -100,7 +108,13 @@ export function CreateFormDialog({ open, onOpenChange, onFormCreated }: FormBuil
   };
 
   const deleteQuestion = (id: string) => {
-    setQuestions(questions.filter((q) => q.id !== id));
+    const index = questions.findIndex((q) => q.id === id);
+    setQuestions(
+      remapItemLogic(
+        questions.filter((q) => q.id !== id),
+        questions.map((_, i) => i).filter((i) => i !== index),
+      ),
+    );
   };
 
   const hasUnsavedChanges = () => {
@@ -230,6 +244,7 @@ export function CreateFormDialog({ open, onOpenChange, onFormCreated }: FormBuil
                       onDelete={deleteQuestion}
                       isFirst={index === 0}
                       isEditing={true}
+                      previousQuestions={questions.slice(0, index)}
                     />
                   ))}
                 </div>
@@ -0,0 +1,134 @@
+'use client';
+
+import { useId } from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { CalculationEditor } from './calculation-editor';
+import { GroupFieldsEditor } from './group-fields-editor';
+import { LogicSourceItem } from './logic-editor';
+import { FormItemSettings, ItemType } from '@/lib/types/form';
+import { describeField, getRatingScale } from '@/lib/utils/form-utils';
+
+const RATING_SCALES = [3, 5, 10];
+
+interface FieldSettingsEditorProps {
+  type: ItemType;
+  settings?: FormItemSettings | null;
+  onChange: (settings: FormItemSettings) => void;
+  // Questions above this one, which a calculated item can use
+  sources?: LogicSourceItem[];
+}
+
+/**
+ * Builder controls for the settings of a field type, with a preview of what will be captured
+ */
+export function FieldSettingsEditor({
+  type,
+  settings,
+  onChange,
+  sources = [],
+}: FieldSettingsEditorProps) {
+  const idPrefix = useId();
+  const current = settings || {};
+
+  const parseBound = (value: string) => (value === '' ? undefined : Number(value));
+
+  return (
+    <div className="space-y-2">
+      {type === 'number' && (
+        <div className="grid grid-cols-3 gap-2">
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Unit</Label>
+            <Input
+              value={current.unit || ''}
+              onChange={(e) => onChange({ ...current, unit: e.target.value || undefined })}
+              placeholder="e.g. mm"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Min</Label>
+            <Input
+              type="number"
+              value={current.min ?? ''}
+              onChange={(e) => onChange({ ...current, min: parseBound(e.target.value) })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Max</Label>
+            <Input
+              type="number"
+              value={current.max ?? ''}
+              onChange={(e) => onChange({ ...current, max: parseBound(e.target.value) })}
+            />
+          </div>
+        </div>
+      )}
+
+      {type === 'section' && (
+        <div className="space-y-2">
+          <Textarea
+            value={current.description || ''}
+            onChange={(e) => onChange({ ...current, description: e.target.value || undefined })}
+            placeholder="Description (optional)"
+            className="min-h-[60px] resize-none"
+          />
+          <div className="flex items-center gap-2">
+            <Switch
+              id={`${idPrefix}-new-page`}
+              checked={!!current.newPage}
+              onCheckedChange={(checked) => onChange({ ...current, newPage: checked })}
+            />
+            <Label htmlFor={`${idPrefix}-new-page`} className="text-sm font-normal">
+              Start a new page
+            </Label>
+          </div>
+        </div>
+      )}
+
+      {type === 'group' && (
+        <GroupFieldsEditor
+          fields={current.fields || []}
+          onChange={(fields) => onChange({ ...current, fields })}
+        />
+      )}
+
+      {type === 'calculated' && (
+        <CalculationEditor settings={current} sources={sources} onChange={onChange} />
+      )}
+
+      {type === 'rating' && (
+        <div className="flex items-center gap-2">
+          <Label className="text-xs text-muted-foreground">Out of</Label>
+          <Select
+            value={String(getRatingScale(current))}
+            onValueChange={(value) => onChange({ ...current, scale: Number(value) })}
+          >
+            <SelectTrigger className="w-24">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RATING_SCALES.map((scale) => (
+                <SelectItem key={scale} value={String(scale)}>
+                  {scale}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      <div className="rounded-md border bg-muted/30 px-3 py-2">
+        <p className="text-sm text-muted-foreground">{describeField(type, current)}</p>
+      </div>
+    </div>
+  );
+}
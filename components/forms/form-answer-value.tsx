@@ -0,0 +1,89 @@
+import Image from 'next/image';
+import { format, parseISO } from 'date-fns';
+import { Star } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { FormItem } from '@/lib/types/form';
+import { getRatingScale, isAnswerEmpty } from '@/lib/utils/form-utils';
+import { cn } from '@/lib/utils';
+
+const YES_NO_NA_COLORS: Record<string, string> = {
+  Yes: 'bg-green-500/10 text-green-700 dark:text-green-400',
+  No: 'bg-red-500/10 text-red-700 dark:text-red-400',
+  'N/A': 'bg-muted text-muted-foreground',
+};
+
+interface FormAnswerValueProps {
+  item: Pick<FormItem, 'item_type' | 'metadata'>;
+  value: unknown;
+}
+
+/**
+ * Read-only answer for the field types shared by forms and site diaries. Text, choice and upload
+ * answers are rendered by each screen and return null here.
+ */
+export function FormAnswerValue({ item, value }: FormAnswerValueProps) {
+  const settings = item.metadata || {};
+
+  if (isAnswerEmpty(value)) {
+    return <span className="text-muted-foreground">No answer</span>;
+  }
+
+  const text = String(value);
+
+  switch (item.item_type) {
+    case 'number':
+      return (
+        <span className="text-foreground">
+          {text}
+          {settings.unit && ` ${settings.unit}`}
+        </span>
+      );
+
+    case 'date':
+      return <span className="text-foreground">{format(parseISO(text), 'PPP')}</span>;
+
+    case 'time':
+      return <span className="text-foreground">{text}</span>;
+
+    case 'signature':
+      return (
+        <div className="relative h-24 w-64 rounded-md border bg-white">
+          <Image src={text} alt="Signature" fill unoptimized className="object-contain" />
+        </div>
+      );
+
+    case 'dropdown':
+      return <span className="text-foreground">{text}</span>;
+
+    case 'yes_no_na':
+      return (
+        <Badge variant="secondary" className={YES_NO_NA_COLORS[text] || ''}>
+          {text}
+        </Badge>
+      );
+
+    case 'rating': {
+      const scale = getRatingScale(settings);
+      const rating = Number(value);
+      return (
+        <div className="flex items-center gap-1" aria-label={`${rating} of ${scale}`}>
+          {Array.from({ length: scale }, (_, index) => index + 1).map((score) => (
+            <Star
+              key={score}
+              className={cn(
+                'h-4 w-4',
+                score <= rating ? 'fill-yellow-400 text-yellow-400' : 'text-muted-foreground',
+              )}
+            />
+          ))}
+          <span className="ml-1 text-sm text-muted-foreground">
+            {rating}/{scale}
+          </span>
+        </div>
+      );
+    }
+
+    default:
+      return null;
+  }
+}
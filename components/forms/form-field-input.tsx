@@ -0,0 +1,225 @@
+'use client';
+
+import { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Check, ChevronsUpDown, Star } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { DatePicker } from '@/components/ui/date-picker';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+} from '@/components/ui/command';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { SignaturePad } from './signature-pad';
+import { FormItem } from '@/lib/types/form';
+import { getRatingScale, YES_NO_NA_OPTIONS } from '@/lib/utils/form-utils';
+import { cn } from '@/lib/utils';
+
+interface FormFieldInputProps {
+  item: Pick<FormItem, 'id' | 'item_type' | 'options' | 'metadata'>;
+  value: unknown;
+  onChange: (value: unknown) => void;
+  hasError?: boolean;
+  disabled?: boolean;
+}
+
+/**
+ * Answer input for the field types that are captured the same way on forms and site diaries.
+ * Text, choice and upload fields are rendered by each screen and return null here.
+ */
+export function FormFieldInput({
+  item,
+  value,
+  onChange,
+  hasError = false,
+  disabled = false,
+}: FormFieldInputProps) {
+  const settings = item.metadata || {};
+
+  switch (item.item_type) {
+    case 'number':
+      return (
+        <div className="flex items-center gap-2">
+          <Input
+            type="number"
+            inputMode="decimal"
+            value={(value as number | null) ?? ''}
+            min={settings.min}
+            max={settings.max}
+            step="any"
+            onChange={(e) => onChange(e.target.value === '' ? null : Number(e.target.value))}
+            className={cn(hasError && 'border-red-500')}
+            disabled={disabled}
+          />
+          {settings.unit && (
+            <span className="shrink-0 text-sm text-muted-foreground">{settings.unit}</span>
+          )}
+        </div>
+      );
+
+    case 'date':
+      return (
+        <DatePicker
+          date={value ? parseISO(value as string) : undefined}
+          setDate={(date) => onChange(date ? format(date, 'yyyy-MM-dd') : null)}
+          className={cn(hasError && 'border-red-500')}
+          disabled={disabled}
+        />
+      );
+
+    case 'time':
+      return (
+        <Input
+          type="time"
+          value={(value as string) || ''}
+          onChange={(e) => onChange(e.target.value || null)}
+          className={cn('w-40', hasError && 'border-red-500')}
+          disabled={disabled}
+        />
+      );
+
+    case 'signature':
+      return (
+        <SignaturePad
+          value={(value as string) || null}
+          onChange={onChange}
+          hasError={hasError}
+          disabled={disabled}
+        />
+      );
+
+    case 'dropdown':
+      return (
+        <DropdownField
+          options={(item.options || []).filter((option: string) => option.trim() !== '')}
+          value={(value as string) || ''}
+          onChange={onChange}
+          hasError={hasError}
+          disabled={disabled}
+        />
+      );
+
+    case 'yes_no_na':
+      return (
+        <div className="flex gap-2">
+          {YES_NO_NA_OPTIONS.map((option) => (
+            <Button
+              key={option}
+              type="button"
+              variant={value === option ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => onChange(value === option ? null : option)}
+              className={cn(hasError && value !== option && 'border-red-500')}
+              disabled={disabled}
+            >
+              {option}
+            </Button>
+          ))}
+        </div>
+      );
+
+    case 'rating': {
+      const scale = getRatingScale(settings);
+      const rating = (value as number | null) || 0;
+      return (
+        <div className="flex items-center gap-1">
+          {Array.from({ length: scale }, (_, index) => index + 1).map((score) => (
+            <button
+              key={score}
+              type="button"
+              onClick={() => onChange(rating === score ? null : score)}
+              disabled={disabled}
+              className="rounded p-0.5 transition-colors hover:bg-muted"
+              aria-label={`${score} of ${scale}`}
+            >
+              <Star
+                className={cn(
+                  'h-5 w-5',
+                  score <= rating
+                    ? 'fill-yellow-400 text-yellow-400'
+                    : hasError
+                      ? 'text-red-500'
+                      : 'text-muted-foreground',
+                )}
+              />
+            </button>
+          ))}
+          {rating ? (
+            <span className="ml-2 text-sm text-muted-foreground">
+              {rating}/{scale}
+            </span>
+          ) : null}
+        </div>
+      );
+    }
+
+    default:
+      return null;
+  }
+}
+
+// Searchable single choice, for option lists too long to scan as radio buttons
+function DropdownField({
+  options,
+  value,
+  onChange,
+  hasError,
+  disabled,
+}: {
+  options: string[];
+  value: string;
+  onChange: (value: string | null) => void;
+  hasError: boolean;
+  disabled: boolean;
+}) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          type="button"
+          variant="outline"
+          role="combobox"
+          aria-expanded={open}
+          className={cn(
+            'w-full justify-between font-normal',
+            !value && 'text-muted-foreground',
+            hasError && 'border-red-500',
+          )}
+          disabled={disabled}
+        >
+          <span className="truncate">{value || 'Select option'}</span>
+          <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[--radix-popover-trigger-width] p-0" align="start">
+        <Command>
+          <CommandInput placeholder="Search options..." />
+          <CommandEmpty>No matching options</CommandEmpty>
+          <CommandGroup className="max-h-64 overflow-y-auto">
+            {options.map((option) => (
+              <CommandItem
+                key={option}
+                value={option}
+                onSelect={() => {
+                  onChange(option === value ? null : option);
+                  setOpen(false);
+                }}
+              >
+                <Check
+                  className={cn('mr-2 h-4 w-4', option === value ? 'opacity-100' : 'opacity-0')}
+                />
+                {option}
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,115 @@
+'use client';
+
+import { useId } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { GroupField, ItemType } from '@/lib/types/form';
+import { getSettingsForType, GROUP_FIELD_TYPES, hasOptions } from '@/lib/utils/form-utils';
+
+interface GroupFieldsEditorProps {
+  fields: GroupField[];
+  onChange: (fields: GroupField[]) => void;
+}
+
+/**
+ * Builder controls for the fields filled in on each row of a repeatable group
+ */
+export function GroupFieldsEditor({ fields, onChange }: GroupFieldsEditorProps) {
+  const idPrefix = useId();
+
+  const updateField = (index: number, updates: Partial<GroupField>) => {
+    onChange(fields.map((field, i) => (i === index ? { ...field, ...updates } : field)));
+  };
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-muted-foreground">Fields on each row</p>
+      {fields.map((field, index) => (
+        <div key={index} className="space-y-2 rounded-md border p-2">
+          <div className="flex items-center gap-2">
+            <Input
+              value={field.title}
+              onChange={(e) => updateField(index, { title: e.target.value })}
+              placeholder={`Field ${index + 1}`}
+              className="flex-1"
+            />
+            <Select
+              value={field.type}
+              onValueChange={(value) => {
+                const type = value as ItemType;
+                updateField(index, {
+                  type,
+                  options: hasOptions(type) ? field.options || [] : undefined,
+                  settings: getSettingsForType(type, field.settings) || undefined,
+                });
+              }}
+            >
+              <SelectTrigger className="w-[150px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {GROUP_FIELD_TYPES.map((type) => (
+                  <SelectItem key={type.value} value={type.value}>
+                    {type.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() => onChange(fields.filter((_, i) => i !== index))}
+              disabled={fields.length === 1}
+              aria-label="Remove field"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+
+          {hasOptions(field.type) && (
+            <Input
+              value={(field.options || []).join(', ')}
+              onChange={(e) =>
+                updateField(index, {
+                  options: e.target.value.split(',').map((option) => option.trimStart()),
+                })
+              }
+              placeholder="Options, separated by commas"
+            />
+          )}
+
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id={`${idPrefix}-required-${index}`}
+              checked={field.required}
+              onCheckedChange={(checked) => updateField(index, { required: checked === true })}
+            />
+            <label htmlFor={`${idPrefix}-required-${index}`} className="text-sm">
+              Required
+            </label>
+          </div>
+        </div>
+      ))}
+
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => onChange([...fields, { title: '', type: 'question', required: false }])}
+      >
+        <Plus className="mr-2 h-4 w-4" />
+        Add field
+      </Button>
+    </div>
+  );
+}
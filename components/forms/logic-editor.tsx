@@ -0,0 +1,234 @@
+'use client';
+
+import { GitBranch, Plus, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ItemCondition, ItemLogic, ItemType, LogicAction, LogicOperator } from '@/lib/types/form';
+import {
+  getOperatorsForType,
+  LOGIC_ACTIONS,
+  LOGIC_OPERATORS,
+  operatorNeedsValue,
+} from '@/lib/utils/form-logic';
+import { hasOptions, YES_NO_NA_OPTIONS } from '@/lib/utils/form-utils';
+
+// An earlier question that conditions can refer to
+export interface LogicSourceItem {
+  order: number;
+  title: string;
+  type: ItemType;
+  options?: string[];
+}
+
+interface LogicEditorProps {
+  logic?: ItemLogic | null;
+  sources: LogicSourceItem[];
+  onChange: (logic: ItemLogic | null) => void;
+}
+
+/**
+ * Builder controls for showing, hiding or requiring a question based on earlier answers
+ */
+export function LogicEditor({ logic, sources, onChange }: LogicEditorProps) {
+  // Answers to photos, files, signatures and groups can't be compared against a value, and
+  // sections and calculated items have no answer at all
+  const usableSources = sources.filter(
+    (source) =>
+      !['photo', 'file', 'signature', 'section', 'group', 'calculated'].includes(source.type),
+  );
+
+  const newCondition = (): ItemCondition => ({
+    item: usableSources[usableSources.length - 1].order,
+    operator: 'equals',
+    value: '',
+  });
+
+  if (!logic) {
+    if (usableSources.length === 0) return null;
+
+    return (
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        className="text-muted-foreground"
+        onClick={() => onChange({ action: 'show', match: 'all', conditions: [newCondition()] })}
+      >
+        <GitBranch className="mr-2 h-4 w-4" />
+        Add logic
+      </Button>
+    );
+  }
+
+  const updateCondition = (index: number, updates: Partial<ItemCondition>) => {
+    onChange({
+      ...logic,
+      conditions: logic.conditions.map((condition, i) =>
+        i === index ? { ...condition, ...updates } : condition,
+      ),
+    });
+  };
+
+  const removeCondition = (index: number) => {
+    const conditions = logic.conditions.filter((_, i) => i !== index);
+    onChange(conditions.length > 0 ? { ...logic, conditions } : null);
+  };
+
+  return (
+    <div className="space-y-3 rounded-md border border-dashed p-3">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <GitBranch className="h-4 w-4 text-muted-foreground" />
+        <Select
+          value={logic.action}
+          onValueChange={(value) => onChange({ ...logic, action: value as LogicAction })}
+        >
+          <SelectTrigger className="h-8 w-[190px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {LOGIC_ACTIONS.map((action) => (
+              <SelectItem key={action.value} value={action.value}>
+                {action.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <span className="text-muted-foreground">when</span>
+        <Select
+          value={logic.match}
+          onValueChange={(value) => onChange({ ...logic, match: value as ItemLogic['match'] })}
+        >
+          <SelectTrigger className="h-8 w-[90px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">all</SelectItem>
+            <SelectItem value="any">any</SelectItem>
+          </SelectContent>
+        </Select>
+        <span className="text-muted-foreground">of these are true</span>
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          className="ml-auto h-8 w-8"
+          onClick={() => onChange(null)}
+          aria-label="Remove logic"
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {logic.conditions.map((condition, index) => {
+        const source = usableSources.find((s) => s.order === condition.item);
+        const operators = source ? getOperatorsForType(source.type) : [];
+        const choices = source
+          ? source.type === 'yes_no_na'
+            ? YES_NO_NA_OPTIONS
+            : hasOptions(source.type)
+              ? (source.options || []).filter((option) => option.trim() !== '')
+              : null
+          : null;
+
+        return (
+          <div key={index} className="flex flex-wrap items-center gap-2">
+            <Select
+              value={String(condition.item)}
+              onValueChange={(value) =>
+                updateCondition(index, { item: Number(value), operator: 'equals', value: '' })
+              }
+            >
+              <SelectTrigger className="h-8 min-w-0 flex-1">
+                <SelectValue placeholder="Question" />
+              </SelectTrigger>
+              <SelectContent>
+                {usableSources.map((s) => (
+                  <SelectItem key={s.order} value={String(s.order)}>
+                    {s.order + 1}. {s.title || 'Untitled question'}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Select
+              value={condition.operator}
+              onValueChange={(value) =>
+                updateCondition(index, { operator: value as LogicOperator })
+              }
+            >
+              <SelectTrigger className="h-8 w-[150px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {LOGIC_OPERATORS.filter((operator) => operators.includes(operator.value)).map(
+                  (operator) => (
+                    <SelectItem key={operator.value} value={operator.value}>
+                      {operator.label}
+                    </SelectItem>
+                  ),
+                )}
+              </SelectContent>
+            </Select>
+
+            {operatorNeedsValue(condition.operator) &&
+              (choices ? (
+                <Select
+                  value={condition.value || undefined}
+                  onValueChange={(value) => updateCondition(index, { value })}
+                >
+                  <SelectTrigger className="h-8 w-[150px]">
+                    <SelectValue placeholder="Value" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {choices.map((choice) => (
+                      <SelectItem key={choice} value={choice}>
+                        {choice}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ) : (
+                <Input
+                  type={source?.type === 'number' || source?.type === 'rating' ? 'number' : 'text'}
+                  value={condition.value || ''}
+                  onChange={(e) => updateCondition(index, { value: e.target.value })}
+                  placeholder="Value"
+                  className="h-8 w-[150px]"
+                />
+              ))}
+
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8"
+              onClick={() => removeCondition(index)}
+              aria-label="Remove condition"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        );
+      })}
+
+      {usableSources.length > 0 && (
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onChange({ ...logic, conditions: [...logic.conditions, newCondition()] })}
+        >
+          <Plus className="mr-2 h-4 w-4" />
+          Add condition
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,183 @@
+'use client';
+
+import { useRef } from 'react';
+import { ImageIcon, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { FormFieldInput } from './form-field-input';
+import { FormItem, GroupField } from '@/lib/types/form';
+import { cn } from '@/lib/utils';
+
+interface RepeatableGroupInputProps {
+  item: Pick<FormItem, 'question_value' | 'metadata'>;
+  // Rows of values, each in the same order as the group's fields
+  value: unknown;
+  onChange: (value: unknown[][]) => void;
+  hasError?: boolean;
+  disabled?: boolean;
+  // Photos picked on a row are uploaded when the entry is submitted; editing an existing
+  // entry only shows the photos already attached
+  allowUploads?: boolean;
+}
+
+/**
+ * Answer input for a repeatable group: one card per row with the group's fields
+ */
+export function RepeatableGroupInput({
+  item,
+  value,
+  onChange,
+  hasError = false,
+  disabled = false,
+  allowUploads = true,
+}: RepeatableGroupInputProps) {
+  const fields = item.metadata?.fields || [];
+  const rows = Array.isArray(value) ? (value as unknown[][]) : [];
+
+  const updateCell = (rowIndex: number, fieldIndex: number, cell: unknown) => {
+    onChange(
+      rows.map((row, r) =>
+        r === rowIndex ? fields.map((_, f) => (f === fieldIndex ? cell : row[f])) : row,
+      ),
+    );
+  };
+
+  const renderCell = (field: GroupField, rowIndex: number, fieldIndex: number) => {
+    const cell = rows[rowIndex][fieldIndex];
+
+    switch (field.type) {
+      case 'question':
+        return (
+          <Input
+            value={(cell as string) || ''}
+            onChange={(e) => updateCell(rowIndex, fieldIndex, e.target.value)}
+            disabled={disabled}
+          />
+        );
+
+      case 'photo':
+        return (
+          <PhotoCell
+            value={cell}
+            onChange={(files) => updateCell(rowIndex, fieldIndex, files)}
+            disabled={disabled || !allowUploads}
+          />
+        );
+
+      default:
+        return (
+          <FormFieldInput
+            item={{ item_type: field.type, options: field.options, metadata: field.settings }}
+            value={cell}
+            onChange={(next) => updateCell(rowIndex, fieldIndex, next)}
+            disabled={disabled}
+          />
+        );
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {rows.length === 0 && (
+        <p
+          className={cn(
+            'rounded-md border border-dashed p-4 text-center text-sm text-muted-foreground',
+            hasError && 'border-red-500',
+          )}
+        >
+          No rows added yet
+        </p>
+      )}
+
+      {rows.map((_, rowIndex) => (
+        <div key={rowIndex} className="space-y-3 rounded-md border bg-muted/20 p-3">
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-medium">
+              {item.question_value || 'Row'} {rowIndex + 1}
+            </span>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8"
+              onClick={() => onChange(rows.filter((_, r) => r !== rowIndex))}
+              disabled={disabled}
+              aria-label="Remove row"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+          <div className="grid gap-3 sm:grid-cols-2">
+            {fields.map((field, fieldIndex) => (
+              <div key={fieldIndex} className="space-y-1">
+                <Label className="text-xs">
+                  {field.title || `Field ${fieldIndex + 1}`}
+                  {field.required && <span className="text-red-500"> *</span>}
+                </Label>
+                {renderCell(field, rowIndex, fieldIndex)}
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => onChange([...rows, fields.map(() => null)])}
+        disabled={disabled}
+      >
+        <Plus className="mr-2 h-4 w-4" />
+        Add row
+      </Button>
+    </div>
+  );
+}
+
+// Compact photo picker for a row; holds the picked files until the entry is submitted
+function PhotoCell({
+  value,
+  onChange,
+  disabled,
+}: {
+  value: unknown;
+  onChange: (files: File[] | null) => void;
+  disabled: boolean;
+}) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const items = Array.isArray(value) ? value : [];
+  const pending = items.filter((entry) => entry instanceof File).length;
+  const uploaded = items.length - pending;
+
+  return (
+    <div className="flex items-center gap-2">
+      <input
+        ref={inputRef}
+        type="file"
+        accept="image/*"
+        multiple
+        className="hidden"
+        onChange={(e) => {
+          const files = Array.from(e.target.files || []);
+          onChange(files.length > 0 ? files : null);
+          e.target.value = '';
+        }}
+      />
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => inputRef.current?.click()}
+        disabled={disabled}
+      >
+        <ImageIcon className="mr-2 h-4 w-4" />
+        {pending > 0 ? 'Replace photos' : 'Add photos'}
+      </Button>
+      <span className="text-xs text-muted-foreground">
+        {pending > 0 ? `${pending} selected` : uploaded > 0 ? `${uploaded} attached` : 'No photos'}
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { FileViewer } from '@/components/file-viewer';
+import { FormAnswerValue } from './form-answer-value';
+import { FormItem, GroupField } from '@/lib/types/form';
+import { isAnswerEmpty } from '@/lib/utils/form-utils';
+
+interface RepeatableGroupTableProps {
+  item: Pick<FormItem, 'metadata'>;
+  // Rows of values, each in the same order as the group's fields
+  value: unknown;
+}
+
+/**
+ * Read-only table of the rows entered for a repeatable group
+ */
+export function RepeatableGroupTable({ item, value }: RepeatableGroupTableProps) {
+  const fields = item.metadata?.fields || [];
+  const rows = Array.isArray(value) ? (value as unknown[][]) : [];
+
+  if (rows.length === 0) {
+    return <p className="text-muted-foreground">No rows entered</p>;
+  }
+
+  const renderCell = (field: GroupField, cell: unknown) => {
+    if (isAnswerEmpty(cell)) return <span className="text-muted-foreground">-</span>;
+
+    switch (field.type) {
+      case 'question':
+        return <span className="text-foreground">{String(cell)}</span>;
+      case 'photo':
+        return <FileViewer attachmentIds={cell as string[]} />;
+      default:
+        return (
+          <FormAnswerValue
+            item={{ item_type: field.type, metadata: field.settings }}
+            value={cell}
+          />
+        );
+    }
+  };
+
+  return (
+    <div className="rounded-md border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-12">#</TableHead>
+            {fields.map((field, index) => (
+              <TableHead key={index}>{field.title || `Field ${index + 1}`}</TableHead>
+            ))}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map((row, rowIndex) => (
+            <TableRow key={rowIndex}>
+              <TableCell className="text-muted-foreground">{rowIndex + 1}</TableCell>
+              {fields.map((field, fieldIndex) => (
+                <TableCell key={fieldIndex}>
+                  {renderCell(field, Array.isArray(row) ? row[fieldIndex] : null)}
+                </TableCell>
+              ))}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
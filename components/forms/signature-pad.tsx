@@ -0,0 +1,133 @@
+'use client';
+
+import { useEffect, useRef, useState, PointerEvent } from 'react';
+import Image from 'next/image';
+import { Eraser } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+
+interface SignaturePadProps {
+  // PNG data URL of the signature, or null when nothing has been signed
+  value: string | null;
+  onChange: (value: string | null) => void;
+  hasError?: boolean;
+  disabled?: boolean;
+}
+
+/**
+ * Canvas that captures a drawn signature with mouse, pen or touch and hands it back as an image
+ */
+export function SignaturePad({
+  value,
+  onChange,
+  hasError = false,
+  disabled = false,
+}: SignaturePadProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawingRef = useRef(false);
+  const hasStrokesRef = useRef(false);
+  // A signature saved earlier is shown as an image until it is cleared and signed again
+  const [showSaved, setShowSaved] = useState(!!value);
+
+  // Match the drawing buffer to the displayed size so strokes aren't stretched
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = canvas.offsetWidth * ratio;
+    canvas.height = canvas.offsetHeight * ratio;
+
+    const context = canvas.getContext('2d');
+    if (!context) return;
+    context.scale(ratio, ratio);
+    context.lineWidth = 2;
+    context.lineCap = 'round';
+    context.lineJoin = 'round';
+    context.strokeStyle = '#111827';
+  }, [showSaved]);
+
+  const getPoint = (event: PointerEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return { x: event.clientX - rect.left, y: event.clientY - rect.top };
+  };
+
+  const handlePointerDown = (event: PointerEvent<HTMLCanvasElement>) => {
+    if (disabled) return;
+    const context = event.currentTarget.getContext('2d');
+    if (!context) return;
+
+    event.currentTarget.setPointerCapture(event.pointerId);
+    drawingRef.current = true;
+    const { x, y } = getPoint(event);
+    context.beginPath();
+    context.moveTo(x, y);
+  };
+
+  const handlePointerMove = (event: PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current) return;
+    const context = event.currentTarget.getContext('2d');
+    if (!context) return;
+
+    const { x, y } = getPoint(event);
+    context.lineTo(x, y);
+    context.stroke();
+    hasStrokesRef.current = true;
+  };
+
+  const handlePointerUp = () => {
+    if (!drawingRef.current) return;
+    drawingRef.current = false;
+
+    if (canvasRef.current && hasStrokesRef.current) {
+      onChange(canvasRef.current.toDataURL('image/png'));
+    }
+  };
+
+  const handleClear = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    hasStrokesRef.current = false;
+    setShowSaved(false);
+    onChange(null);
+  };
+
+  return (
+    <div className="space-y-2">
+      {showSaved && value ? (
+        <div className="relative h-32 w-full rounded-md border bg-white">
+          <Image src={value} alt="Signature" fill unoptimized className="object-contain" />
+        </div>
+      ) : (
+        <canvas
+          ref={canvasRef}
+          className={cn(
+            'h-32 w-full touch-none rounded-md border bg-white',
+            hasError && 'border-red-500',
+            disabled ? 'cursor-not-allowed opacity-50' : 'cursor-crosshair',
+          )}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerLeave={handlePointerUp}
+          aria-label="Signature pad"
+        />
+      )}
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-muted-foreground">
+          {value ? 'Signed' : 'Sign in the box above'}
+        </p>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          onClick={handleClear}
+          disabled={disabled || !value}
+        >
+          <Eraser className="mr-2 h-4 w-4" />
+          Clear
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -11,20 +11,45 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
-import { GripVertical, Trash2, CircleDot, CheckSquare, Plus, Image } from 'lucide-react';
+import {
+  GripVertical,
+  Trash2,
+  CircleDot,
+  CheckSquare,
+  ChevronDown,
+  Plus,
+  Image,
+  GitBranch,
+} from 'lucide-react';
 import { useSortable } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
 import { SortableQuestionCardProps } from '@/lib/types/form-builder';
 import { Badge } from '@/components/ui/badge';
 import { Textarea } from '@/components/ui/textarea';
 import { useEffect, useRef } from 'react';
+import { ItemType } from '@/lib/types/form';
+import { FieldSettingsEditor } from './field-settings-editor';
+import { LogicEditor } from './logic-editor';
+import { describeLogic } from '@/lib/utils/form-logic';
+import {
+  describeField,
+  FIELD_TYPES,
+  FORM_ONLY_TYPES,
+  getSettingsForType,
+  hasOptions,
+} from '@/lib/utils/form-utils';
 
-const questionTypes = [
-  { value: 'question', label: 'Short answer' },
-  { value: 'radio_box', label: 'Multiple choice' },
-  { value: 'checklist', label: 'Checkboxes' },
-  { value: 'photo', label: 'Photo' },
-] as const;
+// Forms can also be split into sections and repeatable groups, and work out calculated values
+const BUILDER_TYPES = [...FIELD_TYPES, ...FORM_ONLY_TYPES];
+
+const OptionIcon = ({ type, className }: { type: ItemType; className: string }) =>
+  type === 'radio_box' ? (
+    <CircleDot className={className} />
+  ) : type === 'dropdown' ? (
+    <ChevronDown className={className} />
+  ) : (
+    <CheckSquare className={className} />
+  );
 
 export function SortableQuestionCard({
   question,
@@ -32,9 +57,17 @@ export function SortableQuestionCard({
   onDelete,
   isFirst,
   isEditing,
+  previousQuestions = [],
 }: SortableQuestionCardProps) {
   const textareaRef = useRef<HTMLTextAreaElement>(null);
 
+  const logicSources = previousQuestions.map((previous, order) => ({
+    order,
+    title: previous.title,
+    type: previous.type,
+    options: previous.options,
+  }));
+
   const adjustTextareaHeight = () => {
     const textarea = textareaRef.current;
     if (textarea) {
@@ -60,12 +93,6 @@ export function SortableQuestionCard({
 
   const renderQuestionPreview = () => {
     switch (question.type) {
-      case 'question':
-        return (
-          <div className="rounded-md border bg-muted/30 px-3 py-2">
-            <p className="text-sm text-muted-foreground">Text answer</p>
-          </div>
-        );
       case 'photo':
         return (
           <div className="rounded-md border bg-muted/30 px-3 py-2">
@@ -77,22 +104,28 @@ export function SortableQuestionCard({
         );
       case 'radio_box':
       case 'checklist':
+      case 'dropdown':
         return (
           <div className="mt-2 space-y-2">
             {question.options?.map((option, optionIndex) => (
               <div key={optionIndex} className="flex items-center gap-2 pl-1">
-                {question.type === 'radio_box' ? (
-                  <CircleDot className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
-                ) : (
-                  <CheckSquare className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
-                )}
+                <OptionIcon
+                  type={question.type}
+                  className="h-4 w-4 flex-shrink-0 text-muted-foreground"
+                />
                 <span className="text-sm text-muted-foreground">{option}</span>
               </div>
             ))}
           </div>
         );
       default:
-        return null;
+        return (
+          <div className="rounded-md border bg-muted/30 px-3 py-2">
+            <p className="text-sm text-muted-foreground">
+              {describeField(question.type, question.settings)}
+            </p>
+          </div>
+        );
     }
   };
 
@@ -130,8 +163,17 @@ export function SortableQuestionCard({
                     value={question.type}
                     onValueChange={(value) =>
                       onUpdate(question.id, {
-                        type: value as (typeof questionTypes)[number]['value'],
-                        options: value === 'radio_box' || value === 'checklist' ? [''] : undefined,
+                        type: value as ItemType,
+                        options: hasOptions(value as ItemType)
+                          ? question.options?.length
+                            ? question.options
+                            : ['']
+                          : undefined,
+                        settings:
+                          getSettingsForType(value as ItemType, question.settings) || undefined,
+                        // Sections and calculated items have nothing to answer
+                        required:
+                          value === 'section' || value === 'calculated' ? false : question.required,
                       })
                     }
                   >
@@ -139,7 +181,7 @@ export function SortableQuestionCard({
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      {questionTypes.map((type) => (
+                      {BUILDER_TYPES.map((type) => (
                         <SelectItem key={type.value} value={type.value} className="text-left">
                           {type.label}
                         </SelectItem>
@@ -151,25 +193,32 @@ export function SortableQuestionCard({
                 <div className="flex w-full items-start justify-between">
                   <p className="whitespace-pre-wrap text-base font-medium">{question.title}</p>
                   <Badge variant="secondary" className="mt-1 h-6 shrink-0">
-                    {questionTypes.find((type) => type.value === question.type)?.label}
+                    {BUILDER_TYPES.find((type) => type.value === question.type)?.label}
                   </Badge>
                 </div>
               )}
             </div>
 
             {!isEditing ? (
-              renderQuestionPreview()
+              <>
+                {renderQuestionPreview()}
+                {question.logic && (
+                  <p className="flex items-center gap-2 text-xs text-muted-foreground">
+                    <GitBranch className="h-3 w-3 shrink-0" />
+                    {describeLogic(
+                      question.logic,
+                      Object.fromEntries(logicSources.map((s) => [s.order, s.title])),
+                    )}
+                  </p>
+                )}
+              </>
             ) : (
               <>
-                {(question.type === 'radio_box' || question.type === 'checklist') && (
+                {hasOptions(question.type) && (
                   <div className="space-y-2">
                     {question.options?.map((option, optionIndex) => (
                       <div key={optionIndex} className="flex items-center gap-2">
-                        {question.type === 'radio_box' ? (
-                          <CircleDot className="h-4 w-4" />
-                        ) : (
-                          <CheckSquare className="h-4 w-4" />
-                        )}
+                        <OptionIcon type={question.type} className="h-4 w-4" />
                         <div className="flex flex-1 items-center gap-2">
                           <Input
                             value={option}
@@ -210,12 +259,13 @@ export function SortableQuestionCard({
                   </div>
                 )}
 
-                {question.type === 'question' && (
-                  <div className="space-y-2">
-                    <div className="rounded-md border bg-muted/30 px-3 py-2">
-                      <p className="text-sm text-muted-foreground">Text answer</p>
-                    </div>
-                  </div>
+                {!hasOptions(question.type) && question.type !== 'photo' && (
+                  <FieldSettingsEditor
+                    type={question.type}
+                    settings={question.settings}
+                    onChange={(settings) => onUpdate(question.id, { settings })}
+                    sources={logicSources}
+                  />
                 )}
 
                 {question.type === 'photo' && (
@@ -229,22 +279,32 @@ export function SortableQuestionCard({
                   </div>
                 )}
 
+                <LogicEditor
+                  logic={question.logic}
+                  sources={logicSources}
+                  onChange={(logic) => onUpdate(question.id, { logic })}
+                />
+
                 <div className="flex items-center justify-between">
-                  <div className="flex items-center gap-2">
-                    <Checkbox
-                      id={`required-${question.id}`}
-                      checked={question.required}
-                      onCheckedChange={(checked) =>
-                        onUpdate(question.id, { required: checked as boolean })
-                      }
-                    />
-                    <label
-                      htmlFor={`required-${question.id}`}
-                      className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
-                    >
-                      Required
-                    </label>
-                  </div>
+                  {question.type !== 'section' && question.type !== 'calculated' ? (
+                    <div className="flex items-center gap-2">
+                      <Checkbox
+                        id={`required-${question.id}`}
+                        checked={question.required}
+                        onCheckedChange={(checked) =>
+                          onUpdate(question.id, { required: checked as boolean })
+                        }
+                      />
+                      <label
+                        htmlFor={`required-${question.id}`}
+                        className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
+                      >
+                        Required
+                      </label>
+                    </div>
+                  ) : (
+                    <div />
+                  )}
                   {!isFirst && (
                     <Button variant="ghost" size="icon" onClick={() => onDelete(question.id)}>
                       <Trash2 className="h-4 w-4" />
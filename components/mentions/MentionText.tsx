@@ -0,0 +1,33 @@
+'use client';
+
+import { Fragment } from 'react';
+import { MentionMember, splitMentions } from '@/lib/utils/mentions';
+import { cn } from '@/lib/utils';
+
+interface MentionTextProps {
+  content: string;
+  members: MentionMember[];
+  className?: string;
+}
+
+/**
+ * Renders comment content with @[user_id] tokens shown as named chips
+ */
+export function MentionText({ content, members, className }: MentionTextProps) {
+  return (
+    <div className={cn('whitespace-pre-line', className)}>
+      {splitMentions(content).map((segment, index) =>
+        segment.type === 'text' ? (
+          <Fragment key={index}>{segment.text}</Fragment>
+        ) : (
+          <span
+            key={index}
+            className="rounded bg-blue-100 px-1 py-0.5 font-medium text-blue-700 dark:bg-blue-900/30 dark:text-blue-300"
+          >
+            @{members.find((member) => member.id === segment.userId)?.name || 'Unknown user'}
+          </span>
+        ),
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+'use client';
+
+import React, { forwardRef, useImperativeHandle, useMemo, useRef, useState } from 'react';
+import { Avatar, AvatarFallback, AvatarImage } from '@/app/components/ui/avatar';
+import { ProjectMember } from '@/hooks/useProjectMembers';
+import { decodeMentions, encodeMentions, getMentionQuery } from '@/lib/utils/mentions';
+import { cn } from '@/lib/utils';
+
+const MAX_SUGGESTIONS = 6;
+
+interface MentionTextareaProps
+  extends Omit<React.TextareaHTMLAttributes<HTMLTextAreaElement>, 'value' | 'onChange'> {
+  // Comment content with @[user_id] tokens; members are shown as @Name while editing
+  value: string;
+  onChange: (value: string) => void;
+  members: ProjectMember[];
+}
+
+/**
+ * Textarea with @ autocomplete over project members
+ */
+export const MentionTextarea = forwardRef<HTMLTextAreaElement, MentionTextareaProps>(
+  ({ value, onChange, members, onKeyDown, onBlur, className, ...props }, ref) => {
+    const textareaRef = useRef<HTMLTextAreaElement>(null);
+    const [mention, setMention] = useState<{ query: string; start: number } | null>(null);
+    const [highlighted, setHighlighted] = useState(0);
+
+    useImperativeHandle(ref, () => textareaRef.current as HTMLTextAreaElement);
+
+    const displayValue = useMemo(() => decodeMentions(value, members), [value, members]);
+
+    const suggestions = useMemo(() => {
+      if (!mention) return [];
+      const query = mention.query.toLowerCase();
+      return members
+        .filter((member) => member.name?.toLowerCase().includes(query))
+        .slice(0, MAX_SUGGESTIONS);
+    }, [mention, members]);
+
+    const updateMention = (text: string, caret: number) => {
+      setMention(getMentionQuery(text, caret));
+      setHighlighted(0);
+    };
+
+    const selectMember = (member: ProjectMember) => {
+      const textarea = textareaRef.current;
+      if (!mention || !textarea) return;
+
+      const caret = textarea.selectionStart;
+      const inserted = `@${member.name} `;
+      const nextText = displayValue.slice(0, mention.start) + inserted + displayValue.slice(caret);
+      const nextCaret = mention.start + inserted.length;
+
+      onChange(encodeMentions(nextText, members));
+      setMention(null);
+
+      requestAnimationFrame(() => {
+        textarea.focus();
+        textarea.setSelectionRange(nextCaret, nextCaret);
+      });
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+      if (suggestions.length > 0) {
+        if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+          e.preventDefault();
+          const step = e.key === 'ArrowDown' ? 1 : -1;
+          setHighlighted((prev) => (prev + step + suggestions.length) % suggestions.length);
+          return;
+        }
+        if ((e.key === 'Enter' && !e.ctrlKey && !e.metaKey) || e.key === 'Tab') {
+          e.preventDefault();
+          selectMember(suggestions[highlighted]);
+          return;
+        }
+        if (e.key === 'Escape') {
+          e.preventDefault();
+          e.stopPropagation();
+          setMention(null);
+          return;
+        }
+      }
+
+      onKeyDown?.(e);
+    };
+
+    return (
+      <div className="relative w-full">
+        <textarea
+          {...props}
+          ref={textareaRef}
+          value={displayValue}
+          onChange={(e) => {
+            onChange(encodeMentions(e.target.value, members));
+            updateMention(e.target.value, e.target.selectionStart);
+          }}
+          onKeyDown={handleKeyDown}
+          onClick={(e) => updateMention(displayValue, e.currentTarget.selectionStart)}
+          onBlur={(e) => {
+            // Let a click on a suggestion land before the list closes
+            setTimeout(() => setMention(null), 150);
+            onBlur?.(e);
+          }}
+          className={className}
+        />
+
+        {suggestions.length > 0 && (
+          <ul
+            className="absolute left-0 top-full z-50 mt-1 w-64 overflow-hidden rounded-md border border-border bg-card shadow-lg"
+            role="listbox"
+          >
+            {suggestions.map((member, index) => (
+              <li
+                key={member.id}
+                role="option"
+                aria-selected={index === highlighted}
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  selectMember(member);
+                }}
+                onMouseEnter={() => setHighlighted(index)}
+                className={cn(
+                  'flex cursor-pointer items-center gap-2 px-3 py-2 text-sm',
+                  index === highlighted ? 'bg-muted' : 'hover:bg-muted/50',
+                )}
+              >
+                <Avatar className="h-5 w-5">
+                  <AvatarImage src={member.avatar_url} />
+                  <AvatarFallback className="text-[10px]">
+                    {member.name
+                      ?.split(' ')
+                      .map((n) => n[0])
+                      .join('') || '?'}
+                  </AvatarFallback>
+                </Avatar>
+                <span className="truncate">{member.name}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    );
+  },
+);
+
+MentionTextarea.displayName = 'MentionTextarea';
@@ -94,6 +94,8 @@ function getEntityPath(notification: Notification): string | null {
       return `/protected/approvals/${entity_id}`;
     case 'task_comment':
       return data?.task_id ? `/protected/tasks/${data.task_id}#comment-${entity_id}` : null;
+    case 'approval_comment':
+      return data?.approval_id ? `/protected/approvals?approval=${data.approval_id}` : null;
     default:
       return null;
   }
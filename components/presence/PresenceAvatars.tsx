@@ -0,0 +1,48 @@
+'use client';
+
+import { Avatar, AvatarFallback, AvatarImage } from '@/app/components/ui/avatar';
+import { PresenceViewer } from '@/hooks/usePresence';
+import { cn } from '@/lib/utils';
+
+const MAX_AVATARS = 4;
+
+interface PresenceAvatarsProps {
+  viewers: PresenceViewer[];
+  className?: string;
+}
+
+/**
+ * Overlapping avatars of the other people viewing the same page
+ */
+export function PresenceAvatars({ viewers, className }: PresenceAvatarsProps) {
+  if (viewers.length === 0) return null;
+
+  const hidden = viewers.length - MAX_AVATARS;
+  const names = viewers.map((viewer) => viewer.name).join(', ');
+
+  return (
+    <div className={cn('flex items-center', className)} title={`Also viewing: ${names}`}>
+      <div className="flex -space-x-2">
+        {viewers.slice(0, MAX_AVATARS).map((viewer) => (
+          <Avatar key={viewer.user_id} className="h-7 w-7 border-2 border-background">
+            <AvatarImage src={viewer.avatar_url} />
+            <AvatarFallback className="bg-secondary text-[10px] text-secondary-foreground">
+              {viewer.name
+                ?.split(' ')
+                .map((n) => n[0])
+                .join('') || '?'}
+            </AvatarFallback>
+          </Avatar>
+        ))}
+        {hidden > 0 && (
+          <div className="flex h-7 w-7 items-center justify-center rounded-full border-2 border-background bg-muted text-[10px] text-muted-foreground">
+            +{hidden}
+          </div>
+        )}
+      </div>
+      <span className="ml-2 hidden text-xs text-muted-foreground sm:inline">
+        {viewers.length === 1 ? `${viewers[0].name} is viewing` : `${viewers.length} viewing`}
+      </span>
+    </div>
+  );
+}
@@ -16,6 +16,7 @@ interface SiteDiaryPhotoUploaderProps {
   hasError?: boolean;
   errorMessage?: string;
   isDisabled?: boolean;
+  acceptedFileTypes?: string; // MIME types string for the file input accept attribute
 }
 
 interface FileState {
@@ -31,6 +32,7 @@ export default function SiteDiaryPhotoUploader({
   hasError = false,
   errorMessage = 'This field is required',
   isDisabled = false,
+  acceptedFileTypes = 'image/*',
 }: SiteDiaryPhotoUploaderProps) {
   const itemId = item.id!;
   const maxSize = 31457280; // 30MB default
@@ -212,7 +214,7 @@ export default function SiteDiaryPhotoUploader({
         <input
           ref={fileInputRef}
           type="file"
-          accept="image/*"
+          accept={acceptedFileTypes}
           className="hidden"
           onChange={handleInputChange}
           disabled={isDisabled}
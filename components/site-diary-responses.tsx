@@ -1,6 +1,9 @@
 import { SiteDiaryResponse, SiteDiaryTemplateItem } from '@/lib/types/site-diary';
 import { getAttachments } from '@/lib/api/attachments';
 import { FileViewer } from '@/components/file-viewer';
+import { FormAnswerValue } from '@/components/forms/form-answer-value';
+import { isAnswerEmpty } from '@/lib/utils/form-utils';
+import { getItemStates } from '@/lib/utils/form-logic';
 import Image from 'next/image';
 import { ZoomIn, FileText } from 'lucide-react';
 import { Dialog, DialogContent } from '@/components/ui/dialog';
@@ -116,7 +119,8 @@ export function SiteDiaryResponses({ diaryData, className = '' }: SiteDiaryRespo
 
   // Render answer value based on item type
   const renderAnswerValue = (item: SiteDiaryTemplateItem, answerValue: any) => {
-    if (!answerValue) return <span className="text-muted-foreground">No answer provided</span>;
+    if (isAnswerEmpty(answerValue))
+      return <span className="text-muted-foreground">No answer provided</span>;
 
     switch (item.item_type) {
       case 'checklist':
@@ -131,13 +135,29 @@ export function SiteDiaryResponses({ diaryData, className = '' }: SiteDiaryRespo
         return <span>{answerValue}</span>;
 
       case 'photo':
+      case 'file':
         return <FileAnswerViewer diaryId={diaryData.diary.id || null} itemId={item.id} />;
 
+      case 'number':
+      case 'date':
+      case 'time':
+      case 'signature':
+      case 'dropdown':
+      case 'yes_no_na':
+      case 'rating':
+        return <FormAnswerValue item={item} value={answerValue} />;
+
       default:
         return <span>{answerValue}</span>;
     }
   };
 
+  // Questions hidden by conditional logic when the diary was filled in have no answer to show
+  const itemStates = getItemStates(
+    diaryData.template_items || [],
+    Object.fromEntries(diaryData.answers.map((answer) => [answer.item_id, answer.answer_value])),
+  );
+
   if (!diaryData.template_items || diaryData.template_items.length === 0) {
     return (
       <div className={className}>
@@ -229,12 +249,14 @@ export function SiteDiaryResponses({ diaryData, className = '' }: SiteDiaryRespo
       {/* Template Items/Responses */}
       <div className="mb-6">
         <div className="space-y-4">
-          {diaryData.template_items.map((item) => (
-            <div key={item.id} className="rounded-md border p-4">
-              <p className="mb-2 font-medium">{item.question_value}</p>
-              <div className="ml-2">{renderAnswerValue(item, getAnswerForItem(item.id))}</div>
-            </div>
-          ))}
+          {diaryData.template_items
+            .filter((item) => itemStates[item.display_order]?.visible)
+            .map((item) => (
+              <div key={item.id} className="rounded-md border p-4">
+                <p className="mb-2 font-medium">{item.question_value}</p>
+                <div className="ml-2">{renderAnswerValue(item, getAnswerForItem(item.id))}</div>
+              </div>
+            ))}
         </div>
       </div>
     </div>
@@ -8,7 +8,7 @@ import {
 /**
  * Hook for fetching pending approvals for current user (as approver)
  */
-export function usePendingApprovals() {
+export function usePendingApprovals(projectId?: number) {
   const [approvals, setApprovals] = useState<ApprovalWithDetails[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -17,7 +17,7 @@ export function usePendingApprovals() {
     try {
       setLoading(true);
       setError(null);
-      const data = await getPendingApprovalsForUser();
+      const data = await getPendingApprovalsForUser(projectId);
       setApprovals(data);
     } catch (err) {
       console.error('Error fetching pending approvals:', err);
@@ -29,7 +29,7 @@ export function usePendingApprovals() {
 
   useEffect(() => {
     fetchApprovals();
-  }, []);
+  }, [projectId]);
 
   return {
     approvals,
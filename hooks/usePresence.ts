@@ -0,0 +1,60 @@
+import { useEffect, useState } from 'react';
+import { getSupabaseClient } from '@/lib/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+
+export type PresenceViewer = {
+  user_id: string;
+  name: string;
+  avatar_url?: string;
+};
+
+/**
+ * Other people currently viewing the same page, tracked on a Supabase Realtime presence
+ * channel. Pass null to stay off the channel (e.g. while a drawer is closed).
+ */
+export function usePresence(channelName: string | null) {
+  const { user } = useAuth();
+  const [viewers, setViewers] = useState<PresenceViewer[]>([]);
+
+  const userId = user?.id;
+  const name = user?.profile?.global_display_name || user?.user_metadata?.name || 'Anonymous User';
+  const avatarUrl = user?.profile?.global_avatar_url || user?.user_metadata?.avatar_url;
+
+  useEffect(() => {
+    if (!channelName || !userId) {
+      setViewers([]);
+      return;
+    }
+
+    const supabase = getSupabaseClient();
+    const channel = supabase.channel(channelName, {
+      config: { presence: { key: userId } },
+    });
+
+    channel
+      .on('presence', { event: 'sync' }, () => {
+        // One entry per person, even with the page open in several tabs
+        const state = channel.presenceState<PresenceViewer>();
+        setViewers(
+          Object.entries(state)
+            .filter(([key, metas]) => key !== userId && metas.length > 0)
+            .map(([, metas]) => ({
+              user_id: metas[0].user_id,
+              name: metas[0].name,
+              avatar_url: metas[0].avatar_url,
+            })),
+        );
+      })
+      .subscribe(async (status) => {
+        if (status === 'SUBSCRIBED') {
+          await channel.track({ user_id: userId, name, avatar_url: avatarUrl });
+        }
+      });
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [channelName, userId, name, avatarUrl]);
+
+  return viewers;
+}
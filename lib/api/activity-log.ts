@@ -0,0 +1,185 @@
+'use client';
+
+import { createClient } from '@/utils/supabase/client';
+import { Database } from '@/lib/supabase/types.generated';
+
+type ActivityLogRow = Database['public']['Tables']['activity_log']['Row'];
+
+export type ActivityEntityType =
+  | 'task'
+  | 'form_entry'
+  | 'site_diary'
+  | 'approval'
+  | 'organization_member'
+  | 'project_member';
+
+export type ActivityAction = 'created' | 'updated' | 'deleted';
+
+export type ActivityFieldChange = { old: unknown; new: unknown };
+
+export type ActivityLogEntry = Omit<ActivityLogRow, 'entity_type' | 'action' | 'changes'> & {
+  entity_type: ActivityEntityType;
+  action: ActivityAction;
+  // Keyed by column name, or "answer:<item id>" for form and diary answers
+  changes: Record<string, ActivityFieldChange>;
+  actor_name: string | null;
+};
+
+export type ActivityLogFilters = {
+  search?: string;
+  entityType?: ActivityEntityType | 'all';
+  from?: Date | null;
+  to?: Date | null;
+  limit?: number;
+  offset?: number;
+};
+
+const DEFAULT_PAGE_SIZE = 100;
+
+// Characters with a meaning in PostgREST filter strings
+const sanitizeSearch = (search: string) => search.replace(/[,()%*\\]/g, ' ').trim();
+
+export class ActivityLogAPI {
+  private supabase = createClient();
+
+  /**
+   * Get the history of a task, form entry or site diary, including its approvals
+   */
+  async getEntityActivity(
+    entityType: ActivityEntityType,
+    entityId: number,
+  ): Promise<ActivityLogEntry[]> {
+    try {
+      const { data, error } = await this.supabase
+        .from('activity_log')
+        .select('*')
+        .or(
+          `and(entity_type.eq.${entityType},entity_id.eq.${entityId}),` +
+            `and(related_entity_type.eq.${entityType},related_entity_id.eq.${entityId})`,
+        )
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        throw new Error(`Failed to fetch activity: ${error.message}`);
+      }
+
+      return this.withActorNames((data || []) as ActivityLogRow[]);
+    } catch (error) {
+      console.error('Error in getEntityActivity:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the history of everything in an organization, newest first.
+   * The search matches entity names and the names or emails of the people who made changes.
+   */
+  async getOrganizationActivity(
+    organizationId: number,
+    filters: ActivityLogFilters = {},
+  ): Promise<ActivityLogEntry[]> {
+    const { entityType = 'all', from, to, limit = DEFAULT_PAGE_SIZE, offset = 0 } = filters;
+    const search = sanitizeSearch(filters.search || '');
+
+    try {
+      let query = this.supabase
+        .from('activity_log')
+        .select('*')
+        .eq('organization_id', organizationId)
+        .order('created_at', { ascending: false })
+        .range(offset, offset + limit - 1);
+
+      if (entityType !== 'all') {
+        query = query.eq('entity_type', entityType);
+      }
+      if (from) {
+        query = query.gte('created_at', from.toISOString());
+      }
+      if (to) {
+        query = query.lte('created_at', to.toISOString());
+      }
+
+      if (search) {
+        const actorIds = await this.findUserIds(search);
+        query = query.or(
+          [
+            `entity_name.ilike.%${search}%`,
+            ...(actorIds.length > 0 ? [`actor_id.in.(${actorIds.join(',')})`] : []),
+          ].join(','),
+        );
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        throw new Error(`Failed to fetch organization activity: ${error.message}`);
+      }
+
+      return this.withActorNames((data || []) as ActivityLogRow[]);
+    } catch (error) {
+      console.error('Error in getOrganizationActivity:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Ids of users whose name or email contains the search text
+   */
+  private async findUserIds(search: string): Promise<string[]> {
+    const { data, error } = await this.supabase
+      .from('user_profiles')
+      .select('id')
+      .or(
+        `first_name.ilike.%${search}%,last_name.ilike.%${search}%,` +
+          `global_display_name.ilike.%${search}%,email.ilike.%${search}%`,
+      )
+      .limit(50);
+
+    if (error) {
+      throw new Error(`Failed to search users: ${error.message}`);
+    }
+
+    return (data || []).map((profile: { id: string }) => profile.id);
+  }
+
+  private async withActorNames(rows: ActivityLogRow[]): Promise<ActivityLogEntry[]> {
+    const actorIds = Array.from(
+      new Set(rows.map((row) => row.actor_id).filter((id): id is string => !!id)),
+    );
+    const names: Record<string, string> = {};
+
+    if (actorIds.length > 0) {
+      const { data: profiles, error } = await this.supabase
+        .from('user_profiles')
+        .select('id, first_name, last_name, global_display_name, email')
+        .in('id', actorIds);
+
+      if (error) {
+        console.error('Error fetching activity actors:', error);
+      }
+
+      (profiles || []).forEach(
+        (
+          profile: Pick<
+            Database['public']['Tables']['user_profiles']['Row'],
+            'id' | 'first_name' | 'last_name' | 'global_display_name' | 'email'
+          >,
+        ) => {
+          const fullName = [profile.first_name, profile.last_name].filter(Boolean).join(' ');
+          names[profile.id] = fullName || profile.global_display_name || profile.email || 'Unknown';
+        },
+      );
+    }
+
+    return rows.map((row) => ({
+      ...row,
+      entity_type: row.entity_type as ActivityEntityType,
+      action: row.action as ActivityAction,
+      changes: (row.changes || {}) as Record<string, ActivityFieldChange>,
+      actor_name: row.actor_id ? names[row.actor_id] || 'Unknown' : null,
+    }));
+  }
+}
+
+// Export a singleton instance
+export const activityLogAPI = new ActivityLogAPI();
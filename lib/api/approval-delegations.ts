@@ -0,0 +1,142 @@
+import { createClient } from '@/utils/supabase/client';
+import { Database } from '@/lib/supabase/types.generated';
+
+export type ApprovalDelegation = Database['public']['Tables']['approval_delegations']['Row'];
+
+export interface ApprovalDelegationWithUsers extends ApprovalDelegation {
+  user_name: string;
+  delegate_name: string;
+}
+
+export interface CreateApprovalDelegationParams {
+  delegate_id: string;
+  starts_on: string; // yyyy-MM-dd
+  ends_on: string; // yyyy-MM-dd
+  reason?: string;
+}
+
+// Today as the database sees it (CURRENT_DATE is the UTC date)
+const today = () => new Date().toISOString().slice(0, 10);
+
+/**
+ * Out-of-office periods the current user has set up, and those where they are the delegate
+ */
+export async function getMyApprovalDelegations(): Promise<ApprovalDelegationWithUsers[]> {
+  const supabase = createClient();
+
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+
+  if (!session) {
+    throw new Error('No active session');
+  }
+
+  const { data: delegations, error } = await supabase
+    .from('approval_delegations')
+    .select('*')
+    .or(`user_id.eq.${session.user.id},delegate_id.eq.${session.user.id}`)
+    .gte('ends_on', today())
+    .order('starts_on', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching approval delegations:', error);
+    throw error;
+  }
+
+  const userIds = Array.from(
+    new Set((delegations || []).flatMap((d: ApprovalDelegation) => [d.user_id, d.delegate_id])),
+  );
+  const { data: usersData } = await supabase.rpc('get_user_details', {
+    user_ids: userIds,
+  });
+
+  const usersMap = new Map<string, string>(
+    usersData?.map((u: { id: string; raw_user_meta_data?: { email?: string } }) => [
+      u.id,
+      u.raw_user_meta_data?.email || 'Unknown',
+    ]) || [],
+  );
+
+  return (delegations || []).map((delegation: ApprovalDelegation) => ({
+    ...delegation,
+    user_name: usersMap.get(delegation.user_id) || 'Unknown',
+    delegate_name: usersMap.get(delegation.delegate_id) || 'Unknown',
+  }));
+}
+
+/**
+ * Name a delegate to respond to the current user's approvals between two dates (inclusive)
+ */
+export async function createApprovalDelegation(
+  params: CreateApprovalDelegationParams,
+): Promise<ApprovalDelegation> {
+  const supabase = createClient();
+
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+
+  if (!session) {
+    throw new Error('No active session');
+  }
+
+  if (params.delegate_id === session.user.id) {
+    throw new Error('You cannot delegate approvals to yourself');
+  }
+
+  if (params.ends_on < params.starts_on) {
+    throw new Error('The end date must be on or after the start date');
+  }
+
+  const { data, error } = await supabase
+    .from('approval_delegations')
+    .insert({
+      user_id: session.user.id,
+      delegate_id: params.delegate_id,
+      starts_on: params.starts_on,
+      ends_on: params.ends_on,
+      reason: params.reason?.trim() || null,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error creating approval delegation:', error);
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Cancel an out-of-office period
+ */
+export async function deleteApprovalDelegation(delegationId: number): Promise<void> {
+  const supabase = createClient();
+
+  const { error } = await supabase.from('approval_delegations').delete().eq('id', delegationId);
+
+  if (error) {
+    console.error('Error deleting approval delegation:', error);
+    throw error;
+  }
+}
+
+/**
+ * Ids of the users the current user is standing in for today. The database decides, so today
+ * is its date rather than the browser's and overlapping delegations resolve as in
+ * active_approval_delegate().
+ */
+export async function getActiveDelegatorIds(): Promise<string[]> {
+  const supabase = createClient();
+
+  const { data, error } = await supabase.rpc('active_approval_delegators');
+
+  if (error) {
+    console.error('Error fetching active delegations:', error);
+    return [];
+  }
+
+  return (data || []) as string[];
+}
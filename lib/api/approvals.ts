@@ -1,10 +1,34 @@
 import { createClient } from '@/utils/supabase/client';
 import { Database } from '@/lib/supabase/types.generated';
+import { getActiveDelegatorIds } from '@/lib/api/approval-delegations';
 
 // Use generated types from database
 type ApprovalComment = Database['public']['Tables']['approval_comments']['Row'];
 type ApprovalApproverResponse = Database['public']['Tables']['approval_approver_responses']['Row'];
 type Approval = Database['public']['Tables']['approvals']['Row'];
+type ApprovalSubmissionRow = Database['public']['Tables']['approval_submissions']['Row'];
+
+/**
+ * How approver responses decide the outcome of an approval:
+ * - all: every approver must approve
+ * - any: the first approval wins
+ * - quorum: `required_approvals` approvers must approve
+ * - sequential: approvers respond one step at a time; each step needs one approval
+ */
+export type ApprovalPolicy = 'all' | 'any' | 'quorum' | 'sequential';
+
+export interface ApprovalPolicySettings {
+  policy?: ApprovalPolicy;
+  required_approvals?: number | null;
+}
+
+export interface ApprovalDeadlineSettings {
+  due_at?: string | null;
+  // Hours between reminders to approvers who haven't responded; null for none
+  reminder_interval_hours?: number | null;
+  // Added as an approver once due_at has passed
+  escalation_approver_id?: string | null;
+}
 
 // Enhanced interfaces for API responses
 export interface ApprovalWithDetails {
@@ -17,6 +41,10 @@ export interface ApprovalWithDetails {
   entity_title: string; // Dynamic based on entity type
   entity_summary: string; // Brief description
   last_updated: string;
+  due_at: string | null;
+  // Set when the current user sees this approval as an out-of-office delegate
+  on_behalf_of?: string;
+  on_behalf_of_name?: string;
 }
 
 export interface ApprovalWithEntityDetails extends ApprovalWithDetails {
@@ -24,6 +52,40 @@ export interface ApprovalWithEntityDetails extends ApprovalWithDetails {
   comments: ApprovalCommentWithUser[];
   approvers: any[]; // Will be enhanced with user details
   approver_responses: ApprovalApproverResponseWithUser[];
+  policy: ApprovalPolicy;
+  required_approvals: number | null;
+  current_step: number | null;
+  approver_steps: Record<string, number>; // Step of each approver, keyed by approver id
+  reminder_interval_hours: number | null;
+  escalation_approver_id: string | null;
+  escalated_at: string | null;
+  requester_id: string;
+  submissions: ApprovalSubmission[]; // Oldest round first
+}
+
+export type ApprovalRoundOutcome = 'approved' | 'declined' | 'revision_requested' | 'recalled';
+
+/**
+ * A response as it stood when its round closed
+ */
+export interface ApprovalRoundResponse {
+  approver_id: string;
+  approver_name: string | null;
+  responded_by: string | null;
+  responder_name: string | null;
+  status: string;
+  comment: string | null;
+  responded_at: string | null;
+}
+
+/**
+ * One submission of an approval: the entity as submitted and, once closed, how it was decided
+ */
+export interface ApprovalSubmission
+  extends Omit<ApprovalSubmissionRow, 'outcome' | 'responses' | 'entity_data'> {
+  outcome: ApprovalRoundOutcome | null;
+  responses: ApprovalRoundResponse[];
+  entity_data: unknown;
 }
 
 export interface ApprovalCommentWithUser extends ApprovalComment {
@@ -32,12 +94,37 @@ export interface ApprovalCommentWithUser extends ApprovalComment {
 
 export interface ApprovalApproverResponseWithUser extends ApprovalApproverResponse {
   approver_name: string;
+  // Name of the delegate who responded, when someone other than the approver did
+  responder_name: string | null;
 }
 
-export interface CreateApprovalParams {
+export interface CreateApprovalParams extends ApprovalPolicySettings, ApprovalDeadlineSettings {
   entity_type: string;
   entity_id: number;
   approvers_id: string[];
+  // Sequential only: step of each approver; defaults to one step per approver in list order
+  approver_steps?: Record<string, number>;
+}
+
+/**
+ * Whether an approval is still waiting on approvers after its due date
+ */
+export function isApprovalOverdue(approval: { status: string; due_at?: string | null }): boolean {
+  return (
+    approval.status === 'submitted' && !!approval.due_at && new Date(approval.due_at) < new Date()
+  );
+}
+
+/**
+ * Throws when the policy can't be met by the given approvers
+ */
+function validateApprovalPolicy(settings: ApprovalPolicySettings, approverCount: number) {
+  if (settings.policy !== 'quorum') return;
+
+  const required = settings.required_approvals;
+  if (!required || required < 1 || required > approverCount) {
+    throw new Error(`Required approvals must be between 1 and ${approverCount}`);
+  }
 }
 
 export async function createApproval(params: CreateApprovalParams) {
@@ -54,6 +141,9 @@ export async function createApproval(params: CreateApprovalParams) {
 
   console.log('Current user ID:', session.user.id);
 
+  const policy = params.policy || 'all';
+  validateApprovalPolicy(params, params.approvers_id.length);
+
   // First, create the approval
   const { data: approval, error: approvalError } = await supabase
     .from('approvals')
@@ -61,6 +151,11 @@ export async function createApproval(params: CreateApprovalParams) {
       entity_type: params.entity_type,
       entity_id: params.entity_id,
       requester_id: session.user.id,
+      policy,
+      required_approvals: policy === 'quorum' ? params.required_approvals : null,
+      due_at: params.due_at || null,
+      reminder_interval_hours: params.reminder_interval_hours || null,
+      escalation_approver_id: params.due_at ? params.escalation_approver_id || null : null,
     })
     .select()
     .single();
@@ -71,9 +166,10 @@ export async function createApproval(params: CreateApprovalParams) {
   }
 
   // Then, create the approval_approvers entries
-  const approvalApprovers = params.approvers_id.map((approver_id) => ({
+  const approvalApprovers = params.approvers_id.map((approver_id, index) => ({
     approval_id: approval.id,
     approver_id: approver_id,
+    step: policy === 'sequential' ? params.approver_steps?.[approver_id] || index + 1 : 1,
   }));
 
   const { error: approversError } = await supabase
@@ -166,7 +262,7 @@ export async function declineApproval(approvalId: number) {
   return approval;
 }
 
-export interface SubmitApprovalRequest {
+export interface SubmitApprovalRequest extends ApprovalPolicySettings {
   entityId: number;
   entityType: string;
   status: 'submitted' | 'approved' | 'declined' | 'revision_requested';
@@ -192,6 +288,14 @@ export async function submitApprovalForEntity(request: SubmitApprovalRequest) {
       throw new Error(`Failed to check existing approval: ${checkError.message}`);
     }
 
+    // Only change the policy when the caller asks for one
+    const policySettings = request.policy
+      ? {
+          policy: request.policy,
+          required_approvals: request.policy === 'quorum' ? request.required_approvals : null,
+        }
+      : {};
+
     if (existingApproval) {
       // Update existing approval
       const { data: updatedApproval, error: updateError } = await supabase
@@ -200,6 +304,7 @@ export async function submitApprovalForEntity(request: SubmitApprovalRequest) {
           status: request.status,
           user_id: request.userId,
           last_updated: new Date().toISOString(),
+          ...policySettings,
         })
         .eq('id', existingApproval.id)
         .select()
@@ -210,6 +315,11 @@ export async function submitApprovalForEntity(request: SubmitApprovalRequest) {
         throw new Error(`Failed to update approval: ${updateError.message}`);
       }
 
+      // Submitting an approval that is already submitted doesn't start a new round
+      if (request.status === 'submitted' && existingApproval.status !== 'submitted') {
+        await recordApprovalSubmission(updatedApproval.id, request.entityType, request.entityId);
+      }
+
       return updatedApproval;
     } else {
       // Create new approval
@@ -222,6 +332,7 @@ export async function submitApprovalForEntity(request: SubmitApprovalRequest) {
           user_id: request.userId,
           requester_id: request.userId,
           last_updated: new Date().toISOString(),
+          ...policySettings,
         })
         .select()
         .single();
@@ -231,6 +342,10 @@ export async function submitApprovalForEntity(request: SubmitApprovalRequest) {
         throw new Error(`Failed to create approval: ${createError.message}`);
       }
 
+      if (request.status === 'submitted') {
+        await recordApprovalSubmission(newApproval.id, request.entityType, request.entityId);
+      }
+
       return newApproval;
     }
   } catch (error) {
@@ -345,6 +460,14 @@ async function submitApprovalLegacy(approvalId: number) {
       throw new Error('Failed to update approval status');
     }
 
+    if (approvalCheck.status !== 'submitted') {
+      await recordApprovalSubmission(
+        approval.id,
+        approvalCheck.entity_type,
+        approvalCheck.entity_id,
+      );
+    }
+
     console.log('Successfully updated approval:', approval);
     return approval;
   } catch (error) {
@@ -428,9 +551,11 @@ export async function updateApprovers(approvalId: number, approvers_id: string[]
 // =============================================================================
 
 /**
- * Get pending approvals for current user (as approver)
+ * Get pending approvals for current user (as approver), optionally limited to one project
  */
-export async function getPendingApprovalsForUser(): Promise<ApprovalWithDetails[]> {
+export async function getPendingApprovalsForUser(
+  projectId?: number,
+): Promise<ApprovalWithDetails[]> {
   const supabase = createClient();
 
   const {
@@ -441,7 +566,10 @@ export async function getPendingApprovalsForUser(): Promise<ApprovalWithDetails[
     throw new Error('No active session');
   }
 
-  // Get approvals where current user is an approver and hasn't responded yet
+  // Approvers the current user is standing in for while they're out of office
+  const delegatorIds = await getActiveDelegatorIds();
+
+  // Get approvals where current user (or someone they stand in for) is an approver and hasn't responded yet
   const { data: approvals, error } = await supabase
     .from('approvals')
     .select(
@@ -453,10 +581,13 @@ export async function getPendingApprovalsForUser(): Promise<ApprovalWithDetails[
       entity_id,
       last_updated,
       requester_id,
-      approval_approvers!inner(approver_id)
+      due_at,
+      policy,
+      current_step,
+      approval_approvers!inner(approver_id, step)
     `,
     )
-    .eq('approval_approvers.approver_id', session.user.id)
+    .in('approval_approvers.approver_id', [session.user.id, ...delegatorIds])
     .in('status', ['submitted']) // Only show submitted approvals
     .order('created_at', { ascending: false });
 
@@ -464,25 +595,53 @@ export async function getPendingApprovalsForUser(): Promise<ApprovalWithDetails[
     throw error;
   }
 
+  // Skip approvals whose entity belongs to a different project
+  const projectApprovals = projectId
+    ? await filterApprovalsByProject(approvals || [], projectId)
+    : approvals || [];
+
+  // Responses already given by the user or the approvers they stand in for
+  const { data: responses } = await supabase
+    .from('approval_approver_responses')
+    .select('approval_id, approver_id')
+    .in(
+      'approval_id',
+      projectApprovals.map((approval) => approval.id),
+    )
+    .in('approver_id', [session.user.id, ...delegatorIds]);
+
+  const hasResponded = (approvalId: number, approverId: string) =>
+    (responses || []).some(
+      (response: { approval_id: number; approver_id: string }) =>
+        response.approval_id === approvalId && response.approver_id === approverId,
+    );
+
   // Filter out approvals where user has already responded
   const pendingApprovals = [];
 
-  for (const approval of approvals || []) {
-    const { data: existingResponse } = await supabase
-      .from('approval_approver_responses')
-      .select('id')
-      .eq('approval_id', approval.id)
-      .eq('approver_id', session.user.id)
-      .maybeSingle();
-
-    // Only include if user hasn't responded yet
-    if (!existingResponse) {
-      // Get requester name
+  for (const approval of projectApprovals) {
+    const isWaiting = (row: ActingApproverRow) =>
+      !hasResponded(approval.id, row.approver_id) && isStepCurrent(approval, row.step);
+    const actingApprover = pickActingApprover(
+      approval.approval_approvers || [],
+      session.user.id,
+      isWaiting,
+    );
+
+    // Only include if it is still waiting on the user, or on someone they stand in for
+    if (actingApprover && isWaiting(actingApprover)) {
+      const onBehalfOf =
+        actingApprover.approver_id !== session.user.id ? actingApprover.approver_id : undefined;
+
+      // Get requester name (and the absent approver's, when acting as a delegate)
       const { data: requesterData } = await supabase.rpc('get_user_details', {
-        user_ids: [approval.requester_id],
+        user_ids: onBehalfOf ? [approval.requester_id, onBehalfOf] : [approval.requester_id],
       });
 
-      const requesterName = requesterData?.[0]?.raw_user_meta_data?.email || 'Unknown';
+      const userName = (userId: string) =>
+        requesterData?.find((u: { id: string }) => u.id === userId)?.raw_user_meta_data?.email ||
+        'Unknown';
+      const requesterName = userName(approval.requester_id);
 
       // Get entity title based on type (for now, just use ID)
       const entityTitle = await getEntityTitle(approval.entity_type, approval.entity_id);
@@ -492,6 +651,8 @@ export async function getPendingApprovalsForUser(): Promise<ApprovalWithDetails[
         requester_name: requesterName,
         entity_title: entityTitle,
         entity_summary: `${approval.entity_type} #${approval.entity_id}`,
+        on_behalf_of: onBehalfOf,
+        on_behalf_of_name: onBehalfOf ? userName(onBehalfOf) : undefined,
       });
     }
   }
@@ -523,7 +684,8 @@ export async function getMyApprovalRequests(): Promise<ApprovalWithDetails[]> {
       entity_type,
       entity_id,
       last_updated,
-      requester_id
+      requester_id,
+      due_at
     `,
     )
     .eq('requester_id', session.user.id)
@@ -564,7 +726,7 @@ export async function getApprovalWithEntityDetails(
     .select(
       `
       *,
-      approval_approvers(approver_id)
+      approval_approvers(approver_id, step)
     `,
     )
     .eq('id', approvalId)
@@ -591,6 +753,9 @@ export async function getApprovalWithEntityDetails(
   // Get approver responses
   const approverResponses = await getApproverResponses(approvalId);
 
+  // Get every submission, for the history of rounds
+  const submissions = await getApprovalSubmissions(approvalId);
+
   // Get approver details
   const approverIds = approval.approval_approvers?.map((a: any) => a.approver_id) || [];
   const { data: approversData } = await supabase.rpc('get_user_details', {
@@ -598,6 +763,10 @@ export async function getApprovalWithEntityDetails(
   });
 
   const approvers = approversData || [];
+  const approverSteps: Record<string, number> = {};
+  approval.approval_approvers?.forEach((a: { approver_id: string; step: number }) => {
+    approverSteps[a.approver_id] = a.step;
+  });
 
   return {
     id: approval.id,
@@ -609,13 +778,55 @@ export async function getApprovalWithEntityDetails(
     entity_title: entityTitle,
     entity_summary: `${approval.entity_type} #${approval.entity_id}`,
     last_updated: approval.last_updated,
+    due_at: approval.due_at,
     entity_data: entityData,
     comments,
     approvers,
     approver_responses: approverResponses,
+    policy: approval.policy || 'all',
+    required_approvals: approval.required_approvals,
+    current_step: approval.current_step,
+    approver_steps: approverSteps,
+    reminder_interval_hours: approval.reminder_interval_hours,
+    escalation_approver_id: approval.escalation_approver_id,
+    escalated_at: approval.escalated_at,
+    requester_id: approval.requester_id,
+    submissions,
   };
 }
 
+/**
+ * Get the submissions of an approval, oldest first
+ */
+export async function getApprovalSubmissions(approvalId: number): Promise<ApprovalSubmission[]> {
+  const supabase = createClient();
+
+  const { data, error } = await supabase
+    .from('approval_submissions')
+    .select('*')
+    .eq('approval_id', approvalId)
+    .order('round', { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+
+  return (data || []) as ApprovalSubmission[];
+}
+
+/**
+ * Take a submitted approval back to draft; only the requester can, and only before anyone responds
+ */
+export async function recallApproval(approvalId: number): Promise<void> {
+  const supabase = createClient();
+
+  const { error } = await supabase.rpc('recall_approval', { p_approval_id: approvalId });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+}
+
 /**
  * Add comment to approval
  */
@@ -700,24 +911,24 @@ export async function submitApproverResponse(
     throw new Error('No active session');
   }
 
-  // Verify user is an approver
-  const { data: approverCheck } = await supabase
-    .from('approval_approvers')
-    .select('*')
-    .eq('approval_id', approvalId)
-    .eq('approver_id', session.user.id)
-    .single();
+  // Verify user is an approver, or the delegate of an approver who is out of office
+  const approverCheck = await getActingApprover(approvalId, session.user.id);
 
   if (!approverCheck) {
     throw new Error('You are not authorized to approve this request');
   }
 
+  if (!(await isApproverTurn(approvalId, approverCheck.step))) {
+    throw new Error('This approval is waiting on another step of the chain');
+  }
+
   // Insert or update approver response
   const { data, error } = await supabase
     .from('approval_approver_responses')
     .upsert({
       approval_id: approvalId,
-      approver_id: session.user.id,
+      approver_id: approverCheck.approver_id,
+      responded_by: session.user.id,
       status: action,
       comment: comment?.trim() || null,
       responded_at: new Date().toISOString(),
@@ -751,8 +962,14 @@ export async function getApproverResponses(
     throw error;
   }
 
-  // Get approver names
-  const approverIds = Array.from(new Set(responses?.map((r) => r.approver_id) || []));
+  // Get approver names, and those of any delegates who responded for them
+  const approverIds = Array.from(
+    new Set(
+      responses?.flatMap((r) =>
+        r.responded_by ? [r.approver_id, r.responded_by] : [r.approver_id],
+      ) || [],
+    ),
+  );
   const { data: approversData } = await supabase.rpc('get_user_details', {
     user_ids: approverIds,
   });
@@ -764,11 +981,15 @@ export async function getApproverResponses(
   return (responses || []).map((response) => ({
     ...response,
     approver_name: approversMap.get(response.approver_id) || 'Unknown',
+    responder_name:
+      response.responded_by && response.responded_by !== response.approver_id
+        ? approversMap.get(response.responded_by) || 'Unknown'
+        : null,
   }));
 }
 
 /**
- * Check if current user can approve (is an approver and hasn't responded yet)
+ * Check if current user can approve (is an approver, it's their turn and hasn't responded yet)
  */
 export async function canUserApprove(approvalId: number): Promise<boolean> {
   const supabase = createClient();
@@ -781,24 +1002,19 @@ export async function canUserApprove(approvalId: number): Promise<boolean> {
     return false;
   }
 
-  // Check if user is an approver
-  const { data: approverCheck } = await supabase
-    .from('approval_approvers')
-    .select('*')
-    .eq('approval_id', approvalId)
-    .eq('approver_id', session.user.id)
-    .single();
+  // Check if user is an approver, or stands in for one
+  const approverCheck = await getActingApprover(approvalId, session.user.id);
 
-  if (!approverCheck) {
+  if (!approverCheck || !(await isApproverTurn(approvalId, approverCheck.step))) {
     return false;
   }
 
-  // Check if user has already responded
+  // Check if user (or the approver they stand in for) has already responded
   const { data: existingResponse } = await supabase
     .from('approval_approver_responses')
     .select('id')
     .eq('approval_id', approvalId)
-    .eq('approver_id', session.user.id)
+    .eq('approver_id', approverCheck.approver_id)
     .maybeSingle();
 
   return !existingResponse;
@@ -808,6 +1024,120 @@ export async function canUserApprove(approvalId: number): Promise<boolean> {
 // HELPER FUNCTIONS
 // =============================================================================
 
+/**
+ * Snapshot the entity as it was submitted, starting a new round. A failed snapshot only costs the
+ * diff for this round, so it doesn't fail the submission. Only one round can be open at a time,
+ * so a snapshot for a submission that raced another one is rejected.
+ */
+async function recordApprovalSubmission(approvalId: number, entityType: string, entityId: number) {
+  const supabase = createClient();
+
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+
+  const entityData = await getEntityData(entityType, entityId);
+
+  const { error } = await supabase.from('approval_submissions').insert({
+    approval_id: approvalId,
+    entity_data: entityData,
+    submitted_by: session?.user.id,
+  });
+
+  if (error) {
+    console.error('Error recording approval submission:', error);
+  }
+}
+
+type ActingApproverRow = { approver_id: string; step: number };
+
+/**
+ * Of the approver rows a user can respond as, the one still waiting on a response at the
+ * current step: their own first, else that of an absent approver. When none is waiting their
+ * own row (or the first) is returned so callers can say why they can't respond.
+ */
+function pickActingApprover<T extends ActingApproverRow>(
+  rows: T[],
+  userId: string,
+  isWaiting: (row: T) => boolean,
+): T | null {
+  const ownFirst = rows
+    .filter((row) => row.approver_id === userId)
+    .concat(rows.filter((row) => row.approver_id !== userId));
+
+  return ownFirst.find(isWaiting) || ownFirst[0] || null;
+}
+
+// Later steps of a sequential approval wait until the chain reaches them
+const isStepCurrent = (
+  approval: { policy: string | null; current_step: number | null } | null,
+  step: number,
+) =>
+  approval?.policy !== 'sequential' ||
+  approval.current_step === null ||
+  step === approval.current_step;
+
+/**
+ * The approver row the user responds as: their own, or that of an approver they are the
+ * out-of-office delegate for today, preferring whichever is still waiting on a response
+ */
+async function getActingApprover(
+  approvalId: number,
+  userId: string,
+): Promise<ActingApproverRow | null> {
+  const supabase = createClient();
+
+  const [approversResult, approvalResult, responsesResult, delegatorIds] = await Promise.all([
+    supabase.from('approval_approvers').select('approver_id, step').eq('approval_id', approvalId),
+    supabase.from('approvals').select('policy, current_step').eq('id', approvalId).single(),
+    supabase
+      .from('approval_approver_responses')
+      .select('approver_id')
+      .eq('approval_id', approvalId),
+    getActiveDelegatorIds(),
+  ]);
+
+  if (approversResult.error) {
+    console.error('Error checking approvers:', approversResult.error);
+    return null;
+  }
+
+  const respondedIds = (responsesResult.data || []).map(
+    (response: { approver_id: string }) => response.approver_id,
+  );
+  const rows = (approversResult.data || []).filter(
+    (approver: ActingApproverRow) =>
+      approver.approver_id === userId || delegatorIds.includes(approver.approver_id),
+  );
+
+  return pickActingApprover(
+    rows,
+    userId,
+    (row) =>
+      !respondedIds.includes(row.approver_id) && isStepCurrent(approvalResult.data, row.step),
+  );
+}
+
+/**
+ * Whether an approver at the given step may respond; only matters for sequential approvals
+ */
+async function isApproverTurn(approvalId: number, step: number): Promise<boolean> {
+  const supabase = createClient();
+
+  const { data: approval, error } = await supabase
+    .from('approvals')
+    .select('policy, current_step')
+    .eq('id', approvalId)
+    .single();
+
+  if (error) {
+    console.error('Error checking approval step:', error);
+    return false;
+  }
+
+  return isStepCurrent(approval, step);
+}
+
 /**
  * Get entity title for display in lists
  */
@@ -857,6 +1187,53 @@ async function getEntityTitle(entityType: string, entityId: number): Promise<str
   }
 }
 
+// Table holding each kind of entity an approval can be for
+const ENTITY_TABLES = {
+  site_diary: 'site_diaries',
+  form: 'forms',
+  entries: 'form_entries',
+  tasks: 'tasks',
+} as const;
+
+/**
+ * The approvals whose entity belongs to the project, looked up with one query per entity type
+ */
+async function filterApprovalsByProject<T extends { entity_type: string; entity_id: number }>(
+  approvals: T[],
+  projectId: number,
+): Promise<T[]> {
+  const supabase = createClient();
+  const projectEntities = new Set<string>();
+
+  await Promise.all(
+    (Object.keys(ENTITY_TABLES) as (keyof typeof ENTITY_TABLES)[]).map(async (entityType) => {
+      const entityIds = approvals
+        .filter((approval) => approval.entity_type === entityType)
+        .map((approval) => approval.entity_id);
+      if (entityIds.length === 0) return;
+
+      const { data, error } = await supabase
+        .from(ENTITY_TABLES[entityType])
+        .select('id')
+        .in('id', entityIds)
+        .eq('project_id', projectId);
+
+      if (error) {
+        console.error('Error getting entity projects:', error);
+        return;
+      }
+
+      (data || []).forEach((entity: { id: number }) =>
+        projectEntities.add(`${entityType}:${entity.id}`),
+      );
+    }),
+  );
+
+  return approvals.filter((approval) =>
+    projectEntities.has(`${approval.entity_type}:${approval.entity_id}`),
+  );
+}
+
 /**
  * Get entity data for approval detail view
  */
@@ -876,9 +1253,10 @@ async function getEntityData(entityType: string, entityId: number): Promise<any>
         return form;
 
       case 'entries':
+        // Answers come with their questions so submitted versions can be compared
         const { data: entry } = await supabase
           .from('form_entries')
-          .select('*')
+          .select('*, form_entry_answers(item_id, answer_value, form_items(question_value))')
           .eq('id', entityId)
           .single();
         return entry;
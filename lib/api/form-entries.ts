@@ -1,9 +1,22 @@
 import { createClient } from '@/utils/supabase/client';
 import { Database } from '../supabase/types.generated';
-import { FormEntry, FormEntryResponse, CreateFormEntryRequest } from '@/lib/types/form-entry';
+import {
+  FormEntry,
+  FormEntryResponse,
+  CreateFormEntryRequest,
+  EntryCalculations,
+} from '@/lib/types/form-entry';
+import { VersionConflictError } from '@/lib/utils/conflicts';
 
 const supabase = createClient();
 
+// Columns on the entry row that hold its calculated values and score
+const getCalculationColumns = ({ values, score, passed }: EntryCalculations) => ({
+  calculated_values: values,
+  score,
+  passed,
+});
+
 export async function getFormEntries(formId: number): Promise<FormEntry[]> {
   const { data, error } = await supabase
     .from('form_entries')
@@ -83,10 +96,10 @@ export async function getFormEntryById(id: number): Promise<FormEntryResponse |
 }
 
 export async function createFormEntry(request: CreateFormEntryRequest): Promise<FormEntryResponse> {
-  // Get the form to get its project_id
+  // Get the form to get its project_id and the version being filled in
   const { data: formData, error: formError } = await supabase
     .from('forms')
-    .select('project_id')
+    .select('project_id, published_version_id')
     .eq('id', request.formId)
     .single();
 
@@ -103,6 +116,8 @@ export async function createFormEntry(request: CreateFormEntryRequest): Promise<
       submitted_by_user_id: request.userId,
       name: request.name,
       project_id: formData.project_id, // Explicitly set project_id
+      form_version_id: formData.published_version_id,
+      ...(request.calculations && getCalculationColumns(request.calculations)),
     })
     .select()
     .single();
@@ -181,10 +196,17 @@ export async function deleteFormEntry(id: number): Promise<void> {
 
 // Add a new interface for updating form entry answers
 export interface UpdateFormEntryAnswersRequest {
+  name?: string;
   answers: {
     itemId: number;
     value: any;
   }[];
+  // Items whose stored answers should be removed, e.g. questions now hidden by conditional logic
+  clearItemIds?: number[];
+  // Version the edits were made against; the save is rejected if the entry has moved on
+  expectedVersion?: number;
+  // Calculated values worked out from the edited answers
+  calculations?: EntryCalculations;
 }
 
 // Add a new function to update form entry answers
@@ -192,6 +214,56 @@ export async function updateFormEntryAnswers(
   id: number,
   request: UpdateFormEntryAnswersRequest,
 ): Promise<FormEntryResponse> {
+  if (request.expectedVersion !== undefined) {
+    // Bump the version only if nobody else saved since the entry was loaded
+    const { data: claimed, error: claimError } = await supabase
+      .from('form_entries')
+      .update({
+        ...(request.name !== undefined && { name: request.name }),
+        ...(request.calculations && getCalculationColumns(request.calculations)),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', id)
+      .eq('version', request.expectedVersion)
+      .select('id');
+
+    if (claimError) {
+      console.error('Error updating form entry:', claimError);
+      throw claimError;
+    }
+
+    if (!claimed || claimed.length === 0) {
+      const current = await getFormEntryById(id);
+      throw new VersionConflictError('form entry', current);
+    }
+  } else if (request.name !== undefined || request.calculations) {
+    await updateFormEntry(id, {
+      ...(request.name !== undefined && { name: request.name }),
+      ...(request.calculations && getCalculationColumns(request.calculations)),
+    });
+  }
+
+  if (request.clearItemIds && request.clearItemIds.length > 0) {
+    const { error: clearError } = await supabase
+      .from('form_entry_answers')
+      .delete()
+      .eq('entry_id', id)
+      .in('item_id', request.clearItemIds);
+
+    if (clearError) {
+      console.error('Error clearing form entry answers:', clearError);
+      throw clearError;
+    }
+  }
+
+  if (request.answers.length === 0) {
+    const updatedEntry = await getFormEntryById(id);
+    if (!updatedEntry) {
+      throw new Error('Failed to fetch updated form entry');
+    }
+    return updatedEntry;
+  }
+
   // Insert or update form entry answers
   const entryAnswers = request.answers.map((answer) => ({
     entry_id: id,
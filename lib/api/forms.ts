@@ -5,8 +5,10 @@ import {
   CreateFormRequest,
   UpdateFormRequest,
   FormResponse,
+  FormVersion,
 } from '@/lib/types/form';
 import { Database } from '../supabase/types.generated';
+import { VersionConflictError } from '@/lib/utils/conflicts';
 
 const supabase = createClient();
 
@@ -229,79 +231,130 @@ export async function getFormById(id: number): Promise<FormResponse | null> {
     return null;
   }
 
-  // Fetch the form items
-  const { data: itemsData, error: itemsError } = await supabase
+  // Edits are made to the draft, while entries are filled against the published version
+  const versions = await getFormVersions(id);
+  const draftVersion = versions.find((version) => version.status === 'draft') || null;
+  const publishedVersion =
+    versions.find((version) => version.id === formData.published_version_id) || null;
+
+  const publishedItems = publishedVersion ? await getFormVersionItems(publishedVersion.id) : [];
+  const items = draftVersion ? await getFormVersionItems(draftVersion.id) : publishedItems;
+
+  return {
+    form: formData,
+    items,
+    publishedItems,
+    draftVersion,
+    publishedVersion,
+  };
+}
+
+async function getFormVersions(formId: number): Promise<FormVersion[]> {
+  const { data, error } = await supabase
+    .from('form_versions')
+    .select('*')
+    .eq('form_id', formId)
+    .order('version_number', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching form versions:', error);
+    throw error;
+  }
+
+  return (data || []) as FormVersion[];
+}
+
+/**
+ * Items of a single version of a form, e.g. the one an entry was filled against
+ */
+export async function getFormVersionItems(versionId: number): Promise<FormItem[]> {
+  const { data, error } = await supabase
     .from('form_items')
     .select('*')
-    .eq('form_id', id)
+    .eq('form_version_id', versionId)
     .order('display_order', { ascending: true });
 
-  if (itemsError) {
-    console.error('Error fetching form items:', itemsError);
-    throw itemsError;
+  if (error) {
+    console.error('Error fetching form version items:', error);
+    throw error;
   }
 
-  return {
-    form: formData,
-    items: itemsData || [],
-  };
+  return data || [];
 }
 
-export async function createForm(request: CreateFormRequest): Promise<FormResponse> {
-  // Start a transaction
-  const { data: formData, error: formError } = await supabase
-    .from('forms')
-    .insert({
-      name: request.name,
-      owner_id: request.userId,
-      project_id: request.projectId,
-    })
+async function createDraftVersion(formId: number): Promise<FormVersion> {
+  const { data, error } = await supabase
+    .from('form_versions')
+    .insert({ form_id: formId, status: 'draft' })
     .select()
     .single();
 
-  if (formError) {
-    console.error('Error creating form:', formError);
-    throw formError;
+  if (error) {
+    console.error('Error creating form draft:', error);
+    throw error;
   }
 
-  if (!formData) {
-    throw new Error('Failed to create form');
-  }
+  return data as FormVersion;
+}
 
-  // Insert form items
-  const formItems = request.items.map((item, index) => ({
+async function insertVersionItems(
+  formId: number,
+  versionId: number,
+  items: Omit<FormItem, 'id' | 'form_id'>[],
+): Promise<void> {
+  const formItems = items.map((item, index) => ({
     ...item,
-    form_id: formData.id,
+    form_id: formId,
+    form_version_id: versionId,
     display_order: index,
   }));
 
-  const { data: itemsData, error: itemsError } = await supabase
-    .from('form_items')
-    .insert(formItems)
-    .select();
+  const { error } = await supabase.from('form_items').insert(formItems);
 
-  if (itemsError) {
-    console.error('Error creating form items:', itemsError);
-    throw itemsError;
+  if (error) {
+    console.error('Error saving form items:', error);
+    throw error;
   }
+}
 
-  return {
-    form: formData,
-    items: itemsData || [],
-  };
+export async function createForm(request: CreateFormRequest): Promise<FormResponse> {
+  // New forms are published straight away as version 1, in one transaction so a failure can't
+  // leave a form without a published version; later edits go to a draft
+  const { data: formId, error } = await supabase.rpc('create_published_form', {
+    p_name: request.name,
+    p_project_id: request.projectId,
+    p_owner_id: request.userId,
+    p_items: request.items,
+  });
+
+  if (error) {
+    console.error('Error creating form:', error);
+    throw error;
+  }
+
+  const created = await getFormById(formId);
+  if (!created) {
+    throw new Error('Failed to create form');
+  }
+
+  return created;
 }
 
 export async function updateForm(id: number, request: UpdateFormRequest): Promise<FormResponse> {
   // Update the form
-  const { data: formData, error: formError } = await supabase
+  let query = supabase
     .from('forms')
     .update({
       name: request.name,
       updated_at: new Date().toISOString(),
     })
-    .eq('id', id)
-    .select()
-    .single();
+    .eq('id', id);
+
+  if (request.expectedVersion !== undefined) {
+    query = query.eq('version', request.expectedVersion);
+  }
+
+  const { data: formData, error: formError } = await query.select().maybeSingle();
 
   if (formError) {
     console.error('Error updating form:', formError);
@@ -309,58 +362,84 @@ export async function updateForm(id: number, request: UpdateFormRequest): Promis
   }
 
   if (!formData) {
+    if (request.expectedVersion !== undefined) {
+      throw new VersionConflictError('form', await getFormById(id));
+    }
     throw new Error('Failed to update form');
   }
 
-  // If items are provided, update them
+  // Item changes are saved to the draft, starting one if there isn't one yet. The published
+  // version, and the entries filled against it, are left as they are until the draft is
+  // published.
   if (request.items && request.items.length > 0) {
-    // Delete existing items
-    const { error: deleteError } = await supabase.from('form_items').delete().eq('form_id', id);
+    const versions = await getFormVersions(id);
+    const draft =
+      versions.find((version) => version.status === 'draft') || (await createDraftVersion(id));
+
+    // Replace the draft's items
+    const { error: deleteError } = await supabase
+      .from('form_items')
+      .delete()
+      .eq('form_version_id', draft.id);
 
     if (deleteError) {
       console.error('Error deleting form items:', deleteError);
       throw deleteError;
     }
 
-    // Insert new items
-    const formItems = request.items.map((item, index) => ({
-      ...item,
-      form_id: id,
-      display_order: index,
-    }));
+    await insertVersionItems(id, draft.id, request.items);
+  }
 
-    const { data: itemsData, error: itemsError } = await supabase
-      .from('form_items')
-      .insert(formItems)
-      .select();
+  const updated = await getFormById(id);
+  if (!updated) {
+    throw new Error('Failed to update form');
+  }
 
-    if (itemsError) {
-      console.error('Error updating form items:', itemsError);
-      throw itemsError;
-    }
+  return updated;
+}
 
-    return {
-      form: formData,
-      items: itemsData || [],
-    };
+/**
+ * Publishes the form's draft, so new entries are filled against it
+ */
+export async function publishFormDraft(id: number): Promise<FormResponse> {
+  // Publishing freezes the draft and repoints the form in one transaction, so a failure can't
+  // strand the edits in a frozen version that new entries never reach
+  const { error } = await supabase.rpc('publish_form_draft', { p_form_id: id });
+
+  if (error) {
+    console.error('Error publishing form draft:', error);
+    throw error;
   }
 
-  // If no items provided, just return the updated form
-  const { data: itemsData, error: itemsError } = await supabase
-    .from('form_items')
-    .select('*')
+  const published = await getFormById(id);
+  if (!published) {
+    throw new Error('Failed to publish form');
+  }
+
+  return published;
+}
+
+/**
+ * Throws away the form's draft, going back to the published version
+ */
+export async function discardFormDraft(id: number): Promise<FormResponse> {
+  const { error } = await supabase
+    .from('form_versions')
+    .delete()
     .eq('form_id', id)
-    .order('display_order', { ascending: true });
+    .eq('status', 'draft');
 
-  if (itemsError) {
-    console.error('Error fetching form items:', itemsError);
-    throw itemsError;
+  if (error) {
+    console.error('Error discarding form draft:', error);
+    throw error;
   }
 
-  return {
-    form: formData,
-    items: itemsData || [],
-  };
+  const form = await getFormById(id);
+  if (!form) {
+    throw new Error('Failed to discard draft');
+  }
+
+  return form;
 }
 
 export async function deleteForm(id: number): Promise<void> {
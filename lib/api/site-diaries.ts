@@ -12,6 +12,7 @@ import {
 } from '@/lib/types/site-diary';
 import { getSupabaseClient } from '@/lib/supabase/client';
 import { ApprovalStatus } from '@/lib/api/entries';
+import { VersionConflictError } from '@/lib/utils/conflicts';
 
 const supabase = createClient();
 
@@ -128,7 +129,7 @@ export async function updateSiteDiaryTemplate(
   request: UpdateSiteDiaryTemplateRequest,
 ): Promise<SiteDiaryTemplateResponse> {
   // Update the template
-  const { data: templateData, error: templateError } = await supabase
+  let query = supabase
     .from('site_diary_templates')
     .update({
       name: request.name,
@@ -136,9 +137,13 @@ export async function updateSiteDiaryTemplate(
       metadata: request.metadata,
       updated_at: new Date().toISOString(),
     })
-    .eq('id', id)
-    .select()
-    .single();
+    .eq('id', id);
+
+  if (request.expectedVersion !== undefined) {
+    query = query.eq('version', request.expectedVersion);
+  }
+
+  const { data: templateData, error: templateError } = await query.select().maybeSingle();
 
   if (templateError) {
     console.error('Error updating site diary template:', templateError);
@@ -146,6 +151,9 @@ export async function updateSiteDiaryTemplate(
   }
 
   if (!templateData) {
+    if (request.expectedVersion !== undefined) {
+      throw new VersionConflictError('template', await getSiteDiaryTemplateById(id));
+    }
     throw new Error('Failed to update site diary template');
   }
 
@@ -355,7 +363,45 @@ export async function createSiteDiary(request: CreateSiteDiaryRequest): Promise<
   };
 }
 
-export async function updateSiteDiary(id: number, request: Partial<SiteDiary>): Promise<SiteDiary> {
+// Claims the diary for a save: bumps its version only if it is still at expectedVersion.
+// Throws a VersionConflictError with the latest diary when someone else saved first.
+async function claimSiteDiaryVersion(
+  id: number,
+  expectedVersion: number,
+  changes: Partial<SiteDiary> = {},
+): Promise<SiteDiary> {
+  const { data, error } = await supabase
+    .from('site_diaries')
+    .update({
+      ...changes,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', id)
+    .eq('version', expectedVersion)
+    .select();
+
+  if (error) {
+    console.error('Error updating site diary:', error);
+    throw error;
+  }
+
+  if (!data || data.length === 0) {
+    const current = await getSiteDiaryById(id);
+    throw new VersionConflictError('site diary', current);
+  }
+
+  return data[0];
+}
+
+export async function updateSiteDiary(
+  id: number,
+  request: Partial<SiteDiary>,
+  expectedVersion?: number,
+): Promise<SiteDiary> {
+  if (expectedVersion !== undefined) {
+    return claimSiteDiaryVersion(id, expectedVersion, request);
+  }
+
   const { data, error } = await supabase
     .from('site_diaries')
     .update({
@@ -380,14 +426,24 @@ export interface UpdateSiteDiaryAnswersRequest {
     value: any;
   }[];
   metadata?: Record<string, any>;
+  // Items whose stored answers should be removed, e.g. questions now hidden by conditional logic
+  clearItemIds?: number[];
+  // Version the edits were made against; the save is rejected if the diary has moved on
+  expectedVersion?: number;
 }
 
 export async function updateSiteDiaryAnswers(
   id: number,
   request: UpdateSiteDiaryAnswersRequest,
 ): Promise<SiteDiaryResponse> {
-  // Update metadata if provided
-  if (request.metadata) {
+  if (request.expectedVersion !== undefined) {
+    await claimSiteDiaryVersion(
+      id,
+      request.expectedVersion,
+      request.metadata ? { metadata: request.metadata } : {},
+    );
+  } else if (request.metadata) {
+    // Update metadata if provided
     const { error: metadataError } = await supabase
       .from('site_diaries')
       .update({
@@ -402,6 +458,19 @@ export async function updateSiteDiaryAnswers(
     }
   }
 
+  if (request.clearItemIds && request.clearItemIds.length > 0) {
+    const { error: clearError } = await supabase
+      .from('site_diary_answers')
+      .delete()
+      .eq('diary_id', id)
+      .in('item_id', request.clearItemIds);
+
+    if (clearError) {
+      console.error('Error clearing site diary answers:', clearError);
+      throw clearError;
+    }
+  }
+
   // Update or insert answers
   if (request.answers && request.answers.length > 0) {
     for (const answer of request.answers) {
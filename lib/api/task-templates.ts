@@ -0,0 +1,217 @@
+'use client';
+
+import { createClient } from '@/utils/supabase/client';
+import { Database } from '@/lib/supabase/types.generated';
+
+// Types from database
+export type TaskTemplateItem = Omit<
+  Database['public']['Tables']['task_template_items']['Row'],
+  'metadata'
+> & {
+  metadata: Record<string, string>;
+};
+
+export type TaskTemplate = Database['public']['Tables']['task_templates']['Row'] & {
+  items: TaskTemplateItem[];
+};
+
+// A task as edited in the template form; subtasks are nested one level deep
+export type TaskTemplateItemInput = {
+  title: string;
+  description: string | null;
+  priority_name: string | null;
+  status_name: string | null;
+  label_names: string[];
+  due_offset_days: number | null;
+  metadata: Record<string, string>;
+  subtasks: Omit<TaskTemplateItemInput, 'subtasks'>[];
+};
+
+export type TaskTemplateInput = {
+  name: string;
+  description: string | null;
+  items: TaskTemplateItemInput[];
+};
+
+export class TaskTemplatesAPI {
+  private supabase = createClient();
+
+  /**
+   * Get all task templates of an organization with their items
+   */
+  async getOrganizationTemplates(organizationId: number): Promise<TaskTemplate[]> {
+    try {
+      const { data, error } = await this.supabase
+        .from('task_templates')
+        .select('*, task_template_items (*)')
+        .eq('organization_id', organizationId)
+        .order('name');
+
+      if (error) {
+        throw new Error(`Failed to fetch task templates: ${error.message}`);
+      }
+
+      const rows = (data || []) as (Database['public']['Tables']['task_templates']['Row'] & {
+        task_template_items: Database['public']['Tables']['task_template_items']['Row'][] | null;
+      })[];
+
+      return rows.map(({ task_template_items, ...template }) => ({
+        ...template,
+        items: (task_template_items || [])
+          .map((item) => ({ ...item, metadata: (item.metadata || {}) as Record<string, string> }))
+          .sort((a, b) => a.position - b.position || a.id - b.id),
+      }));
+    } catch (error) {
+      console.error('Error in getOrganizationTemplates:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create a task template with its tasks and subtasks
+   */
+  async createTemplate(organizationId: number, input: TaskTemplateInput): Promise<void> {
+    try {
+      const { data: template, error } = await this.supabase
+        .from('task_templates')
+        .insert({
+          organization_id: organizationId,
+          name: input.name.trim(),
+          description: input.description,
+        })
+        .select('id')
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to create task template: ${error.message}`);
+      }
+
+      await this.insertItems(template.id, input.items);
+    } catch (error) {
+      console.error('Error in createTemplate:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update a task template, replacing all of its tasks
+   */
+  async updateTemplate(id: number, input: TaskTemplateInput): Promise<void> {
+    try {
+      const { error } = await this.supabase
+        .from('task_templates')
+        .update({
+          name: input.name.trim(),
+          description: input.description,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', id);
+
+      if (error) {
+        throw new Error(`Failed to update task template: ${error.message}`);
+      }
+
+      // Deleting the top-level items cascades to their subtasks
+      const { error: deleteError } = await this.supabase
+        .from('task_template_items')
+        .delete()
+        .eq('template_id', id);
+
+      if (deleteError) {
+        throw new Error(`Failed to update template tasks: ${deleteError.message}`);
+      }
+
+      await this.insertItems(id, input.items);
+    } catch (error) {
+      console.error('Error in updateTemplate:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a task template
+   */
+  async deleteTemplate(id: number): Promise<void> {
+    try {
+      const { error } = await this.supabase.from('task_templates').delete().eq('id', id);
+
+      if (error) {
+        throw new Error(`Failed to delete task template: ${error.message}`);
+      }
+    } catch (error) {
+      console.error('Error in deleteTemplate:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create every task of a template in a project; returns the number of tasks created
+   */
+  async applyTemplate(templateId: number, projectId: number, startDate: string): Promise<number> {
+    try {
+      const { data, error } = await this.supabase.rpc('apply_task_template', {
+        p_template_id: templateId,
+        p_project_id: projectId,
+        p_start_date: startDate,
+        p_timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      });
+
+      if (error) {
+        throw new Error(`Failed to apply task template: ${error.message}`);
+      }
+
+      return data ?? 0;
+    } catch (error) {
+      console.error('Error in applyTemplate:', error);
+      throw error;
+    }
+  }
+
+  // Top-level items are inserted first so their ids can be used as the subtasks' parent
+  private async insertItems(templateId: number, items: TaskTemplateItemInput[]): Promise<void> {
+    if (items.length === 0) return;
+
+    const { data: parents, error } = await this.supabase
+      .from('task_template_items')
+      .insert(
+        items.map((item, index) => ({
+          title: item.title,
+          description: item.description,
+          priority_name: item.priority_name,
+          status_name: item.status_name,
+          label_names: item.label_names,
+          due_offset_days: item.due_offset_days,
+          metadata: item.metadata,
+          template_id: templateId,
+          position: index,
+        })),
+      )
+      .select('id, position');
+
+    if (error) {
+      throw new Error(`Failed to save template tasks: ${error.message}`);
+    }
+
+    const subtasks = (parents || []).flatMap((parent) =>
+      items[parent.position].subtasks.map((subtask, index) => ({
+        ...subtask,
+        template_id: templateId,
+        parent_item_id: parent.id,
+        position: index,
+      })),
+    );
+
+    if (subtasks.length === 0) return;
+
+    const { error: subtaskError } = await this.supabase
+      .from('task_template_items')
+      .insert(subtasks);
+
+    if (subtaskError) {
+      throw new Error(`Failed to save template subtasks: ${subtaskError.message}`);
+    }
+  }
+}
+
+// Export a singleton instance
+export const taskTemplatesAPI = new TaskTemplatesAPI();
@@ -34,6 +34,51 @@ export type Database = {
   }
   public: {
     Tables: {
+      activity_log: {
+        Row: {
+          action: string
+          actor_id: string | null
+          changes: Json
+          created_at: string
+          entity_id: number
+          entity_name: string | null
+          entity_type: string
+          id: number
+          organization_id: number | null
+          project_id: number | null
+          related_entity_id: number | null
+          related_entity_type: string | null
+        }
+        Insert: {
+          action: string
+          actor_id?: string | null
+          changes?: Json
+          created_at?: string
+          entity_id: number
+          entity_name?: string | null
+          entity_type: string
+          id?: number
+          organization_id?: number | null
+          project_id?: number | null
+          related_entity_id?: number | null
+          related_entity_type?: string | null
+        }
+        Update: {
+          action?: string
+          actor_id?: string | null
+          changes?: Json
+          created_at?: string
+          entity_id?: number
+          entity_name?: string | null
+          entity_type?: string
+          id?: number
+          organization_id?: number | null
+          project_id?: number | null
+          related_entity_id?: number | null
+          related_entity_type?: string | null
+        }
+        Relationships: []
+      }
       approval_approver_responses: {
         Row: {
           approval_id: number
@@ -41,6 +86,7 @@ export type Database = {
           comment: string | null
           id: number
           responded_at: string | null
+          responded_by: string | null
           status: Database["public"]["Enums"]["approval_status"]
         }
         Insert: {
@@ -49,6 +95,7 @@ export type Database = {
           comment?: string | null
           id?: number
           responded_at?: string | null
+          responded_by?: string | null
           status?: Database["public"]["Enums"]["approval_status"]
         }
         Update: {
@@ -57,6 +104,7 @@ export type Database = {
           comment?: string | null
           id?: number
           responded_at?: string | null
+          responded_by?: string | null
           status?: Database["public"]["Enums"]["approval_status"]
         }
         Relationships: [
@@ -73,14 +121,23 @@ export type Database = {
         Row: {
           approval_id: number
           approver_id: string
+          escalated: boolean
+          last_reminded_at: string | null
+          step: number
         }
         Insert: {
           approval_id: number
           approver_id: string
+          escalated?: boolean
+          last_reminded_at?: string | null
+          step?: number
         }
         Update: {
           approval_id?: number
           approver_id?: string
+          escalated?: boolean
+          last_reminded_at?: string | null
+          step?: number
         }
         Relationships: [
           {
@@ -127,18 +184,100 @@ export type Database = {
           },
         ]
       }
+      approval_delegations: {
+        Row: {
+          created_at: string
+          delegate_id: string
+          ends_on: string
+          id: number
+          reason: string | null
+          starts_on: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          delegate_id: string
+          ends_on: string
+          id?: number
+          reason?: string | null
+          starts_on: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          delegate_id?: string
+          ends_on?: string
+          id?: number
+          reason?: string | null
+          starts_on?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      approval_submissions: {
+        Row: {
+          approval_id: number
+          closed_at: string | null
+          entity_data: Json | null
+          id: number
+          outcome: string | null
+          responses: Json
+          round: number
+          submitted_at: string
+          submitted_by: string | null
+        }
+        Insert: {
+          approval_id: number
+          closed_at?: string | null
+          entity_data?: Json | null
+          id?: number
+          outcome?: string | null
+          responses?: Json
+          round?: number
+          submitted_at?: string
+          submitted_by?: string | null
+        }
+        Update: {
+          approval_id?: number
+          closed_at?: string | null
+          entity_data?: Json | null
+          id?: number
+          outcome?: string | null
+          responses?: Json
+          round?: number
+          submitted_at?: string
+          submitted_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "approval_submissions_approval_id_fkey"
+            columns: ["approval_id"]
+            isOneToOne: false
+            referencedRelation: "approvals"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       approvals: {
         Row: {
           action_comment: string | null
           action_taken_at: string | null
           action_taken_by: string | null
           created_at: string
+          current_step: number | null
+          due_at: string | null
           entity_id: number
           entity_type: Database["public"]["Enums"]["entity_type"]
+          escalated_at: string | null
+          escalation_approver_id: string | null
           id: number
           last_updated: string
+          policy: string
+          reminder_interval_hours: number | null
           requester_id: string | null
+          required_approvals: number | null
           status: Database["public"]["Enums"]["approval_status"]
+          submitted_at: string | null
           user_id: string | null
         }
         Insert: {
@@ -146,12 +285,20 @@ export type Database = {
           action_taken_at?: string | null
           action_taken_by?: string | null
           created_at?: string
+          current_step?: number | null
+          due_at?: string | null
           entity_id?: number
           entity_type: Database["public"]["Enums"]["entity_type"]
+          escalated_at?: string | null
+          escalation_approver_id?: string | null
           id?: number
           last_updated?: string
+          policy?: string
+          reminder_interval_hours?: number | null
           requester_id?: string | null
+          required_approvals?: number | null
           status?: Database["public"]["Enums"]["approval_status"]
+          submitted_at?: string | null
           user_id?: string | null
         }
         Update: {
@@ -159,12 +306,20 @@ export type Database = {
           action_taken_at?: string | null
           action_taken_by?: string | null
           created_at?: string
+          current_step?: number | null
+          due_at?: string | null
           entity_id?: number
           entity_type?: Database["public"]["Enums"]["entity_type"]
+          escalated_at?: string | null
+          escalation_approver_id?: string | null
           id?: number
           last_updated?: string
+          policy?: string
+          reminder_interval_hours?: number | null
           requester_id?: string | null
+          required_approvals?: number | null
           status?: Database["public"]["Enums"]["approval_status"]
+          submitted_at?: string | null
           user_id?: string | null
         }
         Relationships: []
@@ -387,43 +542,58 @@ export type Database = {
       }
       form_entries: {
         Row: {
+          calculated_values: Json | null
           created_at: string
           deleted_at: string | null
           form_id: number
+          form_version_id: number | null
           id: number
           is_synced: boolean
           last_synced_at: string | null
           name: string | null
+          passed: boolean | null
           project_id: number
+          score: number | null
           submitted_by_user_id: string
           team_id: string | null
           updated_at: string
+          version: number
         }
         Insert: {
+          calculated_values?: Json | null
           created_at?: string
           deleted_at?: string | null
           form_id: number
+          form_version_id?: number | null
           id?: never
           is_synced?: boolean
           last_synced_at?: string | null
           name?: string | null
+          passed?: boolean | null
           project_id: number
+          score?: number | null
           submitted_by_user_id: string
           team_id?: string | null
           updated_at?: string
+          version?: number
         }
         Update: {
+          calculated_values?: Json | null
           created_at?: string
           deleted_at?: string | null
           form_id?: number
+          form_version_id?: number | null
           id?: never
           is_synced?: boolean
           last_synced_at?: string | null
           name?: string | null
+          passed?: boolean | null
           project_id?: number
+          score?: number | null
           submitted_by_user_id?: string
           team_id?: string | null
           updated_at?: string
+          version?: number
         }
         Relationships: [
           {
@@ -433,6 +603,13 @@ export type Database = {
             referencedRelation: "forms"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "form_entries_form_version_id_fkey"
+            columns: ["form_version_id"]
+            isOneToOne: false
+            referencedRelation: "form_versions"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "form_entries_project_id_fkey"
             columns: ["project_id"]
@@ -485,27 +662,36 @@ export type Database = {
         Row: {
           display_order: number
           form_id: number
+          form_version_id: number | null
           id: number
           is_required: boolean | null
           item_type: Database["public"]["Enums"]["item_type"]
+          logic: Json | null
+          metadata: Json | null
           options: Json | null
           question_value: string | null
         }
         Insert: {
           display_order: number
           form_id: number
+          form_version_id?: number | null
           id?: never
           is_required?: boolean | null
           item_type: Database["public"]["Enums"]["item_type"]
+          logic?: Json | null
+          metadata?: Json | null
           options?: Json | null
           question_value?: string | null
         }
         Update: {
           display_order?: number
           form_id?: number
+          form_version_id?: number | null
           id?: never
           is_required?: boolean | null
           item_type?: Database["public"]["Enums"]["item_type"]
+          logic?: Json | null
+          metadata?: Json | null
           options?: Json | null
           question_value?: string | null
         }
@@ -517,6 +703,54 @@ export type Database = {
             referencedRelation: "forms"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "form_items_form_version_id_fkey"
+            columns: ["form_version_id"]
+            isOneToOne: false
+            referencedRelation: "form_versions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      form_versions: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          form_id: number
+          id: number
+          published_at: string | null
+          published_by: string | null
+          status: string
+          version_number: number
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          form_id: number
+          id?: number
+          published_at?: string | null
+          published_by?: string | null
+          status?: string
+          version_number?: number
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          form_id?: number
+          id?: number
+          published_at?: string | null
+          published_by?: string | null
+          status?: string
+          version_number?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "form_versions_form_id_fkey"
+            columns: ["form_id"]
+            isOneToOne: false
+            referencedRelation: "forms"
+            referencedColumns: ["id"]
+          },
         ]
       }
       forms: {
@@ -529,6 +763,7 @@ export type Database = {
           name: string
           owner_id: string
           project_id: number | null
+          published_version_id: number | null
           team_id: string | null
           updated_at: string
           version: number
@@ -542,6 +777,7 @@ export type Database = {
           name: string
           owner_id: string
           project_id?: number | null
+          published_version_id?: number | null
           team_id?: string | null
           updated_at?: string
           version?: number
@@ -555,6 +791,7 @@ export type Database = {
           name?: string
           owner_id?: string
           project_id?: number | null
+          published_version_id?: number | null
           team_id?: string | null
           updated_at?: string
           version?: number
@@ -567,6 +804,13 @@ export type Database = {
             referencedRelation: "projects"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "forms_published_version_id_fkey"
+            columns: ["published_version_id"]
+            isOneToOne: false
+            referencedRelation: "form_versions"
+            referencedColumns: ["id"]
+          },
         ]
       }
       labels: {
@@ -1001,6 +1245,7 @@ export type Database = {
           name: string
           organization_id: number | null
           owner_id: string
+          require_task_signoff: boolean
           updated_at: string
         }
         Insert: {
@@ -1014,6 +1259,7 @@ export type Database = {
           name: string
           organization_id?: number | null
           owner_id: string
+          require_task_signoff?: boolean
           updated_at?: string
         }
         Update: {
@@ -1027,6 +1273,7 @@ export type Database = {
           name?: string
           organization_id?: number | null
           owner_id?: string
+          require_task_signoff?: boolean
           updated_at?: string
         }
         Relationships: [
@@ -1170,6 +1417,7 @@ export type Database = {
           submitted_by_user_id: string
           template_id: number
           updated_at: string
+          version: number
         }
         Insert: {
           created_at?: string
@@ -1182,6 +1430,7 @@ export type Database = {
           submitted_by_user_id: string
           template_id: number
           updated_at?: string
+          version?: number
         }
         Update: {
           created_at?: string
@@ -1194,6 +1443,7 @@ export type Database = {
           submitted_by_user_id?: string
           template_id?: number
           updated_at?: string
+          version?: number
         }
         Relationships: [
           {
@@ -1257,6 +1507,7 @@ export type Database = {
           id: number
           is_required: boolean | null
           item_type: Database["public"]["Enums"]["item_type"]
+          logic: Json | null
           metadata: Json | null
           options: Json | null
           question_value: string | null
@@ -1267,6 +1518,7 @@ export type Database = {
           id?: never
           is_required?: boolean | null
           item_type: Database["public"]["Enums"]["item_type"]
+          logic?: Json | null
           metadata?: Json | null
           options?: Json | null
           question_value?: string | null
@@ -1277,6 +1529,7 @@ export type Database = {
           id?: never
           is_required?: boolean | null
           item_type?: Database["public"]["Enums"]["item_type"]
+          logic?: Json | null
           metadata?: Json | null
           options?: Json | null
           question_value?: string | null
@@ -1410,11 +1663,78 @@ export type Database = {
           },
         ]
       }
+      task_comment_reactions: {
+        Row: {
+          comment_id: number
+          created_at: string
+          emoji: string
+          id: number
+          user_id: string
+        }
+        Insert: {
+          comment_id: number
+          created_at?: string
+          emoji: string
+          id?: number
+          user_id?: string
+        }
+        Update: {
+          comment_id?: number
+          created_at?: string
+          emoji?: string
+          id?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_comment_reactions_comment_id_fkey"
+            columns: ["comment_id"]
+            isOneToOne: false
+            referencedRelation: "task_comments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_comment_revisions: {
+        Row: {
+          comment_id: number
+          content: string
+          created_at: string
+          edited_by: string | null
+          id: number
+        }
+        Insert: {
+          comment_id: number
+          content: string
+          created_at?: string
+          edited_by?: string | null
+          id?: number
+        }
+        Update: {
+          comment_id?: number
+          content?: string
+          created_at?: string
+          edited_by?: string | null
+          id?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_comment_revisions_comment_id_fkey"
+            columns: ["comment_id"]
+            isOneToOne: false
+            referencedRelation: "task_comments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       task_comments: {
         Row: {
           content: string
           created_at: string
+          deleted_at: string | null
+          edited_at: string | null
           id: number
+          parent_id: number | null
           task_id: number
           user_avatar: string | null
           user_id: string
@@ -1423,7 +1743,10 @@ export type Database = {
         Insert: {
           content: string
           created_at?: string
+          deleted_at?: string | null
+          edited_at?: string | null
           id?: number
+          parent_id?: number | null
           task_id: number
           user_avatar?: string | null
           user_id: string
@@ -1432,13 +1755,23 @@ export type Database = {
         Update: {
           content?: string
           created_at?: string
+          deleted_at?: string | null
+          edited_at?: string | null
           id?: number
+          parent_id?: number | null
           task_id?: number
           user_avatar?: string | null
           user_id?: string
           user_name?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "task_comments_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "task_comments"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "task_comments_task_id_fkey"
             columns: ["task_id"]
@@ -1448,6 +1781,93 @@ export type Database = {
           },
         ]
       }
+      task_dependencies: {
+        Row: {
+          created_at: string
+          created_by: string
+          id: number
+          predecessor_task_id: number
+          project_id: number
+          successor_task_id: number
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string
+          id?: number
+          predecessor_task_id: number
+          project_id: number
+          successor_task_id: number
+        }
+        Update: {
+          created_at?: string
+          created_by?: string
+          id?: number
+          predecessor_task_id?: number
+          project_id?: number
+          successor_task_id?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_dependencies_predecessor_task_id_fkey"
+            columns: ["predecessor_task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_dependencies_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_dependencies_successor_task_id_fkey"
+            columns: ["successor_task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_filter_presets: {
+        Row: {
+          created_at: string
+          filters: Json
+          id: number
+          name: string
+          project_id: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          filters?: Json
+          id?: number
+          name: string
+          project_id: number
+          updated_at?: string
+          user_id?: string
+        }
+        Update: {
+          created_at?: string
+          filters?: Json
+          id?: number
+          name?: string
+          project_id?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_filter_presets_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       task_metadata: {
         Row: {
           created_at: string
@@ -1486,6 +1906,202 @@ export type Database = {
           },
         ]
       }
+      task_recurrences: {
+        Row: {
+          created_at: string
+          created_by: string
+          day_of_month: number | null
+          days_of_week: number[]
+          ends_on: string | null
+          frequency: string
+          id: number
+          project_id: number
+          timezone: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string
+          day_of_month?: number | null
+          days_of_week?: number[]
+          ends_on?: string | null
+          frequency: string
+          id?: number
+          project_id: number
+          timezone?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string
+          day_of_month?: number | null
+          days_of_week?: number[]
+          ends_on?: string | null
+          frequency?: string
+          id?: number
+          project_id?: number
+          timezone?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_recurrences_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_template_items: {
+        Row: {
+          created_at: string
+          description: string | null
+          due_offset_days: number | null
+          id: number
+          label_names: string[]
+          metadata: Json
+          parent_item_id: number | null
+          position: number
+          priority_name: string | null
+          status_name: string | null
+          template_id: number
+          title: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          due_offset_days?: number | null
+          id?: number
+          label_names?: string[]
+          metadata?: Json
+          parent_item_id?: number | null
+          position?: number
+          priority_name?: string | null
+          status_name?: string | null
+          template_id: number
+          title: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          due_offset_days?: number | null
+          id?: number
+          label_names?: string[]
+          metadata?: Json
+          parent_item_id?: number | null
+          position?: number
+          priority_name?: string | null
+          status_name?: string | null
+          template_id?: number
+          title?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_template_items_parent_item_id_fkey"
+            columns: ["parent_item_id"]
+            isOneToOne: false
+            referencedRelation: "task_template_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_template_items_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "task_templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_templates: {
+        Row: {
+          created_at: string
+          created_by: string
+          description: string | null
+          id: number
+          name: string
+          organization_id: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string
+          description?: string | null
+          id?: number
+          name: string
+          organization_id: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string
+          description?: string | null
+          id?: number
+          name?: string
+          organization_id?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_templates_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_time_entries: {
+        Row: {
+          created_at: string
+          entry_date: string
+          hours: number
+          id: number
+          note: string | null
+          project_id: number
+          task_id: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          entry_date?: string
+          hours: number
+          id?: number
+          note?: string | null
+          project_id: number
+          task_id: number
+          updated_at?: string
+          user_id?: string
+        }
+        Update: {
+          created_at?: string
+          entry_date?: string
+          hours?: number
+          id?: number
+          note?: string | null
+          project_id?: number
+          task_id?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_time_entries_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_time_entries_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       tasks: {
         Row: {
           created_at: string
@@ -1493,12 +2109,16 @@ export type Database = {
           description: string | null
           due_date: string | null
           id: number
+          next_occurrence_generated_at: string | null
           parent_task_id: number | null
           priority_id: number
           project_id: number | null
+          recurrence_id: number | null
+          start_date: string | null
           status_id: number
           title: string
           updated_at: string
+          version: number
         }
         Insert: {
           created_at?: string
@@ -1506,12 +2126,16 @@ export type Database = {
           description?: string | null
           due_date?: string | null
           id?: number
+          next_occurrence_generated_at?: string | null
           parent_task_id?: number | null
           priority_id: number
           project_id?: number | null
+          recurrence_id?: number | null
+          start_date?: string | null
           status_id: number
           title: string
           updated_at?: string
+          version?: number
         }
         Update: {
           created_at?: string
@@ -1519,12 +2143,16 @@ export type Database = {
           description?: string | null
           due_date?: string | null
           id?: number
+          next_occurrence_generated_at?: string | null
           parent_task_id?: number | null
           priority_id?: number
           project_id?: number | null
+          recurrence_id?: number | null
+          start_date?: string | null
           status_id?: number
           title?: string
           updated_at?: string
+          version?: number
         }
         Relationships: [
           {
@@ -1548,6 +2176,13 @@ export type Database = {
             referencedRelation: "projects"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "tasks_recurrence_id_fkey"
+            columns: ["recurrence_id"]
+            isOneToOne: false
+            referencedRelation: "task_recurrences"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "tasks_status_id_fkey"
             columns: ["status_id"]
@@ -1712,6 +2347,45 @@ export type Database = {
         }
         Returns: Json
       }
+      active_approval_delegate: {
+        Args: {
+          p_user_id: string
+        }
+        Returns: string | null
+      }
+      active_approval_delegators: {
+        Args: Record<PropertyKey, never>
+        Returns: string[]
+      }
+      apply_task_template: {
+        Args: {
+          p_template_id: number
+          p_project_id: number
+          p_start_date?: string
+          p_timezone?: string
+        }
+        Returns: number
+      }
+      approval_current_step: {
+        Args: {
+          approval_id_param: number
+        }
+        Returns: number | null
+      }
+      approval_entity_title: {
+        Args: {
+          p_entity_type: string
+          p_entity_id: number
+        }
+        Returns: string
+      }
+      bulk_update_tasks: {
+        Args: {
+          p_task_ids: number[]
+          p_changes: Json
+        }
+        Returns: number
+      }
       calculate_approval_status: {
         Args: {
           approval_id_param: number
@@ -1815,6 +2489,15 @@ export type Database = {
         }
         Returns: number
       }
+      create_published_form: {
+        Args: {
+          p_name: string
+          p_project_id: number
+          p_owner_id: string
+          p_items: Json
+        }
+        Returns: number
+      }
       create_task_attachment: {
         Args: {
           p_task_id: number
@@ -2160,6 +2843,12 @@ export type Database = {
         Args: Record<PropertyKey, never>
         Returns: string
       }
+      publish_form_draft: {
+        Args: {
+          p_form_id: number
+        }
+        Returns: number
+      }
       queue_email_notification: {
         Args: {
           p_notification_id: string
@@ -2172,6 +2861,12 @@ export type Database = {
         }
         Returns: Json
       }
+      recall_approval: {
+        Args: {
+          p_approval_id: number
+        }
+        Returns: undefined
+      }
       remove_organization_member: {
         Args: {
           membership_id: number
@@ -2315,7 +3010,22 @@ export type Database = {
         | "failed"
         | "queued_for_delivery"
       entity_type: "site_diary" | "form" | "entries" | "tasks"
-      item_type: "question" | "checklist" | "radio_box" | "photo"
+      item_type:
+        | "question"
+        | "checklist"
+        | "radio_box"
+        | "photo"
+        | "number"
+        | "date"
+        | "time"
+        | "signature"
+        | "dropdown"
+        | "yes_no_na"
+        | "rating"
+        | "file"
+        | "section"
+        | "group"
+        | "calculated"
       notification_priority: "low" | "medium" | "high" | "critical"
       notification_type:
         | "system"
@@ -1,6 +1,6 @@
-import { Form } from '@/lib/types/form';
+import { Form, FormItemSettings, ItemLogic, ItemType } from '@/lib/types/form';
 
-export type QuestionType = 'question' | 'checklist' | 'radio_box' | 'photo';
+export type QuestionType = ItemType;
 
 export interface FormBuilderQuestion {
   id: string;
@@ -8,6 +8,8 @@ export interface FormBuilderQuestion {
   title: string;
   options?: string[];
   required: boolean;
+  settings?: FormItemSettings;
+  logic?: ItemLogic | null;
 }
 
 export interface FormBuilderProps {
@@ -22,4 +24,6 @@ export interface SortableQuestionCardProps {
   onDelete: (id: string) => void;
   isFirst: boolean;
   isEditing: boolean;
+  // Questions above this one, which its conditional logic can refer to
+  previousQuestions?: FormBuilderQuestion[];
 }
@@ -1,6 +1,8 @@
 export interface FormEntry {
   id?: number;
   form_id: number;
+  // Version of the form the entry was filled against
+  form_version_id?: number | null;
   submitted_by_user_id: string;
   name?: string;
   created_at?: string;
@@ -8,6 +10,18 @@ export interface FormEntry {
   deleted_at?: string | null;
   is_synced?: boolean;
   last_synced_at?: string | null;
+  version?: number;
+  calculated_values?: Record<number, number | null> | null;
+  score?: number | null;
+  passed?: boolean | null;
+}
+
+// Values of a form's calculated items for an entry's answers, keyed by item id, along with the
+// entry's score and whether it met the pass mark
+export interface EntryCalculations {
+  values: Record<number, number | null>;
+  score: number | null;
+  passed: boolean | null;
 }
 
 export interface FormEntryAnswer {
@@ -26,6 +40,7 @@ export interface CreateFormEntryRequest {
     itemId: number;
     value: any;
   }[];
+  calculations?: EntryCalculations;
 }
 
 export interface FormEntryResponse {
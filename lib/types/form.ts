@@ -1,13 +1,102 @@
-export type ItemType = 'question' | 'checklist' | 'radio_box' | 'photo';
+export type ItemType =
+  | 'question'
+  | 'checklist'
+  | 'radio_box'
+  | 'photo'
+  | 'number'
+  | 'date'
+  | 'time'
+  | 'signature'
+  | 'dropdown'
+  | 'yes_no_na'
+  | 'rating'
+  | 'file'
+  | 'section'
+  | 'group'
+  | 'calculated';
+
+// Per-field settings, stored in the item's metadata; only the ones for its type are used
+export interface FormItemSettings {
+  // number
+  unit?: string;
+  min?: number;
+  max?: number;
+  // rating: highest score, starting from 1
+  scale?: number;
+  // section: text under the heading, and whether the section starts a new page
+  description?: string;
+  newPage?: boolean;
+  // group: fields filled in on every row
+  fields?: GroupField[];
+  // calculated: how the value is worked out, the value needed to pass, and whether it is the
+  // score stored on each entry
+  calculation?: ItemCalculation;
+  passMark?: number;
+  isScore?: boolean;
+}
+
+export type CalculationMethod = 'sum' | 'count' | 'score' | 'formula';
+
+// How a calculated item's value is worked out from earlier answers. Like conditions, items are
+// referenced by display order.
+export interface ItemCalculation {
+  method: CalculationMethod;
+  // sum, count and score: the items to include
+  items: number[];
+  // count: the answer being counted, e.g. "No"
+  match?: string;
+  // score: weight of each of the items, defaulting to 1
+  weights?: number[];
+  // formula: arithmetic over answers, with Q1, Q2 and so on referring to questions by number
+  formula?: string;
+}
+
+// Field repeated on each row of a repeatable group. Group answers are stored as an array of
+// rows, each an array of values in the same order as the fields.
+export interface GroupField {
+  title: string;
+  type: ItemType;
+  options?: string[];
+  required: boolean;
+  settings?: FormItemSettings;
+}
+
+export type LogicAction = 'show' | 'hide' | 'require';
+
+export type LogicOperator =
+  | 'equals'
+  | 'not_equals'
+  | 'greater_than'
+  | 'less_than'
+  | 'answered'
+  | 'not_answered';
+
+// Test against the answer to an earlier item. Items are referenced by display order because
+// their ids change whenever the form or template is saved.
+export interface ItemCondition {
+  item: number;
+  operator: LogicOperator;
+  value?: string;
+}
+
+// Rule that shows, hides or requires an item depending on earlier answers
+export interface ItemLogic {
+  action: LogicAction;
+  match: 'all' | 'any';
+  conditions: ItemCondition[];
+}
 
 export interface FormItem {
   id?: number;
   form_id?: number;
+  form_version_id?: number | null;
   item_type: ItemType;
   question_value: string;
   options?: any[];
   is_required: boolean;
   display_order: number;
+  metadata?: FormItemSettings | null;
+  logic?: ItemLogic | null;
 }
 
 export interface Form {
@@ -20,6 +109,7 @@ export interface Form {
   deleted_at?: string;
   assigned_to?: string[];
   version?: number;
+  published_version_id?: number | null;
   is_synced?: boolean;
   last_synced_at?: string;
   items?: FormItem[];
@@ -44,9 +134,31 @@ export interface UpdateFormRequest {
   name?: string;
   description?: string;
   items?: Omit<FormItem, 'id' | 'form_id'>[];
+  // Version the edits were made against; the save is rejected if the form has moved on
+  expectedVersion?: number;
+}
+
+export type FormVersionStatus = 'draft' | 'published';
+
+// Version of a form's items. Edits go to the draft; published versions never change, and each
+// entry is filled against one.
+export interface FormVersion {
+  id: number;
+  form_id: number;
+  version_number: number;
+  status: FormVersionStatus;
+  created_by?: string | null;
+  created_at: string;
+  published_by?: string | null;
+  published_at?: string | null;
 }
 
 export interface FormResponse {
   form: Form;
+  // Items being edited: the draft's when there is one, otherwise the published version's
   items: FormItem[];
+  // Items new entries are filled against
+  publishedItems: FormItem[];
+  draftVersion: FormVersion | null;
+  publishedVersion: FormVersion | null;
 }
@@ -40,6 +40,7 @@ export interface CreateProjectRequest {
 export interface UpdateProjectRequest {
   name?: string;
   description?: string;
+  require_task_signoff?: boolean;
 }
 
 export interface UpdateProjectMembershipRequest {
@@ -1,4 +1,4 @@
-import { ItemType } from './form';
+import { ItemLogic, ItemType } from './form';
 
 export interface SiteDiaryTemplateItem {
   id?: number;
@@ -9,6 +9,7 @@ export interface SiteDiaryTemplateItem {
   is_required: boolean;
   display_order: number;
   metadata?: Record<string, any>;
+  logic?: ItemLogic | null;
 }
 
 // Metadata configuration for templates
@@ -56,6 +57,7 @@ export interface SiteDiary {
   updated_at?: string;
   deleted_at?: string | null;
   metadata?: Record<string, any>;
+  version?: number;
 }
 
 export interface SiteDiaryAnswer {
@@ -80,6 +82,8 @@ export interface UpdateSiteDiaryTemplateRequest {
   description?: string;
   items: SiteDiaryTemplateItem[];
   metadata?: SiteDiaryMetadataConfig;
+  // Version the edits were made against; the save is rejected if the template has moved on
+  expectedVersion?: number;
 }
 
 export interface CreateSiteDiaryRequest {
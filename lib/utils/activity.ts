@@ -0,0 +1,152 @@
+import { format } from 'date-fns';
+import { ActivityEntityType, ActivityLogEntry } from '@/lib/api/activity-log';
+import { toCsv } from '@/lib/utils/csv';
+
+export type ActivityValueFormatter = (value: unknown) => string;
+
+// Labels and formatters for fields of the entity being shown, keyed like ActivityLogEntry.changes
+export type ActivityFieldOptions = {
+  labels?: Record<string, string>;
+  formatters?: Record<string, ActivityValueFormatter>;
+};
+
+export type ActivityChangeLine = {
+  field: string;
+  label: string;
+  from: string;
+  to: string;
+};
+
+export const ACTIVITY_ENTITY_LABELS: Record<ActivityEntityType, string> = {
+  task: 'Task',
+  form_entry: 'Form entry',
+  site_diary: 'Site diary',
+  approval: 'Approval',
+  organization_member: 'Organization member',
+  project_member: 'Project member',
+};
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const ISO_TIMESTAMP = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/;
+
+/**
+ * Readable text for a recorded value; dates are formatted and empty values shown as a dash
+ */
+export const formatActivityValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (Array.isArray(value)) {
+    return value.length > 0 ? value.map(formatActivityValue).join(', ') : '—';
+  }
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'object') return JSON.stringify(value);
+  if (typeof value === 'string' && ISO_DATE.test(value)) {
+    return format(new Date(`${value}T00:00:00`), 'MMM d, yyyy');
+  }
+  if (typeof value === 'string' && ISO_TIMESTAMP.test(value)) {
+    return format(new Date(value), 'MMM d, yyyy h:mm a');
+  }
+  return String(value);
+};
+
+/**
+ * Turns a column name into a label, e.g. "due_date" into "Due date" and "status_id" into "Status"
+ */
+export const humanizeActivityField = (field: string): string => {
+  if (field.startsWith('answer:')) return `Answer (question ${field.slice('answer:'.length)})`;
+
+  const words = field.replace(/_id$/, '').replace(/_/g, ' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+/**
+ * The field changes of an entry as from/to text, in the order they were recorded
+ */
+export const getActivityChangeLines = (
+  entry: ActivityLogEntry,
+  { labels = {}, formatters = {} }: ActivityFieldOptions = {},
+): ActivityChangeLine[] =>
+  Object.keys(entry.changes).map((field) => {
+    const formatValue = formatters[field] || formatActivityValue;
+    return {
+      field,
+      label: labels[field] || humanizeActivityField(field),
+      from: formatValue(entry.changes[field].old),
+      to: formatValue(entry.changes[field].new),
+    };
+  });
+
+// Saves that follow each other this closely are shown as one entry
+const ACTIVITY_GROUP_WINDOW_MS = 60 * 1000;
+
+/**
+ * Merges entries (newest first) where the same person kept changing the same entity within a
+ * minute, as happens when a save writes a row and its answers separately. Each field keeps its
+ * first old value and its last new value; the log itself keeps every entry.
+ */
+export const groupActivityEntries = (entries: ActivityLogEntry[]): ActivityLogEntry[] =>
+  entries.reduce<ActivityLogEntry[]>((grouped, entry) => {
+    const later = grouped[grouped.length - 1];
+    const sameChange =
+      later &&
+      later.entity_type === entry.entity_type &&
+      later.entity_id === entry.entity_id &&
+      later.actor_id === entry.actor_id &&
+      later.action === 'updated' &&
+      entry.action !== 'deleted' &&
+      new Date(later.created_at).getTime() - new Date(entry.created_at).getTime() <=
+        ACTIVITY_GROUP_WINDOW_MS;
+
+    if (!sameChange) return [...grouped, entry];
+
+    const changes = { ...entry.changes };
+    Object.entries(later.changes).forEach(([field, change]) => {
+      changes[field] = { old: changes[field] ? changes[field].old : change.old, new: change.new };
+    });
+
+    grouped[grouped.length - 1] = {
+      ...later,
+      action: entry.action,
+      entity_name: later.entity_name || entry.entity_name,
+      changes,
+    };
+    return grouped;
+  }, []);
+
+/**
+ * One-line summary such as "updated the task" or "created an approval for Daily report"
+ */
+export const describeActivity = (entry: ActivityLogEntry, includeName = false): string => {
+  const entity = ACTIVITY_ENTITY_LABELS[entry.entity_type].toLowerCase();
+  const name = includeName && entry.entity_name ? ` "${entry.entity_name}"` : '';
+
+  if (entry.entity_type === 'approval') {
+    const approved = entry.related_entity_type
+      ? ACTIVITY_ENTITY_LABELS[entry.related_entity_type as ActivityEntityType]?.toLowerCase()
+      : null;
+    return `${entry.action} the approval${approved ? ` of the ${approved}` : ''}${name}`;
+  }
+
+  return `${entry.action} the ${entity}${name}`;
+};
+
+/**
+ * CSV with one row per changed field, or one row for entries without field changes
+ */
+export const activityToCsv = (entries: ActivityLogEntry[]): string =>
+  toCsv(
+    ['Date', 'User', 'Action', 'Type', 'Name', 'Field', 'Old value', 'New value'],
+    entries.flatMap((entry) => {
+      const base = [
+        format(new Date(entry.created_at), 'yyyy-MM-dd HH:mm:ss'),
+        entry.actor_name || 'System',
+        entry.action,
+        ACTIVITY_ENTITY_LABELS[entry.entity_type],
+        entry.entity_name,
+      ];
+      const lines = getActivityChangeLines(entry);
+
+      return lines.length > 0
+        ? lines.map((line) => [...base, line.label, line.from, line.to])
+        : [[...base, '', '', '']];
+    }),
+  );
@@ -0,0 +1,129 @@
+// Each submission of an approval stores the entity as getEntityData returned it. Comparing two
+// of those snapshots tells approvers what changed between rounds.
+
+import { formatConflictValue, isSameValue } from '@/lib/utils/conflicts';
+import { humanizeActivityField } from '@/lib/utils/activity';
+
+export type SnapshotChange = {
+  key: string;
+  label: string;
+  before: string;
+  after: string;
+};
+
+type SnapshotField = {
+  label: string;
+  value: unknown;
+};
+
+type SnapshotAnswer = {
+  item_id: number;
+  answer_value: unknown;
+  form_items?: { question_value: string | null } | null;
+};
+
+// Bookkeeping that changes on every save or never changes, and says nothing about the content
+const IGNORED_FIELDS = [
+  'id',
+  'created_at',
+  'updated_at',
+  'last_updated',
+  'version',
+  'deleted_at',
+  'project_id',
+  'organization_id',
+  'template_id',
+  'form_id',
+  'submitted_by_user_id',
+];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const addRecordFields = (
+  fields: Record<string, SnapshotField>,
+  record: Record<string, unknown>,
+  prefix = '',
+) => {
+  Object.keys(record).forEach((key) => {
+    if (IGNORED_FIELDS.includes(key)) return;
+
+    const value = record[key];
+    // Metadata is shown field by field rather than as one JSON blob
+    if (key === 'metadata' && isRecord(value)) {
+      addRecordFields(fields, value, `${prefix}metadata.`);
+      return;
+    }
+
+    fields[`${prefix}${key}`] = { label: humanizeActivityField(key), value };
+  });
+};
+
+const addAnswerFields = (
+  fields: Record<string, SnapshotField>,
+  answers: SnapshotAnswer[],
+  questions: Map<number, string>,
+) => {
+  answers.forEach((answer) => {
+    fields[`answer.${answer.item_id}`] = {
+      label:
+        answer.form_items?.question_value ||
+        questions.get(answer.item_id) ||
+        `Question ${answer.item_id}`,
+      value: answer.answer_value,
+    };
+  });
+};
+
+/**
+ * Flattens a snapshot into labelled fields, with one field per answered question
+ */
+const getSnapshotFields = (entityType: string, data: unknown): Record<string, SnapshotField> => {
+  const fields: Record<string, SnapshotField> = {};
+  if (!isRecord(data)) return fields;
+
+  if (entityType === 'site_diary') {
+    const diary = isRecord(data.diary) ? data.diary : {};
+    const items = Array.isArray(data.template_items)
+      ? (data.template_items as { id: number; question_value: string | null }[])
+      : [];
+    const questions = new Map(items.map((item) => [item.id, item.question_value || '']));
+
+    addRecordFields(fields, diary);
+    addAnswerFields(fields, Array.isArray(data.answers) ? data.answers : [], questions);
+    return fields;
+  }
+
+  if (entityType === 'entries') {
+    const { form_entry_answers: answers, ...entry } = data;
+
+    addRecordFields(fields, entry);
+    addAnswerFields(fields, Array.isArray(answers) ? answers : [], new Map());
+    return fields;
+  }
+
+  addRecordFields(fields, data);
+  return fields;
+};
+
+/**
+ * Fields that differ between two submitted versions of an entity
+ */
+export const getSnapshotChanges = (
+  entityType: string,
+  before: unknown,
+  after: unknown,
+): SnapshotChange[] => {
+  const beforeFields = getSnapshotFields(entityType, before);
+  const afterFields = getSnapshotFields(entityType, after);
+  const keys = Array.from(new Set(Object.keys(beforeFields).concat(Object.keys(afterFields))));
+
+  return keys
+    .filter((key) => !isSameValue(beforeFields[key]?.value, afterFields[key]?.value))
+    .map((key) => ({
+      key,
+      label: (afterFields[key] || beforeFields[key]).label,
+      before: formatConflictValue(beforeFields[key]?.value),
+      after: formatConflictValue(afterFields[key]?.value),
+    }));
+};
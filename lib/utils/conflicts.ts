@@ -0,0 +1,86 @@
+// Optimistic concurrency: rows carry a version that the database bumps on every update.
+// A save made from a stale copy matches no row and is reported as a VersionConflictError
+// carrying the latest saved data, so the user can merge field by field.
+
+/**
+ * Thrown when a save is rejected because someone else saved the record first
+ */
+export class VersionConflictError<T> extends Error {
+  readonly current: T;
+
+  constructor(entityName: string, current: T) {
+    super(`This ${entityName} was changed by someone else since you opened it`);
+    this.name = 'VersionConflictError';
+    this.current = current;
+  }
+}
+
+export const isVersionConflict = <T>(error: unknown): error is VersionConflictError<T> =>
+  error instanceof VersionConflictError;
+
+export type ConflictChoice = 'mine' | 'theirs';
+
+export type ConflictField = {
+  key: string;
+  label: string;
+  mine: unknown;
+  theirs: unknown;
+  mineText: string;
+  theirsText: string;
+  // Theirs when only the other person changed the field, mine otherwise
+  defaultChoice: ConflictChoice;
+};
+
+export type ConflictFieldInput = {
+  key: string;
+  label: string;
+  // The value both sides started from
+  base: unknown;
+  mine: unknown;
+  theirs: unknown;
+  format?: (value: unknown) => string;
+};
+
+const normalize = (value: unknown) => JSON.stringify(value ?? null);
+
+export const isSameValue = (a: unknown, b: unknown) => normalize(a) === normalize(b);
+
+export const formatConflictValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (Array.isArray(value))
+    return value.length > 0 ? value.map(formatConflictValue).join(', ') : '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+/**
+ * Fields where the saved value now differs from the one being saved
+ */
+export const getConflictFields = (inputs: ConflictFieldInput[]): ConflictField[] =>
+  inputs
+    .filter((input) => !isSameValue(input.mine, input.theirs))
+    .map(({ key, label, base, mine, theirs, format = formatConflictValue }) => ({
+      key,
+      label,
+      mine,
+      theirs,
+      mineText: format(mine),
+      theirsText: format(theirs),
+      defaultChoice: isSameValue(mine, base) ? 'theirs' : 'mine',
+    }));
+
+/**
+ * The fields the user chose to keep their own value for, ready to save again
+ */
+export const getKeptValues = (
+  fields: ConflictField[],
+  choices: Record<string, ConflictChoice>,
+): Record<string, unknown> =>
+  fields.reduce(
+    (kept, field) =>
+      (choices[field.key] ?? field.defaultChoice) === 'mine'
+        ? { ...kept, [field.key]: field.mine }
+        : kept,
+    {} as Record<string, unknown>,
+  );
@@ -0,0 +1,30 @@
+type CsvValue = string | number | null | undefined;
+
+/**
+ * Quotes a value when it contains a delimiter, quote or line break
+ */
+const escapeCsvValue = (value: CsvValue): string => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Serialises a header row and data rows into CSV text
+ */
+export const toCsv = (headers: string[], rows: CsvValue[][]): string =>
+  [headers, ...rows].map((row) => row.map(escapeCsvValue).join(',')).join('\r\n');
+
+/**
+ * Triggers a browser download of CSV text
+ */
+export const downloadCsv = (filename: string, csv: string): void => {
+  const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
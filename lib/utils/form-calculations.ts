@@ -0,0 +1,242 @@
+import { FormItemSettings, ItemCalculation, ItemLogic, ItemType } from '@/lib/types/form';
+import { EntryCalculations } from '@/lib/types/form-entry';
+import { getItemStates } from './form-logic';
+import { getRatingScale, isAnswerEmpty } from './form-utils';
+
+type CalculationItem = {
+  id?: number;
+  item_type: ItemType;
+  display_order: number;
+  is_required: boolean;
+  options?: string[];
+  metadata?: FormItemSettings | null;
+  logic?: ItemLogic | null;
+};
+
+// Raised for formulas that can't be worked out whatever the answers are
+class FormulaError extends Error {}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const toNumber = (value: unknown): number | null => {
+  if (isAnswerEmpty(value) || Array.isArray(value)) return null;
+  const number = Number(value);
+  return isNaN(number) ? null : number;
+};
+
+/**
+ * Works out a formula such as `(Q1 + Q2) / 2`, where Q1, Q2 and so on are the numeric answers
+ * to questions by number. Returns null while any answer it uses is missing, or when it divides
+ * by zero; throws a FormulaError when the formula itself is malformed.
+ */
+export function evaluateFormula(
+  formula: string,
+  getValue: (order: number) => number | null,
+): number | null {
+  const tokens = formula.match(/\d+(?:\.\d+)?|Q\d+|[-+*/()]|\S/gi) || [];
+  let position = 0;
+  let incomplete = false;
+
+  const parseFactor = (): number => {
+    const token = tokens[position++];
+
+    if (token === undefined) throw new FormulaError('Formula ends unexpectedly');
+    if (token === '-') return -parseFactor();
+    if (token === '(') {
+      const value = parseExpression();
+      if (tokens[position++] !== ')') throw new FormulaError('Missing closing bracket');
+      return value;
+    }
+    if (/^Q\d+$/i.test(token)) {
+      const value = getValue(parseInt(token.slice(1)) - 1);
+      if (value === null) incomplete = true;
+      return value ?? 0;
+    }
+    if (/^\d/.test(token)) return parseFloat(token);
+
+    throw new FormulaError(`Unexpected "${token}" in formula`);
+  };
+
+  const parseTerm = (): number => {
+    let value = parseFactor();
+    while (tokens[position] === '*' || tokens[position] === '/') {
+      const operator = tokens[position++];
+      const right = parseFactor();
+      if (operator === '/' && right === 0) incomplete = true;
+      value = operator === '*' ? value * right : value / right;
+    }
+    return value;
+  };
+
+  const parseExpression = (): number => {
+    let value = parseTerm();
+    while (tokens[position] === '+' || tokens[position] === '-') {
+      const operator = tokens[position++];
+      const right = parseTerm();
+      value = operator === '+' ? value + right : value - right;
+    }
+    return value;
+  };
+
+  const value = parseExpression();
+  if (position < tokens.length) {
+    throw new FormulaError(`Unexpected "${tokens[position]}" in formula`);
+  }
+
+  return incomplete || !isFinite(value) ? null : round(value);
+}
+
+/**
+ * Returns what is wrong with a formula, or null when it can be worked out. `sources` are the
+ * display orders of the questions it may refer to.
+ */
+export const getFormulaError = (formula: string | undefined, sources: number[]): string | null => {
+  if (!formula?.trim()) return 'Enter a formula';
+
+  try {
+    evaluateFormula(formula, (order) => {
+      if (!sources.includes(order)) {
+        throw new FormulaError(`Q${order + 1} isn't a numeric question above this one`);
+      }
+      return 1;
+    });
+    return null;
+  } catch (error) {
+    return error instanceof FormulaError ? error.message : 'Invalid formula';
+  }
+};
+
+// How much of an item's marks an answer earns, from 0 to 1, or null when it doesn't count
+const getAnswerScore = (item: CalculationItem, answer: unknown): number | null => {
+  if (isAnswerEmpty(answer)) return null;
+
+  switch (item.item_type) {
+    case 'yes_no_na':
+      return answer === 'Yes' ? 1 : answer === 'No' ? 0 : null;
+    case 'rating': {
+      const rating = toNumber(answer);
+      return rating === null ? null : Math.min(rating / getRatingScale(item.metadata), 1);
+    }
+    case 'checklist': {
+      const options = (item.options || []).filter((option) => option.trim() !== '');
+      return Array.isArray(answer) && options.length > 0
+        ? answer.filter((value) => options.includes(value)).length / options.length
+        : null;
+    }
+    default:
+      return null;
+  }
+};
+
+const calculateValue = (
+  calculation: ItemCalculation,
+  answersByOrder: Record<number, unknown>,
+  itemsByOrder: Record<number, CalculationItem>,
+): number | null => {
+  const sources = calculation.items.filter((order) => itemsByOrder[order]);
+
+  switch (calculation.method) {
+    case 'sum': {
+      const numbers = sources
+        .map((order) => toNumber(answersByOrder[order]))
+        .filter((number): number is number => number !== null);
+      return numbers.length > 0
+        ? round(numbers.reduce((total, number) => total + number, 0))
+        : null;
+    }
+
+    case 'count': {
+      const match = calculation.match ?? 'No';
+      return sources.filter((order) => {
+        const answer = answersByOrder[order];
+        return Array.isArray(answer) ? answer.includes(match) : answer === match;
+      }).length;
+    }
+
+    case 'score': {
+      let earned = 0;
+      let available = 0;
+      calculation.items.forEach((order, index) => {
+        const item = itemsByOrder[order];
+        const score = item ? getAnswerScore(item, answersByOrder[order]) : null;
+        if (score === null) return;
+
+        const weight = calculation.weights?.[index] ?? 1;
+        earned += score * weight;
+        available += weight;
+      });
+      return available > 0 ? round((earned / available) * 100) : null;
+    }
+
+    case 'formula':
+      try {
+        return evaluateFormula(calculation.formula || '', (order) =>
+          itemsByOrder[order] ? toNumber(answersByOrder[order]) : null,
+        );
+      } catch {
+        return null;
+      }
+
+    default:
+      return null;
+  }
+};
+
+/**
+ * Whether a calculated value meets the item's pass mark, or null when it has none
+ */
+export const getPassResult = (
+  value: number | null | undefined,
+  settings?: FormItemSettings | null,
+): boolean | null =>
+  value === null ||
+  value === undefined ||
+  settings?.passMark === undefined ||
+  settings.passMark === null
+    ? null
+    : value >= settings.passMark;
+
+/**
+ * Works out every calculated item for the answers given so far. Items are evaluated in order,
+ * so a calculation can use earlier calculated values; items hidden by conditional logic count
+ * as unanswered. The entry's score is the first visible calculated item marked as the score.
+ */
+export function getEntryCalculations<T extends CalculationItem>(
+  items: T[],
+  answers: Record<number, unknown>,
+): EntryCalculations {
+  const states = getItemStates(items, answers);
+  const answersByOrder: Record<number, unknown> = {};
+  const itemsByOrder: Record<number, CalculationItem> = {};
+  const calculations: EntryCalculations = { values: {}, score: null, passed: null };
+  let scored = false;
+
+  [...items]
+    .sort((a, b) => a.display_order - b.display_order)
+    .forEach((item) => {
+      const visible = states[item.display_order]?.visible;
+
+      if (item.item_type !== 'calculated') {
+        itemsByOrder[item.display_order] = item;
+        answersByOrder[item.display_order] =
+          visible && item.id !== undefined ? answers[item.id] : undefined;
+        return;
+      }
+
+      const calculation = item.metadata?.calculation;
+      const value =
+        visible && calculation ? calculateValue(calculation, answersByOrder, itemsByOrder) : null;
+
+      itemsByOrder[item.display_order] = item;
+      answersByOrder[item.display_order] = value;
+      if (item.id !== undefined) calculations.values[item.id] = value;
+
+      if (visible && item.metadata?.isScore && !scored) {
+        scored = true;
+        calculations.score = value;
+        calculations.passed = getPassResult(value, item.metadata);
+      }
+    });
+
+  return calculations;
+}
@@ -0,0 +1,235 @@
+import {
+  FormItemSettings,
+  ItemCalculation,
+  ItemCondition,
+  ItemLogic,
+  ItemType,
+  LogicAction,
+  LogicOperator,
+} from '@/lib/types/form';
+import { isAnswerEmpty } from './form-utils';
+
+type LogicItem = {
+  id?: number;
+  item_type?: ItemType;
+  display_order: number;
+  is_required: boolean;
+  logic?: ItemLogic | null;
+};
+
+export interface ItemState {
+  visible: boolean;
+  required: boolean;
+}
+
+export const LOGIC_ACTIONS: { value: LogicAction; label: string }[] = [
+  { value: 'show', label: 'Show this question' },
+  { value: 'hide', label: 'Hide this question' },
+  { value: 'require', label: 'Require this question' },
+];
+
+export const LOGIC_OPERATORS: { value: LogicOperator; label: string }[] = [
+  { value: 'equals', label: 'is' },
+  { value: 'not_equals', label: 'is not' },
+  { value: 'greater_than', label: 'is greater than' },
+  { value: 'less_than', label: 'is less than' },
+  { value: 'answered', label: 'is answered' },
+  { value: 'not_answered', label: 'is not answered' },
+];
+
+/**
+ * Operators that make sense for answers to the given field type
+ */
+export const getOperatorsForType = (type: ItemType): LogicOperator[] =>
+  type === 'number' || type === 'rating'
+    ? ['equals', 'not_equals', 'greater_than', 'less_than', 'answered', 'not_answered']
+    : ['equals', 'not_equals', 'answered', 'not_answered'];
+
+/**
+ * Whether the operator compares the answer against a value entered in the rule
+ */
+export const operatorNeedsValue = (operator: LogicOperator): boolean =>
+  operator !== 'answered' && operator !== 'not_answered';
+
+/**
+ * Checks a single condition against the answer to the item it refers to. Checkbox answers
+ * match when any ticked option matches.
+ */
+export const isConditionMet = (condition: ItemCondition, answer: unknown): boolean => {
+  const empty = isAnswerEmpty(answer);
+
+  switch (condition.operator) {
+    case 'answered':
+      return !empty;
+    case 'not_answered':
+      return empty;
+    case 'greater_than':
+      return !empty && Number(answer) > Number(condition.value);
+    case 'less_than':
+      return !empty && Number(answer) < Number(condition.value);
+    case 'equals':
+    case 'not_equals': {
+      if (empty) return false;
+      const values = Array.isArray(answer) ? answer : [answer];
+      const matches = values.some((value) => String(value) === (condition.value ?? ''));
+      return condition.operator === 'equals' ? matches : !matches;
+    }
+    default:
+      return false;
+  }
+};
+
+/**
+ * Works out which items are shown and required for the answers given so far, keyed by display
+ * order. Items are evaluated in order, so an item hidden by its own rule counts as unanswered
+ * for the items after it. Hiding a section hides everything up to the next section.
+ */
+export function getItemStates<T extends LogicItem>(
+  items: T[],
+  answers: Record<number, unknown>,
+): Record<number, ItemState> {
+  const states: Record<number, ItemState> = {};
+  const answersByOrder: Record<number, unknown> = {};
+  let sectionVisible = true;
+
+  [...items]
+    .sort((a, b) => a.display_order - b.display_order)
+    .forEach((item) => {
+      const logic = item.logic;
+      let visible = true;
+      let required = item.is_required;
+
+      if (logic && logic.conditions.length > 0) {
+        const results = logic.conditions.map((condition) =>
+          isConditionMet(condition, answersByOrder[condition.item]),
+        );
+        const met = logic.match === 'any' ? results.some(Boolean) : results.every(Boolean);
+
+        if (logic.action === 'show') visible = met;
+        if (logic.action === 'hide') visible = !met;
+        if (logic.action === 'require') required = required || met;
+      }
+
+      if (item.item_type === 'section') {
+        sectionVisible = visible;
+      } else {
+        visible = visible && sectionVisible;
+      }
+
+      states[item.display_order] = { visible, required: visible && required };
+      answersByOrder[item.display_order] =
+        visible && item.id !== undefined ? answers[item.id] : undefined;
+    });
+
+  return states;
+}
+
+/**
+ * Ids of the items currently hidden by their rules, whose answers should not be stored
+ */
+export function getHiddenItemIds<T extends LogicItem>(
+  items: T[],
+  answers: Record<number, unknown>,
+): number[] {
+  const states = getItemStates(items, answers);
+  return items
+    .filter((item) => item.id !== undefined && !states[item.display_order]?.visible)
+    .map((item) => item.id!);
+}
+
+// Calculations follow the same rules as conditions; formula references to questions that are
+// gone become Q0, which the builder flags
+const remapCalculation = (
+  calculation: ItemCalculation,
+  newOrders: Record<number, number>,
+  index: number,
+): ItemCalculation => {
+  const sources = calculation.items
+    .map((order, i) => ({ order: newOrders[order], weight: calculation.weights?.[i] }))
+    .filter((source) => source.order !== undefined && source.order < index);
+
+  return {
+    ...calculation,
+    items: sources.map((source) => source.order),
+    ...(calculation.weights && { weights: sources.map((source) => source.weight ?? 1) }),
+    ...(calculation.formula && {
+      formula: calculation.formula.replace(/Q(\d+)/gi, (_, number: string) => {
+        const order = newOrders[Number(number) - 1];
+        return order !== undefined && order < index ? `Q${order + 1}` : 'Q0';
+      }),
+    }),
+  };
+};
+
+/**
+ * Points rules and calculations at the new positions of the items they refer to after items
+ * are moved or removed. `previousOrders[i]` is the position the item now at `i` had before the
+ * change. Conditions on removed items, or on items that no longer come first, are dropped.
+ */
+export function remapItemLogic<
+  T extends {
+    logic?: ItemLogic | null;
+    metadata?: FormItemSettings | null;
+    settings?: FormItemSettings;
+  },
+>(items: T[], previousOrders: number[]): T[] {
+  const newOrders: Record<number, number> = {};
+  previousOrders.forEach((previous, index) => {
+    newOrders[previous] = index;
+  });
+
+  return items.map((item, index) => {
+    let remapped = item;
+
+    if (item.logic) {
+      const conditions = item.logic.conditions
+        .filter((condition) => newOrders[condition.item] !== undefined)
+        .map((condition) => ({ ...condition, item: newOrders[condition.item] }))
+        .filter((condition) => condition.item < index);
+
+      remapped = {
+        ...remapped,
+        logic: conditions.length > 0 ? { ...item.logic, conditions } : null,
+      };
+    }
+
+    // Builders keep settings on the question; saved items keep them in metadata
+    if (item.metadata?.calculation) {
+      remapped = {
+        ...remapped,
+        metadata: {
+          ...item.metadata,
+          calculation: remapCalculation(item.metadata.calculation, newOrders, index),
+        },
+      };
+    }
+    if (item.settings?.calculation) {
+      remapped = {
+        ...remapped,
+        settings: {
+          ...item.settings,
+          calculation: remapCalculation(item.settings.calculation, newOrders, index),
+        },
+      };
+    }
+
+    return remapped;
+  });
+}
+
+/**
+ * One-line summary of a rule, shown on builder cards
+ */
+export const describeLogic = (logic: ItemLogic, labels: Record<number, string>): string => {
+  const action =
+    logic.action === 'require' ? 'Required' : logic.action === 'show' ? 'Shown' : 'Hidden';
+  const conditions = logic.conditions.map((condition) => {
+    const operator = LOGIC_OPERATORS.find((o) => o.value === condition.operator)?.label || '';
+    const label = labels[condition.item] || `Question ${condition.item + 1}`;
+    return operatorNeedsValue(condition.operator)
+      ? `"${label}" ${operator} ${condition.value || '(blank)'}`
+      : `"${label}" ${operator}`;
+  });
+
+  return `${action} when ${conditions.join(logic.match === 'any' ? ' or ' : ' and ')}`;
+};
@@ -1,20 +1,218 @@
 import { QuestionType } from '@/lib/types/form-builder';
-import { FormItem } from '@/lib/types/form';
+import {
+  CalculationMethod,
+  FormItem,
+  FormItemSettings,
+  ItemLogic,
+  ItemType,
+} from '@/lib/types/form';
 
-export const mapQuestionTypeToItemType = (
-  type: QuestionType,
-): 'question' | 'checklist' | 'radio_box' | 'photo' => {
+// Field types offered by the form and site diary template builders
+export const FIELD_TYPES: { value: ItemType; label: string }[] = [
+  { value: 'question', label: 'Short answer' },
+  { value: 'radio_box', label: 'Multiple choice' },
+  { value: 'checklist', label: 'Checkboxes' },
+  { value: 'dropdown', label: 'Dropdown' },
+  { value: 'yes_no_na', label: 'Yes / No / N/A' },
+  { value: 'number', label: 'Number' },
+  { value: 'date', label: 'Date' },
+  { value: 'time', label: 'Time' },
+  { value: 'rating', label: 'Rating' },
+  { value: 'signature', label: 'Signature' },
+  { value: 'photo', label: 'Photo' },
+  { value: 'file', label: 'File' },
+];
+
+// Layout and calculated items only offered by the form builder
+export const FORM_ONLY_TYPES: { value: ItemType; label: string }[] = [
+  { value: 'section', label: 'Section' },
+  { value: 'group', label: 'Repeatable group' },
+  { value: 'calculated', label: 'Calculated' },
+];
+
+// Ways a calculated item can be worked out, and the answers each one can use
+export const CALCULATION_METHODS: {
+  value: CalculationMethod;
+  label: string;
+  sourceTypes: ItemType[];
+}[] = [
+  { value: 'sum', label: 'Sum', sourceTypes: ['number', 'rating', 'calculated'] },
+  {
+    value: 'count',
+    label: 'Count of answers',
+    sourceTypes: ['yes_no_na', 'radio_box', 'dropdown', 'checklist'],
+  },
+  {
+    value: 'score',
+    label: 'Weighted score (%)',
+    sourceTypes: ['yes_no_na', 'rating', 'checklist'],
+  },
+  { value: 'formula', label: 'Formula', sourceTypes: ['number', 'rating', 'calculated'] },
+];
+
+// Field types that can be repeated on the rows of a group
+export const GROUP_FIELD_TYPES = FIELD_TYPES.filter((type) =>
+  ['question', 'number', 'date', 'time', 'dropdown', 'yes_no_na', 'rating', 'photo'].includes(
+    type.value,
+  ),
+);
+
+export const YES_NO_NA_OPTIONS = ['Yes', 'No', 'N/A'];
+
+export const DEFAULT_RATING_SCALE = 5;
+
+/**
+ * Whether the field type has a list of options to choose from
+ */
+export const hasOptions = (type: ItemType): boolean =>
+  type === 'radio_box' || type === 'checklist' || type === 'dropdown';
+
+/**
+ * Whether answers to the field type are uploaded attachments rather than values
+ */
+export const isAttachmentType = (type: ItemType): boolean => type === 'photo' || type === 'file';
+
+export const getRatingScale = (settings?: FormItemSettings | null): number =>
+  settings?.scale && settings.scale > 1 ? settings.scale : DEFAULT_RATING_SCALE;
+
+/**
+ * Whether an answer counts as left blank for required-field checks
+ */
+export const isAnswerEmpty = (value: unknown): boolean => {
+  if (value === null || value === undefined) return true;
+  if (typeof value === 'string') return value.trim() === '';
+  if (Array.isArray(value)) return value.length === 0;
+  return false;
+};
+
+/**
+ * Returns what is wrong with an answer, or null when it can be saved
+ */
+export const getAnswerError = (
+  item: Pick<FormItem, 'item_type' | 'is_required' | 'metadata'>,
+  value: unknown,
+): string | null => {
+  if (isAnswerEmpty(value)) {
+    return item.is_required ? 'This field is required' : null;
+  }
+
+  if (item.item_type === 'group') {
+    const fields = item.metadata?.fields || [];
+    const rows = Array.isArray(value) ? value : [];
+
+    for (let row = 0; row < rows.length; row++) {
+      for (let index = 0; index < fields.length; index++) {
+        const field = fields[index];
+        const error = getAnswerError(
+          { item_type: field.type, is_required: field.required, metadata: field.settings },
+          Array.isArray(rows[row]) ? rows[row][index] : null,
+        );
+        if (error) return `Row ${row + 1}, ${field.title || `field ${index + 1}`}: ${error}`;
+      }
+    }
+  }
+
+  if (item.item_type === 'number') {
+    const number = Number(value);
+    const { min, max } = item.metadata || {};
+
+    if (isNaN(number)) return 'Enter a number';
+    if (min !== undefined && min !== null && number < min) return `Must be at least ${min}`;
+    if (max !== undefined && max !== null && number > max) return `Must be at most ${max}`;
+  }
+
+  return null;
+};
+
+/**
+ * Settings worth keeping for a field type, so switching types doesn't carry stale ones along
+ */
+export const getSettingsForType = (
+  type: ItemType,
+  settings?: FormItemSettings | null,
+): FormItemSettings | null => {
+  if (type === 'number') {
+    return { unit: settings?.unit, min: settings?.min, max: settings?.max };
+  }
+  if (type === 'rating') {
+    return { scale: getRatingScale(settings) };
+  }
+  if (type === 'section') {
+    return { description: settings?.description, newPage: settings?.newPage };
+  }
+  if (type === 'group') {
+    return { fields: settings?.fields || [{ title: '', type: 'question', required: false }] };
+  }
+  if (type === 'calculated') {
+    return {
+      calculation: settings?.calculation || { method: 'sum', items: [] },
+      passMark: settings?.passMark,
+      isScore: settings?.isScore,
+    };
+  }
+  return null;
+};
+
+/**
+ * Short description of what a field captures, shown in builder previews
+ */
+export const describeField = (type: ItemType, settings?: FormItemSettings | null): string => {
   switch (type) {
     case 'question':
-      return 'question';
-    case 'radio_box':
-      return 'radio_box';
-    case 'checklist':
-      return 'checklist';
+      return 'Text answer';
+    case 'number': {
+      const { unit, min, max } = settings || {};
+      const hasMin = min !== undefined && min !== null;
+      const hasMax = max !== undefined && max !== null;
+      const range =
+        hasMin && hasMax
+          ? ` from ${min} to ${max}`
+          : hasMin
+            ? ` of at least ${min}`
+            : hasMax
+              ? ` of at most ${max}`
+              : '';
+      return `Number${unit ? ` in ${unit}` : ''}${range}`;
+    }
+    case 'date':
+      return 'Date';
+    case 'time':
+      return 'Time of day';
+    case 'signature':
+      return 'Signature';
+    case 'yes_no_na':
+      return YES_NO_NA_OPTIONS.join(' / ');
+    case 'rating':
+      return `Rating out of ${getRatingScale(settings)}`;
     case 'photo':
-      return 'photo';
+      return 'Photo upload';
+    case 'file':
+      return 'File upload';
+    case 'section':
+      return settings?.newPage ? 'Section heading, starting a new page' : 'Section heading';
+    case 'group': {
+      const titles = (settings?.fields || []).map((field) => field.title).filter(Boolean);
+      return titles.length > 0
+        ? `Repeated for each row: ${titles.join(', ')}`
+        : 'Repeated for each row';
+    }
+    case 'calculated': {
+      const calculation = settings?.calculation;
+      const method = CALCULATION_METHODS.find((m) => m.value === calculation?.method);
+      const count = calculation?.items.length || 0;
+      const parts = [
+        calculation?.method === 'formula'
+          ? `Formula: ${calculation.formula || 'not set'}`
+          : `${method?.label || 'Calculated'} of ${count} answer${count === 1 ? '' : 's'}`,
+      ];
+      if (settings?.passMark !== undefined && settings.passMark !== null) {
+        parts.push(`pass mark ${settings.passMark}`);
+      }
+      if (settings?.isScore) parts.push('used as the entry score');
+      return parts.join(', ');
+    }
     default:
-      return 'question';
+      return '';
   }
 };
 
@@ -24,14 +222,37 @@ export const generateFormItems = (
     title: string;
     options?: string[];
     required: boolean;
+    settings?: FormItemSettings;
+    logic?: ItemLogic | null;
   }[],
 ): Omit<FormItem, 'id' | 'form_id'>[] => {
   return questions.map((question, index) => ({
-    item_type: mapQuestionTypeToItemType(question.type),
+    item_type: question.type,
     question_value: question.title,
-    options:
-      question.type === 'radio_box' || question.type === 'checklist' ? question.options || [] : [],
+    options: hasOptions(question.type) ? question.options || [] : [],
     is_required: question.required,
     display_order: index,
+    metadata: getSettingsForType(question.type, question.settings),
+    logic: question.logic || null,
   }));
 };
+
+/**
+ * Splits items into the pages of a wizard; a section marked to start a new page begins one
+ */
+export function getFormPages<T extends Pick<FormItem, 'item_type' | 'metadata'>>(
+  items: T[],
+): T[][] {
+  const pages: T[][] = [[]];
+
+  items.forEach((item) => {
+    const current = pages[pages.length - 1];
+    if (item.item_type === 'section' && item.metadata?.newPage && current.length > 0) {
+      pages.push([item]);
+    } else {
+      current.push(item);
+    }
+  });
+
+  return pages;
+}
@@ -0,0 +1,73 @@
+// Comments store mentions as @[user_id] tokens; the notification triggers parse the same format
+export const MENTION_TOKEN_PATTERN = /@\[([0-9a-f-]{36})\]/gi;
+
+export type MentionMember = {
+  id: string;
+  name: string;
+};
+
+export type MentionSegment = { type: 'text'; text: string } | { type: 'mention'; userId: string };
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Splits comment content into plain text and mention segments for rendering
+ */
+export const splitMentions = (content: string): MentionSegment[] => {
+  const segments: MentionSegment[] = [];
+  let lastIndex = 0;
+
+  Array.from(content.matchAll(MENTION_TOKEN_PATTERN)).forEach((match) => {
+    const index = match.index ?? 0;
+    if (index > lastIndex) {
+      segments.push({ type: 'text', text: content.slice(lastIndex, index) });
+    }
+    segments.push({ type: 'mention', userId: match[1] });
+    lastIndex = index + match[0].length;
+  });
+
+  if (lastIndex < content.length) {
+    segments.push({ type: 'text', text: content.slice(lastIndex) });
+  }
+
+  return segments;
+};
+
+/**
+ * Replaces @[user_id] tokens with @Name for editing; unknown users keep their token
+ */
+export const decodeMentions = (content: string, members: MentionMember[]): string =>
+  content.replace(MENTION_TOKEN_PATTERN, (token, userId: string) => {
+    const member = members.find((m) => m.id === userId);
+    return member?.name ? `@${member.name}` : token;
+  });
+
+/**
+ * Replaces @Name with the member's @[user_id] token. Longer names are matched first so
+ * "@Ann Lee" is not taken for "@Ann", and a name must not run on into another word.
+ */
+export const encodeMentions = (text: string, members: MentionMember[]): string =>
+  [...members]
+    .filter((member) => member.name)
+    .sort((a, b) => b.name.length - a.name.length)
+    .reduce(
+      (result, member) =>
+        result.replace(
+          new RegExp(`@${escapeRegExp(member.name)}(?![\\p{L}\\p{N}])`, 'gu'),
+          `@[${member.id}]`,
+        ),
+      text,
+    );
+
+/**
+ * The partly typed mention right before the caret, e.g. "@jo|" gives { query: 'jo', start }
+ */
+export const getMentionQuery = (
+  text: string,
+  caret: number,
+): { query: string; start: number } | null => {
+  const match = /(^|\s)@([^\s@]*)$/.exec(text.slice(0, caret));
+  if (!match) return null;
+
+  return { query: match[2], start: caret - match[2].length - 1 };
+};
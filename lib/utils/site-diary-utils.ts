@@ -0,0 +1,37 @@
+import { format, isWeekend, subDays } from 'date-fns';
+
+/**
+ * Formats a date the same way site diaries store their `date` column
+ */
+export const toDiaryDate = (date: Date): string => format(date, 'yyyy-MM-dd');
+
+/**
+ * Checks whether a day is a working day (Monday to Friday)
+ */
+export const isWorkingDay = (date: Date): boolean => !isWeekend(date);
+
+/**
+ * Returns the last `count` working days before `from`, most recent first
+ */
+export const getRecentWorkingDays = (count: number, from: Date = new Date()): Date[] => {
+  const days: Date[] = [];
+  let cursor = subDays(from, 1);
+
+  while (days.length < count) {
+    if (isWorkingDay(cursor)) {
+      days.push(cursor);
+    }
+    cursor = subDays(cursor, 1);
+  }
+
+  return days;
+};
+
+/**
+ * Returns the working days in `days` that have no diary recorded against them
+ */
+export const getMissingDiaryDays = (days: Date[], diaryDates: string[]): Date[] => {
+  const recorded = new Set(diaryDates);
+
+  return days.filter((day) => isWorkingDay(day) && !recorded.has(toDiaryDate(day)));
+};
@@ -0,0 +1,117 @@
+import { addDays, isWithinInterval, startOfDay } from 'date-fns';
+import { TaskDueFilter, TaskFilters, TaskWithRelations } from '@/app/protected/tasks/models';
+import { isTaskOverdue } from './task-utils';
+
+// Number of days ahead that counts as "due soon"
+export const DUE_SOON_DAYS = 7;
+
+export const EMPTY_TASK_FILTERS: TaskFilters = {
+  assignees: [],
+  labels: [],
+  priorities: [],
+  due: 'any',
+};
+
+const DUE_FILTERS: TaskDueFilter[] = ['any', 'overdue', 'due_soon', 'no_date'];
+
+/**
+ * Checks whether any filter is narrowing the task list
+ */
+export const hasActiveTaskFilters = (filters: TaskFilters): boolean =>
+  filters.assignees.length > 0 ||
+  filters.labels.length > 0 ||
+  filters.priorities.length > 0 ||
+  filters.due !== 'any';
+
+/**
+ * Checks whether an open task is due within the next `DUE_SOON_DAYS` days
+ */
+export const isTaskDueSoon = (
+  task: Pick<TaskWithRelations, 'due_date' | 'status_id'>,
+  doneStatusId: number | null,
+  now: Date = new Date(),
+): boolean => {
+  if (!task.due_date || task.status_id === doneStatusId) return false;
+
+  return isWithinInterval(new Date(task.due_date), {
+    start: startOfDay(now),
+    end: addDays(startOfDay(now), DUE_SOON_DAYS),
+  });
+};
+
+/**
+ * Applies the board filters to a task list. Values within a filter are OR-ed together and
+ * the filters themselves are AND-ed.
+ */
+export const filterTasks = (
+  tasks: TaskWithRelations[],
+  filters: TaskFilters,
+  doneStatusId: number | null,
+): TaskWithRelations[] =>
+  tasks.filter((task) => {
+    if (
+      filters.assignees.length > 0 &&
+      !task.entity_assignees.some((ea) => filters.assignees.includes(ea.user_id))
+    ) {
+      return false;
+    }
+
+    if (
+      filters.labels.length > 0 &&
+      !task.entity_labels.some((el) => filters.labels.includes(el.label_id))
+    ) {
+      return false;
+    }
+
+    if (filters.priorities.length > 0 && !filters.priorities.includes(task.priority_id)) {
+      return false;
+    }
+
+    switch (filters.due) {
+      case 'overdue':
+        return isTaskOverdue(task, doneStatusId);
+      case 'due_soon':
+        return isTaskDueSoon(task, doneStatusId);
+      case 'no_date':
+        return !task.due_date;
+      default:
+        return true;
+    }
+  });
+
+/**
+ * Writes filters into URL query params so a filtered board can be shared as a link
+ */
+export const taskFiltersToSearchParams = (
+  filters: TaskFilters,
+  params: URLSearchParams = new URLSearchParams(),
+): URLSearchParams => {
+  const next = new URLSearchParams(params);
+  ['assignee', 'label', 'priority', 'due'].forEach((key) => next.delete(key));
+
+  if (filters.assignees.length > 0) next.set('assignee', filters.assignees.join(','));
+  if (filters.labels.length > 0) next.set('label', filters.labels.join(','));
+  if (filters.priorities.length > 0) next.set('priority', filters.priorities.join(','));
+  if (filters.due !== 'any') next.set('due', filters.due);
+
+  return next;
+};
+
+/**
+ * Reads filters back from URL query params, ignoring malformed values
+ */
+export const taskFiltersFromSearchParams = (params: URLSearchParams): TaskFilters => {
+  const list = (key: string) => (params.get(key) || '').split(',').filter(Boolean);
+  const numbers = (key: string) =>
+    list(key)
+      .map(Number)
+      .filter((value) => Number.isInteger(value));
+  const due = params.get('due') as TaskDueFilter | null;
+
+  return {
+    assignees: list('assignee'),
+    labels: numbers('label'),
+    priorities: numbers('priority'),
+    due: due && DUE_FILTERS.includes(due) ? due : 'any',
+  };
+};
@@ -0,0 +1,72 @@
+import { format } from 'date-fns';
+import { TaskRecurrenceFrequency, TaskRecurrenceRule } from '@/app/protected/tasks/models';
+
+export const RECURRENCE_FREQUENCY_LABELS: Record<TaskRecurrenceFrequency, string> = {
+  daily: 'Daily',
+  weekdays: 'Every weekday',
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+};
+
+// Indexed by day of week, 0 = Sunday to match the database and Date#getDay
+export const WEEKDAY_SHORT_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Builds a rule for the given frequency, defaulting the day to the task's due date
+ */
+export const createRecurrenceRule = (
+  frequency: TaskRecurrenceFrequency,
+  anchor: Date = new Date(),
+): TaskRecurrenceRule => ({
+  frequency,
+  days_of_week: frequency === 'weekly' ? [anchor.getDay()] : [],
+  day_of_month: frequency === 'monthly' ? anchor.getDate() : null,
+  ends_on: null,
+});
+
+/**
+ * Returns a validation message for an incomplete rule, or null when it can be saved
+ */
+export const validateRecurrenceRule = (rule: TaskRecurrenceRule): string | null => {
+  if (rule.frequency === 'weekly' && rule.days_of_week.length === 0) {
+    return 'Choose at least one day of the week';
+  }
+  if (
+    rule.frequency === 'monthly' &&
+    (!rule.day_of_month || rule.day_of_month < 1 || rule.day_of_month > 31)
+  ) {
+    return 'Choose a day of the month between 1 and 31';
+  }
+  return null;
+};
+
+const ordinal = (n: number): string => {
+  const suffixes = ['th', 'st', 'nd', 'rd'];
+  const v = n % 100;
+  return n + (suffixes[(v - 20) % 10] || suffixes[v] || suffixes[0]);
+};
+
+/**
+ * Describes a rule in words, e.g. "Weekly on Mon, Thu until Sep 30, 2025"
+ */
+export const describeRecurrenceRule = (rule: TaskRecurrenceRule): string => {
+  let description: string;
+
+  switch (rule.frequency) {
+    case 'weekly':
+      description = `Weekly on ${[...rule.days_of_week]
+        .sort()
+        .map((day) => WEEKDAY_SHORT_LABELS[day])
+        .join(', ')}`;
+      break;
+    case 'monthly':
+      description = `Monthly on the ${ordinal(rule.day_of_month || 1)}`;
+      break;
+    default:
+      description = RECURRENCE_FREQUENCY_LABELS[rule.frequency];
+  }
+
+  return rule.ends_on
+    ? `${description} until ${format(new Date(`${rule.ends_on}T00:00:00`), 'MMM d, yyyy')}`
+    : description;
+};
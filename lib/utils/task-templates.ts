@@ -0,0 +1,102 @@
+import {
+  TaskTemplate,
+  TaskTemplateInput,
+  TaskTemplateItem,
+  TaskTemplateItemInput,
+} from '@/lib/api/task-templates';
+
+type TemplateItemFields = Omit<TaskTemplateItemInput, 'subtasks'>;
+
+/**
+ * A blank subtask for the template editor
+ */
+export const createTemplateSubtask = (): TemplateItemFields => ({
+  title: '',
+  description: null,
+  priority_name: null,
+  status_name: null,
+  label_names: [],
+  due_offset_days: null,
+  metadata: {},
+});
+
+/**
+ * A blank task for the template editor
+ */
+export const createTemplateItem = (): TaskTemplateItemInput => ({
+  ...createTemplateSubtask(),
+  subtasks: [],
+});
+
+const toItemFields = (item: TaskTemplateItem): TemplateItemFields => ({
+  title: item.title,
+  description: item.description,
+  priority_name: item.priority_name,
+  status_name: item.status_name,
+  label_names: item.label_names,
+  due_offset_days: item.due_offset_days,
+  metadata: item.metadata,
+});
+
+/**
+ * Converts a saved template into the nested shape used by the template editor
+ */
+export const templateToInput = (template: TaskTemplate): TaskTemplateInput => ({
+  name: template.name,
+  description: template.description,
+  items: template.items
+    .filter((item) => item.parent_item_id === null)
+    .map((item) => ({
+      ...toItemFields(item),
+      subtasks: template.items
+        .filter((subtask) => subtask.parent_item_id === item.id)
+        .map(toItemFields),
+    })),
+});
+
+const normalizeItemFields = (item: TemplateItemFields): TemplateItemFields => ({
+  title: item.title.trim(),
+  description: item.description?.trim() || null,
+  priority_name: item.priority_name?.trim() || null,
+  status_name: item.status_name?.trim() || null,
+  label_names: item.label_names.map((name) => name.trim()).filter(Boolean),
+  due_offset_days: item.due_offset_days,
+  metadata: Object.fromEntries(
+    Object.entries(item.metadata).filter(([, value]) => value.trim() !== ''),
+  ),
+});
+
+/**
+ * Trims text, drops empty labels and metadata, ready to be saved
+ */
+export const normalizeTemplateInput = (input: TaskTemplateInput): TaskTemplateInput => ({
+  name: input.name.trim(),
+  description: input.description?.trim() || null,
+  items: input.items.map((item) => ({
+    ...normalizeItemFields(item),
+    subtasks: item.subtasks.map(normalizeItemFields),
+  })),
+});
+
+/**
+ * Returns a validation message for an incomplete template, or null when it can be saved
+ */
+export const validateTemplateInput = (input: TaskTemplateInput): string | null => {
+  if (!input.name.trim()) {
+    return 'Template name is required';
+  }
+  if (input.items.length === 0) {
+    return 'Add at least one task';
+  }
+  if (
+    input.items.some((item) => !item.title.trim() || item.subtasks.some((s) => !s.title.trim()))
+  ) {
+    return 'Every task and subtask needs a title';
+  }
+  return null;
+};
+
+/**
+ * Number of tasks a template creates, counting subtasks
+ */
+export const countTemplateTasks = (template: TaskTemplate): number => template.items.length;
@@ -0,0 +1,112 @@
+import { endOfWeek, isBefore, isWithinInterval, startOfDay } from 'date-fns';
+import { Database } from '@/lib/supabase/types.generated';
+
+type Status = Database['public']['Tables']['statuses']['Row'];
+type Task = Database['public']['Tables']['tasks']['Row'];
+type TaskDependency = Database['public']['Tables']['task_dependencies']['Row'];
+
+/**
+ * Returns the id of the project's "done" status. Projects order their statuses as board
+ * columns, so the last column (highest position) is treated as completed work.
+ */
+export const getDoneStatusId = (statuses: Status[]): number | null => {
+  if (statuses.length === 0) return null;
+
+  return statuses.reduce((last, status) => (status.position > last.position ? status : last)).id;
+};
+
+/**
+ * Checks whether a task has a due date in the past and is not yet done
+ */
+export const isTaskOverdue = (
+  task: Pick<Task, 'due_date' | 'status_id'>,
+  doneStatusId: number | null,
+  now: Date = new Date(),
+): boolean => {
+  if (!task.due_date || task.status_id === doneStatusId) return false;
+
+  return isBefore(new Date(task.due_date), startOfDay(now));
+};
+
+/**
+ * Checks whether an open task is due between today and the end of the current week
+ */
+export const isTaskDueThisWeek = (
+  task: Pick<Task, 'due_date' | 'status_id'>,
+  doneStatusId: number | null,
+  now: Date = new Date(),
+): boolean => {
+  if (!task.due_date || task.status_id === doneStatusId) return false;
+
+  return isWithinInterval(new Date(task.due_date), {
+    start: startOfDay(now),
+    end: endOfWeek(now, { weekStartsOn: 1 }),
+  });
+};
+
+/**
+ * Counts how many of a task's direct subtasks are done
+ */
+export const getSubtaskProgress = (
+  subtasks: Pick<Task, 'status_id'>[],
+  doneStatusId: number | null,
+): { done: number; total: number } => ({
+  done: subtasks.filter((subtask) => subtask.status_id === doneStatusId).length,
+  total: subtasks.length,
+});
+
+/**
+ * Returns the predecessors of a task that are not yet done
+ */
+export const getUnfinishedPredecessors = <T extends Pick<Task, 'status_id'>>(
+  predecessors: T[],
+  doneStatusId: number | null,
+): T[] => predecessors.filter((predecessor) => predecessor.status_id !== doneStatusId);
+
+/**
+ * Checks whether a task's sign-off request still has to be approved before the task can be
+ * done. Tasks that were never sent for sign-off are not held back.
+ */
+export const isSignoffPending = (approval: { status: string } | null): boolean =>
+  !!approval && approval.status !== 'approved';
+
+/**
+ * Checks whether adding `predecessorId -> successorId` would close a loop, i.e. the
+ * predecessor already (transitively) depends on the successor
+ */
+export const wouldCreateDependencyCycle = (
+  dependencies: Pick<TaskDependency, 'predecessor_task_id' | 'successor_task_id'>[],
+  predecessorId: number,
+  successorId: number,
+): boolean => {
+  if (predecessorId === successorId) return true;
+
+  const visited = new Set<number>();
+  const queue = [successorId];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    if (current === predecessorId) return true;
+    if (visited.has(current)) continue;
+    visited.add(current);
+
+    dependencies
+      .filter((dependency) => dependency.predecessor_task_id === current)
+      .forEach((dependency) => queue.push(dependency.successor_task_id));
+  }
+
+  return false;
+};
+
+/**
+ * Returns the span a task occupies on the timeline. Tasks without a start date start on
+ * the day they were created; tasks without a due date occupy a single day.
+ */
+export const getTaskTimelineSpan = (
+  task: Pick<Task, 'start_date' | 'created_at' | 'due_date'>,
+): { start: Date; end: Date } => {
+  const start = startOfDay(new Date(task.start_date || task.created_at));
+  const end = task.due_date ? startOfDay(new Date(task.due_date)) : start;
+
+  return { start, end: isBefore(end, start) ? start : end };
+};
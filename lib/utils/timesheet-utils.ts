@@ -0,0 +1,80 @@
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { TimeEntryWithTask } from '@/app/protected/tasks/models';
+import { toCsv } from './csv';
+
+export type TimesheetRow = {
+  userId: string;
+  name: string;
+  // Hours for each day of the week, Monday first
+  dailyHours: number[];
+  total: number;
+  entries: TimeEntryWithTask[];
+};
+
+// Avoids floating point noise like 7.199999 when adding up hours
+const roundHours = (hours: number): number => Math.round(hours * 100) / 100;
+
+/**
+ * Returns the seven days of the week starting on weekStart
+ */
+export const getWeekDays = (weekStart: Date): Date[] =>
+  Array.from({ length: 7 }, (_, index) => addDays(weekStart, index));
+
+/**
+ * Groups a week's time entries into one row per worker, sorted by name
+ */
+export const buildWeeklyTimesheet = (
+  entries: TimeEntryWithTask[],
+  weekStart: Date,
+  getWorkerName: (userId: string) => string,
+): TimesheetRow[] => {
+  const rows = new Map<string, TimesheetRow>();
+
+  entries.forEach((entry) => {
+    const dayIndex = differenceInCalendarDays(parseISO(entry.entry_date), weekStart);
+    if (dayIndex < 0 || dayIndex > 6) return;
+
+    if (!rows.has(entry.user_id)) {
+      rows.set(entry.user_id, {
+        userId: entry.user_id,
+        name: getWorkerName(entry.user_id),
+        dailyHours: Array(7).fill(0),
+        total: 0,
+        entries: [],
+      });
+    }
+
+    const row = rows.get(entry.user_id)!;
+    row.dailyHours[dayIndex] = roundHours(row.dailyHours[dayIndex] + Number(entry.hours));
+    row.total = roundHours(row.total + Number(entry.hours));
+    row.entries.push(entry);
+  });
+
+  return Array.from(rows.values()).sort((a, b) => a.name.localeCompare(b.name));
+};
+
+/**
+ * CSV with one line per worker and a column per day, for payroll summaries
+ */
+export const weeklyTimesheetToCsv = (rows: TimesheetRow[], weekStart: Date): string =>
+  toCsv(
+    ['Worker', ...getWeekDays(weekStart).map((day) => format(day, 'EEE yyyy-MM-dd')), 'Total'],
+    rows.map((row) => [row.name, ...row.dailyHours, row.total]),
+  );
+
+/**
+ * CSV of every entry a worker logged in the week, one line per entry
+ */
+export const workerTimesheetToCsv = (row: TimesheetRow): string =>
+  toCsv(
+    ['Worker', 'Date', 'Task', 'Hours', 'Note'],
+    [...row.entries]
+      .sort((a, b) => a.entry_date.localeCompare(b.entry_date))
+      .map((entry) => [
+        row.name,
+        entry.entry_date,
+        entry.task?.title ?? `Task #${entry.task_id}`,
+        Number(entry.hours),
+        entry.note,
+      ]),
+  );
@@ -0,0 +1,128 @@
+-- Migration: Create task dependencies
+-- Description: Adds finish-to-start dependencies between tasks in the same project.
+-- A dependency means the successor task cannot start until the predecessor task is done.
+-- Dependencies that span projects or would introduce a cycle are rejected.
+
+-- ===========================================
+-- CREATE TASK_DEPENDENCIES TABLE
+-- ===========================================
+
+CREATE TABLE IF NOT EXISTS public.task_dependencies (
+  id BIGSERIAL PRIMARY KEY,
+  project_id INTEGER NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  predecessor_task_id INTEGER NOT NULL REFERENCES public.tasks(id) ON DELETE CASCADE,
+  successor_task_id INTEGER NOT NULL REFERENCES public.tasks(id) ON DELETE CASCADE,
+  created_by UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT task_dependencies_no_self_reference CHECK (predecessor_task_id <> successor_task_id),
+  CONSTRAINT task_dependencies_unique_pair UNIQUE (predecessor_task_id, successor_task_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_dependencies_project_id ON public.task_dependencies(project_id);
+CREATE INDEX IF NOT EXISTS idx_task_dependencies_predecessor ON public.task_dependencies(predecessor_task_id);
+CREATE INDEX IF NOT EXISTS idx_task_dependencies_successor ON public.task_dependencies(successor_task_id);
+
+COMMENT ON TABLE public.task_dependencies IS 'Finish-to-start dependencies: the successor task is blocked until the predecessor task is done';
+
+-- ===========================================
+-- VALIDATION TRIGGER
+-- ===========================================
+
+-- Ensures both tasks belong to the dependency's project and that the new edge does not close a cycle
+CREATE OR REPLACE FUNCTION validate_task_dependency()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_predecessor_project_id INTEGER;
+  v_successor_project_id INTEGER;
+  v_creates_cycle BOOLEAN;
+BEGIN
+  SELECT project_id INTO v_predecessor_project_id FROM tasks WHERE id = NEW.predecessor_task_id;
+  SELECT project_id INTO v_successor_project_id FROM tasks WHERE id = NEW.successor_task_id;
+
+  IF v_predecessor_project_id IS DISTINCT FROM NEW.project_id
+     OR v_successor_project_id IS DISTINCT FROM NEW.project_id THEN
+    RAISE EXCEPTION 'Task dependencies must be between tasks in the same project';
+  END IF;
+
+  -- Walk forward from the successor; reaching the predecessor means the new edge closes a loop
+  WITH RECURSIVE downstream AS (
+    SELECT td.successor_task_id AS task_id
+    FROM task_dependencies td
+    WHERE td.predecessor_task_id = NEW.successor_task_id
+      AND td.id IS DISTINCT FROM NEW.id
+    UNION
+    SELECT td.successor_task_id
+    FROM task_dependencies td
+    JOIN downstream d ON td.predecessor_task_id = d.task_id
+    WHERE td.id IS DISTINCT FROM NEW.id
+  )
+  SELECT EXISTS (SELECT 1 FROM downstream WHERE task_id = NEW.predecessor_task_id)
+  INTO v_creates_cycle;
+
+  IF v_creates_cycle THEN
+    RAISE EXCEPTION 'Task dependency would create a cycle';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS validate_task_dependency_trigger ON public.task_dependencies;
+CREATE TRIGGER validate_task_dependency_trigger
+  BEFORE INSERT OR UPDATE ON public.task_dependencies
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_task_dependency();
+
+-- ===========================================
+-- ROW LEVEL SECURITY
+-- ===========================================
+
+ALTER TABLE public.task_dependencies ENABLE ROW LEVEL SECURITY;
+
+-- Project members can see dependencies in their projects
+CREATE POLICY "Users can view task dependencies if they belong to the project"
+ON public.task_dependencies
+FOR SELECT
+USING (
+    EXISTS (
+        SELECT 1
+        FROM public.projects_users pu
+        WHERE pu.project_id = task_dependencies.project_id
+        AND pu.user_id = auth.uid()
+        AND pu.status = 'active'
+    )
+);
+
+-- Members, admins and owners can create dependencies
+CREATE POLICY "Users can create task dependencies if they belong to the project"
+ON public.task_dependencies
+FOR INSERT
+WITH CHECK (
+    EXISTS (
+        SELECT 1
+        FROM public.projects_users pu
+        WHERE pu.project_id = task_dependencies.project_id
+        AND pu.user_id = auth.uid()
+        AND pu.status = 'active'
+        AND pu.role IN ('owner', 'admin', 'member')
+    )
+    AND task_dependencies.created_by = auth.uid()
+);
+
+-- Members, admins and owners can remove dependencies
+CREATE POLICY "Users can delete task dependencies if they belong to the project"
+ON public.task_dependencies
+FOR DELETE
+USING (
+    EXISTS (
+        SELECT 1
+        FROM public.projects_users pu
+        WHERE pu.project_id = task_dependencies.project_id
+        AND pu.user_id = auth.uid()
+        AND pu.status = 'active'
+        AND pu.role IN ('owner', 'admin', 'member')
+    )
+);
+
+GRANT SELECT, INSERT, DELETE ON public.task_dependencies TO authenticated;
+GRANT USAGE, SELECT ON SEQUENCE public.task_dependencies_id_seq TO authenticated;
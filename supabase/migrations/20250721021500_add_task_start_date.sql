@@ -0,0 +1,14 @@
+-- Migration: Add start date to tasks
+-- Description: Adds an optional start_date to tasks so they can be laid out on a timeline.
+-- Tasks without a start date fall back to their created_at date in the timeline view.
+
+-- ===========================================
+-- ADD START_DATE COLUMN
+-- ===========================================
+
+ALTER TABLE public.tasks
+  ADD COLUMN IF NOT EXISTS start_date TIMESTAMPTZ NULL;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_start_date ON public.tasks(start_date);
+
+COMMENT ON COLUMN public.tasks.start_date IS 'Planned start of the task; the timeline uses created_at when this is not set';
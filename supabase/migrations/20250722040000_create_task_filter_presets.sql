@@ -0,0 +1,73 @@
+-- Migration: Create task filter presets
+-- Description: Stores named task board filters that each user saves per project.
+-- Presets are private to the user who saved them; sharing happens through the URL query string.
+
+-- ===========================================
+-- CREATE TASK_FILTER_PRESETS TABLE
+-- ===========================================
+
+CREATE TABLE IF NOT EXISTS public.task_filter_presets (
+  id BIGSERIAL PRIMARY KEY,
+  user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  project_id INTEGER NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  filters JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT task_filter_presets_unique_name UNIQUE (user_id, project_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_filter_presets_user_project
+  ON public.task_filter_presets(user_id, project_id);
+
+COMMENT ON TABLE public.task_filter_presets IS 'Named task board filters saved by a user for a project';
+COMMENT ON COLUMN public.task_filter_presets.filters IS 'Serialized filter state: assignees, labels, priorities and due range';
+
+-- ===========================================
+-- ROW LEVEL SECURITY
+-- ===========================================
+
+ALTER TABLE public.task_filter_presets ENABLE ROW LEVEL SECURITY;
+
+-- Users can only see their own presets for projects they belong to
+CREATE POLICY "Users can view their own task filter presets"
+ON public.task_filter_presets
+FOR SELECT
+USING (
+    task_filter_presets.user_id = auth.uid()
+    AND EXISTS (
+        SELECT 1
+        FROM public.projects_users pu
+        WHERE pu.project_id = task_filter_presets.project_id
+        AND pu.user_id = auth.uid()
+        AND pu.status = 'active'
+    )
+);
+
+CREATE POLICY "Users can create their own task filter presets"
+ON public.task_filter_presets
+FOR INSERT
+WITH CHECK (
+    task_filter_presets.user_id = auth.uid()
+    AND EXISTS (
+        SELECT 1
+        FROM public.projects_users pu
+        WHERE pu.project_id = task_filter_presets.project_id
+        AND pu.user_id = auth.uid()
+        AND pu.status = 'active'
+    )
+);
+
+CREATE POLICY "Users can update their own task filter presets"
+ON public.task_filter_presets
+FOR UPDATE
+USING (task_filter_presets.user_id = auth.uid())
+WITH CHECK (task_filter_presets.user_id = auth.uid());
+
+CREATE POLICY "Users can delete their own task filter presets"
+ON public.task_filter_presets
+FOR DELETE
+USING (task_filter_presets.user_id = auth.uid());
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.task_filter_presets TO authenticated;
+GRANT USAGE, SELECT ON SEQUENCE public.task_filter_presets_id_seq TO authenticated;
@@ -0,0 +1,350 @@
+-- Migration: Create recurring tasks
+-- Description: Adds recurrence rules (daily, weekdays, weekly on given days, monthly on a day)
+-- that tasks can follow. When an occurrence is completed or its due date passes, the next
+-- occurrence is created with the same assignees, labels, priority and task_metadata.
+-- Each occurrence only ever generates one successor, tracked by next_occurrence_generated_at.
+
+-- ===========================================
+-- CREATE TASK_RECURRENCES TABLE
+-- ===========================================
+
+CREATE TABLE IF NOT EXISTS public.task_recurrences (
+  id BIGSERIAL PRIMARY KEY,
+  project_id INTEGER NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  frequency TEXT NOT NULL CHECK (frequency IN ('daily', 'weekdays', 'weekly', 'monthly')),
+  -- 0 = Sunday ... 6 = Saturday, used by weekly rules
+  days_of_week SMALLINT[] NOT NULL DEFAULT '{}',
+  -- Used by monthly rules; clamped to the last day in shorter months
+  day_of_month SMALLINT NULL CHECK (day_of_month BETWEEN 1 AND 31),
+  -- Dates are worked out in the creator's time zone so "every Monday" stays on Monday
+  timezone TEXT NOT NULL DEFAULT 'UTC',
+  ends_on DATE NULL,
+  created_by UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT task_recurrences_weekly_days CHECK (
+    frequency <> 'weekly' OR cardinality(days_of_week) > 0
+  ),
+  CONSTRAINT task_recurrences_monthly_day CHECK (
+    frequency <> 'monthly' OR day_of_month IS NOT NULL
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_recurrences_project_id ON public.task_recurrences(project_id);
+
+COMMENT ON TABLE public.task_recurrences IS 'Recurrence rules shared by every occurrence of a recurring task';
+
+-- ===========================================
+-- LINK TASKS TO RECURRENCES
+-- ===========================================
+
+ALTER TABLE public.tasks
+  ADD COLUMN IF NOT EXISTS recurrence_id BIGINT NULL REFERENCES public.task_recurrences(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS next_occurrence_generated_at TIMESTAMPTZ NULL;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_recurrence_id ON public.tasks(recurrence_id);
+
+COMMENT ON COLUMN public.tasks.recurrence_id IS 'Recurrence rule this task is an occurrence of; removing the rule stops the series';
+COMMENT ON COLUMN public.tasks.next_occurrence_generated_at IS 'When the following occurrence was created from this task, so it is only created once';
+
+-- ===========================================
+-- OCCURRENCE GENERATION
+-- ===========================================
+
+-- Returns the first date after p_after that matches the rule
+CREATE OR REPLACE FUNCTION next_task_recurrence_date(
+  p_frequency TEXT,
+  p_days_of_week SMALLINT[],
+  p_day_of_month SMALLINT,
+  p_after DATE
+)
+RETURNS DATE AS $$
+DECLARE
+  v_date DATE := p_after;
+  v_last_day INTEGER;
+BEGIN
+  -- A year and a bit covers every rule, including the 31st in a run of short months
+  FOR i IN 1..400 LOOP
+    v_date := v_date + 1;
+
+    IF p_frequency = 'daily' THEN
+      RETURN v_date;
+    ELSIF p_frequency = 'weekdays' THEN
+      IF EXTRACT(ISODOW FROM v_date) BETWEEN 1 AND 5 THEN
+        RETURN v_date;
+      END IF;
+    ELSIF p_frequency = 'weekly' THEN
+      IF EXTRACT(DOW FROM v_date)::SMALLINT = ANY(p_days_of_week) THEN
+        RETURN v_date;
+      END IF;
+    ELSIF p_frequency = 'monthly' THEN
+      v_last_day := EXTRACT(DAY FROM (date_trunc('month', v_date) + INTERVAL '1 month - 1 day'));
+      IF EXTRACT(DAY FROM v_date) = LEAST(p_day_of_month, v_last_day) THEN
+        RETURN v_date;
+      END IF;
+    END IF;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Creates the occurrence that follows p_task_id and returns its id.
+-- Returns NULL when the task is not recurring, already has a successor or the series has ended.
+CREATE OR REPLACE FUNCTION generate_next_task_occurrence(p_task_id INTEGER)
+RETURNS INTEGER AS $$
+DECLARE
+  v_task RECORD;
+  v_rule RECORD;
+  v_anchor TIMESTAMPTZ;
+  v_local_anchor TIMESTAMP;
+  v_today DATE;
+  v_next_date DATE;
+  v_next_due TIMESTAMPTZ;
+  v_status_id INTEGER;
+  v_new_task_id INTEGER;
+BEGIN
+  SELECT * INTO v_task FROM tasks WHERE id = p_task_id FOR UPDATE;
+
+  IF NOT FOUND OR v_task.recurrence_id IS NULL OR v_task.next_occurrence_generated_at IS NOT NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO v_rule FROM task_recurrences WHERE id = v_task.recurrence_id;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  -- Each occurrence creates at most one successor, even when the series has ended
+  UPDATE tasks SET next_occurrence_generated_at = NOW() WHERE id = p_task_id;
+
+  v_anchor := COALESCE(v_task.due_date, v_task.created_at);
+  v_local_anchor := v_anchor AT TIME ZONE v_rule.timezone;
+  v_today := (NOW() AT TIME ZONE v_rule.timezone)::DATE;
+
+  -- Skip dates that have already gone by so a late completion does not create a backlog
+  v_next_date := next_task_recurrence_date(
+    v_rule.frequency, v_rule.days_of_week, v_rule.day_of_month, v_local_anchor::DATE
+  );
+  WHILE v_next_date IS NOT NULL AND v_next_date < v_today LOOP
+    v_next_date := next_task_recurrence_date(
+      v_rule.frequency, v_rule.days_of_week, v_rule.day_of_month, v_next_date
+    );
+  END LOOP;
+
+  IF v_next_date IS NULL OR (v_rule.ends_on IS NOT NULL AND v_next_date > v_rule.ends_on) THEN
+    RETURN NULL;
+  END IF;
+
+  -- Keep the time of day of the original due date
+  v_next_due := (v_next_date + v_local_anchor::TIME) AT TIME ZONE v_rule.timezone;
+
+  -- New occurrences start in the project's default status
+  SELECT id INTO v_status_id
+  FROM statuses
+  WHERE project_id = v_task.project_id
+  ORDER BY is_default DESC, position ASC
+  LIMIT 1;
+
+  INSERT INTO tasks (
+    title, description, status_id, priority_id, project_id, parent_task_id,
+    start_date, due_date, created_by, recurrence_id
+  )
+  VALUES (
+    v_task.title,
+    v_task.description,
+    COALESCE(v_status_id, v_task.status_id),
+    v_task.priority_id,
+    v_task.project_id,
+    v_task.parent_task_id,
+    -- Shift the start date by the same amount so the occurrence keeps its duration
+    CASE WHEN v_task.start_date IS NULL THEN NULL ELSE v_task.start_date + (v_next_due - v_anchor) END,
+    v_next_due,
+    v_task.created_by,
+    v_task.recurrence_id
+  )
+  RETURNING id INTO v_new_task_id;
+
+  -- Place it at the end of its column on the shared board, as moving a task there does
+  INSERT INTO entity_positions (entity_type, entity_id, context, position, user_id)
+  SELECT 'task', v_new_task_id, 'kanban', COALESCE(MAX(ep.position), 0) + 1000, NULL
+  FROM tasks t
+  JOIN entity_positions ep
+    ON ep.entity_type = 'task'
+    AND ep.entity_id = t.id
+    AND ep.context = 'kanban'
+    AND ep.user_id IS NULL
+  WHERE t.project_id = v_task.project_id
+  AND t.status_id = COALESCE(v_status_id, v_task.status_id)
+  AND t.id <> v_new_task_id;
+
+  INSERT INTO entity_assignees (entity_type, entity_id, user_id, assigned_by)
+  SELECT 'task', v_new_task_id, ea.user_id, ea.assigned_by
+  FROM entity_assignees ea
+  WHERE ea.entity_type = 'task' AND ea.entity_id = p_task_id;
+
+  INSERT INTO entity_labels (entity_type, entity_id, label_id, created_by)
+  SELECT 'task', v_new_task_id, el.label_id, el.created_by
+  FROM entity_labels el
+  WHERE el.entity_type = 'task' AND el.entity_id = p_task_id;
+
+  -- Hours actually spent belong to the finished occurrence, not the next one
+  INSERT INTO task_metadata (task_id, title, value, created_by)
+  SELECT v_new_task_id, tm.title, tm.value, tm.created_by
+  FROM task_metadata tm
+  WHERE tm.task_id = p_task_id AND tm.title <> 'actual_hours';
+
+  RETURN v_new_task_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Generates the next occurrence when a recurring task is moved into the done status.
+-- The done status is the last status on the project's board.
+CREATE OR REPLACE FUNCTION generate_occurrence_on_task_done()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_done_status_id INTEGER;
+BEGIN
+  SELECT id INTO v_done_status_id
+  FROM statuses
+  WHERE project_id = NEW.project_id
+  ORDER BY position DESC
+  LIMIT 1;
+
+  IF NEW.status_id = v_done_status_id THEN
+    PERFORM generate_next_task_occurrence(NEW.id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS generate_occurrence_on_task_done_trigger ON public.tasks;
+CREATE TRIGGER generate_occurrence_on_task_done_trigger
+  AFTER UPDATE OF status_id ON public.tasks
+  FOR EACH ROW
+  WHEN (
+    NEW.recurrence_id IS NOT NULL
+    AND NEW.next_occurrence_generated_at IS NULL
+    AND NEW.status_id IS DISTINCT FROM OLD.status_id
+  )
+  EXECUTE FUNCTION generate_occurrence_on_task_done();
+
+-- Generates the next occurrence for recurring tasks whose due date has passed
+CREATE OR REPLACE FUNCTION generate_due_task_occurrences()
+RETURNS TEXT AS $$
+DECLARE
+  v_task RECORD;
+  v_generated INTEGER := 0;
+BEGIN
+  FOR v_task IN
+    SELECT id
+    FROM tasks
+    WHERE recurrence_id IS NOT NULL
+    AND next_occurrence_generated_at IS NULL
+    AND due_date < NOW()
+    ORDER BY due_date ASC
+  LOOP
+    IF generate_next_task_occurrence(v_task.id) IS NOT NULL THEN
+      v_generated := v_generated + 1;
+    END IF;
+  END LOOP;
+
+  RETURN format('Generated %s task occurrences', v_generated);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION generate_next_task_occurrence(INTEGER) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION generate_due_task_occurrences() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION generate_next_task_occurrence(INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION generate_due_task_occurrences() TO service_role;
+
+-- ===========================================
+-- CRON JOB
+-- ===========================================
+
+DO $$
+BEGIN
+  BEGIN
+    PERFORM cron.unschedule('generate-task-occurrences');
+  EXCEPTION WHEN OTHERS THEN
+    -- Job doesn't exist, continue
+  END;
+
+  -- Check for passed due dates every 15 minutes
+  PERFORM cron.schedule(
+    'generate-task-occurrences',
+    '*/15 * * * *',
+    'SELECT generate_due_task_occurrences();'
+  );
+END $$;
+
+-- ===========================================
+-- ROW LEVEL SECURITY
+-- ===========================================
+
+ALTER TABLE public.task_recurrences ENABLE ROW LEVEL SECURITY;
+
+-- Project members can see recurrence rules in their projects
+CREATE POLICY "Users can view task recurrences if they belong to the project"
+ON public.task_recurrences
+FOR SELECT
+USING (
+    EXISTS (
+        SELECT 1
+        FROM public.projects_users pu
+        WHERE pu.project_id = task_recurrences.project_id
+        AND pu.user_id = auth.uid()
+        AND pu.status = 'active'
+    )
+);
+
+-- Members, admins and owners can create recurrence rules
+CREATE POLICY "Users can create task recurrences if they belong to the project"
+ON public.task_recurrences
+FOR INSERT
+WITH CHECK (
+    EXISTS (
+        SELECT 1
+        FROM public.projects_users pu
+        WHERE pu.project_id = task_recurrences.project_id
+        AND pu.user_id = auth.uid()
+        AND pu.status = 'active'
+        AND pu.role IN ('owner', 'admin', 'member')
+    )
+    AND task_recurrences.created_by = auth.uid()
+);
+
+-- Members, admins and owners can change recurrence rules
+CREATE POLICY "Users can update task recurrences if they belong to the project"
+ON public.task_recurrences
+FOR UPDATE
+USING (
+    EXISTS (
+        SELECT 1
+        FROM public.projects_users pu
+        WHERE pu.project_id = task_recurrences.project_id
+        AND pu.user_id = auth.uid()
+        AND pu.status = 'active'
+        AND pu.role IN ('owner', 'admin', 'member')
+    )
+);
+
+-- Members, admins and owners can stop a series by removing its rule
+CREATE POLICY "Users can delete task recurrences if they belong to the project"
+ON public.task_recurrences
+FOR DELETE
+USING (
+    EXISTS (
+        SELECT 1
+        FROM public.projects_users pu
+        WHERE pu.project_id = task_recurrences.project_id
+        AND pu.user_id = auth.uid()
+        AND pu.status = 'active'
+        AND pu.role IN ('owner', 'admin', 'member')
+    )
+);
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.task_recurrences TO authenticated;
+GRANT USAGE, SELECT ON SEQUENCE public.task_recurrences_id_seq TO authenticated;
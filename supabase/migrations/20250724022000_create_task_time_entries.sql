@@ -0,0 +1,151 @@
+-- Migration: Create task time entries
+-- Description: Adds time entries (user, date, hours, note) logged against tasks.
+-- The hours logged on a task are rolled up into its actual_hours task_metadata value,
+-- so existing views of actual_hours keep working. Entries feed the weekly timesheet export.
+
+-- ===========================================
+-- CREATE TASK_TIME_ENTRIES TABLE
+-- ===========================================
+
+CREATE TABLE IF NOT EXISTS public.task_time_entries (
+  id BIGSERIAL PRIMARY KEY,
+  project_id INTEGER NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  task_id INTEGER NOT NULL REFERENCES public.tasks(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  entry_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  hours NUMERIC(5,2) NOT NULL CHECK (hours > 0 AND hours <= 24),
+  note TEXT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_time_entries_task_id ON public.task_time_entries(task_id);
+CREATE INDEX IF NOT EXISTS idx_task_time_entries_project_date ON public.task_time_entries(project_id, entry_date);
+CREATE INDEX IF NOT EXISTS idx_task_time_entries_user_id ON public.task_time_entries(user_id);
+
+COMMENT ON TABLE public.task_time_entries IS 'Hours worked on a task by a user on a given day';
+
+-- ===========================================
+-- VALIDATION TRIGGER
+-- ===========================================
+
+-- Ensures time is logged against a task in the entry's project
+CREATE OR REPLACE FUNCTION validate_task_time_entry()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM tasks WHERE id = NEW.task_id AND project_id = NEW.project_id) THEN
+    RAISE EXCEPTION 'Time entries must be logged against a task in the same project';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS validate_task_time_entry_trigger ON public.task_time_entries;
+CREATE TRIGGER validate_task_time_entry_trigger
+  BEFORE INSERT OR UPDATE ON public.task_time_entries
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_task_time_entry();
+
+-- ===========================================
+-- ACTUAL HOURS ROLLUP
+-- ===========================================
+
+-- Keeps the task's actual_hours metadata equal to the sum of its time entries
+CREATE OR REPLACE FUNCTION rollup_task_actual_hours()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_task_id INTEGER;
+  v_total NUMERIC;
+BEGIN
+  FOR v_task_id IN
+    SELECT DISTINCT t.task_id
+    FROM (
+      SELECT NEW.task_id WHERE TG_OP IN ('INSERT', 'UPDATE')
+      UNION
+      SELECT OLD.task_id WHERE TG_OP IN ('UPDATE', 'DELETE')
+    ) AS t(task_id)
+  LOOP
+    SELECT SUM(hours) INTO v_total FROM task_time_entries WHERE task_id = v_task_id;
+
+    IF v_total IS NULL THEN
+      DELETE FROM task_metadata WHERE task_id = v_task_id AND title = 'actual_hours';
+    ELSE
+      INSERT INTO task_metadata (task_id, title, value, created_by)
+      VALUES (v_task_id, 'actual_hours', v_total::TEXT, COALESCE(auth.uid(), NEW.user_id, OLD.user_id))
+      ON CONFLICT (task_id, title)
+      DO UPDATE SET value = EXCLUDED.value, updated_at = NOW();
+    END IF;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS rollup_task_actual_hours_trigger ON public.task_time_entries;
+CREATE TRIGGER rollup_task_actual_hours_trigger
+  AFTER INSERT OR UPDATE OR DELETE ON public.task_time_entries
+  FOR EACH ROW
+  EXECUTE FUNCTION rollup_task_actual_hours();
+
+-- ===========================================
+-- ROW LEVEL SECURITY
+-- ===========================================
+
+ALTER TABLE public.task_time_entries ENABLE ROW LEVEL SECURITY;
+
+-- Project members can see all time logged in their projects, for timesheets
+CREATE POLICY "Users can view time entries if they belong to the project"
+ON public.task_time_entries
+FOR SELECT
+USING (
+    EXISTS (
+        SELECT 1
+        FROM public.projects_users pu
+        WHERE pu.project_id = task_time_entries.project_id
+        AND pu.user_id = auth.uid()
+        AND pu.status = 'active'
+    )
+);
+
+-- Members, admins and owners can log their own time
+CREATE POLICY "Users can log their own time if they belong to the project"
+ON public.task_time_entries
+FOR INSERT
+WITH CHECK (
+    EXISTS (
+        SELECT 1
+        FROM public.projects_users pu
+        WHERE pu.project_id = task_time_entries.project_id
+        AND pu.user_id = auth.uid()
+        AND pu.status = 'active'
+        AND pu.role IN ('owner', 'admin', 'member')
+    )
+    AND task_time_entries.user_id = auth.uid()
+);
+
+-- Users can correct their own entries
+CREATE POLICY "Users can update their own time entries"
+ON public.task_time_entries
+FOR UPDATE
+USING (task_time_entries.user_id = auth.uid())
+WITH CHECK (task_time_entries.user_id = auth.uid());
+
+-- Users can remove their own entries; project owners and admins can remove any
+CREATE POLICY "Users can delete their own time entries or as project admin"
+ON public.task_time_entries
+FOR DELETE
+USING (
+    task_time_entries.user_id = auth.uid()
+    OR EXISTS (
+        SELECT 1
+        FROM public.projects_users pu
+        WHERE pu.project_id = task_time_entries.project_id
+        AND pu.user_id = auth.uid()
+        AND pu.status = 'active'
+        AND pu.role IN ('owner', 'admin')
+    )
+);
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.task_time_entries TO authenticated;
+GRANT USAGE, SELECT ON SEQUENCE public.task_time_entries_id_seq TO authenticated;
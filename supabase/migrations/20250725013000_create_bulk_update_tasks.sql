@@ -0,0 +1,230 @@
+-- Migration: Bulk task updates
+-- Description: Adds bulk_update_tasks() so the task board can change the status, priority,
+-- due date, assignees and labels of many tasks in a single round trip.
+-- The per-row task notification triggers are skipped while a bulk update runs; instead each
+-- affected assignee receives one consolidated task_updated notification covering every task.
+
+-- ===========================================
+-- SKIP PER-ROW NOTIFICATIONS DURING BULK UPDATES
+-- ===========================================
+
+-- bulk_update_tasks() sets app.bulk_task_update for its own transaction only
+
+DROP TRIGGER IF EXISTS task_update_notification_trigger ON tasks;
+CREATE TRIGGER task_update_notification_trigger
+AFTER UPDATE ON tasks
+FOR EACH ROW
+WHEN (current_setting('app.bulk_task_update', true) IS DISTINCT FROM 'on')
+EXECUTE FUNCTION notify_task_updates();
+
+DROP TRIGGER IF EXISTS entity_assignment_notification_trigger ON entity_assignees;
+CREATE TRIGGER entity_assignment_notification_trigger
+AFTER INSERT ON entity_assignees
+FOR EACH ROW
+WHEN (current_setting('app.bulk_task_update', true) IS DISTINCT FROM 'on')
+EXECUTE FUNCTION notify_task_assignment_changes();
+
+DROP TRIGGER IF EXISTS entity_unassignment_notification_trigger ON entity_assignees;
+CREATE TRIGGER entity_unassignment_notification_trigger
+AFTER DELETE ON entity_assignees
+FOR EACH ROW
+WHEN (current_setting('app.bulk_task_update', true) IS DISTINCT FROM 'on')
+EXECUTE FUNCTION notify_task_unassignment();
+
+-- ===========================================
+-- CONSOLIDATED NOTIFICATION TEMPLATE
+-- ===========================================
+
+INSERT INTO notification_templates (type, name, subject_template, message_template, description, placeholders) VALUES
+('task_updated', 'bulk_update', 'Tasks Updated', '%s updated %s of your tasks: %s', 'Several tasks were changed at once', ARRAY['updater_name', 'task_count', 'change_summary'])
+ON CONFLICT (type, name) DO UPDATE SET
+  subject_template = EXCLUDED.subject_template,
+  message_template = EXCLUDED.message_template,
+  description = EXCLUDED.description,
+  placeholders = EXCLUDED.placeholders,
+  updated_at = NOW();
+
+-- ===========================================
+-- BULK UPDATE FUNCTION
+-- ===========================================
+
+-- Applies the same changes to every task in p_task_ids and returns how many tasks were updated.
+-- p_changes may contain any of:
+--   status_id, priority_id      INTEGER
+--   due_date                    TIMESTAMPTZ, or null to clear the due date
+--   add_assignees, remove_assignees   UUID[]
+--   add_labels, remove_labels         INTEGER[]
+-- Runs with the caller's permissions, so row level security decides which tasks can change.
+CREATE OR REPLACE FUNCTION bulk_update_tasks(p_task_ids INTEGER[], p_changes JSONB)
+RETURNS INTEGER AS $$
+DECLARE
+  v_actor UUID := auth.uid();
+  v_actor_name TEXT;
+  v_task_ids INTEGER[];
+  v_assignees_before JSONB;
+  v_changes TEXT[] := '{}';
+  v_change_summary TEXT;
+  v_name TEXT;
+  v_recipient RECORD;
+BEGIN
+  IF v_actor IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Only tasks the caller can see and edit
+  SELECT array_agg(t.id) INTO v_task_ids
+  FROM tasks t
+  WHERE t.id = ANY(p_task_ids)
+  AND EXISTS (
+    SELECT 1
+    FROM projects_users pu
+    WHERE pu.project_id = t.project_id
+    AND pu.user_id = v_actor
+    AND pu.status = 'active'
+    AND pu.role IN ('owner', 'admin', 'member')
+  );
+
+  IF v_task_ids IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  PERFORM set_config('app.bulk_task_update', 'on', true);
+
+  -- Remember who was assigned beforehand so people being removed hear about it too
+  SELECT jsonb_agg(jsonb_build_object('user_id', user_id, 'task_id', entity_id))
+  INTO v_assignees_before
+  FROM entity_assignees
+  WHERE entity_type = 'task' AND entity_id = ANY(v_task_ids);
+
+  -- Task columns
+  IF p_changes ?| ARRAY['status_id', 'priority_id', 'due_date'] THEN
+    UPDATE tasks SET
+      status_id = COALESCE((p_changes->>'status_id')::INTEGER, status_id),
+      priority_id = COALESCE((p_changes->>'priority_id')::INTEGER, priority_id),
+      due_date = CASE WHEN p_changes ? 'due_date' THEN (p_changes->>'due_date')::TIMESTAMPTZ ELSE due_date END,
+      updated_at = NOW()
+    WHERE id = ANY(v_task_ids);
+  END IF;
+
+  IF p_changes ? 'status_id' THEN
+    SELECT name INTO v_name FROM statuses WHERE id = (p_changes->>'status_id')::INTEGER;
+    v_changes := array_append(v_changes, format('status → %s', v_name));
+  END IF;
+
+  IF p_changes ? 'priority_id' THEN
+    SELECT name INTO v_name FROM priorities WHERE id = (p_changes->>'priority_id')::INTEGER;
+    v_changes := array_append(v_changes, format('priority → %s', v_name));
+  END IF;
+
+  IF p_changes ? 'due_date' THEN
+    v_changes := array_append(v_changes,
+      CASE
+        WHEN p_changes->>'due_date' IS NULL THEN 'due date (removed)'
+        ELSE format('due date → %s', (p_changes->>'due_date')::TIMESTAMPTZ::DATE)
+      END
+    );
+  END IF;
+
+  -- Assignees
+  IF jsonb_array_length(COALESCE(p_changes->'add_assignees', '[]'::JSONB)) > 0 THEN
+    INSERT INTO entity_assignees (entity_type, entity_id, user_id, assigned_by)
+    SELECT 'task', task_id, user_id::UUID, v_actor
+    FROM unnest(v_task_ids) AS task_id
+    CROSS JOIN jsonb_array_elements_text(p_changes->'add_assignees') AS user_id
+    ON CONFLICT (entity_type, entity_id, user_id) DO NOTHING;
+
+    v_changes := array_append(v_changes, 'assignees added');
+  END IF;
+
+  IF jsonb_array_length(COALESCE(p_changes->'remove_assignees', '[]'::JSONB)) > 0 THEN
+    DELETE FROM entity_assignees
+    WHERE entity_type = 'task'
+    AND entity_id = ANY(v_task_ids)
+    AND user_id IN (SELECT jsonb_array_elements_text(p_changes->'remove_assignees')::UUID);
+
+    v_changes := array_append(v_changes, 'assignees removed');
+  END IF;
+
+  -- Labels
+  IF jsonb_array_length(COALESCE(p_changes->'add_labels', '[]'::JSONB)) > 0 THEN
+    INSERT INTO entity_labels (entity_type, entity_id, label_id, created_by)
+    SELECT 'task', task_id, label_id::INTEGER, v_actor
+    FROM unnest(v_task_ids) AS task_id
+    CROSS JOIN jsonb_array_elements_text(p_changes->'add_labels') AS label_id
+    ON CONFLICT (entity_type, entity_id, label_id) DO NOTHING;
+
+    v_changes := array_append(v_changes, 'labels added');
+  END IF;
+
+  IF jsonb_array_length(COALESCE(p_changes->'remove_labels', '[]'::JSONB)) > 0 THEN
+    DELETE FROM entity_labels
+    WHERE entity_type = 'task'
+    AND entity_id = ANY(v_task_ids)
+    AND label_id IN (SELECT jsonb_array_elements_text(p_changes->'remove_labels')::INTEGER);
+
+    v_changes := array_append(v_changes, 'labels removed');
+  END IF;
+
+  PERFORM set_config('app.bulk_task_update', 'off', true);
+
+  IF array_length(v_changes, 1) IS NULL THEN
+    RETURN cardinality(v_task_ids);
+  END IF;
+
+  v_change_summary := array_to_string(v_changes, ', ');
+
+  SELECT COALESCE(NULLIF(TRIM(first_name || ' ' || last_name), ''), global_display_name)
+  INTO v_actor_name
+  FROM user_profiles WHERE id = v_actor;
+
+  -- One notification per affected assignee, listing only the tasks they are on
+  FOR v_recipient IN
+    SELECT a.user_id, array_agg(DISTINCT a.task_id ORDER BY a.task_id) AS task_ids
+    FROM (
+      SELECT b.user_id, b.task_id
+      FROM jsonb_to_recordset(COALESCE(v_assignees_before, '[]'::JSONB)) AS b(user_id UUID, task_id INTEGER)
+      UNION
+      SELECT ea.user_id, ea.entity_id
+      FROM entity_assignees ea
+      WHERE ea.entity_type = 'task' AND ea.entity_id = ANY(v_task_ids)
+    ) a
+    WHERE a.user_id <> v_actor
+    GROUP BY a.user_id
+  LOOP
+    PERFORM create_notification(
+      p_user_id => v_recipient.user_id,
+      p_type => 'task_updated'::notification_type,
+      p_template_name => 'bulk_update',
+      p_template_data => ARRAY[
+        COALESCE(v_actor_name, 'Someone'),
+        cardinality(v_recipient.task_ids)::TEXT,
+        v_change_summary
+      ],
+      p_data => jsonb_build_object(
+        'task_ids', v_recipient.task_ids,
+        'task_titles', (
+          SELECT jsonb_agg(t.title ORDER BY t.id) FROM tasks t WHERE t.id = ANY(v_recipient.task_ids)
+        ),
+        'changes', v_changes,
+        'change_summary', v_change_summary,
+        'updated_by', v_actor,
+        'updater_name', v_actor_name
+      ),
+      -- Link straight to the task when only one of theirs changed
+      p_entity_type => CASE WHEN cardinality(v_recipient.task_ids) = 1 THEN 'task' END,
+      p_entity_id => CASE WHEN cardinality(v_recipient.task_ids) = 1 THEN v_recipient.task_ids[1]::TEXT END,
+      p_priority => CASE
+        WHEN p_changes ?| ARRAY['status_id', 'due_date'] THEN 'high'::notification_priority
+        ELSE 'medium'::notification_priority
+      END,
+      p_created_by => v_actor
+    );
+  END LOOP;
+
+  RETURN cardinality(v_task_ids);
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION bulk_update_tasks IS 'Applies the same changes to many tasks at once and sends one consolidated notification per affected assignee';
+
+GRANT EXECUTE ON FUNCTION bulk_update_tasks(INTEGER[], JSONB) TO authenticated;
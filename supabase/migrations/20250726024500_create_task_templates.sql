@@ -0,0 +1,295 @@
+-- Migration: Create task templates
+-- Description: Adds organization-level task templates: a named set of tasks, each with a title,
+-- description, default priority and status, labels, a due date offset, metadata and subtasks.
+-- apply_task_template() creates the whole set in a project in one transaction.
+-- Statuses, priorities and labels belong to projects, so templates refer to them by name and
+-- they are matched against the target project when the template is applied.
+
+-- ===========================================
+-- CREATE TASK_TEMPLATES TABLE
+-- ===========================================
+
+CREATE TABLE IF NOT EXISTS public.task_templates (
+  id SERIAL PRIMARY KEY,
+  organization_id INTEGER NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  description TEXT NULL,
+  created_by UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (organization_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_templates_organization_id ON public.task_templates(organization_id);
+
+COMMENT ON TABLE public.task_templates IS 'Reusable sets of tasks that can be created in any project of the organization';
+
+-- ===========================================
+-- CREATE TASK_TEMPLATE_ITEMS TABLE
+-- ===========================================
+
+CREATE TABLE IF NOT EXISTS public.task_template_items (
+  id SERIAL PRIMARY KEY,
+  template_id INTEGER NOT NULL REFERENCES public.task_templates(id) ON DELETE CASCADE,
+  -- Set for subtasks; only one level of nesting is supported
+  parent_item_id INTEGER NULL REFERENCES public.task_template_items(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL DEFAULT 0,
+  title TEXT NOT NULL CHECK (length(trim(title)) > 0),
+  description TEXT NULL,
+  -- Matched by name against the target project; the project default is used when missing
+  priority_name TEXT NULL,
+  status_name TEXT NULL,
+  label_names TEXT[] NOT NULL DEFAULT '{}',
+  -- Days after the date the template is applied on; null means no due date
+  due_offset_days INTEGER NULL CHECK (due_offset_days IS NULL OR due_offset_days >= 0),
+  -- task_metadata title/value pairs, e.g. {"estimated_hours": "4"}
+  metadata JSONB NOT NULL DEFAULT '{}'::JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_template_items_template_id ON public.task_template_items(template_id);
+
+COMMENT ON TABLE public.task_template_items IS 'Tasks and subtasks created when a task template is applied';
+
+-- Subtasks must belong to a top-level item of the same template
+CREATE OR REPLACE FUNCTION validate_task_template_item()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.parent_item_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1
+    FROM task_template_items
+    WHERE id = NEW.parent_item_id
+    AND template_id = NEW.template_id
+    AND parent_item_id IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Subtasks must belong to a top-level task of the same template';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS validate_task_template_item_trigger ON public.task_template_items;
+CREATE TRIGGER validate_task_template_item_trigger
+  BEFORE INSERT OR UPDATE ON public.task_template_items
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_task_template_item();
+
+-- ===========================================
+-- APPLY TEMPLATE FUNCTION
+-- ===========================================
+
+-- Creates every task of a template in a project and returns how many tasks were created.
+-- Due dates are p_start_date plus each item's offset, at midnight in p_timezone.
+-- Labels missing from the project are created. Runs with the caller's permissions.
+CREATE OR REPLACE FUNCTION apply_task_template(
+  p_template_id INTEGER,
+  p_project_id INTEGER,
+  p_start_date DATE DEFAULT CURRENT_DATE,
+  p_timezone TEXT DEFAULT 'UTC'
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_actor UUID := auth.uid();
+  v_template RECORD;
+  v_item RECORD;
+  v_default_status_id INTEGER;
+  v_default_priority_id INTEGER;
+  v_status_id INTEGER;
+  v_priority_id INTEGER;
+  v_label_name TEXT;
+  v_label_id INTEGER;
+  v_task_id INTEGER;
+  v_task_ids JSONB := '{}'::JSONB;
+  v_count INTEGER := 0;
+BEGIN
+  IF v_actor IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_template FROM task_templates WHERE id = p_template_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Task template not found';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM projects WHERE id = p_project_id AND organization_id = v_template.organization_id
+  ) THEN
+    RAISE EXCEPTION 'Templates can only be applied to projects in the same organization';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM projects_users pu
+    WHERE pu.project_id = p_project_id
+    AND pu.user_id = v_actor
+    AND pu.status = 'active'
+    AND pu.role IN ('owner', 'admin')
+  ) THEN
+    RAISE EXCEPTION 'Only project owners and admins can apply task templates';
+  END IF;
+
+  SELECT id INTO v_default_status_id
+  FROM statuses
+  WHERE project_id = p_project_id
+  ORDER BY is_default DESC, position ASC
+  LIMIT 1;
+
+  SELECT id INTO v_default_priority_id
+  FROM priorities
+  WHERE project_id = p_project_id
+  ORDER BY is_default DESC, position ASC
+  LIMIT 1;
+
+  IF v_default_status_id IS NULL OR v_default_priority_id IS NULL THEN
+    RAISE EXCEPTION 'The project needs at least one status and one priority';
+  END IF;
+
+  -- Top-level tasks first so subtasks can point at them
+  FOR v_item IN
+    SELECT *
+    FROM task_template_items
+    WHERE template_id = p_template_id
+    ORDER BY parent_item_id IS NOT NULL, position, id
+  LOOP
+    SELECT id INTO v_status_id
+    FROM statuses
+    WHERE project_id = p_project_id AND lower(name) = lower(v_item.status_name)
+    LIMIT 1;
+
+    SELECT id INTO v_priority_id
+    FROM priorities
+    WHERE project_id = p_project_id AND lower(name) = lower(v_item.priority_name)
+    LIMIT 1;
+
+    INSERT INTO tasks (
+      title, description, status_id, priority_id, project_id, parent_task_id, due_date, created_by
+    )
+    VALUES (
+      v_item.title,
+      v_item.description,
+      COALESCE(v_status_id, v_default_status_id),
+      COALESCE(v_priority_id, v_default_priority_id),
+      p_project_id,
+      (v_task_ids->>v_item.parent_item_id::TEXT)::INTEGER,
+      CASE
+        WHEN v_item.due_offset_days IS NULL THEN NULL
+        ELSE (p_start_date + v_item.due_offset_days)::TIMESTAMP AT TIME ZONE p_timezone
+      END,
+      v_actor
+    )
+    RETURNING id INTO v_task_id;
+
+    v_task_ids := v_task_ids || jsonb_build_object(v_item.id::TEXT, v_task_id);
+    v_count := v_count + 1;
+
+    FOREACH v_label_name IN ARRAY v_item.label_names LOOP
+      SELECT id INTO v_label_id
+      FROM labels
+      WHERE project_id = p_project_id AND lower(name) = lower(v_label_name)
+      LIMIT 1;
+
+      IF v_label_id IS NULL THEN
+        INSERT INTO labels (name, project_id, created_by)
+        VALUES (v_label_name, p_project_id, v_actor)
+        RETURNING id INTO v_label_id;
+      END IF;
+
+      INSERT INTO entity_labels (entity_type, entity_id, label_id, created_by)
+      VALUES ('task', v_task_id, v_label_id, v_actor)
+      ON CONFLICT (entity_type, entity_id, label_id) DO NOTHING;
+    END LOOP;
+
+    INSERT INTO task_metadata (task_id, title, value, created_by)
+    SELECT v_task_id, m.key, m.value, v_actor
+    FROM jsonb_each_text(v_item.metadata) AS m(key, value)
+    WHERE m.value IS NOT NULL AND m.value <> '';
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION apply_task_template IS 'Creates all tasks of an organization task template in a project';
+
+-- ===========================================
+-- ROW LEVEL SECURITY
+-- ===========================================
+
+ALTER TABLE public.task_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.task_template_items ENABLE ROW LEVEL SECURITY;
+
+-- Organization members can see the organization's templates
+CREATE POLICY "Users can view task templates of their organizations"
+ON public.task_templates
+FOR SELECT
+USING (
+    organization_id IN (
+        SELECT organization_id FROM public.organization_users
+        WHERE user_id = auth.uid() AND status = 'active'
+    )
+);
+
+-- Organization owners and admins manage templates
+CREATE POLICY "Organization owners and admins can manage task templates"
+ON public.task_templates
+FOR ALL
+USING (
+    organization_id IN (
+        SELECT organization_id FROM public.organization_users
+        WHERE user_id = auth.uid() AND role IN ('owner', 'admin') AND status = 'active'
+    )
+)
+WITH CHECK (
+    organization_id IN (
+        SELECT organization_id FROM public.organization_users
+        WHERE user_id = auth.uid() AND role IN ('owner', 'admin') AND status = 'active'
+    )
+);
+
+CREATE POLICY "Users can view task template items of their organizations"
+ON public.task_template_items
+FOR SELECT
+USING (
+    EXISTS (
+        SELECT 1
+        FROM public.task_templates tt
+        JOIN public.organization_users ou ON ou.organization_id = tt.organization_id
+        WHERE tt.id = task_template_items.template_id
+        AND ou.user_id = auth.uid()
+        AND ou.status = 'active'
+    )
+);
+
+CREATE POLICY "Organization owners and admins can manage task template items"
+ON public.task_template_items
+FOR ALL
+USING (
+    EXISTS (
+        SELECT 1
+        FROM public.task_templates tt
+        JOIN public.organization_users ou ON ou.organization_id = tt.organization_id
+        WHERE tt.id = task_template_items.template_id
+        AND ou.user_id = auth.uid()
+        AND ou.role IN ('owner', 'admin')
+        AND ou.status = 'active'
+    )
+)
+WITH CHECK (
+    EXISTS (
+        SELECT 1
+        FROM public.task_templates tt
+        JOIN public.organization_users ou ON ou.organization_id = tt.organization_id
+        WHERE tt.id = task_template_items.template_id
+        AND ou.user_id = auth.uid()
+        AND ou.role IN ('owner', 'admin')
+        AND ou.status = 'active'
+    )
+);
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.task_templates TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.task_template_items TO authenticated;
+GRANT USAGE, SELECT ON SEQUENCE public.task_templates_id_seq TO authenticated;
+GRANT USAGE, SELECT ON SEQUENCE public.task_template_items_id_seq TO authenticated;
+GRANT EXECUTE ON FUNCTION apply_task_template(INTEGER, INTEGER, DATE, TEXT) TO authenticated;
@@ -0,0 +1,273 @@
+-- Migration: Comment mentions
+-- Description: Comments mention people with @[user_id] tokens inserted by the @ autocomplete.
+-- Mentions are now found anywhere in the text (not only between spaces), notification previews
+-- show the mentioned person's name instead of the raw token, and approval comments notify the
+-- people mentioned in them too. A mentioned user gets the mention notification instead of the
+-- general comment notification, not both.
+
+-- ===========================================
+-- MENTION HELPERS
+-- ===========================================
+
+-- Distinct user ids mentioned in a comment
+CREATE OR REPLACE FUNCTION extract_comment_mentions(p_content TEXT)
+RETURNS UUID[] AS $$
+  SELECT COALESCE(array_agg(DISTINCT m[1]::UUID), '{}')
+  FROM regexp_matches(COALESCE(p_content, ''), '@\[([0-9a-fA-F-]{36})\]', 'g') AS m;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Comment text with each @[user_id] token replaced by @Name, for notification previews
+CREATE OR REPLACE FUNCTION render_comment_mentions(p_content TEXT)
+RETURNS TEXT AS $$
+DECLARE
+  v_result TEXT := p_content;
+  v_user_id UUID;
+  v_name TEXT;
+BEGIN
+  FOREACH v_user_id IN ARRAY extract_comment_mentions(p_content) LOOP
+    SELECT COALESCE(NULLIF(TRIM(first_name || ' ' || last_name), ''), global_display_name)
+    INTO v_name
+    FROM user_profiles WHERE id = v_user_id;
+
+    v_result := replace(v_result, '@[' || v_user_id::TEXT || ']', '@' || COALESCE(v_name, 'Unknown user'));
+  END LOOP;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- ===========================================
+-- APPROVAL COMMENT MENTION TEMPLATE
+-- ===========================================
+
+INSERT INTO notification_templates (type, name, subject_template, message_template, description, placeholders) VALUES
+('comment_mention', 'approval_comment', 'You were mentioned', '%s mentioned you in the discussion on "%s"', 'User mentioned in an approval comment', ARRAY['commenter_name', 'entity_title'])
+ON CONFLICT (type, name) DO UPDATE SET
+  subject_template = EXCLUDED.subject_template,
+  message_template = EXCLUDED.message_template,
+  description = EXCLUDED.description,
+  placeholders = EXCLUDED.placeholders,
+  updated_at = NOW();
+
+-- ===========================================
+-- TASK COMMENT NOTIFICATIONS
+-- ===========================================
+
+CREATE OR REPLACE FUNCTION notify_task_comment()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_task RECORD;
+  v_commenter_name TEXT;
+  v_mentioned_users UUID[];
+  v_preview TEXT;
+  v_user_id UUID;
+  v_assignee_id UUID;
+BEGIN
+  -- Get task details
+  SELECT t.*, p.name as project_name
+  INTO v_task
+  FROM tasks t
+  LEFT JOIN projects p ON t.project_id = p.id
+  WHERE t.id = NEW.task_id;
+
+  -- Get commenter name
+  SELECT first_name || ' ' || last_name INTO v_commenter_name
+  FROM user_profiles WHERE id = NEW.user_id;
+
+  v_mentioned_users := extract_comment_mentions(NEW.content);
+  v_preview := LEFT(render_comment_mentions(NEW.content), 100);
+
+  -- Notify all task assignees (if not the commenter or mentioned below)
+  FOR v_assignee_id IN
+    SELECT user_id
+    FROM entity_assignees
+    WHERE entity_type = 'task' AND entity_id = NEW.task_id
+  LOOP
+    IF v_assignee_id != NEW.user_id AND NOT v_assignee_id = ANY(v_mentioned_users) THEN
+      PERFORM create_notification(
+        p_user_id => v_assignee_id,
+        p_type => 'task_comment',
+        p_template_name => 'default',
+        p_template_data => ARRAY[COALESCE(v_commenter_name, 'Someone'), v_task.title],
+        p_data => jsonb_build_object(
+          'task_id', NEW.task_id,
+          'task_title', v_task.title,
+          'comment_id', NEW.id,
+          'comment_preview', v_preview,
+          'project_name', v_task.project_name,
+          'commenter_id', NEW.user_id,
+          'commenter_name', v_commenter_name
+        ),
+        p_entity_type => 'task_comment',
+        p_entity_id => NEW.id::TEXT,
+        p_priority => 'medium',
+        p_created_by => NEW.user_id
+      );
+    END IF;
+  END LOOP;
+
+  -- Notify mentioned users
+  FOREACH v_user_id IN ARRAY v_mentioned_users LOOP
+    IF v_user_id != NEW.user_id THEN
+      PERFORM create_notification(
+        p_user_id => v_user_id,
+        p_type => 'comment_mention',
+        p_template_name => 'default',
+        p_template_data => ARRAY[COALESCE(v_commenter_name, 'Someone'), v_task.title],
+        p_data => jsonb_build_object(
+          'task_id', NEW.task_id,
+          'task_title', v_task.title,
+          'comment_id', NEW.id,
+          'comment_preview', v_preview,
+          'project_name', v_task.project_name,
+          'commenter_id', NEW.user_id,
+          'commenter_name', v_commenter_name
+        ),
+        p_entity_type => 'task_comment',
+        p_entity_id => NEW.id::TEXT,
+        p_priority => 'high',
+        p_created_by => NEW.user_id
+      );
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ===========================================
+-- APPROVAL COMMENT NOTIFICATIONS
+-- ===========================================
+
+CREATE OR REPLACE FUNCTION notify_approval_comment()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_approval RECORD;
+  v_commenter_name TEXT;
+  v_approver RECORD;
+  v_entity_title TEXT;
+  v_mentioned_users UUID[];
+  v_preview TEXT;
+  v_user_id UUID;
+BEGIN
+  -- Get approval details
+  SELECT * INTO v_approval
+  FROM approvals
+  WHERE id = NEW.approval_id;
+
+  -- Get entity title
+  IF v_approval.entity_type IS NOT NULL AND v_approval.entity_id IS NOT NULL THEN
+    CASE v_approval.entity_type
+      WHEN 'task' THEN
+        SELECT title INTO v_entity_title FROM tasks WHERE id = v_approval.entity_id;
+      WHEN 'form' THEN
+        SELECT name INTO v_entity_title FROM forms WHERE id = v_approval.entity_id;
+      WHEN 'entries' THEN
+        SELECT name INTO v_entity_title FROM form_entries WHERE id = v_approval.entity_id;
+      WHEN 'site_diary' THEN
+        SELECT name INTO v_entity_title FROM site_diaries WHERE id = v_approval.entity_id;
+      ELSE
+        v_entity_title := 'Unknown Entity';
+    END CASE;
+  ELSE
+    v_entity_title := 'General Approval';
+  END IF;
+
+  -- Get commenter name
+  SELECT first_name || ' ' || last_name INTO v_commenter_name
+  FROM user_profiles WHERE id = NEW.user_id;
+
+  v_mentioned_users := extract_comment_mentions(NEW.comment);
+  v_preview := LEFT(render_comment_mentions(NEW.comment), 100);
+
+  -- Notify the requester (if not the commenter or mentioned below)
+  IF v_approval.requester_id != NEW.user_id AND NOT v_approval.requester_id = ANY(v_mentioned_users) THEN
+    PERFORM create_notification(
+      p_user_id => v_approval.requester_id,
+      p_type => 'approval_requested',
+      p_template_name => 'comment_notification',
+      p_template_data => ARRAY[COALESCE(v_commenter_name, 'Someone'), COALESCE(v_entity_title, 'Unknown Item')],
+      p_data => jsonb_build_object(
+        'approval_id', NEW.approval_id,
+        'comment_id', NEW.id,
+        'comment_preview', v_preview,
+        'entity_type', v_approval.entity_type,
+        'entity_id', v_approval.entity_id,
+        'entity_title', v_entity_title,
+        'commenter_id', NEW.user_id,
+        'commenter_name', v_commenter_name,
+        'role', 'requester'
+      ),
+      p_entity_type => 'approval_comment',
+      p_entity_id => NEW.id::TEXT,
+      p_priority => 'medium',
+      p_created_by => NEW.user_id
+    );
+  END IF;
+
+  -- Notify all other approvers (excluding the commenter and anyone mentioned)
+  FOR v_approver IN
+    SELECT * FROM approval_approvers
+    WHERE approval_id = NEW.approval_id
+    AND approver_id != NEW.user_id
+    AND NOT approver_id = ANY(v_mentioned_users)
+  LOOP
+    PERFORM create_notification(
+      p_user_id => v_approver.approver_id,
+      p_type => 'approval_requested',
+      p_template_name => 'comment_notification',
+      p_template_data => ARRAY[COALESCE(v_commenter_name, 'Someone'), COALESCE(v_entity_title, 'Unknown Item')],
+      p_data => jsonb_build_object(
+        'approval_id', NEW.approval_id,
+        'comment_id', NEW.id,
+        'comment_preview', v_preview,
+        'entity_type', v_approval.entity_type,
+        'entity_id', v_approval.entity_id,
+        'entity_title', v_entity_title,
+        'commenter_id', NEW.user_id,
+        'commenter_name', v_commenter_name,
+        'role', 'approver'
+      ),
+      p_entity_type => 'approval_comment',
+      p_entity_id => NEW.id::TEXT,
+      p_priority => 'medium',
+      p_created_by => NEW.user_id
+    );
+  END LOOP;
+
+  -- Notify mentioned users
+  FOREACH v_user_id IN ARRAY v_mentioned_users LOOP
+    IF v_user_id != NEW.user_id THEN
+      PERFORM create_notification(
+        p_user_id => v_user_id,
+        p_type => 'comment_mention',
+        p_template_name => 'approval_comment',
+        p_template_data => ARRAY[COALESCE(v_commenter_name, 'Someone'), COALESCE(v_entity_title, 'Unknown Item')],
+        p_data => jsonb_build_object(
+          'approval_id', NEW.approval_id,
+          'comment_id', NEW.id,
+          'comment_preview', v_preview,
+          'entity_type', v_approval.entity_type,
+          'entity_id', v_approval.entity_id,
+          'entity_title', v_entity_title,
+          'commenter_id', NEW.user_id,
+          'commenter_name', v_commenter_name,
+          'role', 'mentioned'
+        ),
+        p_entity_type => 'approval_comment',
+        p_entity_id => NEW.id::TEXT,
+        p_priority => 'high',
+        p_created_by => NEW.user_id
+      );
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION extract_comment_mentions IS 'Returns the user ids mentioned in comment text as @[user_id] tokens';
+COMMENT ON FUNCTION render_comment_mentions IS 'Replaces @[user_id] mention tokens with @Name';
+
+GRANT EXECUTE ON FUNCTION extract_comment_mentions(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION render_comment_mentions(TEXT) TO authenticated;
@@ -0,0 +1,303 @@
+-- Migration: Task comment threads, edits and reactions
+-- Description: Comments can reply to a top-level comment (one level of threading), be edited
+-- by their author with each previous version kept in task_comment_revisions, and be soft
+-- deleted so replies keep their context. Adds emoji reactions on comments, and replies now
+-- notify the author of the parent comment.
+
+-- ===========================================
+-- EXTEND TASK_COMMENTS
+-- ===========================================
+
+ALTER TABLE public.task_comments
+  ADD COLUMN IF NOT EXISTS parent_id INTEGER NULL REFERENCES public.task_comments(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS edited_at TIMESTAMPTZ NULL,
+  ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ NULL;
+
+CREATE INDEX IF NOT EXISTS task_comments_parent_id_idx ON public.task_comments(parent_id);
+
+COMMENT ON COLUMN public.task_comments.parent_id IS 'Top-level comment this comment replies to';
+COMMENT ON COLUMN public.task_comments.edited_at IS 'When the content was last edited; previous versions are in task_comment_revisions';
+COMMENT ON COLUMN public.task_comments.deleted_at IS 'When the comment was deleted; the content is cleared but the row keeps its replies';
+
+-- ===========================================
+-- CREATE TASK_COMMENT_REVISIONS TABLE
+-- ===========================================
+
+CREATE TABLE IF NOT EXISTS public.task_comment_revisions (
+  id BIGSERIAL PRIMARY KEY,
+  comment_id INTEGER NOT NULL REFERENCES public.task_comments(id) ON DELETE CASCADE,
+  content TEXT NOT NULL,
+  edited_by UUID NULL REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_comment_revisions_comment_id ON public.task_comment_revisions(comment_id);
+
+COMMENT ON TABLE public.task_comment_revisions IS 'Previous versions of edited or deleted task comments';
+
+-- ===========================================
+-- CREATE TASK_COMMENT_REACTIONS TABLE
+-- ===========================================
+
+CREATE TABLE IF NOT EXISTS public.task_comment_reactions (
+  id BIGSERIAL PRIMARY KEY,
+  comment_id INTEGER NOT NULL REFERENCES public.task_comments(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  emoji TEXT NOT NULL CHECK (char_length(emoji) BETWEEN 1 AND 16),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (comment_id, user_id, emoji)
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_comment_reactions_comment_id ON public.task_comment_reactions(comment_id);
+
+COMMENT ON TABLE public.task_comment_reactions IS 'Emoji reactions to task comments, one per user and emoji';
+
+-- ===========================================
+-- VALIDATION TRIGGERS
+-- ===========================================
+
+-- Replies must answer a top-level comment on the same task
+CREATE OR REPLACE FUNCTION validate_task_comment_parent()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.parent_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM task_comments
+    WHERE id = NEW.parent_id
+    AND task_id = NEW.task_id
+    AND parent_id IS NULL
+    AND deleted_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Replies must be to a top-level comment on the same task';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS validate_task_comment_parent_trigger ON public.task_comments;
+CREATE TRIGGER validate_task_comment_parent_trigger
+  BEFORE INSERT ON public.task_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_task_comment_parent();
+
+-- Only the author can edit or delete a comment. The previous content is kept as a revision,
+-- edits set edited_at, and deleting clears the content.
+CREATE OR REPLACE FUNCTION track_task_comment_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND auth.uid() IS DISTINCT FROM OLD.user_id THEN
+    RAISE EXCEPTION 'Only the author can change a comment';
+  END IF;
+
+  IF OLD.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Deleted comments cannot be changed';
+  END IF;
+
+  NEW.task_id := OLD.task_id;
+  NEW.parent_id := OLD.parent_id;
+
+  IF NEW.deleted_at IS NOT NULL THEN
+    NEW.content := '';
+  ELSIF NEW.content IS NOT DISTINCT FROM OLD.content THEN
+    RETURN NEW;
+  ELSE
+    NEW.edited_at := NOW();
+  END IF;
+
+  INSERT INTO task_comment_revisions (comment_id, content, edited_by)
+  VALUES (OLD.id, OLD.content, auth.uid());
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS track_task_comment_changes_trigger ON public.task_comments;
+CREATE TRIGGER track_task_comment_changes_trigger
+  BEFORE UPDATE ON public.task_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION track_task_comment_changes();
+
+-- ===========================================
+-- REPLY NOTIFICATIONS
+-- ===========================================
+
+INSERT INTO notification_templates (type, name, subject_template, message_template, description, placeholders) VALUES
+('task_comment', 'reply', 'New Reply to Your Comment', '%s replied to your comment on "%s"', 'Reply added to a task comment', ARRAY['commenter_name', 'task_title'])
+ON CONFLICT (type, name) DO UPDATE SET
+  subject_template = EXCLUDED.subject_template,
+  message_template = EXCLUDED.message_template,
+  description = EXCLUDED.description,
+  placeholders = EXCLUDED.placeholders,
+  updated_at = NOW();
+
+-- Each recipient gets one notification: a mention, else a reply to their comment, else a
+-- comment on a task they are assigned to
+CREATE OR REPLACE FUNCTION notify_task_comment()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_task RECORD;
+  v_commenter_name TEXT;
+  v_mentioned_users UUID[];
+  v_parent_author UUID;
+  v_preview TEXT;
+  v_user_id UUID;
+  v_assignee_id UUID;
+  v_data JSONB;
+BEGIN
+  -- Get task details
+  SELECT t.*, p.name as project_name
+  INTO v_task
+  FROM tasks t
+  LEFT JOIN projects p ON t.project_id = p.id
+  WHERE t.id = NEW.task_id;
+
+  -- Get commenter name
+  SELECT first_name || ' ' || last_name INTO v_commenter_name
+  FROM user_profiles WHERE id = NEW.user_id;
+
+  v_mentioned_users := extract_comment_mentions(NEW.content);
+  v_preview := LEFT(render_comment_mentions(NEW.content), 100);
+
+  IF NEW.parent_id IS NOT NULL THEN
+    SELECT user_id INTO v_parent_author FROM task_comments WHERE id = NEW.parent_id;
+  END IF;
+
+  v_data := jsonb_build_object(
+    'task_id', NEW.task_id,
+    'task_title', v_task.title,
+    'comment_id', NEW.id,
+    'parent_comment_id', NEW.parent_id,
+    'comment_preview', v_preview,
+    'project_name', v_task.project_name,
+    'commenter_id', NEW.user_id,
+    'commenter_name', v_commenter_name
+  );
+
+  -- Notify the author of the comment being replied to
+  IF v_parent_author IS NOT NULL
+    AND v_parent_author != NEW.user_id
+    AND NOT v_parent_author = ANY(v_mentioned_users) THEN
+    PERFORM create_notification(
+      p_user_id => v_parent_author,
+      p_type => 'task_comment',
+      p_template_name => 'reply',
+      p_template_data => ARRAY[COALESCE(v_commenter_name, 'Someone'), v_task.title],
+      p_data => v_data,
+      p_entity_type => 'task_comment',
+      p_entity_id => NEW.id::TEXT,
+      p_priority => 'medium',
+      p_created_by => NEW.user_id
+    );
+  END IF;
+
+  -- Notify all task assignees (if not the commenter or notified above/below)
+  FOR v_assignee_id IN
+    SELECT user_id
+    FROM entity_assignees
+    WHERE entity_type = 'task' AND entity_id = NEW.task_id
+  LOOP
+    IF v_assignee_id != NEW.user_id
+      AND v_assignee_id IS DISTINCT FROM v_parent_author
+      AND NOT v_assignee_id = ANY(v_mentioned_users) THEN
+      PERFORM create_notification(
+        p_user_id => v_assignee_id,
+        p_type => 'task_comment',
+        p_template_name => 'default',
+        p_template_data => ARRAY[COALESCE(v_commenter_name, 'Someone'), v_task.title],
+        p_data => v_data,
+        p_entity_type => 'task_comment',
+        p_entity_id => NEW.id::TEXT,
+        p_priority => 'medium',
+        p_created_by => NEW.user_id
+      );
+    END IF;
+  END LOOP;
+
+  -- Notify mentioned users
+  FOREACH v_user_id IN ARRAY v_mentioned_users LOOP
+    IF v_user_id != NEW.user_id THEN
+      PERFORM create_notification(
+        p_user_id => v_user_id,
+        p_type => 'comment_mention',
+        p_template_name => 'default',
+        p_template_data => ARRAY[COALESCE(v_commenter_name, 'Someone'), v_task.title],
+        p_data => v_data,
+        p_entity_type => 'task_comment',
+        p_entity_id => NEW.id::TEXT,
+        p_priority => 'high',
+        p_created_by => NEW.user_id
+      );
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ===========================================
+-- ROW LEVEL SECURITY
+-- ===========================================
+
+ALTER TABLE public.task_comment_revisions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.task_comment_reactions ENABLE ROW LEVEL SECURITY;
+
+-- Revisions are written by the change-tracking trigger only
+CREATE POLICY "Users can view comment revisions if they belong to the project"
+ON public.task_comment_revisions
+FOR SELECT
+USING (
+    EXISTS (
+        SELECT 1
+        FROM public.task_comments c
+        JOIN public.tasks t ON t.id = c.task_id
+        JOIN public.projects_users pu ON pu.project_id = t.project_id
+        WHERE c.id = task_comment_revisions.comment_id
+        AND pu.user_id = auth.uid()
+        AND pu.status = 'active'
+    )
+);
+
+CREATE POLICY "Users can view comment reactions if they belong to the project"
+ON public.task_comment_reactions
+FOR SELECT
+USING (
+    EXISTS (
+        SELECT 1
+        FROM public.task_comments c
+        JOIN public.tasks t ON t.id = c.task_id
+        JOIN public.projects_users pu ON pu.project_id = t.project_id
+        WHERE c.id = task_comment_reactions.comment_id
+        AND pu.user_id = auth.uid()
+        AND pu.status = 'active'
+    )
+);
+
+CREATE POLICY "Users can add their own reactions if they belong to the project"
+ON public.task_comment_reactions
+FOR INSERT
+WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (
+        SELECT 1
+        FROM public.task_comments c
+        JOIN public.tasks t ON t.id = c.task_id
+        JOIN public.projects_users pu ON pu.project_id = t.project_id
+        WHERE c.id = task_comment_reactions.comment_id
+        AND c.deleted_at IS NULL
+        AND pu.user_id = auth.uid()
+        AND pu.status = 'active'
+    )
+);
+
+CREATE POLICY "Users can remove their own reactions"
+ON public.task_comment_reactions
+FOR DELETE
+USING (user_id = auth.uid());
+
+GRANT SELECT ON public.task_comment_revisions TO authenticated;
+GRANT SELECT, INSERT, DELETE ON public.task_comment_reactions TO authenticated;
+GRANT USAGE, SELECT ON SEQUENCE public.task_comment_reactions_id_seq TO authenticated;
@@ -0,0 +1,34 @@
+-- Migration: Enable realtime for tasks
+-- Description: Publishes task, position, assignee, comment and reaction changes to Supabase
+-- Realtime so the task board, task drawer and comment lists update live for everyone viewing
+-- a project. Tables whose deletes the clients need to place get REPLICA IDENTITY FULL so the
+-- delete payload carries the whole old row, not just the primary key.
+
+-- ===========================================
+-- REPLICA IDENTITY
+-- ===========================================
+
+ALTER TABLE public.entity_positions REPLICA IDENTITY FULL;
+ALTER TABLE public.entity_assignees REPLICA IDENTITY FULL;
+ALTER TABLE public.task_comment_reactions REPLICA IDENTITY FULL;
+
+-- ===========================================
+-- REALTIME CONFIGURATION
+-- ===========================================
+
+-- Add each table to the realtime publication (only if not already added)
+DO $$
+DECLARE
+  v_table TEXT;
+BEGIN
+  FOREACH v_table IN ARRAY ARRAY['tasks', 'entity_positions', 'entity_assignees', 'task_comments', 'task_comment_reactions'] LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime'
+      AND schemaname = 'public'
+      AND tablename = v_table
+    ) THEN
+      EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', v_table);
+    END IF;
+  END LOOP;
+END $$;
@@ -0,0 +1,69 @@
+-- Migration: Row versions for optimistic concurrency
+-- Description: Tasks, form entries and site diaries get a version column like forms and site
+-- diary templates already have, and every update to these tables bumps it. Clients save with
+-- the version they loaded (UPDATE ... WHERE version = loaded); when no row matches, someone
+-- else saved first and the client shows what changed instead of overwriting it.
+
+-- ===========================================
+-- VERSION COLUMNS
+-- ===========================================
+
+ALTER TABLE public.tasks ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE public.form_entries ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE public.site_diaries ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+
+COMMENT ON COLUMN public.tasks.version IS 'Incremented on every update; used to reject saves made from a stale copy';
+COMMENT ON COLUMN public.form_entries.version IS 'Incremented on every update; used to reject saves made from a stale copy';
+COMMENT ON COLUMN public.site_diaries.version IS 'Incremented on every update; used to reject saves made from a stale copy';
+
+-- ===========================================
+-- VERSION TRIGGER
+-- ===========================================
+
+-- Increments version on every update, whatever the client sent. Bookkeeping writes that change
+-- nothing a user edits (marking a recurring task's next occurrence as generated) keep the
+-- version, so they don't turn the next save of an open task into a conflict. updated_at still
+-- counts: saves that only touch it are how clients claim a task before changing its assignees.
+CREATE OR REPLACE FUNCTION bump_row_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF (to_jsonb(NEW) - 'next_occurrence_generated_at' - 'version')
+    = (to_jsonb(OLD) - 'next_occurrence_generated_at' - 'version') THEN
+    NEW.version := OLD.version;
+  ELSE
+    NEW.version := OLD.version + 1;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS bump_tasks_version_trigger ON public.tasks;
+CREATE TRIGGER bump_tasks_version_trigger
+  BEFORE UPDATE ON public.tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION bump_row_version();
+
+DROP TRIGGER IF EXISTS bump_form_entries_version_trigger ON public.form_entries;
+CREATE TRIGGER bump_form_entries_version_trigger
+  BEFORE UPDATE ON public.form_entries
+  FOR EACH ROW
+  EXECUTE FUNCTION bump_row_version();
+
+DROP TRIGGER IF EXISTS bump_site_diaries_version_trigger ON public.site_diaries;
+CREATE TRIGGER bump_site_diaries_version_trigger
+  BEFORE UPDATE ON public.site_diaries
+  FOR EACH ROW
+  EXECUTE FUNCTION bump_row_version();
+
+DROP TRIGGER IF EXISTS bump_forms_version_trigger ON public.forms;
+CREATE TRIGGER bump_forms_version_trigger
+  BEFORE UPDATE ON public.forms
+  FOR EACH ROW
+  EXECUTE FUNCTION bump_row_version();
+
+DROP TRIGGER IF EXISTS bump_site_diary_templates_version_trigger ON public.site_diary_templates;
+CREATE TRIGGER bump_site_diary_templates_version_trigger
+  BEFORE UPDATE ON public.site_diary_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION bump_row_version();
@@ -0,0 +1,365 @@
+-- Migration: Create activity log
+-- Description: Append-only history of who changed what and when. Triggers record every
+-- create, update and delete of tasks, form entries, site diaries, approvals and organization
+-- and project memberships, with the old and new value of each changed field. Answer changes
+-- are recorded against their form entry or site diary. Clients can only read the log.
+
+-- ===========================================
+-- CREATE ACTIVITY_LOG TABLE
+-- ===========================================
+
+CREATE TABLE IF NOT EXISTS public.activity_log (
+  id BIGSERIAL PRIMARY KEY,
+  -- Not foreign keys: the history outlives the rows it describes
+  organization_id INTEGER NULL,
+  project_id INTEGER NULL,
+  entity_type TEXT NOT NULL CHECK (
+    entity_type IN ('task', 'form_entry', 'site_diary', 'approval', 'organization_member', 'project_member')
+  ),
+  entity_id INTEGER NOT NULL,
+  -- What the entity was called at the time, e.g. the task title or the member's name
+  entity_name TEXT NULL,
+  -- For approvals: the task, form entry or site diary being approved
+  related_entity_type TEXT NULL,
+  related_entity_id INTEGER NULL,
+  action TEXT NOT NULL CHECK (action IN ('created', 'updated', 'deleted')),
+  -- {"field": {"old": ..., "new": ...}}; answers are recorded as "answer:<item id>"
+  changes JSONB NOT NULL DEFAULT '{}'::JSONB,
+  actor_id UUID NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_activity_log_entity ON public.activity_log(entity_type, entity_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_activity_log_related_entity ON public.activity_log(related_entity_type, related_entity_id)
+  WHERE related_entity_type IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_activity_log_organization_id ON public.activity_log(organization_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_activity_log_project_id ON public.activity_log(project_id, created_at DESC);
+
+COMMENT ON TABLE public.activity_log IS 'Append-only history of changes to tasks, form entries, site diaries, approvals and memberships';
+
+-- ===========================================
+-- HELPER FUNCTIONS
+-- ===========================================
+
+-- Old and new value of every field that differs between two rows, skipping bookkeeping columns
+CREATE OR REPLACE FUNCTION activity_field_changes(p_old JSONB, p_new JSONB)
+RETURNS JSONB AS $$
+  SELECT COALESCE(
+    jsonb_object_agg(key, jsonb_build_object('old', p_old -> key, 'new', p_new -> key)),
+    '{}'::JSONB
+  )
+  FROM jsonb_object_keys(p_old || p_new) AS key
+  WHERE key <> ALL (ARRAY[
+    'id', 'created_at', 'updated_at', 'last_updated', 'version', 'deleted_at',
+    'is_synced', 'last_synced_at', 'last_accessed_at', 'current_project_id',
+    'next_occurrence_generated_at'
+  ])
+  AND (p_old -> key) IS DISTINCT FROM (p_new -> key);
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Display name of a user for entity_name
+CREATE OR REPLACE FUNCTION activity_user_name(p_user_id UUID)
+RETURNS TEXT AS $$
+  SELECT COALESCE(NULLIF(TRIM(COALESCE(first_name, '') || ' ' || COALESCE(last_name, '')), ''), global_display_name, email)
+  FROM user_profiles
+  WHERE id = p_user_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Writes one activity entry. Every change gets its own entry, even when the same person saves
+-- again straight away; the timeline groups those when it shows them.
+CREATE OR REPLACE FUNCTION record_activity(
+  p_entity_type TEXT,
+  p_entity_id INTEGER,
+  p_entity_name TEXT,
+  p_action TEXT,
+  p_changes JSONB,
+  p_project_id INTEGER,
+  p_organization_id INTEGER,
+  p_related_entity_type TEXT DEFAULT NULL,
+  p_related_entity_id INTEGER DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+  v_organization_id INTEGER := p_organization_id;
+BEGIN
+  IF p_action = 'updated' AND p_changes = '{}'::JSONB THEN
+    RETURN;
+  END IF;
+
+  IF v_organization_id IS NULL AND p_project_id IS NOT NULL THEN
+    SELECT organization_id INTO v_organization_id FROM projects WHERE id = p_project_id;
+  END IF;
+
+  INSERT INTO activity_log (
+    organization_id,
+    project_id,
+    entity_type,
+    entity_id,
+    entity_name,
+    related_entity_type,
+    related_entity_id,
+    action,
+    changes,
+    actor_id
+  ) VALUES (
+    v_organization_id,
+    p_project_id,
+    p_entity_type,
+    p_entity_id,
+    p_entity_name,
+    p_related_entity_type,
+    p_related_entity_id,
+    p_action,
+    p_changes,
+    auth.uid()
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ===========================================
+-- ENTITY TRIGGERS
+-- ===========================================
+
+-- Records changes to a row. TG_ARGV[0] is the activity entity type and TG_ARGV[1] the column
+-- holding its name. Setting deleted_at counts as deleting the row.
+CREATE OR REPLACE FUNCTION log_entity_activity()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_entity_type TEXT := TG_ARGV[0];
+  v_old JSONB;
+  v_new JSONB;
+  v_row JSONB;
+  v_action TEXT;
+  v_changes JSONB := '{}'::JSONB;
+  v_name TEXT;
+BEGIN
+  IF TG_OP <> 'INSERT' THEN
+    v_old := to_jsonb(OLD);
+  END IF;
+  IF TG_OP <> 'DELETE' THEN
+    v_new := to_jsonb(NEW);
+  END IF;
+  v_row := COALESCE(v_new, v_old);
+
+  IF TG_OP = 'INSERT' THEN
+    v_action := 'created';
+  ELSIF TG_OP = 'DELETE' THEN
+    v_action := 'deleted';
+  ELSIF (v_old ->> 'deleted_at') IS NULL AND (v_new ->> 'deleted_at') IS NOT NULL THEN
+    v_action := 'deleted';
+  ELSE
+    v_action := 'updated';
+    v_changes := activity_field_changes(v_old, v_new);
+  END IF;
+
+  IF v_entity_type IN ('organization_member', 'project_member') THEN
+    v_name := COALESCE(activity_user_name((v_row ->> 'user_id')::UUID), v_row ->> 'email');
+  ELSE
+    v_name := v_row ->> TG_ARGV[1];
+  END IF;
+
+  PERFORM record_activity(
+    v_entity_type,
+    (v_row ->> 'id')::INTEGER,
+    v_name,
+    v_action,
+    v_changes,
+    (v_row ->> 'project_id')::INTEGER,
+    (v_row ->> 'organization_id')::INTEGER
+  );
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS log_tasks_activity_trigger ON public.tasks;
+CREATE TRIGGER log_tasks_activity_trigger
+  AFTER INSERT OR UPDATE OR DELETE ON public.tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION log_entity_activity('task', 'title');
+
+DROP TRIGGER IF EXISTS log_form_entries_activity_trigger ON public.form_entries;
+CREATE TRIGGER log_form_entries_activity_trigger
+  AFTER INSERT OR UPDATE OR DELETE ON public.form_entries
+  FOR EACH ROW
+  EXECUTE FUNCTION log_entity_activity('form_entry', 'name');
+
+DROP TRIGGER IF EXISTS log_site_diaries_activity_trigger ON public.site_diaries;
+CREATE TRIGGER log_site_diaries_activity_trigger
+  AFTER INSERT OR UPDATE OR DELETE ON public.site_diaries
+  FOR EACH ROW
+  EXECUTE FUNCTION log_entity_activity('site_diary', 'name');
+
+DROP TRIGGER IF EXISTS log_organization_users_activity_trigger ON public.organization_users;
+CREATE TRIGGER log_organization_users_activity_trigger
+  AFTER INSERT OR UPDATE OR DELETE ON public.organization_users
+  FOR EACH ROW
+  EXECUTE FUNCTION log_entity_activity('organization_member', 'email');
+
+DROP TRIGGER IF EXISTS log_projects_users_activity_trigger ON public.projects_users;
+CREATE TRIGGER log_projects_users_activity_trigger
+  AFTER INSERT OR UPDATE OR DELETE ON public.projects_users
+  FOR EACH ROW
+  EXECUTE FUNCTION log_entity_activity('project_member', 'email');
+
+-- ===========================================
+-- ANSWER TRIGGERS
+-- ===========================================
+
+-- Records an answer change as an update of its form entry or site diary.
+-- TG_ARGV[0] is the parent entity type.
+CREATE OR REPLACE FUNCTION log_answer_activity()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_row JSONB;
+  v_parent_id INTEGER;
+  v_parent RECORD;
+  v_old JSONB;
+  v_new JSONB;
+BEGIN
+  IF TG_OP <> 'INSERT' THEN
+    v_row := to_jsonb(OLD);
+    v_old := OLD.answer_value;
+  END IF;
+  IF TG_OP <> 'DELETE' THEN
+    v_row := to_jsonb(NEW);
+    v_new := NEW.answer_value;
+  END IF;
+
+  IF v_old IS NOT DISTINCT FROM v_new THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_ARGV[0] = 'form_entry' THEN
+    v_parent_id := (v_row ->> 'entry_id')::INTEGER;
+    SELECT name, project_id INTO v_parent FROM form_entries WHERE id = v_parent_id;
+  ELSE
+    v_parent_id := (v_row ->> 'diary_id')::INTEGER;
+    SELECT name, project_id INTO v_parent FROM site_diaries WHERE id = v_parent_id;
+  END IF;
+
+  -- The parent is being deleted along with its answers
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  PERFORM record_activity(
+    TG_ARGV[0],
+    v_parent_id,
+    v_parent.name,
+    'updated',
+    jsonb_build_object('answer:' || (v_row ->> 'item_id'), jsonb_build_object('old', v_old, 'new', v_new)),
+    v_parent.project_id,
+    NULL
+  );
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS log_form_entry_answers_activity_trigger ON public.form_entry_answers;
+CREATE TRIGGER log_form_entry_answers_activity_trigger
+  AFTER INSERT OR UPDATE OR DELETE ON public.form_entry_answers
+  FOR EACH ROW
+  EXECUTE FUNCTION log_answer_activity('form_entry');
+
+DROP TRIGGER IF EXISTS log_site_diary_answers_activity_trigger ON public.site_diary_answers;
+CREATE TRIGGER log_site_diary_answers_activity_trigger
+  AFTER INSERT OR UPDATE OR DELETE ON public.site_diary_answers
+  FOR EACH ROW
+  EXECUTE FUNCTION log_answer_activity('site_diary');
+
+-- ===========================================
+-- APPROVAL TRIGGER
+-- ===========================================
+
+-- Records approval changes with the task, form entry or site diary being approved
+CREATE OR REPLACE FUNCTION log_approval_activity()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_approval RECORD;
+  v_action TEXT;
+  v_changes JSONB := '{}'::JSONB;
+  v_related_type TEXT;
+  v_related RECORD;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    v_approval := OLD;
+    v_action := 'deleted';
+  ELSIF TG_OP = 'INSERT' THEN
+    v_approval := NEW;
+    v_action := 'created';
+  ELSE
+    v_approval := NEW;
+    v_action := 'updated';
+    v_changes := activity_field_changes(to_jsonb(OLD), to_jsonb(NEW));
+  END IF;
+
+  IF v_approval.entity_type::TEXT = 'site_diary' THEN
+    v_related_type := 'site_diary';
+    SELECT name, project_id INTO v_related FROM site_diaries WHERE id = v_approval.entity_id;
+  ELSIF v_approval.entity_type::TEXT = 'entries' THEN
+    v_related_type := 'form_entry';
+    SELECT name, project_id INTO v_related FROM form_entries WHERE id = v_approval.entity_id;
+  ELSIF v_approval.entity_type::TEXT = 'tasks' THEN
+    v_related_type := 'task';
+    SELECT title AS name, project_id INTO v_related FROM tasks WHERE id = v_approval.entity_id;
+  ELSE
+    v_related_type := v_approval.entity_type::TEXT;
+    SELECT name, project_id INTO v_related FROM forms WHERE id = v_approval.entity_id;
+  END IF;
+
+  PERFORM record_activity(
+    'approval',
+    v_approval.id,
+    v_related.name,
+    v_action,
+    v_changes,
+    v_related.project_id,
+    NULL,
+    v_related_type,
+    v_approval.entity_id
+  );
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS log_approvals_activity_trigger ON public.approvals;
+CREATE TRIGGER log_approvals_activity_trigger
+  AFTER INSERT OR UPDATE OR DELETE ON public.approvals
+  FOR EACH ROW
+  EXECUTE FUNCTION log_approval_activity();
+
+-- ===========================================
+-- RLS POLICIES
+-- ===========================================
+
+ALTER TABLE public.activity_log ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Project members can view project activity" ON public.activity_log;
+CREATE POLICY "Project members can view project activity" ON public.activity_log
+  FOR SELECT USING (
+    project_id IN (
+      SELECT project_id FROM public.projects_users
+      WHERE user_id = auth.uid() AND status = 'active'
+    )
+  );
+
+DROP POLICY IF EXISTS "Organization owners and admins can view organization activity" ON public.activity_log;
+CREATE POLICY "Organization owners and admins can view organization activity" ON public.activity_log
+  FOR SELECT USING (
+    organization_id IN (
+      SELECT organization_id FROM public.organization_users
+      WHERE user_id = auth.uid() AND role IN ('owner', 'admin') AND status = 'active'
+    )
+  );
+
+-- ===========================================
+-- GRANTS
+-- ===========================================
+
+-- Entries are only written by the triggers above
+GRANT SELECT ON public.activity_log TO authenticated;
+REVOKE INSERT, UPDATE, DELETE, TRUNCATE ON public.activity_log FROM anon, authenticated;
+REVOKE EXECUTE ON FUNCTION record_activity(TEXT, INTEGER, TEXT, TEXT, JSONB, INTEGER, INTEGER, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,447 @@
+-- Migration: Approval policies
+-- Description: Approvals used to need every approver to approve, with any decline deciding the
+-- outcome. An approval now carries a policy:
+--   all        - every approver must approve (the previous behaviour)
+--   any        - the first approval wins
+--   quorum     - required_approvals of the approvers must approve
+--   sequential - approvers are grouped into numbered steps; each step needs one approval before
+--                the next step is asked, and a decline or revision request ends the chain
+-- Only approvers whose turn it is are notified, and responses from other steps are rejected.
+
+-- ===========================================
+-- POLICY COLUMNS
+-- ===========================================
+
+ALTER TABLE public.approvals
+  ADD COLUMN IF NOT EXISTS policy TEXT NOT NULL DEFAULT 'all',
+  ADD COLUMN IF NOT EXISTS required_approvals INTEGER,
+  ADD COLUMN IF NOT EXISTS current_step INTEGER;
+
+ALTER TABLE public.approvals
+  ADD CONSTRAINT approvals_policy_check
+    CHECK (policy IN ('all', 'any', 'quorum', 'sequential')),
+  ADD CONSTRAINT approvals_required_approvals_check
+    CHECK (required_approvals IS NULL OR required_approvals > 0),
+  ADD CONSTRAINT approvals_quorum_requires_count_check
+    CHECK (policy <> 'quorum' OR required_approvals IS NOT NULL);
+
+ALTER TABLE public.approval_approvers
+  ADD COLUMN IF NOT EXISTS step INTEGER NOT NULL DEFAULT 1;
+
+ALTER TABLE public.approval_approvers
+  ADD CONSTRAINT approval_approvers_step_check CHECK (step > 0);
+
+COMMENT ON COLUMN public.approvals.policy IS 'How approver responses decide the outcome: all, any, quorum or sequential';
+COMMENT ON COLUMN public.approvals.required_approvals IS 'Number of approvals needed when policy is quorum';
+COMMENT ON COLUMN public.approvals.current_step IS 'Step waiting for a response when policy is sequential; NULL once every step has approved';
+COMMENT ON COLUMN public.approval_approvers.step IS 'Position in a sequential approval chain; approvers sharing a step are alternatives';
+
+-- ===========================================
+-- HELPERS
+-- ===========================================
+
+-- Lowest step that has no approval yet, or NULL when every step has approved
+CREATE OR REPLACE FUNCTION approval_current_step(approval_id_param BIGINT)
+RETURNS INTEGER AS $$
+  SELECT MIN(aa.step)
+  FROM approval_approvers aa
+  WHERE aa.approval_id = approval_id_param
+    AND NOT EXISTS (
+      SELECT 1
+      FROM approval_approvers step_approver
+      JOIN approval_approver_responses aar
+        ON aar.approval_id = step_approver.approval_id
+       AND aar.approver_id = step_approver.approver_id
+      WHERE step_approver.approval_id = approval_id_param
+        AND step_approver.step = aa.step
+        AND aar.status = 'approved'
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Title of the item an approval is for, as shown in notifications
+CREATE OR REPLACE FUNCTION approval_entity_title(p_entity_type TEXT, p_entity_id BIGINT)
+RETURNS TEXT AS $$
+DECLARE
+  v_title TEXT;
+BEGIN
+  IF p_entity_type IS NULL OR p_entity_id IS NULL THEN
+    RETURN 'General Approval';
+  END IF;
+
+  CASE p_entity_type
+    WHEN 'task', 'tasks' THEN
+      SELECT title INTO v_title FROM tasks WHERE id = p_entity_id;
+    WHEN 'form' THEN
+      SELECT name INTO v_title FROM forms WHERE id = p_entity_id;
+    WHEN 'entries' THEN
+      SELECT name INTO v_title FROM form_entries WHERE id = p_entity_id;
+    WHEN 'site_diary' THEN
+      SELECT name INTO v_title FROM site_diaries WHERE id = p_entity_id;
+    ELSE
+      v_title := 'Unknown Entity';
+  END CASE;
+
+  RETURN COALESCE(v_title, 'Unknown Item');
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- ===========================================
+-- STATUS CALCULATION
+-- ===========================================
+
+CREATE OR REPLACE FUNCTION calculate_approval_status(approval_id_param BIGINT)
+RETURNS approval_status AS $$
+DECLARE
+  v_policy TEXT;
+  v_required INTEGER;
+  total_approvers INTEGER;
+  approved_count INTEGER;
+  declined_count INTEGER;
+  revision_count INTEGER;
+  responded_count INTEGER;
+BEGIN
+  SELECT policy, required_approvals INTO v_policy, v_required
+  FROM approvals
+  WHERE id = approval_id_param;
+
+  -- Count total approvers
+  SELECT COUNT(*) INTO total_approvers
+  FROM approval_approvers aa
+  WHERE aa.approval_id = approval_id_param;
+
+  -- Count responses by status
+  SELECT
+    COUNT(CASE WHEN aar.status = 'approved' THEN 1 END),
+    COUNT(CASE WHEN aar.status = 'declined' THEN 1 END),
+    COUNT(CASE WHEN aar.status = 'revision_requested' THEN 1 END)
+  INTO approved_count, declined_count, revision_count
+  FROM approval_approver_responses aar
+  WHERE aar.approval_id = approval_id_param;
+
+  responded_count := approved_count + declined_count + revision_count;
+
+  CASE v_policy
+    WHEN 'any' THEN
+      -- One approval is enough; it only fails once nobody is left who could approve
+      IF approved_count > 0 THEN
+        RETURN 'approved';
+      ELSIF total_approvers > 0 AND responded_count >= total_approvers THEN
+        RETURN CASE WHEN declined_count > 0 THEN 'declined' ELSE 'revision_requested' END::approval_status;
+      ELSE
+        RETURN 'submitted';
+      END IF;
+
+    WHEN 'quorum' THEN
+      -- Fails as soon as the remaining approvers can no longer make up the quorum
+      IF approved_count >= v_required THEN
+        RETURN 'approved';
+      ELSIF approved_count + (total_approvers - responded_count) < v_required THEN
+        RETURN CASE WHEN declined_count > 0 THEN 'declined' ELSE 'revision_requested' END::approval_status;
+      ELSE
+        RETURN 'submitted';
+      END IF;
+
+    WHEN 'sequential' THEN
+      IF declined_count > 0 THEN
+        RETURN 'declined';
+      ELSIF revision_count > 0 THEN
+        RETURN 'revision_requested';
+      ELSIF total_approvers > 0 AND approval_current_step(approval_id_param) IS NULL THEN
+        RETURN 'approved';
+      ELSE
+        RETURN 'submitted';
+      END IF;
+
+    ELSE
+      -- If any approver declined or requested revision, overall status reflects that
+      IF declined_count > 0 THEN
+        RETURN 'declined';
+      ELSIF revision_count > 0 THEN
+        RETURN 'revision_requested';
+      ELSIF approved_count = total_approvers THEN
+        RETURN 'approved';
+      ELSE
+        RETURN 'submitted';
+      END IF;
+  END CASE;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Keeps current_step in step with the responses as well as the status
+CREATE OR REPLACE FUNCTION update_approval_status_on_response()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE approvals
+  SET
+    status = calculate_approval_status(NEW.approval_id),
+    current_step = CASE WHEN policy = 'sequential' THEN approval_current_step(NEW.approval_id) END,
+    last_updated = NOW()
+  WHERE id = NEW.approval_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ===========================================
+-- SEQUENTIAL TURN CHECK
+-- ===========================================
+
+-- Only approvers of the step the chain is waiting on can respond
+CREATE OR REPLACE FUNCTION check_approval_response_turn()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_policy TEXT;
+  v_current_step INTEGER;
+  v_step INTEGER;
+BEGIN
+  SELECT a.policy, a.current_step, aa.step
+  INTO v_policy, v_current_step, v_step
+  FROM approvals a
+  JOIN approval_approvers aa ON aa.approval_id = a.id AND aa.approver_id = NEW.approver_id
+  WHERE a.id = NEW.approval_id;
+
+  IF v_policy = 'sequential' AND v_current_step IS NOT NULL AND v_step <> v_current_step THEN
+    RAISE EXCEPTION 'This approval is waiting on step %, not step %', v_current_step, v_step;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS approval_response_turn_trigger ON approval_approver_responses;
+CREATE TRIGGER approval_response_turn_trigger
+  BEFORE INSERT OR UPDATE ON approval_approver_responses
+  FOR EACH ROW
+  EXECUTE FUNCTION check_approval_response_turn();
+
+-- ===========================================
+-- APPROVER NOTIFICATIONS
+-- ===========================================
+
+INSERT INTO notification_templates (type, name, subject_template, message_template, description, placeholders) VALUES
+('approval_requested', 'next_step', 'Your approval is needed', '"%s" is ready for your approval (step %s of %s)', 'Sequential approval reached the approver''s step', ARRAY['entity_title', 'step', 'total_steps'])
+ON CONFLICT (type, name) DO UPDATE SET
+  subject_template = EXCLUDED.subject_template,
+  message_template = EXCLUDED.message_template,
+  description = EXCLUDED.description,
+  placeholders = EXCLUDED.placeholders,
+  updated_at = NOW();
+
+-- Asks the approvers whose turn it is and who have not responded yet, or just p_approver_id
+CREATE OR REPLACE FUNCTION notify_current_approvers(
+  p_approval_id BIGINT,
+  p_template_name TEXT DEFAULT 'default',
+  p_approver_id UUID DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+  v_approval RECORD;
+  v_approver RECORD;
+  v_requester_name TEXT;
+  v_entity_title TEXT;
+  v_total_steps INTEGER;
+  v_template_data TEXT[];
+BEGIN
+  SELECT * INTO v_approval FROM approvals WHERE id = p_approval_id;
+
+  IF v_approval.id IS NULL OR v_approval.status <> 'submitted' THEN
+    RETURN;
+  END IF;
+
+  v_entity_title := approval_entity_title(v_approval.entity_type::TEXT, v_approval.entity_id);
+
+  SELECT first_name || ' ' || last_name INTO v_requester_name
+  FROM user_profiles WHERE id = v_approval.requester_id;
+
+  SELECT MAX(step) INTO v_total_steps
+  FROM approval_approvers WHERE approval_id = p_approval_id;
+
+  IF p_template_name = 'next_step' THEN
+    v_template_data := ARRAY[v_entity_title, v_approval.current_step::TEXT, v_total_steps::TEXT];
+  ELSE
+    v_template_data := ARRAY[COALESCE(v_requester_name, 'Someone'), v_entity_title];
+  END IF;
+
+  FOR v_approver IN
+    SELECT aa.approver_id, aa.step
+    FROM approval_approvers aa
+    WHERE aa.approval_id = p_approval_id
+      AND (p_approver_id IS NULL OR aa.approver_id = p_approver_id)
+      AND (v_approval.policy <> 'sequential' OR aa.step = v_approval.current_step)
+      AND NOT EXISTS (
+        SELECT 1 FROM approval_approver_responses aar
+        WHERE aar.approval_id = aa.approval_id AND aar.approver_id = aa.approver_id
+      )
+  LOOP
+    PERFORM create_notification(
+      p_user_id => v_approver.approver_id,
+      p_type => 'approval_requested',
+      p_template_name => p_template_name,
+      p_template_data => v_template_data,
+      p_data => jsonb_build_object(
+        'approval_id', v_approval.id,
+        'entity_type', v_approval.entity_type,
+        'entity_id', v_approval.entity_id,
+        'entity_title', v_entity_title,
+        'requested_by', v_approval.requester_id,
+        'requester_name', v_requester_name,
+        'policy', v_approval.policy,
+        'step', v_approver.step,
+        'role', 'approver'
+      ),
+      p_entity_type => 'approval',
+      p_entity_id => v_approval.id::TEXT,
+      p_priority => 'high',
+      p_created_by => v_approval.requester_id
+    );
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Submitting asks the first approvers; each step that completes asks the next one
+CREATE OR REPLACE FUNCTION notify_approval_step_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status <> 'submitted' THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status IS DISTINCT FROM 'submitted' THEN
+    PERFORM notify_current_approvers(NEW.id);
+  ELSIF NEW.current_step IS DISTINCT FROM OLD.current_step THEN
+    PERFORM notify_current_approvers(NEW.id, 'next_step');
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS approval_step_notification_trigger ON approvals;
+CREATE TRIGGER approval_step_notification_trigger
+  AFTER UPDATE ON approvals
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_approval_step_changes();
+
+-- Moves the chain along when approvers are added, removed or reordered, and asks an approver
+-- added to an approval that is already waiting on them
+CREATE OR REPLACE FUNCTION handle_approval_approvers_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_approval_id BIGINT := COALESCE(NEW.approval_id, OLD.approval_id);
+  v_policy TEXT;
+  v_current_step INTEGER;
+  v_next_step INTEGER;
+BEGIN
+  SELECT policy, current_step INTO v_policy, v_current_step
+  FROM approvals WHERE id = v_approval_id;
+
+  IF v_policy = 'sequential' THEN
+    v_next_step := approval_current_step(v_approval_id);
+
+    IF v_next_step IS DISTINCT FROM v_current_step THEN
+      -- The approvals trigger notifies the new step
+      UPDATE approvals SET current_step = v_next_step WHERE id = v_approval_id;
+      RETURN NULL;
+    END IF;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    PERFORM notify_current_approvers(v_approval_id, 'default', NEW.approver_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS approval_approvers_change_trigger ON approval_approvers;
+CREATE TRIGGER approval_approvers_change_trigger
+  AFTER INSERT OR DELETE OR UPDATE OF step ON approval_approvers
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_approval_approvers_change();
+
+-- Same as before, except that approvers of later sequential steps are not told about responses
+CREATE OR REPLACE FUNCTION notify_approval_response()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_approval RECORD;
+  v_approver_name TEXT;
+  v_approver RECORD;
+  v_entity_title TEXT;
+BEGIN
+  -- Get approval details
+  SELECT * INTO v_approval
+  FROM approvals
+  WHERE id = NEW.approval_id;
+
+  v_entity_title := approval_entity_title(v_approval.entity_type::TEXT, v_approval.entity_id);
+
+  -- Get approver name
+  SELECT first_name || ' ' || last_name INTO v_approver_name
+  FROM user_profiles WHERE id = NEW.approver_id;
+
+  -- Notify the requester
+  PERFORM create_notification(
+    p_user_id => v_approval.requester_id,
+    p_type => 'approval_status_changed',
+    p_template_name => 'response_received',
+    p_template_data => ARRAY[COALESCE(v_approver_name, 'An approver'), v_entity_title],
+    p_data => jsonb_build_object(
+      'approval_id', NEW.approval_id,
+      'response_id', NEW.id,
+      'response_status', NEW.status,
+      'entity_type', v_approval.entity_type,
+      'entity_id', v_approval.entity_id,
+      'entity_title', v_entity_title,
+      'approver_id', NEW.approver_id,
+      'approver_name', v_approver_name,
+      'comments', NEW.comment,
+      'responded_at', NEW.responded_at
+    ),
+    p_entity_type => 'approval_response',
+    p_entity_id => NEW.id::TEXT,
+    p_priority => 'high',
+    p_created_by => NEW.approver_id
+  );
+
+  -- Notify other approvers (excluding the one who responded and steps not reached yet)
+  FOR v_approver IN
+    SELECT * FROM approval_approvers
+    WHERE approval_id = NEW.approval_id
+    AND approver_id != NEW.approver_id
+    AND (v_approval.policy <> 'sequential' OR step <= COALESCE(v_approval.current_step, step))
+  LOOP
+    PERFORM create_notification(
+      p_user_id => v_approver.approver_id,
+      p_type => 'approval_requested',
+      p_template_name => 'response_notification',
+      p_template_data => ARRAY[COALESCE(v_approver_name, 'An approver'), v_entity_title],
+      p_data => jsonb_build_object(
+        'approval_id', NEW.approval_id,
+        'response_id', NEW.id,
+        'response_status', NEW.status,
+        'entity_type', v_approval.entity_type,
+        'entity_id', v_approval.entity_id,
+        'entity_title', v_entity_title,
+        'approver_id', NEW.approver_id,
+        'approver_name', v_approver_name,
+        'comments', NEW.comment,
+        'responded_at', NEW.responded_at
+      ),
+      p_entity_type => 'approval_response',
+      p_entity_id => NEW.id::TEXT,
+      p_priority => 'medium',
+      p_created_by => NEW.approver_id
+    );
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ===========================================
+-- GRANTS
+-- ===========================================
+
+GRANT EXECUTE ON FUNCTION approval_current_step(BIGINT) TO authenticated;
+GRANT EXECUTE ON FUNCTION approval_entity_title(TEXT, BIGINT) TO authenticated;
+REVOKE EXECUTE ON FUNCTION notify_current_approvers(BIGINT, TEXT, UUID) FROM PUBLIC, anon, authenticated;
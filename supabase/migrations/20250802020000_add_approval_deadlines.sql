@@ -0,0 +1,343 @@
+-- Migration: Approval deadlines, reminders and escalation
+-- Description: An approval can have a due-by date, a reminder interval and a backup approver.
+-- A cron job reminds approvers whose turn it is and who haven't responded every
+-- reminder_interval_hours, and once the due date passes it adds the backup approver, whose
+-- approval settles the request (or their step, for sequential approvals) on its own.
+
+-- ===========================================
+-- DEADLINE COLUMNS
+-- ===========================================
+
+ALTER TABLE public.approvals
+  ADD COLUMN IF NOT EXISTS due_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS reminder_interval_hours INTEGER,
+  ADD COLUMN IF NOT EXISTS escalation_approver_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS escalated_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS submitted_at TIMESTAMPTZ;
+
+ALTER TABLE public.approvals
+  ADD CONSTRAINT approvals_reminder_interval_check
+    CHECK (reminder_interval_hours IS NULL OR reminder_interval_hours > 0),
+  ADD CONSTRAINT approvals_escalation_requires_due_check
+    CHECK (escalation_approver_id IS NULL OR due_at IS NOT NULL);
+
+ALTER TABLE public.approval_approvers
+  ADD COLUMN IF NOT EXISTS escalated BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS last_reminded_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN public.approvals.due_at IS 'When approvers should have responded by';
+COMMENT ON COLUMN public.approvals.reminder_interval_hours IS 'Hours between reminders to approvers who have not responded; NULL for no reminders';
+COMMENT ON COLUMN public.approvals.escalation_approver_id IS 'Backup approver added once due_at has passed';
+COMMENT ON COLUMN public.approvals.escalated_at IS 'When the backup approver was added';
+COMMENT ON COLUMN public.approvals.submitted_at IS 'When the approval last became submitted; reminders count from here';
+COMMENT ON COLUMN public.approval_approvers.escalated IS 'Added as the backup approver after the due date passed';
+
+CREATE INDEX IF NOT EXISTS approvals_due_at_idx
+  ON public.approvals (due_at)
+  WHERE status = 'submitted';
+
+-- Records when an approval is (re)submitted
+CREATE OR REPLACE FUNCTION set_approval_submitted_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'submitted' AND (TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM 'submitted') THEN
+    NEW.submitted_at := NOW();
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_approval_submitted_at_trigger ON approvals;
+CREATE TRIGGER set_approval_submitted_at_trigger
+  BEFORE INSERT OR UPDATE OF status ON approvals
+  FOR EACH ROW
+  EXECUTE FUNCTION set_approval_submitted_at();
+
+-- ===========================================
+-- STATUS CALCULATION
+-- ===========================================
+
+-- As before, except that a backup approver's approval settles the request by itself and
+-- backup approvers don't count towards "everyone" or the quorum
+CREATE OR REPLACE FUNCTION calculate_approval_status(approval_id_param BIGINT)
+RETURNS approval_status AS $$
+DECLARE
+  v_policy TEXT;
+  v_required INTEGER;
+  total_approvers INTEGER;
+  backup_count INTEGER;
+  approved_count INTEGER;
+  backup_approved_count INTEGER;
+  declined_count INTEGER;
+  revision_count INTEGER;
+  responded_count INTEGER;
+  backup_responded_count INTEGER;
+BEGIN
+  SELECT policy, required_approvals INTO v_policy, v_required
+  FROM approvals
+  WHERE id = approval_id_param;
+
+  -- Count approvers, keeping backup approvers apart
+  SELECT
+    COUNT(*) FILTER (WHERE NOT aa.escalated),
+    COUNT(*) FILTER (WHERE aa.escalated)
+  INTO total_approvers, backup_count
+  FROM approval_approvers aa
+  WHERE aa.approval_id = approval_id_param;
+
+  -- Count responses by status
+  SELECT
+    COUNT(*) FILTER (WHERE aar.status = 'approved' AND NOT COALESCE(aa.escalated, false)),
+    COUNT(*) FILTER (WHERE aar.status = 'approved' AND aa.escalated),
+    COUNT(*) FILTER (WHERE aar.status = 'declined'),
+    COUNT(*) FILTER (WHERE aar.status = 'revision_requested'),
+    COUNT(*) FILTER (WHERE aar.status <> 'submitted' AND NOT COALESCE(aa.escalated, false)),
+    COUNT(*) FILTER (WHERE aar.status <> 'submitted' AND aa.escalated)
+  INTO approved_count, backup_approved_count, declined_count, revision_count,
+    responded_count, backup_responded_count
+  FROM approval_approver_responses aar
+  LEFT JOIN approval_approvers aa
+    ON aa.approval_id = aar.approval_id AND aa.approver_id = aar.approver_id
+  WHERE aar.approval_id = approval_id_param;
+
+  CASE v_policy
+    WHEN 'any' THEN
+      -- One approval is enough; it only fails once nobody is left who could approve
+      IF approved_count + backup_approved_count > 0 THEN
+        RETURN 'approved';
+      ELSIF total_approvers + backup_count > 0
+        AND responded_count + backup_responded_count >= total_approvers + backup_count THEN
+        RETURN CASE WHEN declined_count > 0 THEN 'declined' ELSE 'revision_requested' END::approval_status;
+      ELSE
+        RETURN 'submitted';
+      END IF;
+
+    WHEN 'quorum' THEN
+      -- Fails once the remaining approvers can no longer make up the quorum and no backup is left
+      IF approved_count >= v_required OR backup_approved_count > 0 THEN
+        RETURN 'approved';
+      ELSIF approved_count + (total_approvers - responded_count) < v_required
+        AND backup_responded_count >= backup_count THEN
+        RETURN CASE WHEN declined_count > 0 THEN 'declined' ELSE 'revision_requested' END::approval_status;
+      ELSE
+        RETURN 'submitted';
+      END IF;
+
+    WHEN 'sequential' THEN
+      -- A backup approver sits in the step that was overdue, so their approval completes it
+      IF declined_count > 0 THEN
+        RETURN 'declined';
+      ELSIF revision_count > 0 THEN
+        RETURN 'revision_requested';
+      ELSIF total_approvers > 0 AND approval_current_step(approval_id_param) IS NULL THEN
+        RETURN 'approved';
+      ELSE
+        RETURN 'submitted';
+      END IF;
+
+    ELSE
+      -- If any approver declined or requested revision, overall status reflects that
+      IF declined_count > 0 THEN
+        RETURN 'declined';
+      ELSIF revision_count > 0 THEN
+        RETURN 'revision_requested';
+      ELSIF approved_count = total_approvers OR backup_approved_count > 0 THEN
+        RETURN 'approved';
+      ELSE
+        RETURN 'submitted';
+      END IF;
+  END CASE;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ===========================================
+-- NOTIFICATION TEMPLATES
+-- ===========================================
+
+INSERT INTO notification_templates (type, name, subject_template, message_template, description, placeholders) VALUES
+('approval_requested', 'reminder', 'Approval reminder', 'Reminder: %s is waiting for your approval of "%s"', 'Reminder to an approver who has not responded', ARRAY['requester_name', 'entity_title']),
+('approval_requested', 'escalated', 'Overdue approval escalated to you', '%s''s approval request for "%s" is overdue and has been escalated to you', 'Backup approver added after the due date passed', ARRAY['requester_name', 'entity_title']),
+('approval_status_changed', 'escalated', 'Approval escalated', 'Your approval request for "%s" is overdue and was escalated to %s', 'Requester told that the backup approver was added', ARRAY['entity_title', 'backup_name'])
+ON CONFLICT (type, name) DO UPDATE SET
+  subject_template = EXCLUDED.subject_template,
+  message_template = EXCLUDED.message_template,
+  description = EXCLUDED.description,
+  placeholders = EXCLUDED.placeholders,
+  updated_at = NOW();
+
+-- Backup approvers get the escalation message instead of the usual request
+CREATE OR REPLACE FUNCTION handle_approval_approvers_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_approval_id BIGINT := COALESCE(NEW.approval_id, OLD.approval_id);
+  v_policy TEXT;
+  v_current_step INTEGER;
+  v_next_step INTEGER;
+BEGIN
+  SELECT policy, current_step INTO v_policy, v_current_step
+  FROM approvals WHERE id = v_approval_id;
+
+  IF v_policy = 'sequential' THEN
+    v_next_step := approval_current_step(v_approval_id);
+
+    IF v_next_step IS DISTINCT FROM v_current_step THEN
+      -- The approvals trigger notifies the new step
+      UPDATE approvals SET current_step = v_next_step WHERE id = v_approval_id;
+      RETURN NULL;
+    END IF;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    PERFORM notify_current_approvers(
+      v_approval_id,
+      CASE WHEN NEW.escalated THEN 'escalated' ELSE 'default' END,
+      NEW.approver_id
+    );
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ===========================================
+-- REMINDERS AND ESCALATION
+-- ===========================================
+
+-- Reminds approvers who are up and haven't responded, once per reminder interval
+CREATE OR REPLACE FUNCTION send_approval_reminders()
+RETURNS INTEGER AS $$
+DECLARE
+  v_row RECORD;
+  v_sent INTEGER := 0;
+BEGIN
+  FOR v_row IN
+    SELECT aa.approval_id, aa.approver_id
+    FROM approvals a
+    JOIN approval_approvers aa ON aa.approval_id = a.id
+    WHERE a.status = 'submitted'
+    AND a.reminder_interval_hours IS NOT NULL
+    AND (a.policy <> 'sequential' OR aa.step = a.current_step)
+    AND COALESCE(aa.last_reminded_at, a.submitted_at, a.last_updated)
+      <= NOW() - make_interval(hours => a.reminder_interval_hours)
+    AND NOT EXISTS (
+      SELECT 1 FROM approval_approver_responses aar
+      WHERE aar.approval_id = aa.approval_id AND aar.approver_id = aa.approver_id
+    )
+  LOOP
+    PERFORM notify_current_approvers(v_row.approval_id, 'reminder', v_row.approver_id);
+
+    UPDATE approval_approvers
+    SET last_reminded_at = NOW()
+    WHERE approval_id = v_row.approval_id AND approver_id = v_row.approver_id;
+
+    v_sent := v_sent + 1;
+  END LOOP;
+
+  RETURN v_sent;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Adds the backup approver to overdue approvals and tells the requester
+CREATE OR REPLACE FUNCTION escalate_overdue_approvals()
+RETURNS INTEGER AS $$
+DECLARE
+  v_approval RECORD;
+  v_backup_name TEXT;
+  v_entity_title TEXT;
+  v_escalated INTEGER := 0;
+BEGIN
+  FOR v_approval IN
+    SELECT *
+    FROM approvals
+    WHERE status = 'submitted'
+    AND due_at < NOW()
+    AND escalation_approver_id IS NOT NULL
+    AND escalated_at IS NULL
+    ORDER BY due_at ASC
+  LOOP
+    UPDATE approvals SET escalated_at = NOW() WHERE id = v_approval.id;
+
+    -- Someone who is already an approver keeps their place. The escalation message counts
+    -- as their first reminder.
+    INSERT INTO approval_approvers (approval_id, approver_id, step, escalated, last_reminded_at)
+    VALUES (
+      v_approval.id,
+      v_approval.escalation_approver_id,
+      COALESCE(v_approval.current_step, 1),
+      true,
+      NOW()
+    )
+    ON CONFLICT (approver_id, approval_id) DO NOTHING;
+
+    SELECT first_name || ' ' || last_name INTO v_backup_name
+    FROM user_profiles WHERE id = v_approval.escalation_approver_id;
+
+    v_entity_title := approval_entity_title(v_approval.entity_type::TEXT, v_approval.entity_id);
+
+    PERFORM create_notification(
+      p_user_id => v_approval.requester_id,
+      p_type => 'approval_status_changed',
+      p_template_name => 'escalated',
+      p_template_data => ARRAY[v_entity_title, COALESCE(v_backup_name, 'a backup approver')],
+      p_data => jsonb_build_object(
+        'approval_id', v_approval.id,
+        'entity_type', v_approval.entity_type,
+        'entity_id', v_approval.entity_id,
+        'entity_title', v_entity_title,
+        'due_at', v_approval.due_at,
+        'escalated_to', v_approval.escalation_approver_id,
+        'escalated_to_name', v_backup_name
+      ),
+      p_entity_type => 'approval',
+      p_entity_id => v_approval.id::TEXT,
+      p_priority => 'high',
+      p_created_by => NULL
+    );
+
+    v_escalated := v_escalated + 1;
+  END LOOP;
+
+  RETURN v_escalated;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION process_approval_deadlines()
+RETURNS TEXT AS $$
+DECLARE
+  v_escalated INTEGER;
+  v_reminded INTEGER;
+BEGIN
+  v_escalated := escalate_overdue_approvals();
+  v_reminded := send_approval_reminders();
+
+  RETURN format('Escalated %s approvals, sent %s reminders', v_escalated, v_reminded);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION send_approval_reminders() FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION escalate_overdue_approvals() FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION process_approval_deadlines() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION send_approval_reminders() TO service_role;
+GRANT EXECUTE ON FUNCTION escalate_overdue_approvals() TO service_role;
+GRANT EXECUTE ON FUNCTION process_approval_deadlines() TO service_role;
+
+-- ===========================================
+-- CRON JOB
+-- ===========================================
+
+DO $$
+BEGIN
+  BEGIN
+    PERFORM cron.unschedule('process-approval-deadlines');
+  EXCEPTION WHEN OTHERS THEN
+    -- Job doesn't exist, continue
+  END;
+
+  -- Check reminders and deadlines every 15 minutes
+  PERFORM cron.schedule(
+    'process-approval-deadlines',
+    '*/15 * * * *',
+    'SELECT process_approval_deadlines();'
+  );
+END $$;
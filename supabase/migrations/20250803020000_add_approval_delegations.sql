@@ -0,0 +1,322 @@
+-- Migration: Out-of-office approval delegation
+-- Description: A user can name a delegate for a date range. While the delegation is active the
+-- delegate may respond to approvals on the absent approver's behalf, and approval requests,
+-- reminders and escalations for the absent approver go to the delegate instead. Responses keep
+-- the absent approver in approver_id and record who actually responded in responded_by; the
+-- activity log records both.
+
+-- ===========================================
+-- DELEGATIONS TABLE
+-- ===========================================
+
+CREATE TABLE IF NOT EXISTS public.approval_delegations (
+  id BIGINT GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  delegate_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  starts_on DATE NOT NULL,
+  ends_on DATE NOT NULL,
+  reason TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT approval_delegations_dates_check CHECK (ends_on >= starts_on),
+  CONSTRAINT approval_delegations_not_self_check CHECK (user_id <> delegate_id)
+);
+
+CREATE INDEX IF NOT EXISTS approval_delegations_user_id_idx
+  ON public.approval_delegations (user_id, starts_on, ends_on);
+CREATE INDEX IF NOT EXISTS approval_delegations_delegate_id_idx
+  ON public.approval_delegations (delegate_id);
+
+COMMENT ON TABLE public.approval_delegations IS 'Out-of-office periods during which a delegate acts on a user''s approvals';
+
+-- The delegate standing in for a user today, if any; the newest delegation wins on overlap
+CREATE OR REPLACE FUNCTION active_approval_delegate(p_user_id UUID)
+RETURNS UUID AS $$
+  SELECT delegate_id
+  FROM approval_delegations
+  WHERE user_id = p_user_id
+  AND CURRENT_DATE BETWEEN starts_on AND ends_on
+  ORDER BY created_at DESC
+  LIMIT 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- The users the current user is standing in for today. Decided here rather than by the client
+-- so "today" is the same date the policies below check against.
+CREATE OR REPLACE FUNCTION active_approval_delegators()
+RETURNS SETOF UUID AS $$
+  SELECT DISTINCT user_id
+  FROM approval_delegations
+  WHERE delegate_id = auth.uid()
+  AND CURRENT_DATE BETWEEN starts_on AND ends_on
+  AND active_approval_delegate(user_id) = auth.uid();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- ===========================================
+-- RESPONSES ON BEHALF OF AN APPROVER
+-- ===========================================
+
+ALTER TABLE public.approval_approver_responses
+  ADD COLUMN IF NOT EXISTS responded_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN public.approval_approver_responses.responded_by IS 'Who actually responded; differs from approver_id when a delegate responded';
+
+-- Always the signed-in user, whatever the client sent
+CREATE OR REPLACE FUNCTION set_approval_response_responder()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.responded_by := COALESCE(auth.uid(), NEW.responded_by, NEW.approver_id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_approval_response_responder_trigger ON approval_approver_responses;
+CREATE TRIGGER set_approval_response_responder_trigger
+  BEFORE INSERT OR UPDATE ON approval_approver_responses
+  FOR EACH ROW
+  EXECUTE FUNCTION set_approval_response_responder();
+
+CREATE POLICY "Delegates can view responses for absent approvers"
+ON public.approval_approver_responses
+FOR SELECT
+TO authenticated
+USING (responded_by = auth.uid() OR active_approval_delegate(approver_id) = auth.uid());
+
+CREATE POLICY "Delegates can insert responses for absent approvers"
+ON public.approval_approver_responses
+FOR INSERT
+TO authenticated
+WITH CHECK (active_approval_delegate(approver_id) = auth.uid());
+
+CREATE POLICY "Delegates can update responses for absent approvers"
+ON public.approval_approver_responses
+FOR UPDATE
+TO authenticated
+USING (active_approval_delegate(approver_id) = auth.uid());
+
+-- ===========================================
+-- AUDIT TRAIL
+-- ===========================================
+
+-- Records each response against the approval, naming the absent approver when a delegate responded
+CREATE OR REPLACE FUNCTION log_approval_response_activity()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_approval RECORD;
+  v_changes JSONB;
+  v_related_type TEXT;
+  v_related RECORD;
+BEGIN
+  SELECT * INTO v_approval FROM approvals WHERE id = NEW.approval_id;
+
+  IF TG_OP = 'UPDATE' AND OLD.status IS NOT DISTINCT FROM NEW.status THEN
+    RETURN NULL;
+  END IF;
+
+  v_changes := jsonb_build_object(
+    'response',
+    jsonb_build_object(
+      'old', CASE WHEN TG_OP = 'UPDATE' THEN to_jsonb(OLD.status::TEXT) ELSE 'null'::JSONB END,
+      'new', to_jsonb(NEW.status::TEXT)
+    )
+  );
+
+  IF NEW.responded_by IS DISTINCT FROM NEW.approver_id THEN
+    v_changes := v_changes || jsonb_build_object(
+      'on_behalf_of',
+      jsonb_build_object('old', NULL, 'new', activity_user_name(NEW.approver_id))
+    );
+  END IF;
+
+  IF v_approval.entity_type::TEXT = 'site_diary' THEN
+    v_related_type := 'site_diary';
+    SELECT name, project_id INTO v_related FROM site_diaries WHERE id = v_approval.entity_id;
+  ELSIF v_approval.entity_type::TEXT = 'entries' THEN
+    v_related_type := 'form_entry';
+    SELECT name, project_id INTO v_related FROM form_entries WHERE id = v_approval.entity_id;
+  ELSIF v_approval.entity_type::TEXT = 'tasks' THEN
+    v_related_type := 'task';
+    SELECT title AS name, project_id INTO v_related FROM tasks WHERE id = v_approval.entity_id;
+  ELSE
+    v_related_type := v_approval.entity_type::TEXT;
+    SELECT name, project_id INTO v_related FROM forms WHERE id = v_approval.entity_id;
+  END IF;
+
+  PERFORM record_activity(
+    'approval',
+    v_approval.id,
+    v_related.name,
+    'updated',
+    v_changes,
+    v_related.project_id,
+    NULL,
+    v_related_type,
+    v_approval.entity_id
+  );
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS log_approval_responses_activity_trigger ON public.approval_approver_responses;
+CREATE TRIGGER log_approval_responses_activity_trigger
+  AFTER INSERT OR UPDATE ON public.approval_approver_responses
+  FOR EACH ROW
+  EXECUTE FUNCTION log_approval_response_activity();
+
+-- ===========================================
+-- NOTIFICATION ROUTING
+-- ===========================================
+
+INSERT INTO notification_templates (type, name, subject_template, message_template, description, placeholders) VALUES
+('approval_requested', 'delegated', 'Approval needed while a colleague is away', '%s is out of office and "%s" is waiting for your approval as their delegate', 'Approval request routed to an out-of-office approver''s delegate', ARRAY['approver_name', 'entity_title'])
+ON CONFLICT (type, name) DO UPDATE SET
+  subject_template = EXCLUDED.subject_template,
+  message_template = EXCLUDED.message_template,
+  description = EXCLUDED.description,
+  placeholders = EXCLUDED.placeholders,
+  updated_at = NOW();
+
+-- As before, except that approvers who are out of office are replaced by their delegate
+CREATE OR REPLACE FUNCTION notify_current_approvers(
+  p_approval_id BIGINT,
+  p_template_name TEXT DEFAULT 'default',
+  p_approver_id UUID DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+  v_approval RECORD;
+  v_approver RECORD;
+  v_requester_name TEXT;
+  v_entity_title TEXT;
+  v_total_steps INTEGER;
+  v_template_data TEXT[];
+  v_delegate_id UUID;
+  v_approver_name TEXT;
+BEGIN
+  SELECT * INTO v_approval FROM approvals WHERE id = p_approval_id;
+
+  IF v_approval.id IS NULL OR v_approval.status <> 'submitted' THEN
+    RETURN;
+  END IF;
+
+  v_entity_title := approval_entity_title(v_approval.entity_type::TEXT, v_approval.entity_id);
+
+  SELECT first_name || ' ' || last_name INTO v_requester_name
+  FROM user_profiles WHERE id = v_approval.requester_id;
+
+  SELECT MAX(step) INTO v_total_steps
+  FROM approval_approvers WHERE approval_id = p_approval_id;
+
+  IF p_template_name = 'next_step' THEN
+    v_template_data := ARRAY[v_entity_title, v_approval.current_step::TEXT, v_total_steps::TEXT];
+  ELSE
+    v_template_data := ARRAY[COALESCE(v_requester_name, 'Someone'), v_entity_title];
+  END IF;
+
+  FOR v_approver IN
+    SELECT aa.approver_id, aa.step
+    FROM approval_approvers aa
+    WHERE aa.approval_id = p_approval_id
+      AND (p_approver_id IS NULL OR aa.approver_id = p_approver_id)
+      AND (v_approval.policy <> 'sequential' OR aa.step = v_approval.current_step)
+      AND NOT EXISTS (
+        SELECT 1 FROM approval_approver_responses aar
+        WHERE aar.approval_id = aa.approval_id AND aar.approver_id = aa.approver_id
+      )
+  LOOP
+    v_delegate_id := active_approval_delegate(v_approver.approver_id);
+
+    IF v_delegate_id IS NULL THEN
+      PERFORM create_notification(
+        p_user_id => v_approver.approver_id,
+        p_type => 'approval_requested',
+        p_template_name => p_template_name,
+        p_template_data => v_template_data,
+        p_data => jsonb_build_object(
+          'approval_id', v_approval.id,
+          'entity_type', v_approval.entity_type,
+          'entity_id', v_approval.entity_id,
+          'entity_title', v_entity_title,
+          'requested_by', v_approval.requester_id,
+          'requester_name', v_requester_name,
+          'policy', v_approval.policy,
+          'step', v_approver.step,
+          'role', 'approver'
+        ),
+        p_entity_type => 'approval',
+        p_entity_id => v_approval.id::TEXT,
+        p_priority => 'high',
+        p_created_by => v_approval.requester_id
+      );
+    ELSE
+      v_approver_name := activity_user_name(v_approver.approver_id);
+
+      PERFORM create_notification(
+        p_user_id => v_delegate_id,
+        p_type => 'approval_requested',
+        p_template_name => 'delegated',
+        p_template_data => ARRAY[COALESCE(v_approver_name, 'An approver'), v_entity_title],
+        p_data => jsonb_build_object(
+          'approval_id', v_approval.id,
+          'entity_type', v_approval.entity_type,
+          'entity_id', v_approval.entity_id,
+          'entity_title', v_entity_title,
+          'requested_by', v_approval.requester_id,
+          'requester_name', v_requester_name,
+          'policy', v_approval.policy,
+          'step', v_approver.step,
+          'role', 'delegate',
+          'on_behalf_of', v_approver.approver_id,
+          'on_behalf_of_name', v_approver_name,
+          'kind', p_template_name
+        ),
+        p_entity_type => 'approval',
+        p_entity_id => v_approval.id::TEXT,
+        p_priority => 'high',
+        p_created_by => v_approval.requester_id
+      );
+    END IF;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ===========================================
+-- ROW LEVEL SECURITY
+-- ===========================================
+
+ALTER TABLE public.approval_delegations ENABLE ROW LEVEL SECURITY;
+
+-- Both sides of a delegation can see it
+CREATE POLICY "Users can view their delegations"
+ON public.approval_delegations
+FOR SELECT
+TO authenticated
+USING (user_id = auth.uid() OR delegate_id = auth.uid());
+
+-- Only the absent user manages their own delegations
+CREATE POLICY "Users can create their own delegations"
+ON public.approval_delegations
+FOR INSERT
+TO authenticated
+WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update their own delegations"
+ON public.approval_delegations
+FOR UPDATE
+TO authenticated
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can delete their own delegations"
+ON public.approval_delegations
+FOR DELETE
+TO authenticated
+USING (user_id = auth.uid());
+
+-- ===========================================
+-- GRANTS
+-- ===========================================
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.approval_delegations TO authenticated;
+GRANT ALL ON public.approval_delegations TO service_role;
+GRANT EXECUTE ON FUNCTION active_approval_delegate(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION active_approval_delegators() TO authenticated;
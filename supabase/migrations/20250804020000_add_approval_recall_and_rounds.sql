@@ -0,0 +1,262 @@
+-- Migration: Approval recall and submission rounds
+-- Description: Each submission of an approval starts a new round with a snapshot of the entity as
+-- it was submitted. When the entity is resubmitted, the responses of the previous round are
+-- archived on that round and cleared so approvers decide again. The requester can recall a
+-- submitted approval back to draft until the first approver responds.
+
+-- ===========================================
+-- SUBMISSIONS TABLE
+-- ===========================================
+
+CREATE TABLE IF NOT EXISTS public.approval_submissions (
+  id BIGINT GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+  approval_id BIGINT NOT NULL REFERENCES public.approvals(id) ON DELETE CASCADE,
+  round INTEGER NOT NULL,
+  entity_data JSONB,
+  submitted_by UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  submitted_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  closed_at TIMESTAMPTZ,
+  outcome TEXT CHECK (outcome IN ('approved', 'declined', 'revision_requested', 'recalled')),
+  responses JSONB NOT NULL DEFAULT '[]'::JSONB,
+  CONSTRAINT approval_submissions_round_key UNIQUE (approval_id, round)
+);
+
+COMMENT ON TABLE public.approval_submissions IS 'One row per submission of an approval, with the entity as submitted and the responses it received';
+COMMENT ON COLUMN public.approval_submissions.responses IS 'Approver responses archived when the round closed; empty while the round is open';
+
+-- Rounds are numbered per approval
+CREATE OR REPLACE FUNCTION set_approval_submission_round()
+RETURNS TRIGGER AS $$
+BEGIN
+  SELECT COALESCE(MAX(round), 0) + 1 INTO NEW.round
+  FROM approval_submissions
+  WHERE approval_id = NEW.approval_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS set_approval_submission_round_trigger ON approval_submissions;
+CREATE TRIGGER set_approval_submission_round_trigger
+  BEFORE INSERT ON approval_submissions
+  FOR EACH ROW
+  EXECUTE FUNCTION set_approval_submission_round();
+
+-- ===========================================
+-- RESUBMISSION
+-- ===========================================
+
+-- Closes the previous round when an approval is submitted again: its responses are archived on
+-- the round and cleared, reminders start over and a sequential chain goes back to its first step
+CREATE OR REPLACE FUNCTION start_approval_round()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status <> 'submitted' OR OLD.status = 'submitted' THEN
+    RETURN NEW;
+  END IF;
+
+  -- Approvals submitted before rounds existed get a round to hold their responses
+  IF EXISTS (SELECT 1 FROM approval_approver_responses WHERE approval_id = NEW.id)
+    AND NOT EXISTS (
+      SELECT 1 FROM approval_submissions WHERE approval_id = NEW.id AND closed_at IS NULL
+    ) THEN
+    INSERT INTO approval_submissions (approval_id, submitted_by, submitted_at)
+    VALUES (NEW.id, OLD.requester_id, COALESCE(OLD.submitted_at, OLD.created_at));
+  END IF;
+
+  UPDATE approval_submissions
+  SET
+    closed_at = NOW(),
+    outcome = CASE
+      WHEN OLD.status IN ('approved', 'declined', 'revision_requested') THEN OLD.status::TEXT
+      ELSE 'recalled'
+    END,
+    responses = COALESCE((
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'approver_id', aar.approver_id,
+          'approver_name', activity_user_name(aar.approver_id),
+          'responded_by', aar.responded_by,
+          'responder_name', CASE
+            WHEN aar.responded_by IS DISTINCT FROM aar.approver_id
+            THEN activity_user_name(aar.responded_by)
+          END,
+          'status', aar.status,
+          'comment', aar.comment,
+          'responded_at', aar.responded_at
+        )
+        ORDER BY aar.responded_at
+      )
+      FROM approval_approver_responses aar
+      WHERE aar.approval_id = NEW.id
+    ), '[]'::JSONB)
+  WHERE approval_id = NEW.id
+  AND closed_at IS NULL;
+
+  DELETE FROM approval_approver_responses WHERE approval_id = NEW.id;
+
+  UPDATE approval_approvers SET last_reminded_at = NULL WHERE approval_id = NEW.id;
+
+  IF NEW.policy = 'sequential' THEN
+    NEW.current_step := approval_current_step(NEW.id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS start_approval_round_trigger ON approvals;
+CREATE TRIGGER start_approval_round_trigger
+  BEFORE UPDATE OF status ON approvals
+  FOR EACH ROW
+  EXECUTE FUNCTION start_approval_round();
+
+-- ===========================================
+-- RECALL
+-- ===========================================
+
+-- As before, and a recalled approval no longer takes responses
+CREATE OR REPLACE FUNCTION check_approval_response_turn()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_status TEXT;
+  v_policy TEXT;
+  v_current_step INTEGER;
+  v_step INTEGER;
+BEGIN
+  SELECT a.status::TEXT, a.policy, a.current_step, aa.step
+  INTO v_status, v_policy, v_current_step, v_step
+  FROM approvals a
+  JOIN approval_approvers aa ON aa.approval_id = a.id AND aa.approver_id = NEW.approver_id
+  WHERE a.id = NEW.approval_id;
+
+  IF v_status = 'draft' THEN
+    RAISE EXCEPTION 'This approval has been recalled by the requester';
+  END IF;
+
+  IF v_policy = 'sequential' AND v_current_step IS NOT NULL AND v_step <> v_current_step THEN
+    RAISE EXCEPTION 'This approval is waiting on step %, not step %', v_current_step, v_step;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+INSERT INTO notification_templates (type, name, subject_template, message_template, description, placeholders) VALUES
+('approval_requested', 'recalled', 'Approval request recalled', '%s recalled "%s"; no response is needed for now', 'Requester recalled a submitted approval', ARRAY['requester_name', 'entity_title'])
+ON CONFLICT (type, name) DO UPDATE SET
+  subject_template = EXCLUDED.subject_template,
+  message_template = EXCLUDED.message_template,
+  description = EXCLUDED.description,
+  placeholders = EXCLUDED.placeholders,
+  updated_at = NOW();
+
+-- Moves a submitted approval back to draft, as long as no approver has responded yet
+CREATE OR REPLACE FUNCTION recall_approval(p_approval_id BIGINT)
+RETURNS VOID AS $$
+DECLARE
+  v_approval RECORD;
+  v_approver RECORD;
+  v_requester_name TEXT;
+  v_entity_title TEXT;
+BEGIN
+  SELECT * INTO v_approval FROM approvals WHERE id = p_approval_id FOR UPDATE;
+
+  IF v_approval.id IS NULL THEN
+    RAISE EXCEPTION 'Approval not found';
+  END IF;
+
+  IF v_approval.requester_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the requester can recall this approval';
+  END IF;
+
+  IF v_approval.status <> 'submitted' THEN
+    RAISE EXCEPTION 'Only submitted approvals can be recalled';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM approval_approver_responses WHERE approval_id = p_approval_id) THEN
+    RAISE EXCEPTION 'An approver has already responded, so this approval can no longer be recalled';
+  END IF;
+
+  UPDATE approval_submissions
+  SET closed_at = NOW(), outcome = 'recalled'
+  WHERE approval_id = p_approval_id
+  AND closed_at IS NULL;
+
+  UPDATE approvals
+  SET status = 'draft', last_updated = NOW()
+  WHERE id = p_approval_id;
+
+  -- Let the approvers who were asked know they can stop
+  v_entity_title := approval_entity_title(v_approval.entity_type::TEXT, v_approval.entity_id);
+  v_requester_name := activity_user_name(v_approval.requester_id);
+
+  FOR v_approver IN
+    SELECT aa.approver_id
+    FROM approval_approvers aa
+    WHERE aa.approval_id = p_approval_id
+      AND (v_approval.policy <> 'sequential' OR aa.step = v_approval.current_step)
+  LOOP
+    PERFORM create_notification(
+      p_user_id => COALESCE(active_approval_delegate(v_approver.approver_id), v_approver.approver_id),
+      p_type => 'approval_requested',
+      p_template_name => 'recalled',
+      p_template_data => ARRAY[COALESCE(v_requester_name, 'Someone'), v_entity_title],
+      p_data => jsonb_build_object(
+        'approval_id', v_approval.id,
+        'entity_type', v_approval.entity_type,
+        'entity_id', v_approval.entity_id,
+        'entity_title', v_entity_title,
+        'requested_by', v_approval.requester_id,
+        'requester_name', v_requester_name,
+        'role', 'approver'
+      ),
+      p_entity_type => 'approval',
+      p_entity_id => v_approval.id::TEXT,
+      p_priority => 'medium',
+      p_created_by => v_approval.requester_id
+    );
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ===========================================
+-- ROW LEVEL SECURITY
+-- ===========================================
+
+ALTER TABLE public.approval_submissions ENABLE ROW LEVEL SECURITY;
+
+-- Anyone on the approval can see what was submitted
+CREATE POLICY "Approval participants can view submissions"
+ON public.approval_submissions
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM approvals a
+    WHERE a.id = approval_submissions.approval_id
+    AND (
+      a.requester_id = auth.uid()
+      OR EXISTS (
+        SELECT 1 FROM approval_approvers aa
+        WHERE aa.approval_id = a.id
+        AND (aa.approver_id = auth.uid() OR active_approval_delegate(aa.approver_id) = auth.uid())
+      )
+    )
+  )
+);
+
+-- Snapshots are taken by whoever submits; rounds are closed by the triggers above
+CREATE POLICY "Users can record their own submissions"
+ON public.approval_submissions
+FOR INSERT
+TO authenticated
+WITH CHECK (submitted_by = auth.uid());
+
+-- ===========================================
+-- GRANTS
+-- ===========================================
+
+GRANT SELECT, INSERT ON public.approval_submissions TO authenticated;
+GRANT ALL ON public.approval_submissions TO service_role;
+GRANT EXECUTE ON FUNCTION recall_approval(BIGINT) TO authenticated;
@@ -0,0 +1,65 @@
+-- Migration: Task sign-off
+-- Description: Tasks can be sent for approval like diaries and form entries. A project can
+-- require that a task with a sign-off request is only moved into the done status (the last
+-- status on the board) once that request is approved.
+
+-- ===========================================
+-- PROJECT SETTING
+-- ===========================================
+
+ALTER TABLE public.projects
+  ADD COLUMN IF NOT EXISTS require_task_signoff BOOLEAN NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN public.projects.require_task_signoff IS 'When true, tasks with a sign-off request cannot be moved to done until it is approved';
+
+-- ===========================================
+-- DONE GUARD
+-- ===========================================
+
+CREATE OR REPLACE FUNCTION check_task_signoff_before_done()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_required BOOLEAN;
+  v_done_status_id INTEGER;
+  v_signoff_status TEXT;
+BEGIN
+  IF NEW.status_id IS NOT DISTINCT FROM OLD.status_id THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT require_task_signoff INTO v_required FROM projects WHERE id = NEW.project_id;
+
+  IF NOT COALESCE(v_required, false) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT id INTO v_done_status_id
+  FROM statuses
+  WHERE project_id = NEW.project_id
+  ORDER BY position DESC
+  LIMIT 1;
+
+  IF NEW.status_id IS DISTINCT FROM v_done_status_id THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT status::TEXT INTO v_signoff_status
+  FROM approvals
+  WHERE entity_type::TEXT IN ('tasks', 'task')
+  AND entity_id = NEW.id
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF v_signoff_status IS NOT NULL AND v_signoff_status <> 'approved' THEN
+    RAISE EXCEPTION 'This task can''t be moved to done until its sign-off is approved';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS check_task_signoff_before_done_trigger ON public.tasks;
+CREATE TRIGGER check_task_signoff_before_done_trigger
+  BEFORE UPDATE OF status_id ON public.tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION check_task_signoff_before_done();
@@ -0,0 +1,27 @@
+-- Migration: Structured form field types
+-- Description: Forms and site diary templates can capture numbers, dates, times, signatures,
+-- dropdown choices, yes/no/N/A answers, ratings and general file uploads. Per-field settings
+-- such as a number's unit and range or a rating's scale are kept in the item's metadata.
+
+-- ===========================================
+-- ITEM TYPES
+-- ===========================================
+
+ALTER TYPE item_type ADD VALUE IF NOT EXISTS 'number';
+ALTER TYPE item_type ADD VALUE IF NOT EXISTS 'date';
+ALTER TYPE item_type ADD VALUE IF NOT EXISTS 'time';
+ALTER TYPE item_type ADD VALUE IF NOT EXISTS 'signature';
+ALTER TYPE item_type ADD VALUE IF NOT EXISTS 'dropdown';
+ALTER TYPE item_type ADD VALUE IF NOT EXISTS 'yes_no_na';
+ALTER TYPE item_type ADD VALUE IF NOT EXISTS 'rating';
+ALTER TYPE item_type ADD VALUE IF NOT EXISTS 'file';
+
+-- ===========================================
+-- FIELD SETTINGS
+-- ===========================================
+
+-- Site diary template items already carry a metadata column
+ALTER TABLE public.form_items
+  ADD COLUMN IF NOT EXISTS metadata JSONB;
+
+COMMENT ON COLUMN public.form_items.metadata IS 'Field settings for the item type, e.g. {"unit": "mm", "min": 0, "max": 100} or {"scale": 5}';
@@ -0,0 +1,19 @@
+-- Migration: Conditional logic on form and site diary template items
+-- Description: An item can be shown, hidden or made required depending on the answers to
+-- earlier items, e.g. only asking for a harness inspection when working at height. Answers to
+-- items hidden by their rule are not stored.
+
+-- ===========================================
+-- ITEM RULES
+-- ===========================================
+
+-- Rules refer to earlier items by display order, since item ids change whenever a form or
+-- template is saved: {"action": "show", "match": "all", "conditions": [{"item": 0, "operator": "equals", "value": "Yes"}]}
+ALTER TABLE public.form_items
+  ADD COLUMN IF NOT EXISTS logic JSONB;
+
+ALTER TABLE public.site_diary_template_items
+  ADD COLUMN IF NOT EXISTS logic JSONB;
+
+COMMENT ON COLUMN public.form_items.logic IS 'Rule that shows, hides or requires the item based on answers to earlier items';
+COMMENT ON COLUMN public.site_diary_template_items.logic IS 'Rule that shows, hides or requires the item based on answers to earlier items';
@@ -0,0 +1,13 @@
+-- Migration: Form sections and repeatable groups
+-- Description: Forms and site diary templates can be broken up with section headings, and a
+-- section can start a new page so long forms are filled in as a wizard. Repeatable groups
+-- collect the same set of fields several times (e.g. once per scaffold bay). A section's
+-- description and page break, and a group's fields, are kept in the item's metadata; group
+-- answers are stored as an array of rows, each an array of values in field order.
+
+-- ===========================================
+-- ITEM TYPES
+-- ===========================================
+
+ALTER TYPE item_type ADD VALUE IF NOT EXISTS 'section';
+ALTER TYPE item_type ADD VALUE IF NOT EXISTS 'group';
@@ -0,0 +1,27 @@
+-- Migration: Calculated form items and entry scores
+-- Description: Forms can include calculated items whose values are worked out from other
+-- answers (a sum, a count of matching answers, a weighted score or a formula). The values are
+-- stored on each entry along with the entry's score and whether it met the pass mark, so
+-- entries can be filtered and sorted by score.
+
+-- ===========================================
+-- ITEM TYPES
+-- ===========================================
+
+ALTER TYPE item_type ADD VALUE IF NOT EXISTS 'calculated';
+
+-- ===========================================
+-- ENTRY SCORES
+-- ===========================================
+
+ALTER TABLE public.form_entries
+  ADD COLUMN IF NOT EXISTS calculated_values JSONB,
+  ADD COLUMN IF NOT EXISTS score NUMERIC,
+  ADD COLUMN IF NOT EXISTS passed BOOLEAN;
+
+COMMENT ON COLUMN public.form_entries.calculated_values IS 'Values of the form''s calculated items, keyed by form item id';
+COMMENT ON COLUMN public.form_entries.score IS 'Value of the calculated item used as the entry score';
+COMMENT ON COLUMN public.form_entries.passed IS 'Whether the score met the pass mark; null when there is no pass mark';
+
+CREATE INDEX IF NOT EXISTS form_entries_form_id_score_idx
+  ON public.form_entries (form_id, score);
@@ -0,0 +1,261 @@
+-- Migration: Form versions
+-- Description: A form's items belong to a version. Edits are saved to a draft version and only
+-- reach people filling the form in once the draft is published; published versions can't be
+-- changed. Each entry is pinned to the version it was filled against, so its answers keep
+-- pointing at the questions that were asked even after the form is edited.
+
+-- ===========================================
+-- VERSIONS TABLE
+-- ===========================================
+
+CREATE TABLE IF NOT EXISTS public.form_versions (
+  id BIGINT GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+  form_id BIGINT NOT NULL REFERENCES public.forms(id) ON DELETE CASCADE,
+  version_number INTEGER NOT NULL,
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'published')),
+  created_by UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  published_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  published_at TIMESTAMPTZ,
+  CONSTRAINT form_versions_number_key UNIQUE (form_id, version_number)
+);
+
+-- A form has at most one draft at a time
+CREATE UNIQUE INDEX IF NOT EXISTS form_versions_one_draft_idx
+  ON public.form_versions (form_id)
+  WHERE status = 'draft';
+
+COMMENT ON TABLE public.form_versions IS 'Versions of a form''s items; published versions are immutable';
+COMMENT ON COLUMN public.form_versions.status IS 'draft while being edited, published once entries can be filled against it';
+
+-- Versions are numbered per form
+CREATE OR REPLACE FUNCTION set_form_version_number()
+RETURNS TRIGGER AS $$
+BEGIN
+  SELECT COALESCE(MAX(version_number), 0) + 1 INTO NEW.version_number
+  FROM form_versions
+  WHERE form_id = NEW.form_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS set_form_version_number_trigger ON form_versions;
+CREATE TRIGGER set_form_version_number_trigger
+  BEFORE INSERT ON form_versions
+  FOR EACH ROW
+  EXECUTE FUNCTION set_form_version_number();
+
+-- ===========================================
+-- LINKS
+-- ===========================================
+
+ALTER TABLE public.form_items
+  ADD COLUMN IF NOT EXISTS form_version_id BIGINT REFERENCES public.form_versions(id) ON DELETE CASCADE;
+
+ALTER TABLE public.forms
+  ADD COLUMN IF NOT EXISTS published_version_id BIGINT REFERENCES public.form_versions(id) ON DELETE SET NULL;
+
+ALTER TABLE public.form_entries
+  ADD COLUMN IF NOT EXISTS form_version_id BIGINT REFERENCES public.form_versions(id);
+
+CREATE INDEX IF NOT EXISTS form_items_form_version_id_idx
+  ON public.form_items (form_version_id);
+CREATE INDEX IF NOT EXISTS form_entries_form_version_id_idx
+  ON public.form_entries (form_version_id);
+
+COMMENT ON COLUMN public.form_items.form_version_id IS 'Version of the form the item belongs to';
+COMMENT ON COLUMN public.forms.published_version_id IS 'Version new entries are filled against';
+COMMENT ON COLUMN public.form_entries.form_version_id IS 'Version of the form the entry was filled against';
+
+-- ===========================================
+-- BACKFILL
+-- ===========================================
+
+-- Existing forms become version 1, published as they stand, with their entries pinned to it
+INSERT INTO form_versions (form_id, status, created_by, created_at, published_by, published_at)
+SELECT f.id, 'published', f.owner_id, f.created_at, f.owner_id, f.updated_at
+FROM forms f
+WHERE NOT EXISTS (SELECT 1 FROM form_versions fv WHERE fv.form_id = f.id);
+
+UPDATE forms f
+SET published_version_id = fv.id
+FROM form_versions fv
+WHERE fv.form_id = f.id
+AND fv.version_number = 1
+AND f.published_version_id IS NULL;
+
+UPDATE form_items fi
+SET form_version_id = f.published_version_id
+FROM forms f
+WHERE f.id = fi.form_id
+AND fi.form_version_id IS NULL;
+
+UPDATE form_entries fe
+SET form_version_id = f.published_version_id
+FROM forms f
+WHERE f.id = fe.form_id
+AND fe.form_version_id IS NULL;
+
+-- ===========================================
+-- IMMUTABILITY
+-- ===========================================
+
+-- Items of a published version can't be added, edited or removed; drafts are edited freely.
+-- Removing them is allowed once the form itself is gone, so deleting a form still cascades.
+CREATE OR REPLACE FUNCTION prevent_published_form_item_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    IF EXISTS (
+      SELECT 1 FROM form_versions fv
+      JOIN forms f ON f.id = fv.form_id
+      WHERE fv.id = OLD.form_version_id
+      AND fv.status = 'published'
+    ) THEN
+      RAISE EXCEPTION 'Items of a published form version cannot be changed';
+    END IF;
+
+    RETURN OLD;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM form_versions
+    WHERE id IN (NEW.form_version_id, CASE WHEN TG_OP = 'UPDATE' THEN OLD.form_version_id END)
+    AND status = 'published'
+  ) THEN
+    RAISE EXCEPTION 'Items of a published form version cannot be changed';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS prevent_published_form_item_changes_trigger ON form_items;
+CREATE TRIGGER prevent_published_form_item_changes_trigger
+  BEFORE INSERT OR UPDATE OR DELETE ON form_items
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_published_form_item_changes();
+
+-- Publishing is one-way, and a published version stays until its form is deleted
+CREATE OR REPLACE FUNCTION prevent_published_form_version_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    IF OLD.status = 'published' AND EXISTS (SELECT 1 FROM forms WHERE id = OLD.form_id) THEN
+      RAISE EXCEPTION 'Published form versions cannot be deleted';
+    END IF;
+
+    RETURN OLD;
+  END IF;
+
+  IF OLD.status = 'published' THEN
+    RAISE EXCEPTION 'Published form versions cannot be changed';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS prevent_published_form_version_changes_trigger ON form_versions;
+CREATE TRIGGER prevent_published_form_version_changes_trigger
+  BEFORE UPDATE OR DELETE ON form_versions
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_published_form_version_changes();
+
+-- ===========================================
+-- CREATING FORMS
+-- ===========================================
+
+-- Creates a form with its items published as version 1 in a single transaction, so a form never
+-- exists without a published version for entries to be pinned to. p_items is an array of
+-- form_items rows; their order sets display_order. Returns the new form's id.
+CREATE OR REPLACE FUNCTION create_published_form(
+  p_name TEXT,
+  p_project_id BIGINT,
+  p_owner_id UUID,
+  p_items JSONB
+)
+RETURNS BIGINT AS $$
+DECLARE
+  v_form_id BIGINT;
+  v_version_id BIGINT;
+BEGIN
+  INSERT INTO forms (name, owner_id, project_id)
+  VALUES (p_name, p_owner_id, p_project_id)
+  RETURNING id INTO v_form_id;
+
+  INSERT INTO form_versions (form_id, status)
+  VALUES (v_form_id, 'draft')
+  RETURNING id INTO v_version_id;
+
+  INSERT INTO form_items (
+    form_id,
+    form_version_id,
+    item_type,
+    question_value,
+    options,
+    is_required,
+    display_order,
+    metadata,
+    logic
+  )
+  SELECT
+    v_form_id,
+    v_version_id,
+    item.item_type,
+    item.question_value,
+    item.options,
+    item.is_required,
+    (elements.item_index - 1)::INTEGER,
+    item.metadata,
+    item.logic
+  FROM jsonb_array_elements(COALESCE(p_items, '[]'::JSONB)) WITH ORDINALITY AS elements(value, item_index)
+  CROSS JOIN LATERAL jsonb_populate_record(NULL::form_items, elements.value) AS item;
+
+  UPDATE form_versions
+  SET status = 'published', published_by = p_owner_id, published_at = NOW()
+  WHERE id = v_version_id;
+
+  UPDATE forms SET published_version_id = v_version_id WHERE id = v_form_id;
+
+  RETURN v_form_id;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION create_published_form(TEXT, BIGINT, UUID, JSONB) TO authenticated;
+
+-- ===========================================
+-- PUBLISHING
+-- ===========================================
+
+-- Publishes a form's draft and points the form at it in one transaction, so a failure can't
+-- leave the draft frozen while new entries keep going to the old version. The draft is locked
+-- first, so of two people publishing at once the second finds no draft. Returns the id of the
+-- version published.
+CREATE OR REPLACE FUNCTION publish_form_draft(p_form_id BIGINT)
+RETURNS BIGINT AS $$
+DECLARE
+  v_version_id BIGINT;
+BEGIN
+  SELECT id INTO v_version_id
+  FROM form_versions
+  WHERE form_id = p_form_id
+  AND status = 'draft'
+  FOR UPDATE;
+
+  IF v_version_id IS NULL THEN
+    RAISE EXCEPTION 'This form has no draft to publish';
+  END IF;
+
+  UPDATE form_versions
+  SET status = 'published', published_by = auth.uid(), published_at = NOW()
+  WHERE id = v_version_id;
+
+  UPDATE forms SET published_version_id = v_version_id WHERE id = p_form_id;
+
+  RETURN v_version_id;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION publish_form_draft(BIGINT) TO authenticated;
@@ -0,0 +1,26 @@
+-- Migration: One open submission round per approval
+-- Description: Submitting an approval that was already submitted recorded a second open round,
+-- and the next resubmission then archived the same responses onto both. The client now only
+-- records a round when the status changes to submitted; this index rejects any that still race.
+
+-- ===========================================
+-- CLEAN UP
+-- ===========================================
+
+-- Keep the first of any open rounds recorded for the same submission
+DELETE FROM approval_submissions s
+WHERE s.closed_at IS NULL
+AND EXISTS (
+  SELECT 1 FROM approval_submissions earlier
+  WHERE earlier.approval_id = s.approval_id
+  AND earlier.closed_at IS NULL
+  AND earlier.round < s.round
+);
+
+-- ===========================================
+-- CONSTRAINT
+-- ===========================================
+
+CREATE UNIQUE INDEX IF NOT EXISTS approval_submissions_one_open_idx
+  ON public.approval_submissions (approval_id)
+  WHERE closed_at IS NULL;
@@ -0,0 +1,301 @@
+-- Migration: Validate comment mentions
+-- Description: Mention tokens that looked like a UUID without being one failed the cast, and a
+-- token for someone who isn't a user failed the notification insert; either way the comment
+-- couldn't be saved. Mentions now have to be well-formed UUIDs, and only active members of the
+-- task's or approval's project are notified.
+
+-- ===========================================
+-- MENTION HELPERS
+-- ===========================================
+
+-- Distinct user ids mentioned in a comment
+CREATE OR REPLACE FUNCTION extract_comment_mentions(p_content TEXT)
+RETURNS UUID[] AS $$
+  SELECT COALESCE(array_agg(DISTINCT m[1]::UUID), '{}')
+  FROM regexp_matches(
+    COALESCE(p_content, ''),
+    '@\[([0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12})\]',
+    'g'
+  ) AS m;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- The mentioned users who are active members of the project; nobody else is notified
+CREATE OR REPLACE FUNCTION project_member_mentions(p_user_ids UUID[], p_project_id BIGINT)
+RETURNS UUID[] AS $$
+  SELECT COALESCE(array_agg(DISTINCT pu.user_id), '{}')
+  FROM projects_users pu
+  WHERE pu.project_id = p_project_id
+  AND pu.status = 'active'
+  AND pu.user_id = ANY(p_user_ids);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Project of the item an approval is for
+CREATE OR REPLACE FUNCTION approval_entity_project_id(p_entity_type TEXT, p_entity_id BIGINT)
+RETURNS BIGINT AS $$
+DECLARE
+  v_project_id BIGINT;
+BEGIN
+  CASE p_entity_type
+    WHEN 'task', 'tasks' THEN
+      SELECT project_id INTO v_project_id FROM tasks WHERE id = p_entity_id;
+    WHEN 'form' THEN
+      SELECT project_id INTO v_project_id FROM forms WHERE id = p_entity_id;
+    WHEN 'entries' THEN
+      SELECT project_id INTO v_project_id FROM form_entries WHERE id = p_entity_id;
+    WHEN 'site_diary' THEN
+      SELECT project_id INTO v_project_id FROM site_diaries WHERE id = p_entity_id;
+    ELSE
+      v_project_id := NULL;
+  END CASE;
+
+  RETURN v_project_id;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- ===========================================
+-- TASK COMMENT NOTIFICATIONS
+-- ===========================================
+
+-- As before, notifying only mentioned project members
+CREATE OR REPLACE FUNCTION notify_task_comment()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_task RECORD;
+  v_commenter_name TEXT;
+  v_mentioned_users UUID[];
+  v_parent_author UUID;
+  v_preview TEXT;
+  v_user_id UUID;
+  v_assignee_id UUID;
+  v_data JSONB;
+BEGIN
+  -- Get task details
+  SELECT t.*, p.name as project_name
+  INTO v_task
+  FROM tasks t
+  LEFT JOIN projects p ON t.project_id = p.id
+  WHERE t.id = NEW.task_id;
+
+  -- Get commenter name
+  SELECT first_name || ' ' || last_name INTO v_commenter_name
+  FROM user_profiles WHERE id = NEW.user_id;
+
+  v_mentioned_users := project_member_mentions(extract_comment_mentions(NEW.content), v_task.project_id);
+  v_preview := LEFT(render_comment_mentions(NEW.content), 100);
+
+  IF NEW.parent_id IS NOT NULL THEN
+    SELECT user_id INTO v_parent_author FROM task_comments WHERE id = NEW.parent_id;
+  END IF;
+
+  v_data := jsonb_build_object(
+    'task_id', NEW.task_id,
+    'task_title', v_task.title,
+    'comment_id', NEW.id,
+    'parent_comment_id', NEW.parent_id,
+    'comment_preview', v_preview,
+    'project_name', v_task.project_name,
+    'commenter_id', NEW.user_id,
+    'commenter_name', v_commenter_name
+  );
+
+  -- Notify the author of the comment being replied to
+  IF v_parent_author IS NOT NULL
+    AND v_parent_author != NEW.user_id
+    AND NOT v_parent_author = ANY(v_mentioned_users) THEN
+    PERFORM create_notification(
+      p_user_id => v_parent_author,
+      p_type => 'task_comment',
+      p_template_name => 'reply',
+      p_template_data => ARRAY[COALESCE(v_commenter_name, 'Someone'), v_task.title],
+      p_data => v_data,
+      p_entity_type => 'task_comment',
+      p_entity_id => NEW.id::TEXT,
+      p_priority => 'medium',
+      p_created_by => NEW.user_id
+    );
+  END IF;
+
+  -- Notify all task assignees (if not the commenter or notified above/below)
+  FOR v_assignee_id IN
+    SELECT user_id
+    FROM entity_assignees
+    WHERE entity_type = 'task' AND entity_id = NEW.task_id
+  LOOP
+    IF v_assignee_id != NEW.user_id
+      AND v_assignee_id IS DISTINCT FROM v_parent_author
+      AND NOT v_assignee_id = ANY(v_mentioned_users) THEN
+      PERFORM create_notification(
+        p_user_id => v_assignee_id,
+        p_type => 'task_comment',
+        p_template_name => 'default',
+        p_template_data => ARRAY[COALESCE(v_commenter_name, 'Someone'), v_task.title],
+        p_data => v_data,
+        p_entity_type => 'task_comment',
+        p_entity_id => NEW.id::TEXT,
+        p_priority => 'medium',
+        p_created_by => NEW.user_id
+      );
+    END IF;
+  END LOOP;
+
+  -- Notify mentioned users
+  FOREACH v_user_id IN ARRAY v_mentioned_users LOOP
+    IF v_user_id != NEW.user_id THEN
+      PERFORM create_notification(
+        p_user_id => v_user_id,
+        p_type => 'comment_mention',
+        p_template_name => 'default',
+        p_template_data => ARRAY[COALESCE(v_commenter_name, 'Someone'), v_task.title],
+        p_data => v_data,
+        p_entity_type => 'task_comment',
+        p_entity_id => NEW.id::TEXT,
+        p_priority => 'high',
+        p_created_by => NEW.user_id
+      );
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ===========================================
+-- APPROVAL COMMENT NOTIFICATIONS
+-- ===========================================
+
+-- As before, notifying only mentioned members of the approval's project
+CREATE OR REPLACE FUNCTION notify_approval_comment()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_approval RECORD;
+  v_commenter_name TEXT;
+  v_approver RECORD;
+  v_entity_title TEXT;
+  v_mentioned_users UUID[];
+  v_preview TEXT;
+  v_user_id UUID;
+BEGIN
+  -- Get approval details
+  SELECT * INTO v_approval
+  FROM approvals
+  WHERE id = NEW.approval_id;
+
+  -- Get entity title
+  IF v_approval.entity_type IS NOT NULL AND v_approval.entity_id IS NOT NULL THEN
+    CASE v_approval.entity_type
+      WHEN 'task' THEN
+        SELECT title INTO v_entity_title FROM tasks WHERE id = v_approval.entity_id;
+      WHEN 'form' THEN
+        SELECT name INTO v_entity_title FROM forms WHERE id = v_approval.entity_id;
+      WHEN 'entries' THEN
+        SELECT name INTO v_entity_title FROM form_entries WHERE id = v_approval.entity_id;
+      WHEN 'site_diary' THEN
+        SELECT name INTO v_entity_title FROM site_diaries WHERE id = v_approval.entity_id;
+      ELSE
+        v_entity_title := 'Unknown Entity';
+    END CASE;
+  ELSE
+    v_entity_title := 'General Approval';
+  END IF;
+
+  -- Get commenter name
+  SELECT first_name || ' ' || last_name INTO v_commenter_name
+  FROM user_profiles WHERE id = NEW.user_id;
+
+  v_mentioned_users := project_member_mentions(
+    extract_comment_mentions(NEW.comment),
+    approval_entity_project_id(v_approval.entity_type::TEXT, v_approval.entity_id)
+  );
+  v_preview := LEFT(render_comment_mentions(NEW.comment), 100);
+
+  -- Notify the requester (if not the commenter or mentioned below)
+  IF v_approval.requester_id != NEW.user_id AND NOT v_approval.requester_id = ANY(v_mentioned_users) THEN
+    PERFORM create_notification(
+      p_user_id => v_approval.requester_id,
+      p_type => 'approval_requested',
+      p_template_name => 'comment_notification',
+      p_template_data => ARRAY[COALESCE(v_commenter_name, 'Someone'), COALESCE(v_entity_title, 'Unknown Item')],
+      p_data => jsonb_build_object(
+        'approval_id', NEW.approval_id,
+        'comment_id', NEW.id,
+        'comment_preview', v_preview,
+        'entity_type', v_approval.entity_type,
+        'entity_id', v_approval.entity_id,
+        'entity_title', v_entity_title,
+        'commenter_id', NEW.user_id,
+        'commenter_name', v_commenter_name,
+        'role', 'requester'
+      ),
+      p_entity_type => 'approval_comment',
+      p_entity_id => NEW.id::TEXT,
+      p_priority => 'medium',
+      p_created_by => NEW.user_id
+    );
+  END IF;
+
+  -- Notify all other approvers (excluding the commenter and anyone mentioned)
+  FOR v_approver IN
+    SELECT * FROM approval_approvers
+    WHERE approval_id = NEW.approval_id
+    AND approver_id != NEW.user_id
+    AND NOT approver_id = ANY(v_mentioned_users)
+  LOOP
+    PERFORM create_notification(
+      p_user_id => v_approver.approver_id,
+      p_type => 'approval_requested',
+      p_template_name => 'comment_notification',
+      p_template_data => ARRAY[COALESCE(v_commenter_name, 'Someone'), COALESCE(v_entity_title, 'Unknown Item')],
+      p_data => jsonb_build_object(
+        'approval_id', NEW.approval_id,
+        'comment_id', NEW.id,
+        'comment_preview', v_preview,
+        'entity_type', v_approval.entity_type,
+        'entity_id', v_approval.entity_id,
+        'entity_title', v_entity_title,
+        'commenter_id', NEW.user_id,
+        'commenter_name', v_commenter_name,
+        'role', 'approver'
+      ),
+      p_entity_type => 'approval_comment',
+      p_entity_id => NEW.id::TEXT,
+      p_priority => 'medium',
+      p_created_by => NEW.user_id
+    );
+  END LOOP;
+
+  -- Notify mentioned users
+  FOREACH v_user_id IN ARRAY v_mentioned_users LOOP
+    IF v_user_id != NEW.user_id THEN
+      PERFORM create_notification(
+        p_user_id => v_user_id,
+        p_type => 'comment_mention',
+        p_template_name => 'approval_comment',
+        p_template_data => ARRAY[COALESCE(v_commenter_name, 'Someone'), COALESCE(v_entity_title, 'Unknown Item')],
+        p_data => jsonb_build_object(
+          'approval_id', NEW.approval_id,
+          'comment_id', NEW.id,
+          'comment_preview', v_preview,
+          'entity_type', v_approval.entity_type,
+          'entity_id', v_approval.entity_id,
+          'entity_title', v_entity_title,
+          'commenter_id', NEW.user_id,
+          'commenter_name', v_commenter_name,
+          'role', 'mentioned'
+        ),
+        p_entity_type => 'approval_comment',
+        p_entity_id => NEW.id::TEXT,
+        p_priority => 'high',
+        p_created_by => NEW.user_id
+      );
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION project_member_mentions IS 'Filters mentioned user ids down to the active members of a project';
+COMMENT ON FUNCTION approval_entity_project_id IS 'Returns the project of the item an approval is for';
+
+GRANT EXECUTE ON FUNCTION project_member_mentions(UUID[], BIGINT) TO authenticated;
+GRANT EXECUTE ON FUNCTION approval_entity_project_id(TEXT, BIGINT) TO authenticated;